@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { ShoppingCart, RefreshCw, Trash2, Package, Store, AlertTriangle, Send } from 'lucide-react';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { useCart } from '@/hooks/useCart';
+import { MAX_CART_QUANTITY } from '@/services/business/CartService';
+import { formatProductPrice, getProductPathFromAddress } from '@/types/shop';
+import type { CartSellerGroup } from '@/types/cart';
+import { getCartItemKey } from '@/types/cart';
+import type { CheckoutDetails } from '@/types/order';
+
+const EMPTY_DETAILS: CheckoutDetails = { name: '', address: '', message: '' };
+
+export default function CartPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const {
+    groups,
+    itemCount,
+    validation,
+    isRevalidating,
+    checkoutSeller,
+    error,
+    updateQuantity,
+    remove,
+    revalidate,
+    checkout,
+  } = useCart();
+  const [details, setDetails] = useState<Record<string, CheckoutDetails>>({});
+
+  // Prices and availability may have changed since items were added
+  useEffect(() => {
+    if (isHydrated && user) {
+      void revalidate();
+    }
+  }, [isHydrated, user, revalidate]);
+
+  const updateDetails = (sellerPubkey: string, field: keyof CheckoutDetails, value: string) => {
+    setDetails(prev => ({ ...prev, [sellerPubkey]: { ...(prev[sellerPubkey] || EMPTY_DETAILS), [field]: value } }));
+  };
+
+  const handleCheckout = async (group: CartSellerGroup) => {
+    const orderId = await checkout(group, details[group.sellerPubkey] || EMPTY_DETAILS);
+    if (orderId) {
+      router.push(`/my-orders?order=${encodeURIComponent(orderId)}`);
+    }
+  };
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view your cart.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <ShoppingCart className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold">
+                My Cart
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Items from every seller in one place. Check out one seller at a time with an encrypted order and follow it in My Orders.
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Package className="w-4 h-4 mr-2 text-white" />
+                <span>{itemCount} {itemCount === 1 ? 'item' : 'items'}</span>
+              </div>
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Store className="w-4 h-4 mr-2 text-white" />
+                <span>{groups.length} {groups.length === 1 ? 'seller' : 'sellers'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-serif font-bold text-purple-800">Items by Seller</h2>
+          <button
+            type="button"
+            onClick={() => void revalidate()}
+            disabled={isRevalidating || groups.length === 0}
+            className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isRevalidating ? 'animate-spin' : ''}`} />
+            Refresh Prices
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <div className="card p-12 text-center">
+            <ShoppingCart className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-purple-800 mb-2">Your cart is empty</h3>
+            <p className="text-gray-600 mb-6">Browse the shop and add items from any seller.</p>
+            <Link href="/shop" className="btn-primary-sm">
+              Go to Shop
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => {
+              const isCheckingOut = checkoutSeller === group.sellerPubkey;
+              const allUnavailable = group.items.every(item => validation[getCartItemKey(item)]?.status === 'unavailable');
+
+              return (
+                <section key={group.sellerPubkey} className="card p-5">
+                  <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <Store className="w-5 h-5 text-purple-600" />
+                    </div>
+                    <p className="font-medium text-purple-900 truncate">
+                      {group.sellerPubkey.slice(0, 8)}...{group.sellerPubkey.slice(-8)}
+                    </p>
+                  </div>
+
+                  <ul className="divide-y divide-gray-100">
+                    {group.items.map(item => {
+                      const key = getCartItemKey(item);
+                      const status = validation[key];
+                      const unavailable = status?.status === 'unavailable';
+
+                      return (
+                        <li key={key} className="py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                          <div className="flex items-center gap-4 flex-1 min-w-0">
+                            <div className="w-16 h-16 rounded-lg bg-purple-50 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                              {item.imageUrl ? (
+                                <Image
+                                  src={item.imageUrl}
+                                  alt={item.title}
+                                  width={64}
+                                  height={64}
+                                  className="w-full h-full object-cover"
+                                  unoptimized
+                                />
+                              ) : (
+                                <Package className="w-6 h-6 text-purple-300" />
+                              )}
+                            </div>
+                            <div className="min-w-0">
+                              <Link
+                                href={getProductPathFromAddress(item.address)}
+                                className={`font-semibold truncate block hover:text-purple-600 ${unavailable ? 'text-gray-400 line-through' : 'text-purple-900'}`}
+                              >
+                                {item.title}
+                              </Link>
+                              {item.variantName && (
+                                <p className="text-sm text-purple-700">{item.variantName}</p>
+                              )}
+                              <p className="text-sm text-gray-600">
+                                {formatProductPrice(item.price, item.currency)} each
+                              </p>
+                              {status?.status === 'price-changed' && status.previousPrice !== undefined && (
+                                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  Price changed from {formatProductPrice(status.previousPrice, item.currency)}
+                                </span>
+                              )}
+                              {unavailable && (
+                                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  No longer available
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <label htmlFor={`qty-${key}`} className="sr-only">Quantity</label>
+                            <input
+                              id={`qty-${key}`}
+                              type="number"
+                              min={1}
+                              max={MAX_CART_QUANTITY}
+                              value={item.quantity}
+                              disabled={unavailable}
+                              onChange={(e) => updateQuantity(key, Number(e.target.value) || 1)}
+                              className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500 disabled:bg-gray-100"
+                            />
+                            <span className="w-28 text-right text-sm font-semibold text-purple-900">
+                              {formatProductPrice(item.price * item.quantity, item.currency)}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => remove(key)}
+                              className="p-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                              aria-label={`Remove ${item.title} from cart`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Subtotal</span>
+                      <span className="font-semibold text-purple-900">
+                        {Object.entries(group.subtotals)
+                          .map(([currency, amount]) => formatProductPrice(amount, currency))
+                          .join(' + ')}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <input
+                        type="text"
+                        value={details[group.sellerPubkey]?.name || ''}
+                        onChange={(e) => updateDetails(group.sellerPubkey, 'name', e.target.value)}
+                        placeholder="Name for shipping"
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                      <input
+                        type="text"
+                        value={details[group.sellerPubkey]?.address || ''}
+                        onChange={(e) => updateDetails(group.sellerPubkey, 'address', e.target.value)}
+                        placeholder="Shipping address (leave empty for digital items)"
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </div>
+                    <textarea
+                      value={details[group.sellerPubkey]?.message || ''}
+                      onChange={(e) => updateDetails(group.sellerPubkey, 'message', e.target.value)}
+                      placeholder="Message for the seller (optional)"
+                      rows={2}
+                      className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Your order and address are sent end-to-end encrypted to this seller only.
+                    </p>
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={() => void handleCheckout(group)}
+                        disabled={checkoutSeller !== null || allUnavailable}
+                        className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Send className="w-4 h-4" />
+                        {isCheckingOut ? 'Sending Order...' : 'Check Out with Seller'}
+                      </button>
+                    </div>
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { ClipboardList, RefreshCw, ShoppingBag, Store } from 'lucide-react';
+import { OrderCard } from '@/components/pages/OrderCard';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { useOrders } from '@/hooks/useOrders';
+import { useWallet } from '@/hooks/useWallet';
+import { useReviewPublishing } from '@/hooks/useReviewPublishing';
+import { useDeliverableDownload } from '@/hooks/useDeliverableDownload';
+import type { OrderRole } from '@/types/order';
+
+function MyOrdersPageContent() {
+  const searchParams = useSearchParams();
+  const selectedOrderId = searchParams?.get('order') ?? null;
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const { orders, pubkey, isLoading, updatingOrderId, error, refresh, requestPayment, updateStatus } = useOrders();
+  const { wallet, canPay, isPaying, error: walletError, pay, receive } = useWallet();
+  const { isPublishing: isReviewing, error: reviewError, publish: publishReview } = useReviewPublishing();
+  const { downloadingUrl, error: downloadError, download } = useDeliverableDownload();
+  const [role, setRole] = useState<OrderRole>('buyer');
+
+  const purchases = useMemo(() => orders.filter(order => order.buyerPubkey === pubkey), [orders, pubkey]);
+  const sales = useMemo(() => orders.filter(order => order.sellerPubkey === pubkey), [orders, pubkey]);
+  const visibleOrders = role === 'buyer' ? purchases : sales;
+
+  // Open the tab of an order linked from checkout or Messages
+  useEffect(() => {
+    if (!selectedOrderId) return;
+    const selected = orders.find(order => order.id === selectedOrderId);
+    if (selected) {
+      setRole(selected.sellerPubkey === pubkey ? 'seller' : 'buyer');
+      document.getElementById(`order-${selected.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [selectedOrderId, orders, pubkey]);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view your orders.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <ClipboardList className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold">
+                My Orders
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Orders, payment requests and shipping updates, exchanged as end-to-end encrypted messages.
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <ShoppingBag className="w-4 h-4 mr-2 text-white" />
+                <span>{purchases.length} {purchases.length === 1 ? 'purchase' : 'purchases'}</span>
+              </div>
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Store className="w-4 h-4 mr-2 text-white" />
+                <span>{sales.length} {sales.length === 1 ? 'sale' : 'sales'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="inline-flex rounded-lg bg-white shadow-sm ring-1 ring-purple-100 p-1">
+            {(['buyer', 'seller'] as OrderRole[]).map(tab => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setRole(tab)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  role === tab ? 'bg-purple-600 text-white' : 'text-purple-700 hover:bg-purple-50'
+                }`}
+              >
+                {tab === 'buyer' ? `Purchases (${purchases.length})` : `Sales (${sales.length})`}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            disabled={isLoading}
+            className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {(error || walletError || reviewError || downloadError) && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+            {error || walletError || reviewError || downloadError}
+          </div>
+        )}
+
+        {isLoading && orders.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Decrypting your orders...</p>
+          </div>
+        ) : visibleOrders.length === 0 ? (
+          <div className="card p-12 text-center">
+            <ClipboardList className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-purple-800 mb-2">
+              {role === 'buyer' ? 'No purchases yet' : 'No sales yet'}
+            </h3>
+            <p className="text-gray-600 mb-6">
+              {role === 'buyer'
+                ? 'Check out from your cart to place an order with a seller.'
+                : 'Orders for your listings will show up here.'}
+            </p>
+            <Link href={role === 'buyer' ? '/shop' : '/my-shop'} className="btn-primary-sm">
+              {role === 'buyer' ? 'Go to Shop' : 'Go to My Shop'}
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleOrders.map(order => (
+              <OrderCard
+                key={order.id}
+                order={order}
+                role={role}
+                isSelected={order.id === selectedOrderId}
+                isUpdating={updatingOrderId === order.id}
+                canPayWithWallet={canPay}
+                canReceiveWithWallet={!!wallet?.methods.includes('make_invoice')}
+                isPaying={isPaying}
+                onRequestPayment={requestPayment}
+                onUpdateStatus={updateStatus}
+                onPayInvoice={pay}
+                onCreateInvoice={receive}
+                isReviewing={isReviewing}
+                onReview={async review => !!(await publishReview(review))}
+                downloadingUrl={downloadingUrl}
+                onDownload={delivery => void download(delivery)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MyOrdersPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <MyOrdersPageContent />
+    </Suspense>
+  );
+}
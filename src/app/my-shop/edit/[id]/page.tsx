@@ -7,6 +7,7 @@ import { useAuthStore } from '@/stores/useAuthStore';
 import { fetchProductById } from '@/services/business/ShopService';
 import { ProductEvent } from '@/types/shop';
 import { logger } from '@/services/core/LoggingService';
+import { toDateInputValue } from '@/utils/dateUtils';
 import { Store, Loader2, AlertCircle } from 'lucide-react';
 import { ProductForm } from '@/components/pages/ProductForm';
 
@@ -183,6 +184,13 @@ export default function EditProductPage() {
     condition: product.condition as 'new' | 'used' | 'refurbished',
     location: product.location,
     contact: product.contact,
+    availability: product.availability,
+    quantity: product.quantity === null ? '' : product.quantity.toString(),
+    variants: product.variants,
+    deliveryMethods: product.deliveryMethods,
+    shippingZones: product.shippingZones,
+    deliverable: product.deliverable,
+    expiresAt: toDateInputValue(product.expiresAt),
     tags: product.tags,
     attachments,
     dTag,
@@ -15,7 +15,7 @@ import { ProductCardData } from '@/types/shop';
 import { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS } from '@/config/shop';
 import { logger } from '@/services/core/LoggingService';
 import { useNostrSigner } from '@/hooks/useNostrSigner';
-import { deleteProduct, fetchProductById } from '@/services/business/ShopService';
+import { deleteProduct, fetchProductById, renewProduct } from '@/services/business/ShopService';
 import { Store, Plus, Search, Filter } from 'lucide-react';
 
 export default function MyShopPage() {
@@ -42,6 +42,7 @@ export default function MyShopPage() {
     isDeleting,
     deleteError,
     removeProduct,
+    updateProduct,
     startEditing,
     showDeleteDialog,
     openDeleteDialog,
@@ -53,6 +54,7 @@ export default function MyShopPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [conditionFilter, setConditionFilter] = useState('all');
+  const [renewingId, setRenewingId] = useState<string | null>(null);
 
   // Filter products
   const filteredProducts = useMemo(() => {
@@ -110,6 +112,33 @@ export default function MyShopPage() {
     openDeleteDialog(product);
   };
 
+  const handleRenew = async (product: ProductCardData) => {
+    const signer = await getSigner();
+    if (!signer) {
+      alert('Please connect a Nostr signer to renew products');
+      return;
+    }
+
+    setRenewingId(product.id);
+    try {
+      const result = await renewProduct(product.dTag, signer);
+      if (!result.success || !result.product) {
+        throw new Error(result.error || 'Failed to renew product');
+      }
+      updateProduct(product.id, result.product);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to renew product';
+      logger.error('Error renewing product', err instanceof Error ? err : new Error(errorMsg), {
+        service: 'MyShopPage',
+        method: 'handleRenew',
+        dTag: product.dTag,
+      });
+      alert(`Error: ${errorMsg}`);
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
   const handleClearFilters = () => {
     setSearchQuery('');
     setCategoryFilter('all');
@@ -139,7 +168,8 @@ export default function MyShopPage() {
         fullProduct.id, // eventId
         signer,
         user.pubkey,
-        fullProduct.title
+        fullProduct.title,
+        fullProduct.dTag
       );
 
       if (result.success) {
@@ -401,6 +431,8 @@ export default function MyShopPage() {
                 variant="my-shop"
                 onEdit={() => handleEdit(product)}
                 onDelete={() => handleDelete(product)}
+                onRenew={() => handleRenew(product)}
+                isRenewing={renewingId === product.id}
               />
             ))}
           </div>
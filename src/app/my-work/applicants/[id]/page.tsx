@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Inbox, RefreshCw, Users } from 'lucide-react';
+import { ProposalCard } from '@/components/pages/ProposalCard';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { useProposals } from '@/hooks/useProposals';
+import { useContracts } from '@/hooks/useContracts';
+import { fetchWorkById } from '@/services/business/WorkService';
+import { PROPOSAL_STATUS_LABELS, getWorkAddress } from '@/services/business/ProposalService';
+import { logger } from '@/services/core/LoggingService';
+import type { ProposalStatus } from '@/types/proposal';
+
+const STATUS_TABS: Array<ProposalStatus | 'all'> = ['all', 'submitted', 'shortlisted', 'hired', 'rejected'];
+
+/**
+ * Applicant inbox for one of the user's work listings
+ * Proposals arrive as NIP-17 messages; shortlist / reject / hire decisions are sent back to the applicant.
+ */
+export default function WorkApplicantsPage() {
+  const params = useParams();
+  const workId = decodeURIComponent(params.id as string);
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const { proposals, isLoading, updatingProposalId, error, refresh, updateStatus } = useProposals();
+  const { contracts, updatingContractId, error: contractError, propose } = useContracts();
+  const [workTitle, setWorkTitle] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ProposalStatus | 'all'>('all');
+
+  useEffect(() => {
+    if (!user?.pubkey) return;
+
+    fetchWorkById(workId)
+      .then(work => setWorkTitle(work?.title ?? null))
+      .catch(err => {
+        logger.error('Error loading work opportunity', err instanceof Error ? err : new Error('Unknown error'), {
+          service: 'WorkApplicantsPage',
+          method: 'loadWork',
+          workId,
+        });
+      });
+  }, [workId, user?.pubkey]);
+
+  const applicants = useMemo(() => {
+    if (!user?.pubkey) return [];
+    const address = getWorkAddress(user.pubkey, workId);
+    return proposals.filter(proposal => proposal.workAddress === address);
+  }, [proposals, user?.pubkey, workId]);
+
+  const contractIds = useMemo(
+    () => new Map(contracts.map(contract => [contract.proposalId, contract.id])),
+    [contracts]
+  );
+
+  const filterByStatus = (status: ProposalStatus | 'all') => (
+    status === 'all' ? applicants : applicants.filter(proposal => proposal.status === status)
+  );
+  const visibleApplicants = filterByStatus(statusFilter);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view applicants.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <Users className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl font-serif font-bold">
+                Applicants
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              {workTitle ? `Proposals for "${workTitle}"` : 'Proposals for your work listing'}, received as end-to-end encrypted messages.
+            </p>
+            <div className="flex items-center justify-center">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Inbox className="w-4 h-4 mr-2 text-white" />
+                <span>{applicants.length} {applicants.length === 1 ? 'proposal' : 'proposals'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Link href="/my-work" className="inline-flex items-center gap-2 text-sm text-purple-600 hover:text-purple-800 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to My Work
+        </Link>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="inline-flex flex-wrap rounded-lg bg-white shadow-sm ring-1 ring-purple-100 p-1">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setStatusFilter(tab)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  statusFilter === tab ? 'bg-purple-600 text-white' : 'text-purple-700 hover:bg-purple-50'
+                }`}
+              >
+                {tab === 'all' ? 'All' : PROPOSAL_STATUS_LABELS[tab]} ({filterByStatus(tab).length})
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            disabled={isLoading}
+            className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {(error || contractError) && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+            {error || contractError}
+          </div>
+        )}
+
+        {isLoading && applicants.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Decrypting proposals...</p>
+          </div>
+        ) : visibleApplicants.length === 0 ? (
+          <div className="card p-12 text-center">
+            <Inbox className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-purple-800 mb-2">No proposals here</h3>
+            <p className="text-gray-600">
+              Proposals sent from your listing&apos;s Apply button will show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleApplicants.map(proposal => (
+              <ProposalCard
+                key={proposal.id}
+                proposal={proposal}
+                isUpdating={updatingProposalId === proposal.id}
+                onUpdateStatus={updateStatus}
+                contractId={contractIds.get(proposal.id)}
+                isProposingContract={updatingContractId === proposal.id}
+                onProposeContract={propose}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, FileSignature, Lock, RefreshCw } from 'lucide-react';
+import { ContractCard } from '@/components/pages/ContractCard';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { useContracts } from '@/hooks/useContracts';
+import { getContractRole } from '@/services/business/EscrowService';
+import type { ContractRole } from '@/types/escrow';
+
+const ROLE_TABS: Array<{ role: ContractRole; label: string }> = [
+  { role: 'client', label: 'Hiring' },
+  { role: 'freelancer', label: 'Working' },
+];
+
+/**
+ * Work contracts with Lightning escrow milestones, as client and as freelancer
+ * Contract steps arrive as signed NIP-17 messages; milestone payments are held in hold invoices.
+ */
+export default function WorkContractsPage() {
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const {
+    contracts,
+    isLoading,
+    updatingContractId,
+    pendingFunding,
+    error,
+    refresh,
+    accept,
+    startFunding,
+    simulatePayment,
+    confirmFunding,
+    cancelFunding,
+    deliver,
+    release,
+    cancel,
+  } = useContracts();
+  const [roleFilter, setRoleFilter] = useState<ContractRole>('client');
+
+  const filterByRole = (role: ContractRole) => contracts.filter(contract => getContractRole(contract, user?.pubkey) === role);
+  const visibleContracts = filterByRole(roleFilter);
+  const heldSats = contracts
+    .flatMap(contract => contract.milestones)
+    .filter(milestone => milestone.status === 'funded' || milestone.status === 'delivered')
+    .reduce((sum, milestone) => sum + milestone.amountSats, 0);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view your contracts.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <FileSignature className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl font-serif font-bold">
+                Contracts
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Milestones paid into Lightning escrow and released once the work is delivered, with every step signed by both sides.
+            </p>
+            <div className="flex items-center justify-center">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Lock className="w-4 h-4 mr-2 text-white" />
+                <span>{heldSats.toLocaleString()} sats held in escrow</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Link href="/my-work" className="inline-flex items-center gap-2 text-sm text-purple-600 hover:text-purple-800 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to My Work
+        </Link>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="inline-flex flex-wrap rounded-lg bg-white shadow-sm ring-1 ring-purple-100 p-1">
+            {ROLE_TABS.map(tab => (
+              <button
+                key={tab.role}
+                type="button"
+                onClick={() => setRoleFilter(tab.role)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  roleFilter === tab.role ? 'bg-purple-600 text-white' : 'text-purple-700 hover:bg-purple-50'
+                }`}
+              >
+                {tab.label} ({filterByRole(tab.role).length})
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            disabled={isLoading}
+            className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading && contracts.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Decrypting contracts...</p>
+          </div>
+        ) : visibleContracts.length === 0 ? (
+          <div className="card p-12 text-center">
+            <FileSignature className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-purple-800 mb-2">No contracts here</h3>
+            <p className="text-gray-600">
+              {roleFilter === 'client'
+                ? 'Hire an applicant from your listing’s applicants to propose an escrow contract.'
+                : 'Contracts proposed by clients who hired you will show up here.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleContracts.map(contract => (
+              <ContractCard
+                key={contract.id}
+                contract={contract}
+                role={roleFilter}
+                pendingFunding={pendingFunding}
+                isUpdating={updatingContractId === contract.id}
+                onAccept={accept}
+                onStartFunding={startFunding}
+                onSimulatePayment={simulatePayment}
+                onConfirmFunding={confirmFunding}
+                onCancelFunding={cancelFunding}
+                onDeliver={deliver}
+                onRelease={release}
+                onCancel={cancel}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
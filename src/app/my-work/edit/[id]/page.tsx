@@ -8,6 +8,7 @@ import type { WorkEvent } from '@/types/work';
 import { WorkForm } from '@/components/pages/WorkForm';
 import type { GenericAttachment } from '@/types/attachments';
 import { logger } from '@/services/core/LoggingService';
+import { toDateInputValue } from '@/utils/dateUtils';
 import { Briefcase } from 'lucide-react';
 
 export default function WorkEditPage() {
@@ -135,13 +136,16 @@ export default function WorkEditPage() {
       category: work.category,
       jobType: work.jobType,
       duration: work.duration,
-      payRate: String(work.payRate),
-      currency: work.currency,
+      payAmount: work.compensation ? String(work.compensation.amount) : '',
+      payMaxAmount: work.compensation?.maxAmount !== undefined ? String(work.compensation.maxAmount) : '',
+      payCurrency: work.compensation?.currency ?? '',
+      payPeriod: work.compensation?.period ?? '',
       contact: work.contact,
       language: work.language,
       location: work.location,
       region: work.region,
       country: work.country,
+      expiresAt: toDateInputValue(work.expiresAt),
       tags: work.tags,
       attachments,
       dTag: work.dTag,
@@ -6,14 +6,19 @@ import Link from 'next/link';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { useAuthHydration } from '@/hooks/useAuthHydration';
 import { useNostrSigner } from '@/hooks/useNostrSigner';
-import { fetchWorkByAuthor, deleteWork, fetchWorkById } from '@/services/business/WorkService';
+import { useProposals } from '@/hooks/useProposals';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { fetchWorkByAuthor, deleteWork, fetchWorkById, renewWork, getHourlyEquivalent } from '@/services/business/WorkService';
 import { UnifiedWorkCard, UnifiedWorkData } from '@/components/generic/UnifiedWorkCard';
 import { DeleteConfirmationModal } from '@/components/generic/DeleteConfirmationModal';
 import { StatCard } from '@/components/generic/StatCard';
 import { StatBreakdown } from '@/components/generic/StatBreakdown';
 import { WORK_CATEGORIES, WORK_JOB_TYPES } from '@/config/work';
+import { getWorkAddress } from '@/services/business/ProposalService';
 import { logger } from '@/services/core/LoggingService';
-import { Search, Briefcase, Plus } from 'lucide-react';
+import { formatProductPrice } from '@/types/shop';
+import type { WorkCompensation } from '@/types/work';
+import { Search, Briefcase, FileSignature, Plus } from 'lucide-react';
 
 // Work card data interface (similar to ContributionCardData)
 interface WorkCardData {
@@ -24,8 +29,7 @@ interface WorkCardData {
   jobType: string;
   category: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   location: string;
   region: string;
   country?: string;
@@ -33,6 +37,7 @@ interface WorkCardData {
   tags: string[];
   pubkey: string;
   createdAt: number;
+  expiresAt: number | null;
 }
 
 // Adapter: Convert WorkCardData to UnifiedWorkData
@@ -45,8 +50,7 @@ function toUnifiedData(data: WorkCardData): UnifiedWorkData {
     jobType: data.jobType,
     category: data.category,
     duration: data.duration,
-    payRate: data.payRate,
-    currency: data.currency,
+    compensation: data.compensation,
     location: data.location,
     region: data.region,
     country: data.country,
@@ -54,6 +58,7 @@ function toUnifiedData(data: WorkCardData): UnifiedWorkData {
     tags: data.tags,
     pubkey: data.pubkey,
     createdAt: data.createdAt,
+    expiresAt: data.expiresAt,
     // These fields are not present in WorkCardData
     mediaCount: undefined,
     relativeTime: undefined,
@@ -65,6 +70,8 @@ export default function MyWorkPage() {
   const { user } = useAuthStore();
   const isHydrated = useAuthHydration();
   const { getSigner } = useNostrSigner();
+  const { proposals } = useProposals();
+  const { displayCurrency, rates } = useExchangeRates();
 
   // Debug logging to track auth state
   useEffect(() => {
@@ -87,6 +94,9 @@ export default function MyWorkPage() {
   const [workToDelete, setWorkToDelete] = useState<WorkCardData | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Work item being renewed (NIP-40 expiration bump)
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [jobTypeFilter, setJobTypeFilter] = useState('all');
@@ -115,8 +125,7 @@ export default function MyWorkPage() {
           jobType: event.jobType,
           category: event.category,
           duration: event.duration,
-          payRate: event.payRate,
-          currency: event.currency,
+          compensation: event.compensation,
           location: event.location,
           region: event.region,
           country: event.country,
@@ -124,6 +133,7 @@ export default function MyWorkPage() {
           tags: event.tags,
           pubkey: event.pubkey,
           createdAt: event.createdAt,
+          expiresAt: event.expiresAt,
         }));
 
         setWorkItems(cardData);
@@ -142,6 +152,15 @@ export default function MyWorkPage() {
     loadWorkItems();
   }, [user?.pubkey]);
 
+  // Proposals received per listing (work address -> count)
+  const applicantCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    proposals
+      .filter(proposal => proposal.posterPubkey === user?.pubkey)
+      .forEach(proposal => counts.set(proposal.workAddress, (counts.get(proposal.workAddress) || 0) + 1));
+    return counts;
+  }, [proposals, user?.pubkey]);
+
   // Filter work items
   const filteredWorkItems = useMemo(() => {
     return workItems.filter(work => {
@@ -165,7 +184,7 @@ export default function MyWorkPage() {
   const statistics = useMemo(() => {
     const byJobType: Record<string, number> = {};
     const byCategory: Record<string, number> = {};
-    let totalPayRate = 0;
+    const hourlyRates: number[] = [];
 
     workItems.forEach(work => {
       // Count by job type
@@ -174,20 +193,22 @@ export default function MyWorkPage() {
       // Count by category
       byCategory[work.category] = (byCategory[work.category] || 0) + 1;
 
-      // Sum pay rates (for average calculation)
-      totalPayRate += work.payRate;
+      // Collect hourly-equivalent pay (fixed-price work has none)
+      const hourly = getHourlyEquivalent(work.compensation, displayCurrency, rates);
+      if (hourly !== null) hourlyRates.push(hourly);
     });
 
-    const avgPayRate = workItems.length > 0 ? totalPayRate / workItems.length : 0;
+    const avgPayRate = hourlyRates.length > 0
+      ? hourlyRates.reduce((sum, rate) => sum + rate, 0) / hourlyRates.length
+      : null;
 
     return {
       total: workItems.length,
       byJobType,
       byCategory,
-      averagePayRate: avgPayRate,
-      formattedAvgPayRate: `$${Math.round(avgPayRate)}`,
+      formattedAvgPayRate: avgPayRate === null ? '—' : formatProductPrice(avgPayRate, displayCurrency),
     };
-  }, [workItems]);
+  }, [workItems, displayCurrency, rates]);
 
   // Handlers
   const handleEdit = (work: WorkCardData) => {
@@ -199,6 +220,38 @@ export default function MyWorkPage() {
     setDeleteModalOpen(true);
   };
 
+  const handleRenew = async (work: WorkCardData) => {
+    const signer = await getSigner();
+    if (!signer) {
+      alert('Please connect a Nostr signer to renew work opportunities');
+      return;
+    }
+
+    setRenewingId(work.id);
+    try {
+      const result = await renewWork(work.dTag, signer);
+      if (!result.success || !result.work) {
+        throw new Error(result.error || 'Failed to renew work opportunity');
+      }
+      const renewed = result.work;
+      setWorkItems(prev => prev.map(w => (
+        w.id === work.id
+          ? { ...w, id: renewed.id, createdAt: renewed.createdAt, expiresAt: renewed.expiresAt }
+          : w
+      )));
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to renew work opportunity';
+      logger.error('Error renewing work opportunity', err instanceof Error ? err : new Error(errorMsg), {
+        service: 'MyWorkPage',
+        method: 'handleRenew',
+        dTag: work.dTag,
+      });
+      alert(`Error: ${errorMsg}`);
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
   const handleClearFilters = () => {
     setSearchQuery('');
     setJobTypeFilter('all');
@@ -316,6 +369,13 @@ export default function MyWorkPage() {
               <Plus className="w-5 h-5" />
               Post New Opportunity
             </Link>
+            <Link
+              href="/my-work/contracts"
+              className="ml-3 inline-flex items-center gap-2 border border-white/40 text-white hover:bg-white/10 px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              <FileSignature className="w-5 h-5" />
+              Contracts
+            </Link>
           </div>
         </div>
       </section>
@@ -374,7 +434,7 @@ export default function MyWorkPage() {
               label="Average Pay Rate"
               value={statistics.formattedAvgPayRate}
               color="green"
-              description="Per hour"
+              description="Hourly equivalent"
               icon={
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -495,6 +555,9 @@ export default function MyWorkPage() {
                 variant="my-work"
                 onEdit={() => handleEdit(work)}
                 onDelete={() => handleDelete(work)}
+                onRenew={() => handleRenew(work)}
+                isRenewing={renewingId === work.id}
+                applicantCount={applicantCounts.get(getWorkAddress(work.pubkey, work.dTag)) || 0}
               />
             ))}
           </div>
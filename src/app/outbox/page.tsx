@@ -0,0 +1,203 @@
+'use client';
+
+import Link from 'next/link';
+import { CloudOff, RefreshCw, Trash2, Clock, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { usePublishOutbox } from '@/hooks/usePublishOutbox';
+import { getRelativeTime } from '@/utils/dateUtils';
+import type { OutboxEntry } from '@/services/generic/PublishOutboxService';
+
+const KIND_LABELS: Record<number, string> = {
+  0: 'Profile',
+  1: 'Note',
+  5: 'Deletion',
+  10002: 'Relay List',
+  30023: 'Listing',
+  30078: 'App Settings',
+  31923: 'Meetup',
+  31925: 'RSVP',
+};
+
+/**
+ * Human-readable summary of a queued event (type + title)
+ */
+function describeEntry(entry: OutboxEntry): { type: string; title: string } {
+  const tag = (name: string) => entry.event.tags.find(t => t[0] === name)?.[1];
+  const nomadsTag = entry.event.tags.find(t => t[0] === 't' && t[1]?.startsWith('nostr-for-nomads-'))?.[1];
+  const type = nomadsTag
+    ? nomadsTag.replace('nostr-for-nomads-', '').replace(/^\w/, c => c.toUpperCase())
+    : KIND_LABELS[entry.event.kind] || `Kind ${entry.event.kind}`;
+  const title = tag('title') || tag('name') || entry.event.content.slice(0, 80) || entry.id.substring(0, 16) + '...';
+  return { type, title };
+}
+
+export default function OutboxPage() {
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const { entries, pendingCount, failedCount, isLoading, isRetryingAll, isBusy, retry, discard, retryAll } =
+    usePublishOutbox();
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view your publish queue.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <CloudOff className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold">
+                Publish Queue
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Listings, meetups and updates that no relay accepted are kept here and retried automatically
+              when you&apos;re back online.
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Clock className="w-4 h-4 mr-2 text-white" />
+                <span>{pendingCount} pending</span>
+              </div>
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <AlertTriangle className="w-4 h-4 mr-2 text-white" />
+                <span>{failedCount} failed</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-serif font-bold text-purple-800">Queued Events</h2>
+          <button
+            type="button"
+            onClick={() => void retryAll()}
+            disabled={isRetryingAll || entries.length === 0}
+            className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isRetryingAll ? 'animate-spin' : ''}`} />
+            Retry All
+          </button>
+        </div>
+
+        {isLoading && entries.length === 0 ? (
+          <div className="space-y-3">
+            {[0, 1, 2].map(i => (
+              <div key={i} className="animate-pulse h-24 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="card p-12 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-purple-800 mb-2">Nothing waiting</h3>
+            <p className="text-gray-600">Everything you published reached at least one relay.</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {entries.map(entry => {
+              const { type, title } = describeEntry(entry);
+              const busy = isBusy(entry.id);
+              const nextAttemptAt = Math.min(
+                ...entry.relays.filter(relay => !relay.gaveUp).map(relay => relay.nextAttemptAt)
+              );
+
+              return (
+                <li key={entry.id} className="card p-5">
+                  <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                          {type}
+                        </span>
+                        {entry.status === 'failed' ? (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                            Failed
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                            Pending
+                          </span>
+                        )}
+                      </div>
+                      <h3 className="font-semibold text-purple-900 truncate">{title}</h3>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Queued {getRelativeTime(Math.floor(entry.queuedAt / 1000))}
+                        {entry.status === 'pending' && Number.isFinite(nextAttemptAt) && (
+                          <> &middot; next retry {nextAttemptAt <= Date.now() ? 'now' : `at ${new Date(nextAttemptAt).toLocaleTimeString()}`}</>
+                        )}
+                      </p>
+                      <ul className="mt-3 space-y-1">
+                        {entry.relays.map(relay => (
+                          <li key={relay.url} className="text-xs text-gray-600 flex flex-wrap gap-x-2">
+                            <span className="font-mono text-purple-700">{relay.url}</span>
+                            <span>
+                              {relay.attempts} {relay.attempts === 1 ? 'retry' : 'retries'}
+                              {relay.gaveUp && ' (gave up)'}
+                            </span>
+                            {relay.lastError && <span className="text-red-600">{relay.lastError}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex sm:flex-col gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => void retry(entry.id)}
+                        disabled={busy}
+                        className="btn-outline-sm inline-flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+                        Retry
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void discard(entry.id)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,47 @@
 'use client';
 
 import { useState } from 'react';
-import { Bitcoin, Zap, DollarSign, Coins } from 'lucide-react';
+import { Bitcoin, Zap, DollarSign, Coins, Loader2 } from 'lucide-react';
+import { WalletPanel } from '@/components/pages/WalletPanel';
+import { useWallet } from '@/hooks/useWallet';
+import { useAuthStore } from '@/stores/useAuthStore';
 
 type PaymentMethod = 'bitcoin' | 'lightning' | 'usdt' | 'others';
 
 export default function PaymentsPage() {
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
+  const [lightningInvoice, setLightningInvoice] = useState('');
+  const [paymentMessage, setPaymentMessage] = useState<string | null>(null);
+  const { isAuthenticated } = useAuthStore();
+  const {
+    wallet,
+    isLoading,
+    isConnecting,
+    isPaying,
+    canPay,
+    balance,
+    transactions,
+    error,
+    connect,
+    disconnect,
+    pay,
+    receive,
+    refresh,
+  } = useWallet();
+
+  const handleSendPayment = async () => {
+    if (selectedMethod !== 'lightning') return;
+
+    setPaymentMessage(null);
+    const payment = await pay(lightningInvoice);
+    if (payment) {
+      setLightningInvoice('');
+      setPaymentMessage(
+        `Payment sent${payment.feesPaidSats > 0 ? ` (${payment.feesPaidSats.toLocaleString()} sats fee)` : ''}`
+      );
+      void refresh();
+    }
+  };
 
   const paymentMethods = [
     {
@@ -70,6 +105,20 @@ export default function PaymentsPage() {
       </section>
 
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <WalletPanel
+          isAuthenticated={isAuthenticated}
+          wallet={wallet}
+          isLoading={isLoading}
+          isConnecting={isConnecting}
+          balance={balance}
+          transactions={transactions}
+          error={error}
+          onConnect={connect}
+          onDisconnect={disconnect}
+          onReceive={receive}
+          onRefresh={refresh}
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           {paymentMethods.map((method) => {
             const Icon = method.icon;
@@ -109,21 +158,24 @@ export default function PaymentsPage() {
             </h2>
             
             <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Amount
-                </label>
-                <div className="relative">
-                  <input
-                    type="number"
-                    placeholder="0.00"
-                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all"
-                  />
-                  <div className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 font-medium">
-                    {selectedMethod === 'usdt' ? 'USDT' : 'BTC'}
+              {/* Lightning invoices carry their own amount */}
+              {selectedMethod !== 'lightning' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Amount
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      placeholder="0.00"
+                      className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all"
+                    />
+                    <div className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 font-medium">
+                      {selectedMethod === 'usdt' ? 'USDT' : 'BTC'}
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {selectedMethod === 'lightning' && (
                 <div>
@@ -133,8 +185,18 @@ export default function PaymentsPage() {
                   <textarea
                     placeholder="lnbc..."
                     rows={3}
+                    value={lightningInvoice}
+                    onChange={e => setLightningInvoice(e.target.value)}
                     className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all resize-none"
                   />
+                  {!canPay && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      Connect a wallet above to pay Lightning invoices.
+                    </p>
+                  )}
+                  {paymentMessage && (
+                    <p className="mt-2 text-sm text-green-700">{paymentMessage}</p>
+                  )}
                 </div>
               )}
 
@@ -152,7 +214,12 @@ export default function PaymentsPage() {
               )}
 
               <div className="flex gap-4 pt-4">
-                <button className="flex-1 bg-gradient-to-r from-purple-600 to-purple-700 text-white py-3 px-6 rounded-lg font-medium hover:shadow-lg transition-all">
+                <button
+                  onClick={handleSendPayment}
+                  disabled={selectedMethod === 'lightning' && (!canPay || isPaying || !lightningInvoice.trim())}
+                  className="flex-1 bg-gradient-to-r from-purple-600 to-purple-700 text-white py-3 px-6 rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50 inline-flex items-center justify-center gap-2"
+                >
+                  {isPaying && <Loader2 className="w-4 h-4 animate-spin" />}
                   Send Payment
                 </button>
                 <button
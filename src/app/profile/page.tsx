@@ -9,6 +9,9 @@ import { useAuthStore } from '@/stores/useAuthStore';
 import { useNostrSigner } from '@/hooks/useNostrSigner';
 import { UserProfile } from '@/services/business/ProfileBusinessService';
 import { ImageUpload } from '@/components/profile/ImageUpload';
+import { RelayManager } from '@/components/profile/RelayManager';
+import { TalentProfileManager } from '@/components/profile/TalentProfileManager';
+import { ReviewPanel } from '@/components/generic/ReviewPanel';
 
 const RichTextEditor = dynamic(
   () => import('@/components/ui/RichTextEditor'),
@@ -659,6 +662,18 @@ export default function ProfilePage() {
             </div>
           </div>
         </div>
+
+        <div className="mt-8">
+          <ReviewPanel target={{ type: 'seller', sellerPubkey: user.pubkey }} title="Seller Reputation" />
+        </div>
+
+        <div className="mt-8">
+          <TalentProfileManager pubkey={user.pubkey} />
+        </div>
+
+        <div className="mt-8">
+          <RelayManager />
+        </div>
       </div>
     </div>
   );
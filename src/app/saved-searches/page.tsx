@@ -0,0 +1,150 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+import { Bell, BookmarkCheck, Briefcase, ShoppingBag, Trash2 } from 'lucide-react';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useAuthHydration } from '@/hooks/useAuthHydration';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { describeSavedSearch } from '@/services/business/SavedSearchService';
+import { getRelativeTime } from '@/utils/dateUtils';
+import type { SavedSearchScope } from '@/types/saved-search';
+
+const SCOPES: { id: SavedSearchScope; name: string; path: string; icon: ReactNode }[] = [
+  { id: 'work', name: 'Work', path: '/work', icon: <Briefcase className="w-5 h-5" /> },
+  { id: 'shop', name: 'Shop', path: '/shop', icon: <ShoppingBag className="w-5 h-5" /> },
+];
+
+export default function SavedSearchesPage() {
+  const { user } = useAuthStore();
+  const isHydrated = useAuthHydration();
+  const { searches, getNewMatchCount, remove } = useSavedSearches();
+  const totalNew = searches.reduce((count, search) => count + getNewMatchCount(search.id), 0);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-primary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-primary-50">
+        <div className="container-width py-16">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-primary-800 mb-4">Sign In Required</h2>
+            <p className="text-gray-600 mb-6">
+              You need to sign in to view your saved searches.
+            </p>
+            <Link href="/signin" className="btn-primary-sm">
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-orange-50">
+      {/* Hero Section */}
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-5xl mx-auto text-center">
+            <div className="flex flex-col sm:flex-row items-center justify-center mb-6 gap-3">
+              <BookmarkCheck className="w-12 h-12" />
+              <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold">
+                Saved Searches
+              </h1>
+            </div>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Filters you saved on Work and Shop. New listings matching them are counted here while the app is
+              open, and your searches sync privately across your devices.
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Bell className="w-4 h-4 mr-2 text-white" />
+                <span>{totalNew} new {totalNew === 1 ? 'match' : 'matches'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-10">
+        {SCOPES.map(scope => {
+          const scopeSearches = searches.filter(search => search.scope === scope.id);
+
+          return (
+            <section key={scope.id}>
+              <h2 className="text-2xl font-serif font-bold text-purple-800 mb-4 flex items-center gap-2">
+                {scope.icon}
+                {scope.name}
+              </h2>
+
+              {scopeSearches.length === 0 ? (
+                <div className="card p-8 text-center">
+                  <p className="text-gray-600 mb-4">
+                    No saved {scope.name} searches yet. Set your filters and choose &quot;Save this search&quot;.
+                  </p>
+                  <Link href={scope.path} className="btn-outline-sm">
+                    Browse {scope.name}
+                  </Link>
+                </div>
+              ) : (
+                <ul className="space-y-4">
+                  {scopeSearches.map(search => {
+                    const newCount = getNewMatchCount(search.id);
+
+                    return (
+                      <li key={search.id} className="card p-5">
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1">
+                              <h3 className="font-semibold text-purple-900 truncate">{search.name}</h3>
+                              {newCount > 0 && (
+                                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                                  {newCount} new
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600">{describeSavedSearch(search.criteria)}</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              Last checked {getRelativeTime(search.lastCheckedAt)}
+                            </p>
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Link
+                              href={`${scope.path}?saved=${encodeURIComponent(search.id)}`}
+                              className="btn-primary-sm"
+                            >
+                              View Listings
+                            </Link>
+                            <button
+                              type="button"
+                              onClick={() => remove(search.id)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
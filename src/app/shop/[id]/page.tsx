@@ -72,6 +72,7 @@ export default async function ProductPage({ params }: ProductPageProps) {
     const { content } = result;
     const product = {
       id: content.id,
+      kind: content.customFields.kind,
       dTag: decodedId,
       pubkey: content.author.pubkey,
       title: content.title,
@@ -83,6 +84,12 @@ export default async function ProductPage({ params }: ProductPageProps) {
       condition: content.customFields.condition,
       location: content.customFields.location,
       contact: content.customFields.contact,
+      availability: content.customFields.availability,
+      quantity: content.customFields.quantity,
+      variants: content.customFields.variants,
+      deliveryMethods: content.customFields.deliveryMethods,
+      shippingZones: content.customFields.shippingZones,
+      deliverable: content.customFields.deliverable,
       tags: content.tags,
       media: {
         images: content.media.filter(m => m.type === 'image').map(m => ({
@@ -106,6 +113,7 @@ export default async function ProductPage({ params }: ProductPageProps) {
       },
       createdAt: content.publishedAt,
       publishedAt: content.publishedAt,
+      expiresAt: content.customFields.expiresAt,
     };
 
     return (
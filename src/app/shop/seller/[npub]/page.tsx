@@ -0,0 +1,52 @@
+import { Metadata } from 'next';
+import { profileService } from '@/services/business/ProfileBusinessService';
+import { ContentNotFound } from '@/components/generic/ContentNotFound';
+import { SellerStorefront } from '@/components/pages/SellerStorefront';
+
+export const dynamic = 'force-dynamic';
+
+type SellerPageProps = {
+  params: Promise<{ npub: string }>;
+};
+
+export async function generateMetadata({ params }: SellerPageProps): Promise<Metadata> {
+  const { npub } = await params;
+  const pubkey = profileService.npubToPubkey(decodeURIComponent(npub));
+  if (!pubkey) {
+    return {
+      title: 'Seller Not Found',
+      description: 'The seller you are looking for could not be found.',
+    };
+  }
+
+  const profile = await profileService.getUserProfile(pubkey);
+  const name = profile?.display_name || 'Seller';
+  return {
+    title: `${name} | Shop`,
+    description: profile?.about || `Products from ${name} on the nomad marketplace`,
+    openGraph: {
+      title: `${name} | Shop`,
+      description: profile?.about || `Products from ${name} on the nomad marketplace`,
+      images: profile?.picture ? [{ url: profile.picture }] : [],
+    },
+  };
+}
+
+export default async function SellerPage({ params }: SellerPageProps) {
+  const { npub } = await params;
+  const decodedNpub = decodeURIComponent(npub);
+  const pubkey = profileService.npubToPubkey(decodedNpub);
+
+  if (!pubkey) {
+    return (
+      <ContentNotFound
+        title="Seller not found"
+        description="This link does not point to a valid Nostr public key (npub)."
+        backHref="/shop"
+        backLabel="Back to Shop"
+      />
+    );
+  }
+
+  return <SellerStorefront pubkey={pubkey} npub={decodedNpub} />;
+}
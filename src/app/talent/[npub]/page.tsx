@@ -0,0 +1,52 @@
+import { Metadata } from 'next';
+import { profileService } from '@/services/business/ProfileBusinessService';
+import { ContentNotFound } from '@/components/generic/ContentNotFound';
+import { TalentProfileView } from '@/components/pages/TalentProfileView';
+
+export const dynamic = 'force-dynamic';
+
+type TalentPageProps = {
+  params: Promise<{ npub: string }>;
+};
+
+export async function generateMetadata({ params }: TalentPageProps): Promise<Metadata> {
+  const { npub } = await params;
+  const pubkey = profileService.npubToPubkey(decodeURIComponent(npub));
+  if (!pubkey) {
+    return {
+      title: 'Freelancer Not Found',
+      description: 'The freelancer you are looking for could not be found.',
+    };
+  }
+
+  const profile = await profileService.getUserProfile(pubkey);
+  const name = profile?.display_name || 'Freelancer';
+  return {
+    title: `${name} | Talent`,
+    description: profile?.about || `Hire ${name} from the digital nomad community`,
+    openGraph: {
+      title: `${name} | Talent`,
+      description: profile?.about || `Hire ${name} from the digital nomad community`,
+      images: profile?.picture ? [{ url: profile.picture }] : [],
+    },
+  };
+}
+
+export default async function TalentProfilePage({ params }: TalentPageProps) {
+  const { npub } = await params;
+  const decodedNpub = decodeURIComponent(npub);
+  const pubkey = profileService.npubToPubkey(decodedNpub);
+
+  if (!pubkey) {
+    return (
+      <ContentNotFound
+        title="Freelancer not found"
+        description="This link does not point to a valid Nostr public key (npub)."
+        backHref="/talent"
+        backLabel="Back to Talent"
+      />
+    );
+  }
+
+  return <TalentProfileView pubkey={pubkey} npub={decodedNpub} />;
+}
@@ -0,0 +1,11 @@
+import TalentBrowse from '@/components/pages/TalentBrowse';
+
+export const metadata = {
+  title: 'Nomad Talent | ncoin',
+  description:
+    'Find freelancers from the digital nomad community by skill, language, time zone and availability.',
+};
+
+export default function TalentPage() {
+  return <TalentBrowse />;
+}
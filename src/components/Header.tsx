@@ -2,9 +2,16 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
-import { Menu, X, ChevronDown } from 'lucide-react';
+import { Menu, X, ChevronDown, Bell } from 'lucide-react';
 import AuthButton from './auth/AuthButton';
 import { useAuthStore } from '@/stores/useAuthStore';
+import { useUserRelayListSync } from '@/hooks/useRelayList';
+import { useRelayAuthSync } from '@/hooks/useRelayAuthSync';
+import { usePublishOutbox } from '@/hooks/usePublishOutbox';
+import { useCartSync } from '@/hooks/useCart';
+import { useCartStore } from '@/stores/useCartStore';
+import { useSavedSearchSync } from '@/hooks/useSavedSearches';
+import { useSavedSearchStore } from '@/stores/useSavedSearchStore';
 
 export default function Header() {
   const [isOpen, setIsOpen] = useState(false);
@@ -14,6 +21,22 @@ export default function Header() {
   const userMenuRef = useRef<HTMLDivElement | null>(null);
   const { user, isAuthenticated, logout } = useAuthStore();
 
+  // Route relay traffic through the signed-in user's NIP-65 relay list
+  useUserRelayListSync();
+  // Answer NIP-42 AUTH challenges with the signed-in user's signer
+  useRelayAuthSync();
+  // Retry queued publishes in the background and surface their counts
+  const { pendingCount: outboxPending, failedCount: outboxFailed } = usePublishOutbox();
+  const outboxCount = outboxPending + outboxFailed;
+  // Keep the cart in sync with the encrypted settings event across devices
+  useCartSync();
+  const cartCount = useCartStore(state => state.items.reduce((count, item) => count + item.quantity, 0));
+  // Sync saved searches and count new listings matching them
+  useSavedSearchSync();
+  const savedSearchCount = useSavedSearchStore(state =>
+    Object.values(state.newMatches).reduce((count, matches) => count + matches.length, 0)
+  );
+
   useEffect(() => {
     if (!isOpen) return;
     function onKey(e: KeyboardEvent) {
@@ -104,6 +127,15 @@ export default function Header() {
                 </svg>
                 Work
               </Link>
+              <Link
+                href="/talent"
+                className="text-white hover:text-orange-200 transition-colors font-medium flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+                Talent
+              </Link>
             </div>
           </div>
 
@@ -120,6 +152,23 @@ export default function Header() {
                     </svg>
                   </div>
                   <span className="max-w-[120px] truncate">{user.profile.display_name || 'Anonymous'}</span>
+                  {outboxCount > 0 && (
+                    <span
+                      className={`px-1.5 py-0.5 text-xs font-bold rounded-full ${outboxFailed > 0 ? 'bg-red-500' : 'bg-orange-500'} text-white`}
+                      title={`${outboxPending} pending, ${outboxFailed} failed publishes`}
+                    >
+                      {outboxCount}
+                    </span>
+                  )}
+                  {savedSearchCount > 0 && (
+                    <span
+                      className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs font-bold rounded-full bg-white text-purple-700"
+                      title={`${savedSearchCount} new listings match your saved searches`}
+                    >
+                      <Bell className="w-3 h-3" />
+                      {savedSearchCount}
+                    </span>
+                  )}
                   <ChevronDown className="w-4 h-4" />
                 </button>
 
@@ -185,6 +234,46 @@ export default function Header() {
                       </svg>
                       My Messages
                     </Link>
+                    <Link
+                      href="/cart"
+                      className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                      onClick={() => setIsUserMenuOpen(false)}
+                    >
+                      <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                      </svg>
+                      My Cart
+                      {cartCount > 0 && (
+                        <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                          {cartCount}
+                        </span>
+                      )}
+                    </Link>
+                    <Link
+                      href="/saved-searches"
+                      className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                      onClick={() => setIsUserMenuOpen(false)}
+                    >
+                      <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                      </svg>
+                      Saved Searches
+                      {savedSearchCount > 0 && (
+                        <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                          {savedSearchCount} new
+                        </span>
+                      )}
+                    </Link>
+                    <Link
+                      href="/my-orders"
+                      className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                      onClick={() => setIsUserMenuOpen(false)}
+                    >
+                      <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                      </svg>
+                      My Orders
+                    </Link>
                     <Link
                       href="/payments"
                       className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
@@ -195,6 +284,27 @@ export default function Header() {
                       </svg>
                       My Payments
                     </Link>
+                    <Link
+                      href="/outbox"
+                      className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                      onClick={() => setIsUserMenuOpen(false)}
+                    >
+                      <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                      </svg>
+                      Publish Queue
+                      {outboxCount > 0 && (
+                        <span
+                          className={`ml-auto px-2 py-0.5 text-xs font-medium rounded-full ${
+                            outboxFailed > 0 ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'
+                          }`}
+                        >
+                          {outboxPending > 0 && `${outboxPending} pending`}
+                          {outboxPending > 0 && outboxFailed > 0 && ' · '}
+                          {outboxFailed > 0 && `${outboxFailed} failed`}
+                        </span>
+                      )}
+                    </Link>
                     <Link
                       href="/profile"
                       className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
@@ -295,7 +405,21 @@ export default function Header() {
               aria-label="Toggle navigation menu"
               className="p-2 rounded-md text-white hover:text-orange-200 hover:bg-purple-700 transition-colors duration-200"
             >
-              {isOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+              <span className="relative block">
+                {isOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+                {outboxCount > 0 && !isOpen && (
+                  <span
+                    className={`absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full ${outboxFailed > 0 ? 'bg-red-500' : 'bg-orange-400'}`}
+                    aria-label={`${outboxPending} pending, ${outboxFailed} failed publishes`}
+                  />
+                )}
+                {savedSearchCount > 0 && !isOpen && (
+                  <span
+                    className="absolute -bottom-1 -right-1 w-2.5 h-2.5 rounded-full bg-white"
+                    aria-label={`${savedSearchCount} new listings match your saved searches`}
+                  />
+                )}
+              </span>
             </button>
           </div>
 
@@ -337,6 +461,15 @@ export default function Header() {
               </svg>
               Work
             </Link>
+            <Link
+              href="/talent"
+              className="text-white hover:text-orange-200 transition-colors text-sm font-medium flex items-center gap-1"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              Talent
+            </Link>
           </div>
         </div>
 
@@ -440,6 +573,49 @@ export default function Header() {
                     My Messages
                   </Link>
                   
+                  <Link
+                    href="/cart"
+                    className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                    </svg>
+                    My Cart
+                    {cartCount > 0 && (
+                      <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                        {cartCount}
+                      </span>
+                    )}
+                  </Link>
+
+                  <Link
+                    href="/saved-searches"
+                    className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                    </svg>
+                    Saved Searches
+                    {savedSearchCount > 0 && (
+                      <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                        {savedSearchCount} new
+                      </span>
+                    )}
+                  </Link>
+
+                  <Link
+                    href="/my-orders"
+                    className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                    </svg>
+                    My Orders
+                  </Link>
+
                   <Link
                     href="/payments"
                     className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
@@ -451,6 +627,28 @@ export default function Header() {
                     My Payments
                   </Link>
                   
+                  <Link
+                    href="/outbox"
+                    className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <svg className="w-4 h-4 mr-3 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                    Publish Queue
+                    {outboxCount > 0 && (
+                      <span
+                        className={`ml-auto px-2 py-0.5 text-xs font-medium rounded-full ${
+                          outboxFailed > 0 ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'
+                        }`}
+                      >
+                        {outboxPending > 0 && `${outboxPending} pending`}
+                        {outboxPending > 0 && outboxFailed > 0 && ' · '}
+                        {outboxFailed > 0 && `${outboxFailed} failed`}
+                      </span>
+                    )}
+                  </Link>
+                  
                   <Link
                     href="/profile"
                     className="flex items-center px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 transition-colors"
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { validateMilestones } from '@/services/business/EscrowService';
+import { toDateInputValue } from '@/utils/dateUtils';
+import { MAX_CONTRACT_MILESTONES } from '@/types/escrow';
+import type { MilestoneDraft } from '@/types/escrow';
+
+interface ContractFormProps {
+  defaultTitle: string;
+  isSubmitting: boolean;
+  onSubmit: (title: string, milestones: MilestoneDraft[]) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const EMPTY_MILESTONE: MilestoneDraft = { description: '', amountSats: '', dueDate: '' };
+
+/**
+ * Contract Form Component
+ * Title and escrow milestones (description, amount in sats, due date) for a hired proposal
+ *
+ * SOA Layer: Presentation (signing and sending handled by the caller's hook)
+ */
+export function ContractForm({ defaultTitle, isSubmitting, onSubmit, onCancel }: ContractFormProps) {
+  const [title, setTitle] = useState(defaultTitle);
+  const [milestones, setMilestones] = useState<MilestoneDraft[]>([EMPTY_MILESTONE]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const totalSats = milestones.reduce((sum, milestone) => sum + (Number(milestone.amountSats) || 0), 0);
+
+  const updateMilestone = <K extends keyof MilestoneDraft>(index: number, field: K, value: MilestoneDraft[K]) => {
+    setMilestones(prev => prev.map((milestone, i) => (i === index ? { ...milestone, [field]: value } : milestone)));
+    setValidationError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateMilestones(title, milestones);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+    await onSubmit(title, milestones);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor="contract-title" className="block text-sm font-medium text-gray-700 mb-1">
+          Contract Title *
+        </label>
+        <input
+          id="contract-title"
+          type="text"
+          value={title}
+          onChange={e => {
+            setTitle(e.target.value);
+            setValidationError(null);
+          }}
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+        />
+      </div>
+
+      <div className="space-y-3">
+        <p className="block text-sm font-medium text-gray-700">
+          Milestones ({milestones.length}/{MAX_CONTRACT_MILESTONES})
+        </p>
+        {milestones.map((milestone, index) => (
+          <div key={index} className="rounded-lg border border-gray-200 p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-purple-700">Milestone {index + 1}</span>
+              {milestones.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setMilestones(prev => prev.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-500 hover:text-red-600"
+                  aria-label={`Remove milestone ${index + 1}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <input
+              type="text"
+              value={milestone.description}
+              onChange={e => updateMilestone(index, 'description', e.target.value)}
+              placeholder="What will be delivered"
+              aria-label={`Milestone ${index + 1} description`}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={milestone.amountSats}
+                onChange={e => updateMilestone(index, 'amountSats', e.target.value)}
+                placeholder="Amount (sats)"
+                aria-label={`Milestone ${index + 1} amount in sats`}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+              />
+              <input
+                type="date"
+                min={toDateInputValue(Math.floor(Date.now() / 1000))}
+                value={milestone.dueDate}
+                onChange={e => updateMilestone(index, 'dueDate', e.target.value)}
+                aria-label={`Milestone ${index + 1} due date`}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+              />
+            </div>
+          </div>
+        ))}
+        {milestones.length < MAX_CONTRACT_MILESTONES && (
+          <button
+            type="button"
+            onClick={() => setMilestones(prev => [...prev, EMPTY_MILESTONE])}
+            className="btn-outline-sm inline-flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Milestone
+          </button>
+        )}
+        <p className="text-sm text-gray-600">
+          Total: <span className="font-semibold text-purple-900">{totalSats.toLocaleString()} sats</span>
+          <span className="block text-xs text-gray-500">
+            Each milestone is paid into a hold invoice and only released once you approve the delivery.
+          </span>
+        </p>
+      </div>
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Propose Contract
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-outline-sm">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
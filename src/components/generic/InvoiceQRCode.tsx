@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { Loader2 } from 'lucide-react';
+import { logger } from '@/services/core/LoggingService';
+
+interface InvoiceQRCodeProps {
+  invoice: string; // bolt11
+  size?: number;
+}
+
+/**
+ * Lightning invoice QR code
+ * Rendered locally - invoices are never sent to third-party QR services
+ */
+export function InvoiceQRCode({ invoice, size = 240 }: InvoiceQRCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDataUrl(null);
+
+    QRCode.toDataURL(`lightning:${invoice}`, { margin: 1, width: size })
+      .then(url => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch(err => {
+        logger.warn('Failed to render invoice QR code', {
+          component: 'InvoiceQRCode',
+          method: 'useEffect',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [invoice, size]);
+
+  if (!dataUrl) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-purple-600" />
+      </div>
+    );
+  }
+
+  return (
+    <Image
+      src={dataUrl}
+      alt="Lightning invoice QR code"
+      width={size}
+      height={size}
+      unoptimized
+      className="mx-auto rounded-lg ring-1 ring-gray-200"
+    />
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import { validateProposal } from '@/services/business/ProposalService';
+import { WORK_CURRENCIES } from '@/config/work';
+import { formatFileSize } from '@/config/media';
+import { MAX_COVER_LETTER_LENGTH, MAX_PROPOSAL_ATTACHMENTS } from '@/types/proposal';
+import type { ProposalData } from '@/types/proposal';
+
+interface ProposalFormProps {
+  defaultCurrency?: string;
+  isSubmitting: boolean;
+  onSubmit: (data: ProposalData) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Proposal Form Component
+ * Cover letter, proposed rate, availability and portfolio files for a work application
+ *
+ * SOA Layer: Presentation (sending handled by the caller's hook)
+ */
+export function ProposalForm({ defaultCurrency = 'sats', isSubmitting, onSubmit, onCancel }: ProposalFormProps) {
+  const [data, setData] = useState<ProposalData>({
+    coverLetter: '',
+    rateAmount: '',
+    rateCurrency: WORK_CURRENCIES.some(currency => currency.id === defaultCurrency) ? defaultCurrency : 'sats',
+    availability: '',
+    files: [],
+  });
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProposalData>(field: K, value: ProposalData[K]) => {
+    setData(prev => ({ ...prev, [field]: value }));
+    setValidationError(null);
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    update('files', [...data.files, ...Array.from(fileList)].slice(0, MAX_PROPOSAL_ATTACHMENTS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateProposal(data);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+    await onSubmit(data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor="proposal-cover-letter" className="block text-sm font-medium text-gray-700 mb-1">
+          Cover Letter *
+        </label>
+        <textarea
+          id="proposal-cover-letter"
+          value={data.coverLetter}
+          onChange={e => update('coverLetter', e.target.value)}
+          maxLength={MAX_COVER_LETTER_LENGTH}
+          rows={6}
+          placeholder="Why are you a good fit for this work?"
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="proposal-rate" className="block text-sm font-medium text-gray-700 mb-1">
+            Your Rate (Optional)
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="proposal-rate"
+              type="number"
+              min="0"
+              step="any"
+              value={data.rateAmount}
+              onChange={e => update('rateAmount', e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+            />
+            <select
+              value={data.rateCurrency}
+              onChange={e => update('rateCurrency', e.target.value)}
+              aria-label="Rate currency"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+            >
+              {WORK_CURRENCIES.map(currency => (
+                <option key={currency.id} value={currency.id}>{currency.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="proposal-availability" className="block text-sm font-medium text-gray-700 mb-1">
+            Availability (Optional)
+          </label>
+          <input
+            id="proposal-availability"
+            type="text"
+            value={data.availability}
+            onChange={e => update('availability', e.target.value)}
+            placeholder="e.g. From next Monday, 20h/week"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-1">
+          Portfolio ({data.files.length}/{MAX_PROPOSAL_ATTACHMENTS})
+        </p>
+        {data.files.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {data.files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-gray-800">
+                  {file.name} <span className="text-gray-500">({formatFileSize(file.size)})</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => update('files', data.files.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-500 hover:text-red-600"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {data.files.length < MAX_PROPOSAL_ATTACHMENTS && (
+          <label className="btn-outline-sm inline-flex items-center gap-2 cursor-pointer">
+            <Paperclip className="w-4 h-4" />
+            Attach Files
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              onChange={e => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+        <p className="mt-1 text-xs text-gray-500">Files are uploaded to Blossom and linked in your proposal.</p>
+      </div>
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Send Proposal
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-outline-sm">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
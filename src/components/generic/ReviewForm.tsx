@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { Star, Loader2 } from 'lucide-react';
+import { MAX_RATING, MAX_REVIEW_LENGTH } from '@/types/review';
+
+interface ReviewFormProps {
+  initialRating?: number;
+  initialContent?: string;
+  isSubmitting: boolean;
+  submitLabel?: string;
+  onSubmit: (rating: number, content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Review Form Component
+ * Star picker (1-5) and optional text for a product or seller review
+ *
+ * SOA Layer: Presentation (publishing handled by the caller's hook)
+ */
+export function ReviewForm({
+  initialRating = 0,
+  initialContent = '',
+  isSubmitting,
+  submitLabel = 'Publish Review',
+  onSubmit,
+  onCancel,
+}: ReviewFormProps) {
+  const [rating, setRating] = useState(initialRating);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [content, setContent] = useState(initialContent);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) return;
+    await onSubmit(rating, content);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(value => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value} star${value === 1 ? '' : 's'}`}
+            onClick={() => setRating(value)}
+            onMouseEnter={() => setHoverRating(value)}
+            onMouseLeave={() => setHoverRating(0)}
+            className="p-0.5"
+          >
+            <Star
+              className={`w-6 h-6 ${
+                value <= (hoverRating || rating) ? 'text-orange-400 fill-current' : 'text-gray-300'
+              }`}
+            />
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        maxLength={MAX_REVIEW_LENGTH}
+        rows={3}
+        placeholder="How was it? (optional)"
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+      />
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={rating === 0 || isSubmitting}
+          className="btn-primary-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-outline-sm">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
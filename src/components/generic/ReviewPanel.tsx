@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { BadgeCheck } from 'lucide-react';
+import { StarRating } from '@/components/primitives/StarRating';
+import { ReviewForm } from '@/components/generic/ReviewForm';
+import { useReviews } from '@/hooks/useReviews';
+import type { ReviewTarget } from '@/types/review';
+
+interface ReviewPanelProps {
+  target: ReviewTarget;
+  title?: string;
+}
+
+/**
+ * Review Panel Component
+ * Rating summary and reviews of a product or seller, with a form for the
+ * signed-in user to add or update their own review (not on their own listings)
+ *
+ * SOA Layer: Presentation (state from useReviews)
+ */
+export function ReviewPanel({ target, title = 'Reviews' }: ReviewPanelProps) {
+  const {
+    reviews,
+    summary,
+    myReview,
+    userPubkey,
+    isLoading,
+    isSubmitting,
+    error,
+    submitReview,
+  } = useReviews(target);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const canReview = !!userPubkey && userPubkey !== target.sellerPubkey;
+
+  const handleSubmit = async (rating: number, content: string) => {
+    const published = await submitReview(rating, content);
+    if (published) setIsEditing(false);
+    return published;
+  };
+
+  return (
+    <section aria-labelledby="reviews-heading" className="rounded-2xl bg-white/80 p-6 shadow-sm ring-1 ring-primary-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 id="reviews-heading" className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+          {title}
+        </h2>
+        {summary.count > 0 && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <StarRating value={summary.average} showValue label="Average rating" />
+            <span>
+              {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+              {summary.verifiedCount > 0 && ` · ${summary.verifiedCount} verified`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {canReview && (
+        <div className="mb-6">
+          {isEditing ? (
+            <ReviewForm
+              initialRating={myReview?.rating}
+              initialContent={myReview?.content}
+              isSubmitting={isSubmitting}
+              submitLabel={myReview ? 'Update Review' : 'Publish Review'}
+              onSubmit={handleSubmit}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <button type="button" onClick={() => setIsEditing(true)} className="btn-outline-sm">
+              {myReview ? 'Edit your review' : 'Write a review'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {isLoading && reviews.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-sm text-gray-500">No reviews yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {reviews.map(review => (
+            <li key={review.id} className="border-t border-gray-100 pt-4 first:border-0 first:pt-0">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <StarRating value={review.rating} size="xs" label="Review rating" />
+                <span className="font-mono text-xs text-gray-600">{review.reviewerPubkey.slice(0, 8)}...</span>
+                {review.verified && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">
+                    <BadgeCheck className="w-3 h-3" />
+                    Verified purchase
+                  </span>
+                )}
+                <span className="text-xs text-gray-400">
+                  {new Date(review.createdAt * 1000).toLocaleDateString()}
+                </span>
+              </div>
+              {review.content && (
+                <p className="text-sm text-gray-700 whitespace-pre-line">{review.content}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { Suspense, useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { BookmarkPlus, X } from 'lucide-react';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { describeSavedSearch } from '@/services/business/SavedSearchService';
+import {
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  type SavedSearch,
+  type SavedSearchCriteria,
+  type SavedSearchScope,
+} from '@/types/saved-search';
+
+interface SavedSearchBarProps {
+  scope: SavedSearchScope;
+  criteria: SavedSearchCriteria; // Current filters of the browse page
+  onApply: (criteria: SavedSearchCriteria) => void;
+}
+
+/**
+ * Saved searches of a browse page: save the current filters, re-apply a saved
+ * search (clearing its new-match count) or delete it.
+ * A ?saved=<id> link (from the Saved Searches page) applies that search on load.
+ */
+export function SavedSearchBar(props: SavedSearchBarProps) {
+  // useSearchParams needs a Suspense boundary on statically rendered pages
+  return (
+    <Suspense fallback={null}>
+      <SavedSearchBarContent {...props} />
+    </Suspense>
+  );
+}
+
+function SavedSearchBarContent({ scope, criteria, onApply }: SavedSearchBarProps) {
+  const searchParams = useSearchParams();
+  const linkedSearchId = searchParams?.get('saved') ?? null;
+  const { searches, error, getNewMatchCount, save, remove, markChecked } = useSavedSearches(scope);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const appliedLinkRef = useRef<string | null>(null);
+
+  const apply = useCallback((search: SavedSearch) => {
+    onApply(search.criteria);
+    markChecked(search.id);
+  }, [onApply, markChecked]);
+
+  // Apply a search linked from the Saved Searches page once it is available
+  useEffect(() => {
+    if (!linkedSearchId || appliedLinkRef.current === linkedSearchId) return;
+    const linked = searches.find(search => search.id === linkedSearchId);
+    if (linked) {
+      appliedLinkRef.current = linkedSearchId;
+      apply(linked);
+    }
+  }, [linkedSearchId, searches, apply]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (save(scope, name, criteria)) {
+      setName('');
+      setIsNaming(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 flex flex-wrap items-center gap-2">
+      {searches.map(search => {
+        const newCount = getNewMatchCount(search.id);
+        return (
+          <span
+            key={search.id}
+            className="inline-flex items-center rounded-full bg-white ring-1 ring-purple-200 text-sm text-purple-700"
+          >
+            <button
+              type="button"
+              onClick={() => apply(search)}
+              className="flex items-center gap-1 pl-3 pr-2 py-1 rounded-l-full hover:bg-purple-50"
+              title={describeSavedSearch(search.criteria)}
+            >
+              {search.name}
+              {newCount > 0 && (
+                <span className="px-1.5 py-0.5 text-xs font-bold rounded-full bg-orange-500 text-white">
+                  {newCount} new
+                </span>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(search.id)}
+              className="pr-2 pl-1 py-1 rounded-r-full text-purple-400 hover:text-red-500"
+              title="Delete saved search"
+              aria-label={`Delete saved search ${search.name}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        );
+      })}
+
+      {isNaming ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_SAVED_SEARCH_NAME_LENGTH}
+            placeholder={describeSavedSearch(criteria)}
+            aria-label="Saved search name"
+            autoFocus
+            className="w-56 border border-gray-300 rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+          />
+          <button type="submit" className="btn-primary-sm">Save</button>
+          <button
+            type="button"
+            onClick={() => setIsNaming(false)}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          className="inline-flex items-center gap-1 text-sm font-medium text-purple-600 hover:text-purple-700"
+          title="Get notified about new listings matching these filters"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+          Save this search
+        </button>
+      )}
+
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
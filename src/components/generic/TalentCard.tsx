@@ -0,0 +1,97 @@
+'use client';
+
+import Link from 'next/link';
+import { Clock, DollarSign, FolderOpen, Languages, UserRound } from 'lucide-react';
+import { formatTalentRate, getTalentPath } from '@/services/business/TalentService';
+import { getWorkCategoryById } from '@/config/work';
+import { getTalentAvailabilityById, getTalentLanguageByCode } from '@/config/talent';
+import { getRelativeTime } from '@/utils/dateUtils';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import type { TalentAvailability, TalentProfile } from '@/types/talent';
+
+const AVAILABILITY_BADGE_CLASSES: Record<TalentAvailability, string> = {
+  available: 'bg-green-100 text-green-700',
+  limited: 'bg-orange-100 text-orange-700',
+  unavailable: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Availability status pill, shared by the card and the talent page
+ */
+export function TalentAvailabilityBadge({ availability }: { availability: TalentAvailability }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${AVAILABILITY_BADGE_CLASSES[availability]}`}>
+      {getTalentAvailabilityById(availability)?.name}
+    </span>
+  );
+}
+
+interface TalentCardProps {
+  talent: TalentProfile;
+}
+
+/**
+ * Talent Card Component
+ * One freelancer on the /talent browse page: headline, availability, skills,
+ * hourly rate, languages and time zone, linking to their talent page
+ *
+ * SOA Layer: Presentation (UI only, no business logic)
+ */
+export function TalentCard({ talent }: TalentCardProps) {
+  const { formatConverted } = useExchangeRates();
+  const convertedRate = talent.hourlyRate
+    ? formatConverted(talent.hourlyRate.amount, talent.hourlyRate.currency)
+    : null;
+
+  return (
+    <Link href={getTalentPath(talent.pubkey)} className="culture-card group flex flex-col p-6">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="w-12 h-12 rounded-full bg-purple-100 flex items-center justify-center shrink-0">
+          <UserRound className="w-6 h-6 text-purple-600" />
+        </div>
+        <TalentAvailabilityBadge availability={talent.availability} />
+      </div>
+
+      <h3 className="text-lg font-serif font-bold text-purple-800 group-hover:text-purple-600 transition-colors mb-2 line-clamp-2">
+        {talent.headline}
+      </h3>
+      {talent.bio && <p className="text-sm text-gray-700 mb-4 line-clamp-3">{talent.bio}</p>}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {talent.skills.map(skill => {
+          const category = getWorkCategoryById(skill);
+          return (
+            <span key={skill} className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700">
+              {category?.icon} {category?.name}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="mt-auto space-y-1 text-sm text-gray-600">
+        {talent.hourlyRate && (
+          <p className="flex items-center gap-2">
+            <DollarSign className="w-4 h-4 text-purple-400" />
+            {formatTalentRate(talent.hourlyRate)}
+            {convertedRate && <span className="text-gray-500">({convertedRate})</span>}
+          </p>
+        )}
+        <p className="flex items-center gap-2">
+          <Languages className="w-4 h-4 text-purple-400" />
+          {talent.languages.map(code => getTalentLanguageByCode(code)?.name ?? code).join(', ')}
+        </p>
+        <p className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-purple-400" />
+          {talent.timeZone}
+        </p>
+        {talent.portfolio.length > 0 && (
+          <p className="flex items-center gap-2">
+            <FolderOpen className="w-4 h-4 text-purple-400" />
+            {talent.portfolio.length} portfolio {talent.portfolio.length === 1 ? 'item' : 'items'}
+          </p>
+        )}
+        <p className="text-xs text-gray-500 pt-2">Updated {getRelativeTime(talent.createdAt)}</p>
+      </div>
+    </Link>
+  );
+}
@@ -2,20 +2,29 @@ import React from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Clock, MapPin, MessageCircle, Tag, DollarSign } from 'lucide-react';
+import { Clock, MapPin, MessageCircle, RefreshCw, Store, Tag, DollarSign } from 'lucide-react';
 import { logger } from '@/services/core/LoggingService';
-import { getRelativeTime } from '@/utils/dateUtils';
+import { getStorefrontPath } from '@/services/business/StorefrontService';
+import { formatDate, getRelativeTime, isExpired } from '@/utils/dateUtils';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { StarRating } from '@/components/primitives/StarRating';
 import type { ProductCardData } from '@/types/shop';
+import { getProductPath } from '@/types/shop';
+import type { RatingSummary } from '@/types/review';
 
 interface UnifiedProductCardProps {
   product: ProductCardData;
   variant: 'shop' | 'my-shop';
   featured?: boolean;
   viewMode?: 'grid' | 'list';
+  rating?: RatingSummary;
+  showSellerLink?: boolean; // Link to the seller's storefront (off on the storefront itself)
   
   // Optional handlers for my-shop variant
   onEdit?: (product: ProductCardData) => void;
   onDelete?: (product: ProductCardData) => void;
+  onRenew?: (product: ProductCardData) => void; // Republish with a new NIP-40 expiration
+  isRenewing?: boolean;
 }
 
 /**
@@ -25,8 +34,8 @@ interface UnifiedProductCardProps {
  * SOA Layer: Presentation (UI only, no business logic)
  * 
  * Variants:
- * - shop: Shows contact seller button, featured/grid/list layouts
- * - my-shop: Shows edit/delete/view buttons, grid layout only
+ * - shop: Shows contact seller and storefront buttons, featured/grid/list layouts
+ * - my-shop: Shows expiration and edit/renew/delete/view buttons, grid layout only
  * 
  * Features:
  * - Responsive design (adapts to screen size)
@@ -40,10 +49,16 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
   variant,
   featured = false,
   viewMode = 'grid',
+  rating,
+  showSellerLink = true,
   onEdit,
-  onDelete
+  onDelete,
+  onRenew,
+  isRenewing = false,
 }) => {
   const router = useRouter();
+  const { formatConverted } = useExchangeRates();
+  const convertedPrice = formatConverted(product.price, product.currency);
 
   // Shared utility functions
   const getCurrencySymbol = (currency: string) => {
@@ -69,6 +84,20 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
     return 'bg-gray-100 text-gray-700';
   };
 
+  const getAvailabilityBadge = (availability: ProductCardData['availability']) => {
+    if (availability === 'sold-out') return { label: 'Sold out', className: 'bg-red-100 text-red-700' };
+    if (availability === 'reserved') return { label: 'Reserved', className: 'bg-amber-100 text-amber-700' };
+    return null;
+  };
+  const availabilityBadge = getAvailabilityBadge(product.availability);
+
+  const ratingSummary = rating && rating.count > 0 && (
+    <div className="mb-2 flex items-center gap-1 text-xs text-gray-600">
+      <StarRating value={rating.average} size="xs" label="Product rating" />
+      <span>({rating.count})</span>
+    </div>
+  );
+
   const getCategoryColor = (category: string) => {
     const colors: Record<string, string> = {
       'art': 'bg-pink-100 text-pink-700',
@@ -107,6 +136,21 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
     router.push(`/messages?${params.toString()}`);
   };
 
+  const handleViewSeller = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    logger.info('View seller storefront clicked', {
+      component: 'UnifiedProductCard',
+      method: 'handleViewSeller',
+      variant,
+      productId: product.id,
+      sellerPubkey: product.pubkey,
+    });
+
+    router.push(getStorefrontPath(product.pubkey));
+  };
+
   const handleEdit = () => {
     logger.info('Edit product clicked', {
       component: 'UnifiedProductCard',
@@ -129,6 +173,17 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
     onDelete?.(product);
   };
 
+  const handleRenew = () => {
+    logger.info('Renew product clicked', {
+      component: 'UnifiedProductCard',
+      method: 'handleRenew',
+      variant,
+      productId: product.id,
+      expiresAt: product.expiresAt,
+    });
+    onRenew?.(product);
+  };
+
   const handleView = () => {
     logger.info('View product clicked', {
       component: 'UnifiedProductCard',
@@ -190,6 +245,11 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <span className="px-3 py-1.5 rounded-full text-sm font-bold bg-white/95 backdrop-blur-sm text-purple-900 shadow-lg">
               {formatPrice(product.price, product.currency)}
             </span>
+            {convertedPrice && (
+              <span className="mt-1 block w-fit px-2 py-0.5 rounded-full text-xs font-medium bg-white/90 text-gray-700">
+                {convertedPrice}
+              </span>
+            )}
           </div>
 
           {/* Created Time Badge - Top Right */}
@@ -206,6 +266,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
           <h3 className="text-xl font-serif font-bold text-purple-800 mb-2 line-clamp-2">
             {product.title}
           </h3>
+          {ratingSummary}
           
           <p className="text-base mb-4 line-clamp-3 leading-relaxed text-purple-600">
             {product.description}
@@ -225,12 +286,24 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <span className={`px-3 py-1 rounded-full font-medium text-sm ${getConditionColor(product.condition)}`}>
               {product.condition}
             </span>
+            {availabilityBadge && (
+              <span className={`px-3 py-1 rounded-full font-medium text-sm ${availabilityBadge.className}`}>
+                {availabilityBadge.label}
+              </span>
+            )}
           </div>
+
+          {/* Expiration (NIP-40) */}
+          {product.expiresAt && (
+            <p className={`mb-4 text-sm ${isExpired(product.expiresAt) ? 'font-medium text-red-600' : 'text-gray-600'}`}>
+              {isExpired(product.expiresAt) ? 'Expired' : 'Expires'} {formatDate(product.expiresAt)}
+            </p>
+          )}
           
           {/* Action Buttons - My Shop */}
           <div className="flex gap-2">
             <a
-              href={`/shop/${product.dTag}`}
+              href={getProductPath(product)}
               target="_blank"
               rel="noopener noreferrer"
               onClick={handleView}
@@ -248,6 +321,17 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             >
               Edit
             </button>
+            {onRenew && (
+              <button
+                onClick={handleRenew}
+                disabled={isRenewing}
+                className="btn-outline-sm flex items-center justify-center gap-1 px-3 disabled:opacity-50"
+                title="Republish with a new expiration"
+              >
+                <RefreshCw className={`w-4 h-4 ${isRenewing ? 'animate-spin' : ''}`} />
+                Renew
+              </button>
+            )}
             <button 
               onClick={handleDelete} 
               className="btn-danger-sm"
@@ -263,7 +347,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
   // Shop variant - Featured layout
   if (featured && variant === 'shop') {
     return (
-      <Link href={`/shop/${product.dTag}`}>
+      <Link href={getProductPath(product)}>
         <div className="culture-card group p-0 overflow-hidden cursor-pointer">
           {/* Featured Product Image */}
           <div className="relative aspect-video">
@@ -284,6 +368,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <div className="absolute top-4 left-4 bg-white/95 backdrop-blur-sm px-3 py-1.5 rounded-full shadow-lg flex items-center gap-1.5">
               <DollarSign className="w-4 h-4 text-purple-600" />
               <span className="font-bold text-purple-900">{formatPrice(product.price, product.currency)}</span>
+              {convertedPrice && <span className="text-xs text-gray-600">{convertedPrice}</span>}
             </div>
             
             <div className="absolute bottom-4 left-4 right-4">
@@ -300,6 +385,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <h3 className="text-xl font-serif font-bold text-purple-800 mb-2 line-clamp-2">
               {product.title}
             </h3>
+            {ratingSummary}
             
             <p className="text-gray-700 mb-4 line-clamp-3">{product.description}</p>
             
@@ -310,6 +396,11 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
               <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${getConditionColor(product.condition)}`}>
                 {product.condition}
               </span>
+              {availabilityBadge && (
+                <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${availabilityBadge.className}`}>
+                  {availabilityBadge.label}
+                </span>
+              )}
             </div>
             
             <div className="flex flex-wrap gap-2 mb-4">
@@ -328,13 +419,25 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
               )}
             </div>
             
-            <button
-              onClick={handleContactSeller}
-              className="btn btn-outline w-full flex items-center justify-center gap-2"
-            >
-              <MessageCircle className="w-4 h-4" />
-              Contact Seller
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleContactSeller}
+                className="btn btn-outline flex-1 flex items-center justify-center gap-2"
+              >
+                <MessageCircle className="w-4 h-4" />
+                Contact Seller
+              </button>
+              {showSellerLink && (
+                <button
+                  onClick={handleViewSeller}
+                  className="btn btn-outline flex items-center justify-center gap-2"
+                  title="View seller's shop"
+                >
+                  <Store className="w-4 h-4" />
+                  Seller
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </Link>
@@ -344,7 +447,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
   // Shop variant - List view
   if (viewMode === 'list' && variant === 'shop') {
     return (
-      <Link href={`/shop/${product.dTag}`}>
+      <Link href={getProductPath(product)}>
         <div className="culture-card group cursor-pointer flex gap-4 hover:shadow-lg transition-shadow">
           {/* Product Image */}
           <div className="relative w-48 h-48 flex-shrink-0">
@@ -361,6 +464,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <div className="absolute top-2 right-2 bg-white/95 backdrop-blur-sm px-2 py-1 rounded-full shadow-md flex items-center gap-1">
               <DollarSign className="w-3 h-3 text-purple-600" />
               <span className="font-bold text-sm text-purple-900">{formatPrice(product.price, product.currency)}</span>
+              {convertedPrice && <span className="text-xs text-gray-600">{convertedPrice}</span>}
             </div>
           </div>
           
@@ -370,6 +474,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
               <h3 className="text-lg font-bold text-gray-900 mb-2 line-clamp-2 group-hover:text-purple-600 transition-colors">
                 {product.title}
               </h3>
+              {ratingSummary}
               
               <p className="text-sm text-gray-600 mb-3 line-clamp-2">{product.description}</p>
               
@@ -380,6 +485,11 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
                 <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getConditionColor(product.condition)}`}>
                   {product.condition}
                 </span>
+                {availabilityBadge && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${availabilityBadge.className}`}>
+                    {availabilityBadge.label}
+                  </span>
+                )}
               </div>
             </div>
             
@@ -389,13 +499,25 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
                 <span>{product.location}</span>
               </div>
               
-              <button
-                onClick={handleContactSeller}
-                className="btn btn-outline btn-sm flex items-center gap-2"
-              >
-                <MessageCircle className="w-3 h-3" />
-                Contact
-              </button>
+              <div className="flex gap-2">
+                {showSellerLink && (
+                  <button
+                    onClick={handleViewSeller}
+                    className="btn btn-outline btn-sm flex items-center gap-2"
+                    title="View seller's shop"
+                  >
+                    <Store className="w-3 h-3" />
+                    Seller
+                  </button>
+                )}
+                <button
+                  onClick={handleContactSeller}
+                  className="btn btn-outline btn-sm flex items-center gap-2"
+                >
+                  <MessageCircle className="w-3 h-3" />
+                  Contact
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -405,7 +527,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
 
   // Shop variant - Grid view (default)
   return (
-    <Link href={`/shop/${product.dTag}`}>
+    <Link href={getProductPath(product)}>
       <div className="culture-card group cursor-pointer hover:shadow-xl transition-all duration-300">
         {/* Product Image */}
         <div className="relative aspect-[4/3] bg-gray-50 rounded-t-lg overflow-hidden">
@@ -422,6 +544,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
           <div className="absolute top-3 right-3 bg-white/95 backdrop-blur-sm px-3 py-1.5 rounded-full shadow-lg flex items-center gap-1.5">
             <DollarSign className="w-4 h-4 text-purple-600" />
             <span className="font-bold text-purple-900">{formatPrice(product.price, product.currency)}</span>
+            {convertedPrice && <span className="text-xs text-gray-600">{convertedPrice}</span>}
           </div>
         </div>
         
@@ -430,6 +553,7 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
           <h3 className="text-lg font-bold text-gray-900 line-clamp-2 group-hover:text-purple-600 transition-colors">
             {product.title}
           </h3>
+          {ratingSummary}
           
           <p className="text-sm text-gray-600 line-clamp-2">
             {product.description}
@@ -442,6 +566,11 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${getConditionColor(product.condition)}`}>
               {product.condition}
             </span>
+            {availabilityBadge && (
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${availabilityBadge.className}`}>
+                {availabilityBadge.label}
+              </span>
+            )}
           </div>
           
           <div className="flex items-center justify-between text-xs text-gray-500 pt-2 border-t border-gray-100">
@@ -457,13 +586,25 @@ export const UnifiedProductCard: React.FC<UnifiedProductCardProps> = ({
             )}
           </div>
           
-          <button
-            onClick={handleContactSeller}
-            className="btn btn-outline w-full text-sm flex items-center justify-center gap-2 mt-2"
-          >
-            <MessageCircle className="w-4 h-4" />
-            Contact Seller
-          </button>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={handleContactSeller}
+              className="btn btn-outline flex-1 text-sm flex items-center justify-center gap-2"
+            >
+              <MessageCircle className="w-4 h-4" />
+              Contact Seller
+            </button>
+            {showSellerLink && (
+              <button
+                onClick={handleViewSeller}
+                className="btn btn-outline text-sm flex items-center justify-center gap-2"
+                title="View seller's shop"
+              >
+                <Store className="w-4 h-4" />
+                Seller
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </Link>
@@ -2,9 +2,12 @@ import React from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Clock, MapPin, Briefcase, DollarSign, Calendar, MessageCircle, ImageIcon } from 'lucide-react';
+import { Clock, MapPin, Briefcase, DollarSign, Calendar, MessageCircle, ImageIcon, RefreshCw, Users } from 'lucide-react';
 import { logger } from '@/services/core/LoggingService';
-import { getRelativeTime } from '@/utils/dateUtils';
+import { formatDate, getRelativeTime, isExpired } from '@/utils/dateUtils';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatCompensation } from '@/services/business/WorkService';
+import type { WorkCompensation } from '@/types/work';
 
 /**
  * Normalized work data for unified card
@@ -18,8 +21,7 @@ export interface UnifiedWorkData {
   jobType: string;
   category: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   location: string;
   region: string;
   country?: string;
@@ -27,6 +29,7 @@ export interface UnifiedWorkData {
   tags: string[];
   pubkey: string;
   createdAt: number;
+  expiresAt?: number | null; // NIP-40 expiration
   // Explore-specific fields (optional)
   mediaCount?: number;
   relativeTime?: string;
@@ -40,6 +43,9 @@ interface UnifiedWorkCardProps {
   // Optional handlers for my-work variant
   onEdit?: (work: UnifiedWorkData) => void;
   onDelete?: (work: UnifiedWorkData) => void;
+  onRenew?: (work: UnifiedWorkData) => void; // Republish with a new NIP-40 expiration
+  isRenewing?: boolean;
+  applicantCount?: number; // Proposals received (links to the applicant inbox)
 }
 
 /**
@@ -50,7 +56,7 @@ interface UnifiedWorkCardProps {
  * 
  * Variants:
  * - explore: Shows contact button, job details, media count
- * - my-work: Shows edit, delete, view buttons
+ * - my-work: Shows expiration, applicants link and edit, renew, delete, view buttons
  * 
  * Features:
  * - Responsive design (adapts to screen size)
@@ -58,7 +64,7 @@ interface UnifiedWorkCardProps {
  * - Conditional action buttons based on variant
  * - Image fallback handling
  * - Hover effects and transitions
- * - Work-specific badges (jobType, duration, payRate+currency)
+ * - Work-specific badges (jobType, duration, compensation)
  */
 export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({ 
   work, 
@@ -66,8 +72,18 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
   featured = false,
   onEdit,
   onDelete,
+  onRenew,
+  isRenewing = false,
+  applicantCount,
 }) => {
   const router = useRouter();
+  const { formatConverted } = useExchangeRates();
+  const compensation = work.compensation;
+  const payLabel = compensation ? formatCompensation(compensation) : null;
+  // Only single amounts with a currency are converted; legacy period-only listings stay as-is
+  const convertedPayRate = compensation?.currency && compensation.maxAmount === undefined
+    ? formatConverted(compensation.amount, compensation.currency)
+    : null;
 
   // Compute relative time if not provided
   const displayTime = work.relativeTime || getRelativeTime(work.createdAt);
@@ -90,18 +106,6 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
     return '💼';
   };
 
-  // Format pay rate display
-  const formatPayRate = (rate: number, currency: string) => {
-    const lowerCurrency = currency.toLowerCase();
-    if (lowerCurrency === 'btc') return `${rate} BTC`;
-    if (lowerCurrency === 'sats') return `${rate} sats`;
-    if (lowerCurrency === 'usd') return `$${rate}`;
-    if (lowerCurrency === 'per-hour') return `${rate}/hr`;
-    if (lowerCurrency === 'per-day') return `${rate}/day`;
-    if (lowerCurrency === 'per-project') return `${rate}/project`;
-    return `${rate} ${currency}`;
-  };
-
   // Handlers
   const handleContactPoster = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -147,6 +151,17 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
     onDelete?.(work);
   };
 
+  const handleRenew = () => {
+    logger.info('Renew work clicked', {
+      component: 'UnifiedWorkCard',
+      method: 'handleRenew',
+      variant,
+      workId: work.id,
+      expiresAt: work.expiresAt,
+    });
+    onRenew?.(work);
+  };
+
   const handleView = () => {
     logger.info('View work clicked', {
       component: 'UnifiedWorkCard',
@@ -223,10 +238,13 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
                     <MapPin className="w-4 h-4 mr-1" />
                     {work.location} · {work.region}
                   </p>
-                  <p className="opacity-90 flex items-center">
-                    <DollarSign className="w-4 h-4 mr-1" />
-                    {formatPayRate(work.payRate, work.currency)}
-                  </p>
+                  {payLabel && (
+                    <p className="opacity-90 flex items-center">
+                      <DollarSign className="w-4 h-4 mr-1" />
+                      {payLabel}
+                      {convertedPayRate && <span className="ml-1 opacity-80">({convertedPayRate})</span>}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -325,13 +343,16 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
               </span>
             </div>
 
-            {/* Pay Rate Badge */}
-            <div className="absolute top-3 right-3">
-              <span className="px-2 py-1 rounded-full text-xs font-medium bg-white/90 text-gray-700 flex items-center gap-1">
-                <DollarSign className="w-3 h-3" />
-                {formatPayRate(work.payRate, work.currency)}
-              </span>
-            </div>
+            {/* Pay Badge */}
+            {payLabel && (
+              <div className="absolute top-3 right-3">
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-white/90 text-gray-700 flex items-center gap-1">
+                  <DollarSign className="w-3 h-3" />
+                  {payLabel}
+                  {convertedPayRate && <span className="text-gray-500">({convertedPayRate})</span>}
+                </span>
+              </div>
+            )}
           </div>
           
           <div className="p-6">
@@ -432,11 +453,14 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
           {work.description}
         </p>
         
-        {/* Pay Rate */}
-        <div className="flex items-center gap-2 text-sm text-gray-700 mb-3 font-semibold">
-          <DollarSign className="w-4 h-4 text-green-600" />
-          <span>{formatPayRate(work.payRate, work.currency)}</span>
-        </div>
+        {/* Pay */}
+        {payLabel && (
+          <div className="flex items-center gap-2 text-sm text-gray-700 mb-3 font-semibold">
+            <DollarSign className="w-4 h-4 text-green-600" />
+            <span>{payLabel}</span>
+            {convertedPayRate && <span className="text-xs font-normal text-gray-500">{convertedPayRate}</span>}
+          </div>
+        )}
 
         {/* Duration */}
         <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
@@ -459,7 +483,25 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
             {work.category}
           </span>
         </div>
+
+        {/* Expiration (NIP-40) */}
+        {work.expiresAt && (
+          <p className={`mb-4 text-sm ${isExpired(work.expiresAt) ? 'font-medium text-red-600' : 'text-gray-600'}`}>
+            {isExpired(work.expiresAt) ? 'Expired' : 'Expires'} {formatDate(work.expiresAt)}
+          </p>
+        )}
         
+        {/* Applicant inbox */}
+        {applicantCount !== undefined && (
+          <Link
+            href={`/my-work/applicants/${encodeURIComponent(work.dTag)}`}
+            className="mb-4 inline-flex items-center gap-2 text-sm font-medium text-purple-600 hover:text-purple-800"
+          >
+            <Users className="w-4 h-4" />
+            {applicantCount} {applicantCount === 1 ? 'applicant' : 'applicants'}
+          </Link>
+        )}
+
         {/* Action Buttons - My Work */}
         <div className="flex gap-2">
           <a
@@ -481,6 +523,17 @@ export const UnifiedWorkCard: React.FC<UnifiedWorkCardProps> = ({
           >
             Edit
           </button>
+          {onRenew && (
+            <button
+              onClick={handleRenew}
+              disabled={isRenewing}
+              className="btn-outline-sm flex items-center justify-center gap-1 px-3 disabled:opacity-50"
+              title="Republish with a new expiration"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRenewing ? 'animate-spin' : ''}`} />
+              Renew
+            </button>
+          )}
           <button 
             onClick={handleDelete} 
             className="btn-danger-sm"
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState } from 'react';
+import { Zap, Copy, Check, Loader2, X, Wallet } from 'lucide-react';
+import { InvoiceQRCode } from '@/components/generic/InvoiceQRCode';
+import { useZaps } from '@/hooks/useZaps';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { logger } from '@/services/core/LoggingService';
+import type { ZapTarget } from '@/types/zap';
+
+interface ZapPanelProps {
+  target: ZapTarget;
+  title?: string;
+}
+
+const AMOUNT_PRESETS = [21, 100, 500, 1000, 5000];
+const RECENT_ZAPS_SHOWN = 5;
+
+/**
+ * Zap Panel Component
+ * Sidebar card showing NIP-57 zap totals and recent zappers, with a
+ * Lightning zap flow (amount -> invoice QR / connected wallet / WebLN -> receipt)
+ *
+ * SOA Layer: Presentation (state from useZaps)
+ */
+export function ZapPanel({ target, title = 'Zaps' }: ZapPanelProps) {
+  const { user, isAuthenticated } = useAuthStore();
+  const {
+    summary,
+    isLoading,
+    canZap,
+    invoice,
+    status,
+    error,
+    hasWebLN,
+    canPayWithWallet,
+    createInvoice,
+    payWithWallet,
+    payWithWebLN,
+    reset,
+  } = useZaps(target);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState(AMOUNT_PRESETS[1]);
+  const [comment, setComment] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const isOwnContent = user?.pubkey === target.pubkey;
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setComment('');
+    setCopied(false);
+    reset();
+  };
+
+  const handleCopy = async () => {
+    if (!invoice) return;
+    try {
+      await navigator.clipboard.writeText(invoice.bolt11);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      logger.error('Error copying invoice to clipboard', err as Error, {
+        component: 'ZapPanel',
+        method: 'handleCopy',
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
+        {title}
+      </h3>
+
+      <div className="flex items-center gap-2 mb-3">
+        <Zap className="w-5 h-5 text-orange-500 fill-orange-400" />
+        <span className="text-lg font-bold text-gray-900">
+          {isLoading && summary.count === 0 ? '…' : summary.totalSats.toLocaleString()} sats
+        </span>
+        <span className="text-sm text-gray-500">
+          ({summary.count} {summary.count === 1 ? 'zap' : 'zaps'})
+        </span>
+      </div>
+
+      {summary.receipts.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {summary.receipts.slice(0, RECENT_ZAPS_SHOWN).map(receipt => (
+            <li key={receipt.id} className="text-xs text-gray-600">
+              <span className="font-medium text-gray-900">{receipt.amountSats.toLocaleString()} sats</span>
+              {' from '}
+              <span className="font-mono">{receipt.senderPubkey.slice(0, 8)}...</span>
+              {receipt.comment && <p className="text-gray-500 italic truncate">&ldquo;{receipt.comment}&rdquo;</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!canZap ? (
+        <p className="text-xs text-gray-500">The author hasn&apos;t set up a lightning address.</p>
+      ) : isOwnContent ? null : !isAuthenticated ? (
+        <p className="text-xs text-gray-500">Sign in to zap the author.</p>
+      ) : !isOpen ? (
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="btn-primary-sm w-full inline-flex items-center justify-center gap-2"
+        >
+          <Zap className="w-4 h-4" />
+          Zap
+        </button>
+      ) : (
+        <div className="space-y-3">
+          {status === 'paid' ? (
+            <div className="rounded-lg bg-green-50 p-3 text-sm text-green-800 flex items-center gap-2">
+              <Check className="w-4 h-4" />
+              Zap sent - thank you!
+            </div>
+          ) : invoice ? (
+            <div className="space-y-3">
+              <InvoiceQRCode invoice={invoice.bolt11} />
+              <p className="text-center text-xs text-gray-500">
+                Scan or open in your wallet to pay {invoice.amountSats.toLocaleString()} sats
+                {invoice.receiptsSupported ? '' : ' (this wallet does not publish zap receipts)'}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <a href={`lightning:${invoice.bolt11}`} className="btn-outline-sm text-center">
+                  Open wallet
+                </a>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="btn-outline-sm inline-flex items-center justify-center gap-1"
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              {canPayWithWallet && (
+                <button
+                  type="button"
+                  onClick={payWithWallet}
+                  disabled={status === 'paying'}
+                  className="btn-primary-sm w-full inline-flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {status === 'paying' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wallet className="w-4 h-4" />}
+                  Pay with connected wallet
+                </button>
+              )}
+              {hasWebLN && !canPayWithWallet && (
+                <button
+                  type="button"
+                  onClick={payWithWebLN}
+                  disabled={status === 'paying'}
+                  className="btn-primary-sm w-full inline-flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {status === 'paying' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}
+                  Pay with browser wallet
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {AMOUNT_PRESETS.map(preset => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setAmount(preset)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                      amount === preset
+                        ? 'border-orange-400 bg-orange-50 text-orange-700'
+                        : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {preset.toLocaleString()}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={amount}
+                onChange={e => setAmount(Math.max(0, Math.floor(Number(e.target.value))))}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                aria-label="Zap amount in sats"
+              />
+              <input
+                type="text"
+                value={comment}
+                onChange={e => setComment(e.target.value)}
+                maxLength={280}
+                placeholder="Add a comment (optional)"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => createInvoice(amount, comment.trim())}
+                disabled={status === 'creating' || amount < 1}
+                className="btn-primary-sm w-full inline-flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {status === 'creating' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}
+                Zap {amount.toLocaleString()} sats
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            type="button"
+            onClick={handleClose}
+            className="w-full inline-flex items-center justify-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <X className="w-3 h-3" />
+            {status === 'paid' ? 'Close' : 'Cancel'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
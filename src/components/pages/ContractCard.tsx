@@ -0,0 +1,350 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  Ban,
+  Check,
+  CheckCircle,
+  Copy,
+  FileSignature,
+  Loader2,
+  Lock,
+  MessageCircle,
+  PackageCheck,
+  Unlock,
+  Zap,
+} from 'lucide-react';
+import { InvoiceQRCode } from '@/components/generic/InvoiceQRCode';
+import {
+  CONTRACT_STATUS_LABELS,
+  MILESTONE_STATUS_LABELS,
+  canCancelMilestone,
+  getContractProvider,
+} from '@/services/business/EscrowService';
+import { formatDate, formatDateTime } from '@/utils/dateUtils';
+import type {
+  Contract,
+  ContractAction,
+  ContractMilestone,
+  ContractRole,
+  ContractStatus,
+  MilestoneStatus,
+  PendingFunding,
+} from '@/types/escrow';
+
+const STATUS_BADGE_CLASSES: Record<ContractStatus, string> = {
+  proposed: 'bg-orange-100 text-orange-700',
+  active: 'bg-purple-100 text-purple-700',
+  completed: 'bg-green-100 text-green-700',
+};
+
+const MILESTONE_BADGE_CLASSES: Record<MilestoneStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  funded: 'bg-orange-100 text-orange-700',
+  delivered: 'bg-purple-100 text-purple-700',
+  released: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const ACTION_LABELS: Record<ContractAction, string> = {
+  propose: 'Contract proposed',
+  accept: 'Contract accepted',
+  fund: 'Milestone funded',
+  deliver: 'Milestone delivered',
+  release: 'Milestone released',
+  cancel: 'Milestone cancelled',
+};
+
+interface ContractCardProps {
+  contract: Contract;
+  role: ContractRole;
+  pendingFunding: PendingFunding | null;
+  isUpdating: boolean;
+  onAccept: (contract: Contract) => Promise<boolean>;
+  onStartFunding: (contract: Contract, milestone: ContractMilestone) => Promise<boolean>;
+  onSimulatePayment: (contract: Contract) => Promise<boolean>;
+  onConfirmFunding: (contract: Contract) => Promise<boolean>;
+  onCancelFunding: (contract: Contract) => Promise<boolean>;
+  onDeliver: (contract: Contract, milestone: ContractMilestone, message: string) => Promise<boolean>;
+  onRelease: (contract: Contract, milestone: ContractMilestone) => Promise<boolean>;
+  onCancel: (contract: Contract, milestone: ContractMilestone) => Promise<boolean>;
+}
+
+/**
+ * One Work contract with its escrow milestones
+ * The client funds, releases and (once overdue) cancels milestones, the freelancer accepts
+ * the contract and marks milestones delivered. Every step shows up in the signed history.
+ */
+export function ContractCard({
+  contract,
+  role,
+  pendingFunding,
+  isUpdating,
+  onAccept,
+  onStartFunding,
+  onSimulatePayment,
+  onConfirmFunding,
+  onCancelFunding,
+  onDeliver,
+  onRelease,
+  onCancel,
+}: ContractCardProps) {
+  const [deliveryMessages, setDeliveryMessages] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+  const counterparty = role === 'client' ? contract.freelancerPubkey : contract.clientPubkey;
+  const provider = getContractProvider(contract);
+  const funding = pendingFunding?.contractId === contract.id ? pendingFunding : null;
+  const releasedSats = contract.milestones
+    .filter(milestone => milestone.status === 'released')
+    .reduce((sum, milestone) => sum + milestone.amountSats, 0);
+
+  const handleCopy = async (invoice: string) => {
+    await navigator.clipboard.writeText(invoice);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDeliver = async (milestone: ContractMilestone) => {
+    const delivered = await onDeliver(contract, milestone, deliveryMessages[milestone.id] ?? '');
+    if (delivered) setDeliveryMessages(prev => ({ ...prev, [milestone.id]: '' }));
+  };
+
+  const handleCancel = (milestone: ContractMilestone) => {
+    const question = milestone.status === 'funded'
+      ? `Cancel this milestone and refund ${milestone.amountSats.toLocaleString()} sats from escrow?`
+      : 'Cancel this milestone?';
+    if (confirm(question)) {
+      void onCancel(contract, milestone);
+    }
+  };
+
+  return (
+    <section id={`contract-${contract.id}`} className="card p-5">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-purple-900 truncate">{contract.title}</h3>
+          <p className="text-xs text-gray-500">
+            {role === 'client' ? 'Freelancer' : 'Client'}: {counterparty.slice(0, 8)}...{counterparty.slice(-8)}
+            {' '}&middot; Proposed {formatDateTime(contract.createdAt)}
+          </p>
+          <p className="text-xs text-gray-500">
+            Escrow: {provider ? provider.name : `${contract.providerId} (not available in this app)`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGE_CLASSES[contract.status]}`}>
+            {CONTRACT_STATUS_LABELS[contract.status]}
+          </span>
+          <Link
+            href={`/messages?recipient=${counterparty}`}
+            className="p-2 text-purple-600 rounded-lg hover:bg-purple-50 transition-colors"
+            aria-label={role === 'client' ? 'Message the freelancer' : 'Message the client'}
+          >
+            <MessageCircle className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        <span className="font-semibold text-purple-900">{releasedSats.toLocaleString()}</span>
+        {' '}of {contract.totalSats.toLocaleString()} sats released
+      </p>
+
+      {/* Freelancer: accept the proposed milestones */}
+      {contract.status === 'proposed' && (
+        role === 'freelancer' ? (
+          <div className="flex justify-end mb-4">
+            <button
+              type="button"
+              onClick={() => void onAccept(contract)}
+              disabled={isUpdating}
+              className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSignature className="w-4 h-4" />}
+              Accept Contract
+            </button>
+          </div>
+        ) : (
+          <p className="mb-4 rounded-lg bg-orange-50 p-3 text-sm text-orange-800">
+            Waiting for the freelancer to accept the milestones.
+          </p>
+        )
+      )}
+
+      {/* Milestones */}
+      <ol className="space-y-3 mb-4">
+        {contract.milestones.map((milestone, index) => (
+          <li key={milestone.id} className="rounded-lg border border-gray-200 p-3">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {index + 1}. {milestone.description}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {milestone.amountSats.toLocaleString()} sats &middot; due {formatDate(milestone.dueAt)}
+                </p>
+              </div>
+              <span className={`self-start px-2 py-0.5 text-xs font-medium rounded-full ${MILESTONE_BADGE_CLASSES[milestone.status]}`}>
+                {MILESTONE_STATUS_LABELS[milestone.status]}
+              </span>
+            </div>
+
+            {milestone.deliveryMessage && (
+              <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">{milestone.deliveryMessage}</p>
+            )}
+
+            {/* Client: fund through a hold invoice */}
+            {role === 'client' && contract.status === 'active' && milestone.status === 'pending' && (
+              funding?.milestoneId === milestone.id ? (
+                <div className="mt-3 space-y-3">
+                  <InvoiceQRCode invoice={funding.holdInvoice.invoice} />
+                  <p className="text-center text-xs text-gray-500">
+                    Pay {funding.holdInvoice.amountSats.toLocaleString()} sats - the payment stays locked in escrow
+                    until you release it
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <a href={`lightning:${funding.holdInvoice.invoice}`} className="btn-outline-sm text-center">
+                      Open wallet
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => void handleCopy(funding.holdInvoice.invoice)}
+                      className="btn-outline-sm inline-flex items-center justify-center gap-1"
+                    >
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void onCancelFunding(contract)}
+                      disabled={isUpdating}
+                      className="btn-outline-sm text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Cancel
+                    </button>
+                    {provider?.isTestProvider && (
+                      <button
+                        type="button"
+                        onClick={() => void onSimulatePayment(contract)}
+                        disabled={isUpdating}
+                        className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Zap className="w-4 h-4" />
+                        Simulate Payment
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void onConfirmFunding(contract)}
+                      disabled={isUpdating}
+                      className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                      I&apos;ve Paid
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => void onStartFunding(contract, milestone)}
+                    disabled={isUpdating || !!funding}
+                    className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Lock className="w-4 h-4" />
+                    Fund Milestone
+                  </button>
+                </div>
+              )
+            )}
+
+            {/* Client: cancel an overdue milestone that was not delivered */}
+            {role === 'client' && contract.status === 'active' && funding?.milestoneId !== milestone.id &&
+              canCancelMilestone(milestone) && (
+              <div className="mt-3 flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-500">Overdue and not delivered</p>
+                <button
+                  type="button"
+                  onClick={() => handleCancel(milestone)}
+                  disabled={isUpdating}
+                  className="btn-outline-sm inline-flex items-center gap-2 text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Ban className="w-4 h-4" />
+                  {milestone.status === 'funded' ? 'Cancel & Refund' : 'Cancel Milestone'}
+                </button>
+              </div>
+            )}
+
+            {/* Freelancer: mark a funded milestone delivered */}
+            {role === 'freelancer' && milestone.status === 'funded' && (
+              <div className="mt-3 space-y-2">
+                <p className="rounded-lg bg-orange-50 p-3 text-xs text-orange-800">
+                  The client reports this milestone as paid into escrow. This app can&apos;t check the
+                  escrow provider for you - confirm the payment is held before you start, and deliver
+                  by the due date: after it the client can cancel and take the payment back.
+                </p>
+                <textarea
+                  value={deliveryMessages[milestone.id] ?? ''}
+                  onChange={e => setDeliveryMessages(prev => ({ ...prev, [milestone.id]: e.target.value }))}
+                  placeholder="Delivery notes for the client (optional)"
+                  rows={2}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                />
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => void handleDeliver(milestone)}
+                    disabled={isUpdating}
+                    className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <PackageCheck className="w-4 h-4" />}
+                    Mark Delivered
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Client: approve the delivery and release the payment */}
+            {role === 'client' && milestone.status === 'delivered' && (
+              <div className="mt-3 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => void onRelease(contract, milestone)}
+                  disabled={isUpdating}
+                  className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+                  Release {milestone.amountSats.toLocaleString()} sats
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {/* Signed history */}
+      <ol className="space-y-2 border-l-2 border-purple-100 pl-4">
+        {contract.history.map(entry => {
+          const milestone = contract.milestones.find(m => m.id === entry.milestoneId);
+          return (
+            <li key={entry.eventId} className="relative">
+              <CheckCircle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-purple-600 bg-white" />
+              <p className="text-sm text-gray-900">
+                {ACTION_LABELS[entry.action]}
+                {milestone && <span className="text-gray-600">: {milestone.description}</span>}
+                <span className="ml-2 text-xs text-gray-500">
+                  signed by {entry.signerPubkey === contract.clientPubkey ? 'client' : 'freelancer'},
+                  {' '}{formatDateTime(entry.createdAt)}
+                </span>
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -8,6 +8,7 @@ import { ContentDetailLayout } from '@/components/generic/ContentDetailLayout';
 import { ContentMediaGallery } from '@/components/generic/ContentMediaGallery';
 import { ContentDetailInfo } from '@/components/generic/ContentDetailInfo';
 import { ContentMetaInfo } from '@/components/generic/ContentMetaInfo';
+import { ZapPanel } from '@/components/generic/ZapPanel';
 import { logger } from '@/services/core/LoggingService';
 import type { ContentDetail } from '@/types/content-detail';
 import type { InfoItem } from '@/components/generic/ContentDetailInfo';
@@ -223,6 +224,11 @@ export function ContributionDetail({ detail, backHref = '/explore' }: Contributi
                 {contactAction.label}
               </button>
             )}
+            {detail.eventId && detail.dTag && (
+              <ZapPanel
+                target={{ eventId: detail.eventId, pubkey: detail.author.pubkey, kind: 30023, dTag: detail.dTag }}
+              />
+            )}
           </div>
         }
         footer={
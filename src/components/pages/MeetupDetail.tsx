@@ -10,6 +10,7 @@ import { ContentDetailInfo } from '@/components/generic/ContentDetailInfo';
 import { RSVPButton } from '@/components/generic/RSVPButton';
 import { AttendeesList } from '@/components/generic/AttendeesList';
 import { DeleteConfirmationModal } from '@/components/generic/DeleteConfirmationModal';
+import { ZapPanel } from '@/components/generic/ZapPanel';
 import { useRSVP } from '@/hooks/useRSVP';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { logger } from '@/services/core/LoggingService';
@@ -502,6 +503,11 @@ export function MeetupDetail({ meetup, backHref = '/meet', onEdit, onDelete }: M
               )}
             </div>
 
+            <ZapPanel
+              target={{ eventId: meetup.id, pubkey: meetup.pubkey, kind: 31923, dTag: meetup.dTag }}
+              title="Zap the Host"
+            />
+
             {/* Meetup Type */}
             <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
               <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
@@ -10,6 +10,7 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Message } from '@/types/messaging';
 import { X, Check, CheckCheck } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
@@ -158,6 +159,9 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
       <div ref={messagesContainerRef} className="flex-1 overflow-y-auto bg-gray-50 px-4 py-6 space-y-3">{messages.map((message) => {
         // Use the isSent flag from the message (already set by business service)
         const isSent = message.isSent ?? (message.senderPubkey === currentUserPubkey);
+        // Poster receives proposals and sends status updates; the applicant does the opposite
+        const isPoster = !!message.proposal && (message.proposal.type === 'proposal') !== isSent;
+        const proposalWorkDTag = message.proposal?.work.split(':').slice(2).join(':');
         
         // Create unique key that combines id, tempId, and timestamp
         // This ensures React treats each message as unique even during temp->real transition
@@ -254,6 +258,44 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
                 )}
               </div>
 
+              {/* Order link if this is a checkout message */}
+              {message.order && (
+                <div className="mt-3 pt-3 border-t" style={{ borderColor: isSent ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.1)' }}>
+                  <Link
+                    href={`/my-orders?order=${encodeURIComponent(message.order.id)}`}
+                    className={`text-xs font-medium underline ${isSent ? 'text-purple-100' : 'text-purple-600'}`}
+                  >
+                    📦 View order #{message.order.id} in My Orders
+                  </Link>
+                </div>
+              )}
+
+              {/* Proposal link if this is a job application message */}
+              {message.proposal && (
+                <div className="mt-3 pt-3 border-t" style={{ borderColor: isSent ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.1)' }}>
+                  <Link
+                    href={isPoster
+                      ? `/my-work/applicants/${encodeURIComponent(proposalWorkDTag || '')}`
+                      : `/work/${encodeURIComponent(proposalWorkDTag || '')}`}
+                    className={`text-xs font-medium underline ${isSent ? 'text-purple-100' : 'text-purple-600'}`}
+                  >
+                    💼 {isPoster ? 'View applicants in My Work' : 'View work listing'}
+                  </Link>
+                </div>
+              )}
+
+              {/* Contract link if this is an escrow contract step */}
+              {message.contract && (
+                <div className="mt-3 pt-3 border-t" style={{ borderColor: isSent ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.1)' }}>
+                  <Link
+                    href={`/my-work/contracts#contract-${message.contract.contract}`}
+                    className={`text-xs font-medium underline ${isSent ? 'text-purple-100' : 'text-purple-600'}`}
+                  >
+                    🔒 View contract in My Work
+                  </Link>
+                </div>
+              )}
+
               {/* Context tag if present */}
               {message.context && (
                 <div className="mt-3 pt-3 border-t" style={{ borderColor: isSent ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.1)' }}>
@@ -0,0 +1,433 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Circle, Copy, Download, Loader2, MessageCircle, Package, Star, Truck, Wallet, XCircle, Zap } from 'lucide-react';
+import { InvoiceQRCode } from '@/components/generic/InvoiceQRCode';
+import { ReviewForm } from '@/components/generic/ReviewForm';
+import { formatProductPrice, getProductPathFromAddress } from '@/types/shop';
+import { ORDER_STATUS_LABELS, formatOrderTotals } from '@/services/business/OrderService';
+import { formatDateTime } from '@/utils/dateUtils';
+import { formatFileSize } from '@/config/media';
+import type { WalletInvoice, WalletPayment } from '@/types/wallet';
+import type { ReviewData, ReviewTarget } from '@/types/review';
+import type {
+  Order,
+  OrderDelivery,
+  OrderRole,
+  OrderStatus,
+  OrderStatusPayload,
+  PaymentOptionType,
+  PaymentRequestPayload,
+} from '@/types/order';
+
+const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  'payment-requested': 'bg-orange-100 text-orange-700',
+  paid: 'bg-blue-100 text-blue-700',
+  shipped: 'bg-purple-100 text-purple-700',
+  completed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const PAYMENT_OPTION_LABELS: Record<PaymentOptionType, string> = {
+  ln: 'Lightning invoice',
+  btc: 'Bitcoin address',
+  lnurl: 'LNURL',
+  url: 'Payment link',
+};
+
+// Next status the seller can move the order to
+const NEXT_STATUS: Partial<Record<OrderStatus, NonNullable<OrderStatusPayload['status']>>> = {
+  pending: 'paid',
+  'payment-requested': 'paid',
+  paid: 'shipped',
+  shipped: 'completed',
+};
+
+interface OrderCardProps {
+  order: Order;
+  role: OrderRole;
+  isSelected: boolean;
+  isUpdating: boolean;
+  canPayWithWallet: boolean;
+  canReceiveWithWallet: boolean;
+  isPaying: boolean;
+  onRequestPayment: (order: Order, options: PaymentRequestPayload['payment_options'], message: string) => Promise<boolean>;
+  onUpdateStatus: (order: Order, status: NonNullable<OrderStatusPayload['status']>, message: string) => Promise<boolean>;
+  onPayInvoice: (bolt11: string) => Promise<WalletPayment | null>;
+  onCreateInvoice: (amountSats: number, description: string) => Promise<WalletInvoice | null>;
+  isReviewing: boolean;
+  onReview: (review: ReviewData) => Promise<boolean>;
+  downloadingUrl: string | null;
+  onDownload: (delivery: OrderDelivery) => void;
+}
+
+/**
+ * One order with its timeline
+ * Sellers request payment and move the order forward; buyers pay the latest payment request
+ * and download digital products once paid, then review the products and seller as a
+ * verified purchase when the order is completed.
+ */
+export function OrderCard({
+  order,
+  role,
+  isSelected,
+  isUpdating,
+  canPayWithWallet,
+  canReceiveWithWallet,
+  isPaying,
+  onRequestPayment,
+  onUpdateStatus,
+  onPayInvoice,
+  onCreateInvoice,
+  isReviewing,
+  onReview,
+  downloadingUrl,
+  onDownload,
+}: OrderCardProps) {
+  const [paymentType, setPaymentType] = useState<PaymentOptionType>('ln');
+  const [paymentLink, setPaymentLink] = useState('');
+  const [sellerMessage, setSellerMessage] = useState('');
+  const [isCreatingInvoice, setIsCreatingInvoice] = useState(false);
+  const [paymentNotice, setPaymentNotice] = useState<string | null>(null);
+  const [reviewingKey, setReviewingKey] = useState<string | null>(null);
+  const [reviewedKeys, setReviewedKeys] = useState<string[]>([]);
+
+  const counterparty = role === 'buyer' ? order.sellerPubkey : order.buyerPubkey;
+  const isClosed = order.status === 'completed' || order.status === 'cancelled';
+  const nextStatus = NEXT_STATUS[order.status];
+  const satsTotal = Object.keys(order.totals).length === 1 ? order.totals.sats : undefined;
+
+  // Products (by address) and the seller the buyer can review with the purchase proof
+  const reviewTargets: Array<{ key: string; label: string; target: ReviewTarget }> = [
+    ...[...new Map(order.items.filter(item => item.address).map(item => [item.address as string, item])).values()]
+      .map(item => ({
+        key: item.address as string,
+        label: item.title || item.product_id,
+        target: { type: 'product' as const, address: item.address as string, sellerPubkey: order.sellerPubkey },
+      })),
+    { key: 'seller', label: 'the seller', target: { type: 'seller', sellerPubkey: order.sellerPubkey } },
+  ];
+
+  const handleReview = async (target: ReviewTarget, key: string, rating: number, content: string) => {
+    const published = await onReview({ target, rating, content, purchaseProof: order.purchaseProof });
+    if (published) {
+      setReviewedKeys(keys => [...keys, key]);
+      setReviewingKey(null);
+    }
+    return published;
+  };
+
+  const handleCreateInvoice = async () => {
+    if (!satsTotal) return;
+    setIsCreatingInvoice(true);
+    const invoice = await onCreateInvoice(satsTotal, `Order #${order.id}`);
+    setIsCreatingInvoice(false);
+    if (invoice) {
+      setPaymentType('ln');
+      setPaymentLink(invoice.invoice);
+    }
+  };
+
+  const handleRequestPayment = async () => {
+    const sent = await onRequestPayment(order, [{ type: paymentType, link: paymentLink.trim() }], sellerMessage);
+    if (sent) {
+      setPaymentLink('');
+      setSellerMessage('');
+    }
+  };
+
+  const handleUpdateStatus = async (status: NonNullable<OrderStatusPayload['status']>) => {
+    const sent = await onUpdateStatus(order, status, sellerMessage);
+    if (sent) setSellerMessage('');
+  };
+
+  const handlePay = async (bolt11: string) => {
+    setPaymentNotice(null);
+    const payment = await onPayInvoice(bolt11);
+    if (payment) {
+      setPaymentNotice('Payment sent. The seller will confirm it in this order.');
+    }
+  };
+
+  return (
+    <section id={`order-${order.id}`} className={`card p-5 ${isSelected ? 'ring-2 ring-purple-400' : ''}`}>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div className="min-w-0">
+          <p className="font-semibold text-purple-900">Order #{order.id}</p>
+          <p className="text-sm text-gray-600 truncate">
+            {role === 'buyer' ? 'Seller' : 'Buyer'}: {counterparty.slice(0, 8)}...{counterparty.slice(-8)}
+          </p>
+          <p className="text-xs text-gray-500">Placed {formatDateTime(order.createdAt)}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGE_CLASSES[order.status]}`}>
+            {ORDER_STATUS_LABELS[order.status]}
+          </span>
+          <Link
+            href={`/messages?recipient=${counterparty}`}
+            className="p-2 text-purple-600 rounded-lg hover:bg-purple-50 transition-colors"
+            aria-label={`Message the ${role === 'buyer' ? 'seller' : 'buyer'}`}
+          >
+            <MessageCircle className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 mb-4">
+        {order.items.map(item => (
+          <li key={`${item.product_id}-${item.variant_id || ''}`} className="py-2 flex items-center justify-between gap-4 text-sm">
+            <Link
+              href={item.address ? getProductPathFromAddress(item.address) : `/shop/${encodeURIComponent(item.product_id)}`}
+              className="flex items-center gap-2 min-w-0 text-purple-900 hover:text-purple-600"
+            >
+              <Package className="w-4 h-4 text-purple-400 shrink-0" />
+              <span className="truncate">
+                {item.quantity} × {item.title || item.product_id}{item.variant && ` (${item.variant})`}
+              </span>
+            </Link>
+            {item.price !== undefined && item.currency && (
+              <span className="text-gray-700 shrink-0">{formatProductPrice(item.price * item.quantity, item.currency)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+        <div>
+          <p className="text-gray-500">Total</p>
+          <p className="font-semibold text-purple-900">{formatOrderTotals(order.totals) || 'To be confirmed'}</p>
+        </div>
+        {(order.shippingName || order.shippingAddress) && (
+          <div>
+            <p className="text-gray-500">Ship to</p>
+            <p className="text-gray-800 whitespace-pre-line">
+              {[order.shippingName, order.shippingAddress].filter(Boolean).join('\n')}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <ol className="space-y-3 border-l-2 border-purple-100 pl-4 mb-4">
+        {order.timeline.map(entry => (
+          <li key={entry.messageId} className="relative">
+            {entry.status === 'cancelled' ? (
+              <XCircle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-red-500 bg-white" />
+            ) : entry === order.timeline[order.timeline.length - 1] ? (
+              <CheckCircle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-purple-600 bg-white" />
+            ) : (
+              <Circle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-purple-300 bg-white" />
+            )}
+            <p className="text-sm font-medium text-gray-900">
+              {entry.type === 0 ? 'Order placed' : ORDER_STATUS_LABELS[entry.status]}
+              <span className="ml-2 text-xs font-normal text-gray-500">{formatDateTime(entry.createdAt)}</span>
+            </p>
+            {entry.message && <p className="text-sm text-gray-600 whitespace-pre-line">{entry.message}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {/* Buyer: pay the latest payment request */}
+      {role === 'buyer' && order.paymentOptions && !isClosed && order.status === 'payment-requested' && (
+        <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3">
+          <h3 className="text-sm font-semibold text-purple-900">Pay this order</h3>
+          {order.paymentOptions.map(option => (
+            <div key={`${option.type}-${option.link}`} className="space-y-2">
+              <p className="text-xs font-medium text-gray-500">{PAYMENT_OPTION_LABELS[option.type]}</p>
+              {option.type === 'ln' && (
+                <div className="flex justify-center">
+                  <InvoiceQRCode invoice={option.link} size={200} />
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs bg-gray-50 rounded-lg px-3 py-2 break-all">{option.link}</code>
+                <button
+                  type="button"
+                  onClick={() => void navigator.clipboard.writeText(option.link)}
+                  className="p-2 text-purple-600 rounded-lg hover:bg-purple-50 transition-colors"
+                  aria-label="Copy payment details"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              {option.type === 'ln' && (
+                <div className="flex flex-wrap gap-2">
+                  {canPayWithWallet && (
+                    <button
+                      type="button"
+                      onClick={() => void handlePay(option.link)}
+                      disabled={isPaying}
+                      className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isPaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wallet className="w-4 h-4" />}
+                      Pay with Wallet
+                    </button>
+                  )}
+                  <a href={`lightning:${option.link}`} className="btn-outline-sm inline-flex items-center gap-2">
+                    <Zap className="w-4 h-4" />
+                    Open in Wallet App
+                  </a>
+                </div>
+              )}
+              {option.type === 'url' && (
+                <a href={option.link} target="_blank" rel="noopener noreferrer" className="btn-outline-sm inline-flex">
+                  Open Payment Page
+                </a>
+              )}
+            </div>
+          ))}
+          {paymentNotice && <p className="text-sm text-green-700">{paymentNotice}</p>}
+        </div>
+      )}
+
+      {/* Buyer: download and decrypt digital products */}
+      {role === 'buyer' && order.deliveries && order.deliveries.length > 0 && order.status !== 'cancelled' && (
+        <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3 mb-4">
+          <h3 className="text-sm font-semibold text-purple-900">Downloads</h3>
+          {order.deliveries.map(delivery => (
+            <div key={delivery.url} className="flex items-center justify-between gap-3 text-sm">
+              <span className="min-w-0 truncate text-gray-800">
+                {delivery.name} <span className="text-gray-500">({formatFileSize(delivery.size)})</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onDownload(delivery)}
+                disabled={downloadingUrl === delivery.url}
+                className="btn-outline-sm inline-flex items-center gap-2 shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {downloadingUrl === delivery.url ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Buyer: review a completed order as a verified purchase */}
+      {role === 'buyer' && order.status === 'completed' && order.purchaseProof && (
+        <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3">
+          <h3 className="text-sm font-semibold text-purple-900">Review your purchase</h3>
+          <p className="text-xs text-gray-500">Reviews from this order show as a verified purchase.</p>
+          {reviewTargets.map(({ key, label, target }) => (
+            <div key={key}>
+              {reviewingKey === key ? (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-900">Review {label}</p>
+                  <ReviewForm
+                    isSubmitting={isReviewing}
+                    onSubmit={(rating, content) => handleReview(target, key, rating, content)}
+                    onCancel={() => setReviewingKey(null)}
+                  />
+                </div>
+              ) : reviewedKeys.includes(key) ? (
+                <p className="text-sm text-green-700 inline-flex items-center gap-2">
+                  <CheckCircle className="w-4 h-4" />
+                  Review of {label} published
+                </p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setReviewingKey(key)}
+                  className="btn-outline-sm inline-flex items-center gap-2"
+                >
+                  <Star className="w-4 h-4" />
+                  Review {label}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Seller: request payment and update status */}
+      {role === 'seller' && !isClosed && (
+        <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3">
+          {(order.status === 'pending' || order.status === 'payment-requested') && (
+            <>
+              <h3 className="text-sm font-semibold text-purple-900">
+                {order.status === 'pending' ? 'Request payment' : 'Send a new payment request'}
+              </h3>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                  value={paymentType}
+                  onChange={(e) => setPaymentType(e.target.value as PaymentOptionType)}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                >
+                  {(Object.keys(PAYMENT_OPTION_LABELS) as PaymentOptionType[]).map(type => (
+                    <option key={type} value={type}>{PAYMENT_OPTION_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={paymentLink}
+                  onChange={(e) => setPaymentLink(e.target.value)}
+                  placeholder={paymentType === 'ln' ? 'lnbc...' : paymentType === 'btc' ? 'bc1...' : 'https://...'}
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                />
+              </div>
+              {canReceiveWithWallet && satsTotal !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => void handleCreateInvoice()}
+                  disabled={isCreatingInvoice}
+                  className="text-sm text-purple-600 hover:text-purple-800 inline-flex items-center gap-1 disabled:opacity-50"
+                >
+                  {isCreatingInvoice ? <Loader2 className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}
+                  Create {satsTotal.toLocaleString()} sats invoice from my wallet
+                </button>
+              )}
+            </>
+          )}
+          <textarea
+            value={sellerMessage}
+            onChange={(e) => setSellerMessage(e.target.value)}
+            placeholder="Message for the buyer (optional, e.g. tracking number)"
+            rows={2}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => void handleUpdateStatus('cancelled')}
+              disabled={isUpdating}
+              className="btn-outline-sm inline-flex items-center gap-2 text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <XCircle className="w-4 h-4" />
+              Cancel Order
+            </button>
+            {(order.status === 'pending' || order.status === 'payment-requested') && (
+              <button
+                type="button"
+                onClick={() => void handleRequestPayment()}
+                disabled={isUpdating || !paymentLink.trim()}
+                className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Zap className="w-4 h-4" />
+                Send Payment Request
+              </button>
+            )}
+            {nextStatus && (
+              <button
+                type="button"
+                onClick={() => void handleUpdateStatus(nextStatus)}
+                disabled={isUpdating}
+                className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUpdating ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : nextStatus === 'shipped' ? (
+                  <Truck className="w-4 h-4" />
+                ) : (
+                  <CheckCircle className="w-4 h-4" />
+                )}
+                Mark {ORDER_STATUS_LABELS[nextStatus]}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,13 +1,27 @@
 'use client';
 
 import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Heart, Bookmark, Share2, Package, Bitcoin, DollarSign } from 'lucide-react';
+import { Heart, Bookmark, Share2, Package, Bitcoin, DollarSign, ShoppingCart, Store } from 'lucide-react';
 import { ContentDetailHeader } from '@/components/generic/ContentDetailHeader';
 import { ContentDetailLayout } from '@/components/generic/ContentDetailLayout';
 import { ContentMediaGallery } from '@/components/generic/ContentMediaGallery';
 import { ContentDetailInfo } from '@/components/generic/ContentDetailInfo';
+import { ZapPanel } from '@/components/generic/ZapPanel';
+import { ReviewPanel } from '@/components/generic/ReviewPanel';
+import { StarRating } from '@/components/primitives/StarRating';
 import { logger } from '@/services/core/LoggingService';
+import { MAX_CART_QUANTITY, getProductAddress } from '@/services/business/CartService';
+import { getStorefrontPath } from '@/services/business/StorefrontService';
+import { useCart } from '@/hooks/useCart';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useReviews } from '@/hooks/useReviews';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { DELIVERY_METHODS, PRODUCT_AVAILABILITY, getShippingDestinationName } from '@/config/shop';
+import { formatFileSize } from '@/config/media';
+import { isExpired } from '@/utils/dateUtils';
+import { formatDeliveryEstimate, formatProductPrice, getProductAvailability, getProductPath } from '@/types/shop';
 import type { ProductEvent } from '@/types/shop';
 import type { ContentMediaItem } from '@/types/content-media';
 import type { InfoItem } from '@/components/generic/ContentDetailInfo';
@@ -21,6 +35,40 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
   const router = useRouter();
   const [isLiked, setIsLiked] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
+  const [cartQuantity, setCartQuantity] = useState(1);
+  const [addedToCart, setAddedToCart] = useState(false);
+  const [selectedVariantId, setSelectedVariantId] = useState(
+    () => product.variants.find(variant => variant.quantity !== 0)?.id ?? product.variants[0]?.id
+  );
+  const { user, isAuthenticated } = useAuthStore();
+  const { items: cartItems, add: addToCart } = useCart();
+  const { formatConverted } = useExchangeRates();
+  const { summary: sellerRating } = useReviews({ type: 'seller', sellerPubkey: product.pubkey });
+
+  const availability = getProductAvailability(product);
+  const selectedVariant = product.variants.find(variant => variant.id === selectedVariantId);
+  const stock = selectedVariant ? selectedVariant.quantity : product.quantity;
+  const expired = isExpired(product.expiresAt);
+  const isOrderable = availability === 'available' && stock !== 0 && !expired;
+  const maxQuantity = stock === null ? MAX_CART_QUANTITY : Math.min(stock, MAX_CART_QUANTITY);
+
+  const canAddToCart = isAuthenticated && user?.pubkey !== product.pubkey;
+  const inCartQuantity = cartItems.find(
+    item => item.sellerPubkey === product.pubkey &&
+      item.dTag === product.dTag &&
+      item.variantId === selectedVariant?.id
+  )?.quantity;
+
+  const handleAddToCart = () => {
+    addToCart(product, cartQuantity, selectedVariant);
+    setCartQuantity(1);
+    setAddedToCart(true);
+  };
+
+  const handleBuyNow = () => {
+    addToCart(product, cartQuantity, selectedVariant);
+    router.push('/cart');
+  };
 
   const handleContactSeller = () => {
     logger.info('Navigating to messages for seller', {
@@ -42,7 +90,7 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
   };
 
   const handleShare = async () => {
-    const url = `${window.location.origin}/shop/${encodeURIComponent(product.dTag)}`;
+    const url = `${window.location.origin}${getProductPath(product)}`;
     
     if (navigator.share) {
       try {
@@ -133,29 +181,59 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
       value: product.condition.charAt(0).toUpperCase() + product.condition.slice(1),
     });
 
+    items.push({
+      label: 'Availability',
+      value: PRODUCT_AVAILABILITY.find(option => option.id === availability)?.name || availability,
+    });
+
+    if (stock !== null) {
+      items.push({
+        label: selectedVariant ? `In Stock (${selectedVariant.name})` : 'In Stock',
+        value: stock.toLocaleString(),
+      });
+    }
+
     items.push({
       label: 'Location',
       value: product.location,
     });
 
+    if (product.deliveryMethods.length > 0) {
+      items.push({
+        label: 'Delivery',
+        value: product.deliveryMethods
+          .map(method => DELIVERY_METHODS.find(option => option.id === method)?.name || method)
+          .join(', '),
+      });
+    }
+
+    if (product.deliveryMethods.includes('digital') && product.deliverable) {
+      items.push({
+        label: 'Download',
+        value: `${product.deliverable.name} (${formatFileSize(product.deliverable.size)}), sent once paid`,
+      });
+    }
+
     items.push({
       label: 'Contact',
       value: product.contact,
     });
 
     return items;
-  }, [product.category, product.condition, product.location, product.contact]);
+  }, [product.category, product.condition, product.location, product.contact, product.deliveryMethods, product.deliverable, availability, stock, selectedVariant]);
 
   // Price display
+  const price = selectedVariant?.price ?? product.price;
   const priceDisplay = useMemo(() => {
     if (product.currency === 'sats') {
-      return `${product.price.toLocaleString()} sats`;
+      return `${price.toLocaleString()} sats`;
     } else if (product.currency === 'BTC') {
-      return `₿${product.price}`;
+      return `₿${price}`;
     } else {
-      return `$${product.price}`;
+      return `$${price}`;
     }
-  }, [product.price, product.currency]);
+  }, [price, product.currency]);
+  const convertedPrice = formatConverted(price, product.currency);
 
   const currencyIcon = useMemo(() => {
     if (product.currency === 'BTC' || product.currency === 'sats') {
@@ -242,13 +320,58 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
                 <div>
                   <p className="text-sm text-gray-600 mb-1">Price</p>
                   <p className="text-4xl font-bold text-purple-900">{priceDisplay}</p>
+                  {convertedPrice && (
+                    <p className="mt-1 text-sm font-medium text-gray-600">{convertedPrice}</p>
+                  )}
                 </div>
                 <div className="p-3 bg-white rounded-full shadow-sm">
                   {currencyIcon}
                 </div>
               </div>
+              {availability !== 'available' && (
+                <span
+                  className={`mt-3 inline-block px-2 py-0.5 text-xs font-medium rounded-full ${
+                    availability === 'sold-out' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                  }`}
+                >
+                  {availability === 'sold-out' ? 'Sold out' : 'Reserved'}
+                </span>
+              )}
+              {expired && (
+                <span className="mt-3 ml-2 inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  Listing expired
+                </span>
+              )}
             </div>
 
+            {/* Variant selection */}
+            {product.variants.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Options</p>
+                <div className="flex flex-wrap gap-2">
+                  {product.variants.map(variant => (
+                    <button
+                      key={variant.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedVariantId(variant.id);
+                        setCartQuantity(1);
+                        setAddedToCart(false);
+                      }}
+                      disabled={variant.quantity === 0}
+                      className={`px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50 disabled:line-through disabled:cursor-not-allowed ${
+                        variant.id === selectedVariantId
+                          ? 'border-purple-500 bg-purple-50 text-purple-800'
+                          : 'border-gray-300 text-gray-700 hover:border-purple-300'
+                      }`}
+                    >
+                      {variant.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Product metadata grid */}
             {productMetadata.length > 0 && (
               <dl className="grid grid-cols-1 gap-4 rounded-2xl bg-white/70 p-4 shadow-inner ring-1 ring-primary-100 md:grid-cols-2">
@@ -283,6 +406,12 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
                   <p className="text-sm font-medium text-gray-900 truncate">
                     {product.pubkey.slice(0, 8)}...{product.pubkey.slice(-8)}
                   </p>
+                  {sellerRating.count > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-gray-600">
+                      <StarRating value={sellerRating.average} size="xs" label="Seller rating" />
+                      <span>({sellerRating.count})</span>
+                    </div>
+                  )}
                   <button
                     onClick={() => navigator.clipboard.writeText(product.pubkey)}
                     className="text-xs text-purple-600 hover:text-purple-700"
@@ -299,8 +428,93 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
               >
                 Contact Seller
               </button>
+              <Link
+                href={getStorefrontPath(product.pubkey)}
+                className="btn-outline-sm w-full mt-2 flex items-center justify-center gap-2"
+              >
+                <Store className="w-4 h-4" />
+                View Seller&apos;s Shop
+              </Link>
             </div>
 
+            {canAddToCart && (
+              <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
+                  Cart
+                </h3>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="cart-quantity" className="sr-only">Quantity</label>
+                  <input
+                    id="cart-quantity"
+                    type="number"
+                    min={1}
+                    max={maxQuantity}
+                    value={cartQuantity}
+                    disabled={!isOrderable}
+                    onChange={(e) => setCartQuantity(Math.min(Math.max(1, Number(e.target.value) || 1), maxQuantity))}
+                    className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddToCart}
+                    disabled={!isOrderable}
+                    className="btn-outline-sm flex-1 inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ShoppingCart className="w-4 h-4" />
+                    Add to Cart
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleBuyNow}
+                  disabled={!isOrderable}
+                  className="btn-primary-sm w-full mt-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isOrderable ? 'Buy Now' : expired ? 'Expired' : availability === 'reserved' ? 'Reserved' : 'Sold Out'}
+                </button>
+                {inCartQuantity && (
+                  <p className="mt-3 text-xs text-gray-600">
+                    {addedToCart ? 'Added! ' : ''}{inCartQuantity} in your cart ·{' '}
+                    <button
+                      type="button"
+                      onClick={() => router.push('/cart')}
+                      className="text-purple-600 hover:text-purple-700 font-medium"
+                    >
+                      View cart
+                    </button>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {product.deliveryMethods.includes('shipping') && product.shippingZones.length > 0 && (
+              <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
+                  Shipping
+                </h3>
+                <ul className="space-y-2 text-sm">
+                  {product.shippingZones.map(zone => {
+                    const estimate = formatDeliveryEstimate(zone);
+                    return (
+                      <li key={zone.id} className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="font-medium text-gray-900">{getShippingDestinationName(zone.destination)}</p>
+                          {estimate && <p className="text-xs text-gray-500">{estimate}</p>}
+                        </div>
+                        <span className="text-gray-700 whitespace-nowrap">
+                          {zone.cost > 0 ? formatProductPrice(zone.cost, product.currency) : 'Free'}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            <ZapPanel
+              target={{ eventId: product.id, pubkey: product.pubkey, kind: product.kind, dTag: product.dTag }}
+            />
+
             {/* Product meta info */}
             <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
               <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
@@ -313,6 +527,14 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
                     {new Date(product.publishedAt * 1000).toLocaleDateString()}
                   </dd>
                 </div>
+                {product.expiresAt && (
+                  <div>
+                    <dt className="text-gray-500">{expired ? 'Expired' : 'Expires'}</dt>
+                    <dd className="text-gray-900 font-medium">
+                      {new Date(product.expiresAt * 1000).toLocaleDateString()}
+                    </dd>
+                  </div>
+                )}
                 <div>
                   <dt className="text-gray-500">Product ID</dt>
                   <dd className="text-gray-900 font-mono text-xs break-all">
@@ -331,6 +553,10 @@ export function ProductDetail({ product, backHref = '/shop' }: ProductDetailProp
           />
         }
       />
+
+      <ReviewPanel
+        target={{ type: 'product', address: getProductAddress(product.kind, product.pubkey, product.dTag), sellerPubkey: product.pubkey }}
+      />
     </div>
   );
 }
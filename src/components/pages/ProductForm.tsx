@@ -6,17 +6,33 @@ import dynamic from 'next/dynamic';
 import {
   PRODUCT_CATEGORIES,
   PRODUCT_CONDITIONS,
+  PRODUCT_AVAILABILITY,
+  MAX_PRODUCT_VARIANTS,
+  DELIVERY_METHODS,
+  MAX_SHIPPING_ZONES,
+  WORLDWIDE_DESTINATION,
   CURRENCIES,
 } from '@/config/shop';
+import { COUNTRIES, REGIONS } from '@/config/contributions';
+import { formatFileSize } from '@/config/media';
 import { AttachmentManager } from '@/components/generic/AttachmentManager';
 import { UserConsentDialog } from '@/components/generic/UserConsentDialog';
 import { GenericAttachment } from '@/types/attachments';
-import { X, Loader2 } from 'lucide-react';
+import { X, Loader2, Plus, Lock, Upload } from 'lucide-react';
 import { useShopPublishing } from '@/hooks/useShopPublishing';
 import { useProductEditing } from '@/hooks/useProductEditing';
+import { useDeliverableUpload } from '@/hooks/useDeliverableUpload';
 import { validateProductData } from '@/services/business/ProductValidationService';
 import { filterVisibleTags } from '@/utils/tagFilter';
-import type { ProductData } from '@/types/shop';
+import { fromDateInputValue, toDateInputValue } from '@/utils/dateUtils';
+import type {
+  ProductAvailability,
+  ProductData,
+  ProductDeliverable,
+  ProductDeliveryMethod,
+  ProductVariant,
+  ShippingZone,
+} from '@/types/shop';
 
 // Dynamic import for RichTextEditor (client-side only)
 const RichTextEditor = dynamic(
@@ -36,14 +52,55 @@ interface ProductFormData {
   condition: string;
   location: string;
   contact: string;
+  availability: string;
+  quantity: string; // Empty = stock not tracked
+  expiresAt: string; // Date input value, empty = never expires
   tags: string[];
 }
 
+interface VariantFormRow {
+  id: string;
+  name: string;
+  price: string;
+  quantity: string; // Empty = stock not tracked
+}
+
+const toVariantRows = (variants: ProductVariant[] = []): VariantFormRow[] =>
+  variants.map(variant => ({
+    id: variant.id,
+    name: variant.name,
+    price: variant.price.toString(),
+    quantity: variant.quantity === null ? '' : variant.quantity.toString(),
+  }));
+
+interface ShippingZoneFormRow {
+  id: string;
+  destination: string;
+  cost: string;
+  minDays: string; // Empty = no estimate
+  maxDays: string;
+}
+
+const toShippingZoneRows = (zones: ShippingZone[] = []): ShippingZoneFormRow[] =>
+  zones.map(zone => ({
+    id: zone.id,
+    destination: zone.destination,
+    cost: zone.cost.toString(),
+    minDays: zone.minDays === null ? '' : zone.minDays.toString(),
+    maxDays: zone.maxDays === null ? '' : zone.maxDays.toString(),
+  }));
+
+const parseStock = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
 interface ProductFormProps {
   onProductCreated?: (productId: string) => void;
   onCancel?: () => void;
   defaultValues?: Partial<ProductFormData & { 
     attachments: GenericAttachment[];
+    variants: ProductVariant[];
+    deliveryMethods: ProductDeliveryMethod[];
+    shippingZones: ShippingZone[];
+    deliverable: ProductDeliverable | null;
     dTag?: string;
     productId?: string; // For editing with selective operations
   }>;
@@ -61,6 +118,7 @@ export const ProductForm = ({
   // Initialize hooks - use editing hook for edit mode, publishing hook for create mode
   const publishingHook = useShopPublishing();
   const editingHook = useProductEditing();
+  const { isUploading: isUploadingDeliverable, error: deliverableError, upload: uploadDeliverable } = useDeliverableUpload();
   
   // Choose the appropriate hook based on mode
   const {
@@ -104,6 +162,13 @@ export const ProductForm = ({
           condition: data.condition,
           location: data.location,
           contact: data.contact,
+          availability: data.availability,
+          quantity: data.quantity,
+          variants: data.variants,
+          deliveryMethods: data.deliveryMethods,
+          shippingZones: data.shippingZones,
+          deliverable: data.deliverable,
+          expiresAt: data.expiresAt,
           tags: data.tags,
           attachments: [], // Attachments populated from files
         },
@@ -127,8 +192,15 @@ export const ProductForm = ({
     condition: defaultValues?.condition || '',
     location: defaultValues?.location || '',
     contact: defaultValues?.contact || '',
+    availability: defaultValues?.availability || 'available',
+    quantity: defaultValues?.quantity || '',
+    expiresAt: defaultValues?.expiresAt || '',
     tags: filterVisibleTags(defaultValues?.tags || []),
   });
+  const [variants, setVariants] = useState<VariantFormRow[]>(toVariantRows(defaultValues?.variants));
+  const [deliveryMethods, setDeliveryMethods] = useState<ProductDeliveryMethod[]>(defaultValues?.deliveryMethods || []);
+  const [shippingZones, setShippingZones] = useState<ShippingZoneFormRow[]>(toShippingZoneRows(defaultValues?.shippingZones));
+  const [deliverable, setDeliverable] = useState<ProductDeliverable | null>(defaultValues?.deliverable || null);
   const [attachments, setAttachments] = useState<GenericAttachment[]>(defaultValues?.attachments || []);
   const [tagInput, setTagInput] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -145,8 +217,15 @@ export const ProductForm = ({
         condition: defaultValues.condition || '',
         location: defaultValues.location || '',
         contact: defaultValues.contact || '',
+        availability: defaultValues.availability || 'available',
+        quantity: defaultValues.quantity || '',
+        expiresAt: defaultValues.expiresAt || '',
         tags: filterVisibleTags(defaultValues.tags || []),
       });
+      setVariants(toVariantRows(defaultValues.variants));
+      setDeliveryMethods(defaultValues.deliveryMethods || []);
+      setShippingZones(toShippingZoneRows(defaultValues.shippingZones));
+      setDeliverable(defaultValues.deliverable || null);
       
       if (defaultValues.attachments) {
         setAttachments(defaultValues.attachments);
@@ -202,6 +281,63 @@ export const ProductForm = ({
     setErrors(prev => ({ ...prev, attachments: error }));
   };
 
+  const handleAddVariant = () => {
+    setVariants(prev => [...prev, { id: Math.random().toString(36).slice(2, 10), name: '', price: formData.price, quantity: '' }]);
+  };
+
+  const handleVariantChange = (id: string, field: keyof Omit<VariantFormRow, 'id'>, value: string) => {
+    setVariants(prev => prev.map(variant => (variant.id === id ? { ...variant, [field]: value } : variant)));
+    if (errors.variants) {
+      setErrors(prev => ({ ...prev, variants: '' }));
+    }
+  };
+
+  const handleRemoveVariant = (id: string) => {
+    setVariants(prev => prev.filter(variant => variant.id !== id));
+  };
+
+  const handleToggleDeliveryMethod = (method: ProductDeliveryMethod) => {
+    setDeliveryMethods(prev => (prev.includes(method) ? prev.filter(m => m !== method) : [...prev, method]));
+    if (errors.deliveryMethods) {
+      setErrors(prev => ({ ...prev, deliveryMethods: '' }));
+    }
+  };
+
+  const handleAddShippingZone = () => {
+    setShippingZones(prev => [
+      ...prev,
+      {
+        id: Math.random().toString(36).slice(2, 10),
+        destination: prev.length === 0 ? WORLDWIDE_DESTINATION : '',
+        cost: '0',
+        minDays: '',
+        maxDays: '',
+      },
+    ]);
+  };
+
+  const handleShippingZoneChange = (id: string, field: keyof Omit<ShippingZoneFormRow, 'id'>, value: string) => {
+    setShippingZones(prev => prev.map(zone => (zone.id === id ? { ...zone, [field]: value } : zone)));
+    if (errors.shippingZones) {
+      setErrors(prev => ({ ...prev, shippingZones: '' }));
+    }
+  };
+
+  const handleRemoveShippingZone = (id: string) => {
+    setShippingZones(prev => prev.filter(zone => zone.id !== id));
+  };
+
+  const handleDeliverableChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const uploaded = await uploadDeliverable(file);
+    if (uploaded) {
+      setDeliverable(uploaded);
+    }
+  };
+
   const handleAddTag = () => {
     if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
       const newTags = [...formData.tags, tagInput.trim()];
@@ -228,6 +364,26 @@ export const ProductForm = ({
       condition: formData.condition as 'new' | 'used' | 'refurbished',
       location: formData.location,
       contact: formData.contact,
+      availability: formData.availability as ProductAvailability,
+      quantity: variants.length > 0 ? null : parseStock(formData.quantity),
+      variants: variants.map(variant => ({
+        id: variant.id,
+        name: variant.name.trim(),
+        price: parseFloat(variant.price),
+        quantity: parseStock(variant.quantity),
+      })),
+      deliveryMethods,
+      shippingZones: deliveryMethods.includes('shipping')
+        ? shippingZones.map(zone => ({
+          id: zone.id,
+          destination: zone.destination,
+          cost: parseFloat(zone.cost || '0'),
+          minDays: parseStock(zone.minDays),
+          maxDays: parseStock(zone.maxDays),
+        }))
+        : [],
+      deliverable: deliveryMethods.includes('digital') ? deliverable : null,
+      expiresAt: fromDateInputValue(formData.expiresAt),
       tags: formData.tags,
       attachments: [], // Attachments will be populated from files during upload
     };
@@ -272,8 +428,15 @@ export const ProductForm = ({
         condition: '',
         location: '',
         contact: '',
+        availability: 'available',
+        quantity: '',
+        expiresAt: '',
         tags: [],
       });
+      setVariants([]);
+      setDeliveryMethods([]);
+      setShippingZones([]);
+      setDeliverable(null);
       setAttachments([]);
       setTagInput('');
       setErrors({});
@@ -411,6 +574,141 @@ export const ProductForm = ({
             </div>
           </div>
 
+          {/* Availability and Stock */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="availability" className="block text-sm font-medium text-gray-700 mb-2">
+                Availability <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="availability"
+                value={formData.availability}
+                onChange={(e) => handleInputChange('availability', e.target.value)}
+                className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                  errors.availability ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                {PRODUCT_AVAILABILITY.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name} - {option.description}
+                  </option>
+                ))}
+              </select>
+              {errors.availability && <p className="mt-1 text-sm text-red-600">{errors.availability}</p>}
+            </div>
+
+            {variants.length === 0 && (
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-2">
+                  Quantity in Stock
+                </label>
+                <input
+                  type="number"
+                  id="quantity"
+                  value={formData.quantity}
+                  onChange={(e) => handleInputChange('quantity', e.target.value)}
+                  className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                    errors.quantity ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Leave empty if you don't track stock"
+                  min="0"
+                  step="1"
+                />
+                {errors.quantity && <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>}
+                <p className="mt-1 text-xs text-gray-500">Shown as sold out when it reaches 0</p>
+              </div>
+            )}
+          </div>
+
+          {/* Listing expiration (NIP-40) */}
+          <div>
+            <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-2">
+              Listing Expires On
+            </label>
+            <input
+              type="date"
+              id="expiresAt"
+              value={formData.expiresAt}
+              onChange={(e) => handleInputChange('expiresAt', e.target.value)}
+              min={toDateInputValue(Math.floor(Date.now() / 1000))}
+              className={`w-full md:w-1/2 px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                errors.expiresAt ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.expiresAt && <p className="mt-1 text-sm text-red-600">{errors.expiresAt}</p>}
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty to keep the listing up until you remove it. Expired listings are hidden from the Shop and can be renewed from My Shop.
+            </p>
+          </div>
+
+          {/* Variants */}
+          <div id="variants">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Variants
+              </label>
+              {variants.length < MAX_PRODUCT_VARIANTS && (
+                <button
+                  type="button"
+                  onClick={handleAddVariant}
+                  className="text-sm text-purple-600 hover:text-purple-800 inline-flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Variant
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Sizes, colours or editions with their own price and stock. The price above is shown when no variant is picked.
+            </p>
+            {variants.length > 0 && (
+              <div className="space-y-2">
+                {variants.map((variant) => (
+                  <div key={variant.id} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="text"
+                      value={variant.name}
+                      onChange={(e) => handleVariantChange(variant.id, 'name', e.target.value)}
+                      className="col-span-5 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="e.g., Size M / Blue"
+                      maxLength={50}
+                      aria-label="Variant name"
+                    />
+                    <input
+                      type="number"
+                      value={variant.price}
+                      onChange={(e) => handleVariantChange(variant.id, 'price', e.target.value)}
+                      className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Price"
+                      min="0"
+                      step="0.01"
+                      aria-label="Variant price"
+                    />
+                    <input
+                      type="number"
+                      value={variant.quantity}
+                      onChange={(e) => handleVariantChange(variant.id, 'quantity', e.target.value)}
+                      className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Stock"
+                      min="0"
+                      step="1"
+                      aria-label="Variant stock"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveVariant(variant.id)}
+                      className="col-span-1 p-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                      aria-label={`Remove variant ${variant.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {errors.variants && <p className="mt-1 text-sm text-red-600">{errors.variants}</p>}
+          </div>
+
           {/* Location */}
           <div>
             <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
@@ -431,6 +729,160 @@ export const ProductForm = ({
             <p className="mt-1 text-xs text-gray-500">Where the product is located or can be accessed</p>
           </div>
 
+          {/* Delivery */}
+          <div id="deliveryMethods">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Delivery <span className="text-red-500">*</span>
+            </label>
+            <div className="flex flex-wrap gap-4">
+              {DELIVERY_METHODS.map((method) => (
+                <label key={method.id} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={deliveryMethods.includes(method.id as ProductDeliveryMethod)}
+                    onChange={() => handleToggleDeliveryMethod(method.id as ProductDeliveryMethod)}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  <span>
+                    {method.name} <span className="text-gray-500">- {method.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {errors.deliveryMethods && <p className="mt-1 text-sm text-red-600">{errors.deliveryMethods}</p>}
+          </div>
+
+          {/* Shipping Zones */}
+          {deliveryMethods.includes('shipping') && (
+            <div id="shippingZones">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Shipping Zones <span className="text-red-500">*</span>
+                </label>
+                {shippingZones.length < MAX_SHIPPING_ZONES && (
+                  <button
+                    type="button"
+                    onClick={handleAddShippingZone}
+                    className="text-sm text-purple-600 hover:text-purple-800 inline-flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Zone
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                Cost in {formData.currency} and delivery time in days. A country zone overrides its region, a region overrides worldwide.
+              </p>
+              {shippingZones.length > 0 && (
+                <div className="space-y-2">
+                  {shippingZones.map((zone) => (
+                    <div key={zone.id} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={zone.destination}
+                        onChange={(e) => handleShippingZoneChange(zone.id, 'destination', e.target.value)}
+                        className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        aria-label="Shipping destination"
+                      >
+                        <option value="">Select destination</option>
+                        <option value={WORLDWIDE_DESTINATION}>Worldwide</option>
+                        <optgroup label="Regions">
+                          {REGIONS.map((region) => (
+                            <option key={region.id} value={region.id}>{region.name}</option>
+                          ))}
+                        </optgroup>
+                        <optgroup label="Countries">
+                          {COUNTRIES.map((country) => (
+                            <option key={country.id} value={country.id}>{country.name}</option>
+                          ))}
+                        </optgroup>
+                      </select>
+                      <input
+                        type="number"
+                        value={zone.cost}
+                        onChange={(e) => handleShippingZoneChange(zone.id, 'cost', e.target.value)}
+                        className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        placeholder="Cost"
+                        min="0"
+                        step="0.01"
+                        aria-label="Shipping cost"
+                      />
+                      <input
+                        type="number"
+                        value={zone.minDays}
+                        onChange={(e) => handleShippingZoneChange(zone.id, 'minDays', e.target.value)}
+                        className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        placeholder="Min days"
+                        min="0"
+                        step="1"
+                        aria-label="Minimum delivery days"
+                      />
+                      <input
+                        type="number"
+                        value={zone.maxDays}
+                        onChange={(e) => handleShippingZoneChange(zone.id, 'maxDays', e.target.value)}
+                        className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        placeholder="Max days"
+                        min="0"
+                        step="1"
+                        aria-label="Maximum delivery days"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveShippingZone(zone.id)}
+                        className="col-span-1 p-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                        aria-label="Remove shipping zone"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {errors.shippingZones && <p className="mt-1 text-sm text-red-600">{errors.shippingZones}</p>}
+            </div>
+          )}
+
+          {/* Digital File */}
+          {deliveryMethods.includes('digital') && (
+            <div id="deliverable">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Digital File
+              </label>
+              <p className="text-xs text-gray-500 mb-3">
+                Encrypted in your browser before upload. Buyers receive the key in My Orders once you mark their order paid.
+              </p>
+              {deliverable ? (
+                <div className="flex items-center justify-between gap-3 px-3 py-2 border border-gray-300 rounded-lg text-sm">
+                  <span className="inline-flex items-center gap-2 min-w-0">
+                    <Lock className="w-4 h-4 text-purple-600 shrink-0" />
+                    <span className="truncate">{deliverable.name}</span>
+                    <span className="text-gray-500 shrink-0">({formatFileSize(deliverable.size)})</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setDeliverable(null)}
+                    className="p-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    aria-label="Remove digital file"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <label className={`btn-outline-sm inline-flex items-center gap-2 ${isUploadingDeliverable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                  {isUploadingDeliverable ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  {isUploadingDeliverable ? 'Encrypting and uploading...' : 'Choose File'}
+                  <input
+                    type="file"
+                    className="sr-only"
+                    disabled={isUploadingDeliverable}
+                    onChange={(e) => void handleDeliverableChange(e)}
+                  />
+                </label>
+              )}
+              {deliverableError && <p className="mt-1 text-sm text-red-600">{deliverableError}</p>}
+            </div>
+          )}
+
           {/* Contact */}
           <div>
             <label htmlFor="contact" className="block text-sm font-medium text-gray-700 mb-2">
@@ -574,7 +1026,7 @@ export const ProductForm = ({
           )}
           <button
             type="submit"
-            disabled={isPublishing}
+            disabled={isPublishing || isUploadingDeliverable}
             className="px-8 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
             {isPublishing && <Loader2 className="w-4 h-4 animate-spin" />}
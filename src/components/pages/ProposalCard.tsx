@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Circle, FileSignature, FileText, Loader2, MessageCircle, Star, UserCheck, XCircle } from 'lucide-react';
+import { ContractForm } from '@/components/generic/ContractForm';
+import { PROPOSAL_STATUS_LABELS, formatProposalRate } from '@/services/business/ProposalService';
+import { formatDateTime } from '@/utils/dateUtils';
+import { formatFileSize } from '@/config/media';
+import type { Proposal, ProposalDecision, ProposalStatus } from '@/types/proposal';
+import type { MilestoneDraft } from '@/types/escrow';
+
+const STATUS_BADGE_CLASSES: Record<ProposalStatus, string> = {
+  submitted: 'bg-gray-100 text-gray-700',
+  shortlisted: 'bg-orange-100 text-orange-700',
+  rejected: 'bg-red-100 text-red-700',
+  hired: 'bg-green-100 text-green-700',
+};
+
+interface ProposalCardProps {
+  proposal: Proposal;
+  isUpdating: boolean;
+  onUpdateStatus: (proposal: Proposal, status: ProposalDecision, message: string) => Promise<boolean>;
+  contractId?: string; // Contract already proposed for this hire
+  isProposingContract: boolean;
+  onProposeContract: (proposal: Proposal, title: string, milestones: MilestoneDraft[]) => Promise<boolean>;
+}
+
+/**
+ * One applicant's proposal in the poster's inbox
+ * Shows the cover letter, rate, availability and portfolio files, with
+ * shortlist / reject / hire actions that are sent back to the applicant.
+ * Once hired, the poster proposes an escrow contract with milestones.
+ */
+export function ProposalCard({
+  proposal,
+  isUpdating,
+  onUpdateStatus,
+  contractId,
+  isProposingContract,
+  onProposeContract,
+}: ProposalCardProps) {
+  const [posterMessage, setPosterMessage] = useState('');
+  const [showContractForm, setShowContractForm] = useState(false);
+  const applicant = proposal.applicantPubkey;
+  const isClosed = proposal.status === 'rejected' || proposal.status === 'hired';
+
+  const handleProposeContract = async (title: string, milestones: MilestoneDraft[]) => {
+    const sent = await onProposeContract(proposal, title, milestones);
+    if (sent) setShowContractForm(false);
+    return sent;
+  };
+
+  const handleUpdateStatus = async (status: ProposalDecision) => {
+    const sent = await onUpdateStatus(proposal, status, posterMessage);
+    if (sent) setPosterMessage('');
+  };
+
+  return (
+    <section id={`proposal-${proposal.id}`} className="card p-5">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div className="min-w-0">
+          <p className="font-semibold text-purple-900 truncate">
+            Applicant: {applicant.slice(0, 8)}...{applicant.slice(-8)}
+          </p>
+          <p className="text-xs text-gray-500">Applied {formatDateTime(proposal.createdAt)}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGE_CLASSES[proposal.status]}`}>
+            {PROPOSAL_STATUS_LABELS[proposal.status]}
+          </span>
+          <Link
+            href={`/messages?recipient=${applicant}`}
+            className="p-2 text-purple-600 rounded-lg hover:bg-purple-50 transition-colors"
+            aria-label="Message the applicant"
+          >
+            <MessageCircle className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-800 whitespace-pre-line mb-4">{proposal.coverLetter}</p>
+
+      {(proposal.rate || proposal.availability) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+          {proposal.rate && (
+            <div>
+              <p className="text-gray-500">Proposed rate</p>
+              <p className="font-semibold text-purple-900">{formatProposalRate(proposal.rate)}</p>
+            </div>
+          )}
+          {proposal.availability && (
+            <div>
+              <p className="text-gray-500">Availability</p>
+              <p className="text-gray-800">{proposal.availability}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {proposal.attachments.length > 0 && (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {proposal.attachments.map(file => (
+            <li key={file.sha256} className="py-2 text-sm">
+              <a
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 min-w-0 text-purple-900 hover:text-purple-600"
+              >
+                <FileText className="w-4 h-4 text-purple-400 shrink-0" />
+                <span className="truncate">{file.name}</span>
+                <span className="text-gray-500 shrink-0">({formatFileSize(file.size)})</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Timeline */}
+      {proposal.timeline.length > 1 && (
+        <ol className="space-y-3 border-l-2 border-purple-100 pl-4 mb-4">
+          {proposal.timeline.map(entry => (
+            <li key={entry.messageId} className="relative">
+              {entry.status === 'rejected' ? (
+                <XCircle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-red-500 bg-white" />
+              ) : entry === proposal.timeline[proposal.timeline.length - 1] ? (
+                <CheckCircle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-purple-600 bg-white" />
+              ) : (
+                <Circle className="absolute -left-[1.45rem] top-0.5 w-4 h-4 text-purple-300 bg-white" />
+              )}
+              <p className="text-sm font-medium text-gray-900">
+                {PROPOSAL_STATUS_LABELS[entry.status]}
+                <span className="ml-2 text-xs font-normal text-gray-500">{formatDateTime(entry.createdAt)}</span>
+              </p>
+              {entry.message && <p className="text-sm text-gray-600 whitespace-pre-line">{entry.message}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Poster: escrow contract for the hired applicant */}
+      {proposal.status === 'hired' && (
+        contractId ? (
+          <div className="flex justify-end">
+            <Link
+              href={`/my-work/contracts#contract-${contractId}`}
+              className="btn-outline-sm inline-flex items-center gap-2"
+            >
+              <FileSignature className="w-4 h-4" />
+              View Contract
+            </Link>
+          </div>
+        ) : showContractForm ? (
+          <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100">
+            <ContractForm
+              defaultTitle={proposal.workTitle ?? ''}
+              isSubmitting={isProposingContract}
+              onSubmit={handleProposeContract}
+              onCancel={() => setShowContractForm(false)}
+            />
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setShowContractForm(true)}
+              className="btn-primary-sm inline-flex items-center gap-2"
+            >
+              <FileSignature className="w-4 h-4" />
+              Create Escrow Contract
+            </button>
+          </div>
+        )
+      )}
+
+      {/* Poster: shortlist, reject or hire */}
+      {!isClosed && (
+        <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3">
+          <textarea
+            value={posterMessage}
+            onChange={(e) => setPosterMessage(e.target.value)}
+            placeholder="Message for the applicant (optional)"
+            rows={2}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-purple-500 focus:ring-purple-500"
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => void handleUpdateStatus('rejected')}
+              disabled={isUpdating}
+              className="btn-outline-sm inline-flex items-center gap-2 text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <XCircle className="w-4 h-4" />
+              Reject
+            </button>
+            {proposal.status !== 'shortlisted' && (
+              <button
+                type="button"
+                onClick={() => void handleUpdateStatus('shortlisted')}
+                disabled={isUpdating}
+                className="btn-outline-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Star className="w-4 h-4" />
+                Shortlist
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => void handleUpdateStatus('hired')}
+              disabled={isUpdating}
+              className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserCheck className="w-4 h-4" />}
+              Hire
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
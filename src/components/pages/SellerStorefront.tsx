@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, BadgeCheck, Briefcase, Globe, Loader2, MessageCircle, ShoppingBag, Store } from 'lucide-react';
+import { UnifiedProductCard } from '@/components/generic/UnifiedProductCard';
+import { ReviewPanel } from '@/components/generic/ReviewPanel';
+import { StarRating } from '@/components/primitives/StarRating';
+import { logger } from '@/services/core/LoggingService';
+import { getProductAddress } from '@/services/business/CartService';
+import { getTalentPath } from '@/services/business/TalentService';
+import { useSellerStorefront } from '@/hooks/useSellerStorefront';
+import { useProductRatings } from '@/hooks/useProductRatings';
+import { useReviews } from '@/hooks/useReviews';
+import { useTalentProfile } from '@/hooks/useTalentProfile';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { PRODUCT_CATEGORIES } from '@/config/shop';
+
+interface SellerStorefrontProps {
+  pubkey: string;
+  npub: string;
+}
+
+/**
+ * Seller Storefront Component
+ * Public page of one seller: profile, banner, NIP-05 status, rating
+ * and their active products with category filters
+ *
+ * SOA Layer: Presentation (state from useSellerStorefront)
+ */
+export function SellerStorefront({ pubkey, npub }: SellerStorefrontProps) {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { profile, nip05Verified, products, isLoading, error, refresh } = useSellerStorefront(pubkey);
+  const { summary: sellerRating } = useReviews({ type: 'seller', sellerPubkey: pubkey });
+  const { profile: talentProfile } = useTalentProfile(pubkey);
+  const [selectedCategory, setSelectedCategory] = useState('');
+
+  const ratings = useProductRatings(
+    useMemo(() => products.map(product => getProductAddress(product.kind, product.pubkey, product.dTag)), [products])
+  );
+
+  // Only offer the categories this seller actually lists in
+  const categories = useMemo(
+    () => PRODUCT_CATEGORIES.filter(category => products.some(product => product.category === category.id)),
+    [products]
+  );
+  const visibleProducts = selectedCategory
+    ? products.filter(product => product.category === selectedCategory)
+    : products;
+
+  const displayName = profile?.display_name || `${npub.slice(0, 12)}...${npub.slice(-6)}`;
+  const isOwnStorefront = user?.pubkey === pubkey;
+
+  const handleMessageSeller = () => {
+    logger.info('Navigating to messages for seller', {
+      service: 'SellerStorefront',
+      method: 'handleMessageSeller',
+      sellerPubkey: pubkey,
+    });
+
+    router.push(`/messages?${new URLSearchParams({ recipient: pubkey }).toString()}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-orange-50">
+      {/* Banner */}
+      <div className="relative h-48 md:h-64 bg-gradient-to-r from-purple-600 to-orange-600">
+        {profile?.banner && (
+          <Image src={profile.banner} alt="" fill sizes="100vw" className="object-cover" />
+        )}
+      </div>
+
+      <div className="container-width pb-16">
+        {/* Seller header */}
+        <div className="relative -mt-16 rounded-2xl bg-white/80 p-6 shadow-sm ring-1 ring-primary-100 backdrop-blur-sm">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="w-24 h-24 -mt-16 md:-mt-20 rounded-full bg-purple-100 ring-4 ring-white flex items-center justify-center overflow-hidden flex-shrink-0">
+              {profile?.picture ? (
+                <Image
+                  src={profile.picture}
+                  alt={displayName}
+                  width={96}
+                  height={96}
+                  className="w-24 h-24 rounded-full object-cover"
+                />
+              ) : (
+                <Store className="w-10 h-10 text-purple-600" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <h1 className="text-3xl font-serif font-bold text-purple-900 truncate">{displayName}</h1>
+              <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                {profile?.nip05 && (
+                  nip05Verified ? (
+                    <span className="flex items-center gap-1 text-green-700" title="NIP-05 Verified">
+                      <BadgeCheck className="w-4 h-4" />
+                      {profile.nip05}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500" title="NIP-05 Not Verified">{profile.nip05}</span>
+                  )
+                )}
+                {sellerRating.count > 0 && (
+                  <span className="flex items-center gap-1">
+                    <StarRating value={sellerRating.average} size="xs" label="Seller rating" />
+                    <span>({sellerRating.count})</span>
+                  </span>
+                )}
+                {profile?.website && (
+                  <a
+                    href={profile.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-purple-600 hover:text-purple-700"
+                  >
+                    <Globe className="w-4 h-4" />
+                    {profile.website.replace(/^https?:\/\//, '')}
+                  </a>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {talentProfile && (
+                <Link
+                  href={getTalentPath(pubkey)}
+                  className="btn-outline-sm flex items-center justify-center gap-2"
+                >
+                  <Briefcase className="w-4 h-4" />
+                  {isOwnStorefront ? 'Talent Profile' : 'Hire Me'}
+                </Link>
+              )}
+              {!isOwnStorefront && (
+                <button
+                  type="button"
+                  onClick={handleMessageSeller}
+                  className="btn-primary-sm flex items-center justify-center gap-2"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  Message Seller
+                </button>
+              )}
+            </div>
+          </div>
+
+          {profile?.about && (
+            <p className="mt-4 text-gray-700 whitespace-pre-line">{profile.about}</p>
+          )}
+        </div>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-12 h-12 text-purple-600 animate-spin mb-4" />
+            <p className="text-gray-600">Loading storefront...</p>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && !isLoading && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <AlertCircle className="w-16 h-16 text-red-500 mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Failed to Load Storefront</h3>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <button onClick={refresh} className="btn-primary">
+              Try Again
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <section className="mt-10">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <h2 className="text-2xl font-serif font-bold text-purple-800">Products</h2>
+              <span className="text-gray-600">
+                {visibleProducts.length} product{visibleProducts.length !== 1 ? 's' : ''}
+              </span>
+            </div>
+
+            {/* Category filters */}
+            {categories.length > 1 && (
+              <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label="Filter by category">
+                <button
+                  type="button"
+                  onClick={() => setSelectedCategory('')}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${!selectedCategory ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50'}`}
+                >
+                  All
+                </button>
+                {categories.map(category => (
+                  <button
+                    key={category.id}
+                    type="button"
+                    onClick={() => setSelectedCategory(category.id)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium ${selectedCategory === category.id ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50'}`}
+                  >
+                    {category.icon} {category.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {visibleProducts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-20">
+                <ShoppingBag className="w-16 h-16 text-gray-400 mb-4" />
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">No Products Yet</h3>
+                <p className="text-gray-600">This seller has no active listings right now.</p>
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {visibleProducts.map(product => (
+                  <UnifiedProductCard
+                    key={product.id}
+                    product={product}
+                    variant="shop"
+                    showSellerLink={false}
+                    rating={ratings[getProductAddress(product.kind, product.pubkey, product.dTag)]}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        <div className="mt-12">
+          <ReviewPanel target={{ type: 'seller', sellerPubkey: pubkey }} title="Seller Reviews" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import {
@@ -17,9 +17,16 @@ import {
 } from 'lucide-react';
 
 import { usePublicProducts } from '@/hooks/usePublicProducts';
-import { useShopStore } from '@/stores/useShopStore';
-import { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS } from '@/config/shop';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useProductRatings } from '@/hooks/useProductRatings';
+import { getProductAddress } from '@/services/business/CartService';
+import { DEFAULT_PRICE_RANGE, useShopStore } from '@/stores/useShopStore';
+import { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS, PRODUCT_AVAILABILITY } from '@/config/shop';
+import { DISPLAY_CURRENCIES } from '@/config/currency';
+import { COUNTRIES } from '@/config/contributions';
 import { UnifiedProductCard } from '@/components/generic/UnifiedProductCard';
+import { SavedSearchBar } from '@/components/generic/SavedSearchBar';
+import type { SavedSearchCriteria } from '@/types/saved-search';
 
 export default function ShopContent() {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -29,17 +36,46 @@ export default function ShopContent() {
     searchQuery,
     selectedCategory,
     selectedCondition,
+    selectedAvailability,
+    shipsTo,
     priceRange,
     sortBy,
     setSearchQuery,
     setSelectedCategory,
     setSelectedCondition,
+    setSelectedAvailability,
+    setShipsTo,
     setPriceRange,
     setSortBy,
     clearFilters,
     getFilteredProducts,
   } = useShopStore();
 
+  // Display currency for converted prices and the price range
+  const { displayCurrency, setDisplayCurrency } = useExchangeRates();
+
+  // Current filters as saved search criteria (price range in the display currency)
+  const savedSearchCriteria: SavedSearchCriteria = useMemo(() => ({
+    keywords: searchQuery.trim(),
+    category: selectedCategory,
+    region: '',
+    country: shipsTo,
+    // The store's default range means no price filter
+    minAmount: priceRange.min > DEFAULT_PRICE_RANGE.min ? priceRange.min : null,
+    maxAmount: priceRange.max < DEFAULT_PRICE_RANGE.max ? priceRange.max : null,
+    currency: displayCurrency,
+  }), [searchQuery, selectedCategory, shipsTo, priceRange, displayCurrency]);
+
+  const applySavedSearch = useCallback((criteria: SavedSearchCriteria) => {
+    setSearchQuery(criteria.keywords);
+    setSelectedCategory(criteria.category);
+    setSelectedCondition('');
+    setSelectedAvailability('');
+    setShipsTo(criteria.country);
+    setPriceRange({ min: criteria.minAmount ?? 0, max: criteria.maxAmount ?? DEFAULT_PRICE_RANGE.max });
+    setDisplayCurrency(criteria.currency);
+  }, [setSearchQuery, setSelectedCategory, setSelectedCondition, setSelectedAvailability, setShipsTo, setPriceRange, setDisplayCurrency]);
+
   // Hook to fetch public products
   const {
     isLoading,
@@ -52,6 +88,7 @@ export default function ShopContent() {
 
   // Get filtered products from store
   const products = getFilteredProducts();
+  const ratings = useProductRatings(products.map(product => getProductAddress(product.kind, product.pubkey, product.dTag)));
   
   // Count active filters
   const activeFilterCount = useMemo(() => {
@@ -59,9 +96,11 @@ export default function ShopContent() {
     if (searchQuery) count++;
     if (selectedCategory && selectedCategory !== 'all') count++;
     if (selectedCondition && selectedCondition !== 'all') count++;
-    if (priceRange.min > 0 || priceRange.max < Infinity) count++;
+    if (selectedAvailability && selectedAvailability !== 'all') count++;
+    if (shipsTo) count++;
+    if (priceRange.min > DEFAULT_PRICE_RANGE.min || priceRange.max < DEFAULT_PRICE_RANGE.max) count++;
     return count;
-  }, [searchQuery, selectedCategory, selectedCondition, priceRange]);
+  }, [searchQuery, selectedCategory, selectedCondition, selectedAvailability, shipsTo, priceRange]);
 
   // Featured products (first 2)
   const featured = products.slice(0, 2);
@@ -150,7 +189,7 @@ export default function ShopContent() {
             </div>
           ) : (
             <div className="flex flex-wrap gap-4 items-center justify-between mb-8">
-              {/* Left side: Category, Condition, Price filters */}
+              {/* Left side: Category, Condition, Availability, Currency, Price filters */}
               <div className="flex gap-4 items-center flex-wrap">
                 <label className="text-sm font-medium text-gray-700">Category:</label>
                 <select
@@ -178,7 +217,46 @@ export default function ShopContent() {
                   ))}
                 </select>
 
-                <label className="text-sm font-medium text-gray-700 ml-4">Price Range:</label>
+                <label className="text-sm font-medium text-gray-700 ml-4">Availability:</label>
+                <select
+                  value={selectedAvailability || 'all'}
+                  onChange={e => setSelectedAvailability(e.target.value === 'all' ? '' : e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isLoading}
+                >
+                  <option value="all">All</option>
+                  {PRODUCT_AVAILABILITY.map((option) => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Ships to:</label>
+                <select
+                  value={shipsTo}
+                  onChange={e => setShipsTo(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isLoading}
+                  aria-label="Only show products that ship to my country"
+                >
+                  <option value="">Anywhere</option>
+                  {COUNTRIES.map((country) => (
+                    <option key={country.id} value={country.id}>{country.name}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Currency:</label>
+                <select
+                  value={displayCurrency}
+                  onChange={e => setDisplayCurrency(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                  aria-label="Show prices in"
+                >
+                  {DISPLAY_CURRENCIES.map((currency) => (
+                    <option key={currency.id} value={currency.id}>{currency.id}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Price Range ({displayCurrency}):</label>
                 <div className="flex items-center gap-2">
                   <input
                     type="number"
@@ -195,7 +273,7 @@ export default function ShopContent() {
                   <input
                     type="number"
                     placeholder="Max"
-                    value={priceRange.max === Infinity ? '' : priceRange.max}
+                    value={priceRange.max >= DEFAULT_PRICE_RANGE.max ? '' : priceRange.max}
                     onChange={(e) => setPriceRange({ 
                       ...priceRange, 
                       max: e.target.value ? parseFloat(e.target.value) : Infinity 
@@ -252,6 +330,8 @@ export default function ShopContent() {
             </div>
           )}
 
+          <SavedSearchBar scope="shop" criteria={savedSearchCriteria} onApply={applySavedSearch} />
+
           {/* Loading State */}
           {isLoading && (
             <div className="flex flex-col items-center justify-center py-20">
@@ -322,6 +402,7 @@ export default function ShopContent() {
                         product={product} 
                         variant="shop"
                         featured 
+                        rating={ratings[getProductAddress(product.kind, product.pubkey, product.dTag)]}
                       />
                     ))}
                   </div>
@@ -344,6 +425,7 @@ export default function ShopContent() {
                         product={product} 
                         variant="shop"
                         viewMode={viewMode}
+                        rating={ratings[getProductAddress(product.kind, product.pubkey, product.dTag)]}
                       />
                     ))}
                     {/* See More Card (only in grid mode) */}
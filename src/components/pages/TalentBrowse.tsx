@@ -0,0 +1,256 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { AlertCircle, Globe, Loader2, Search, UserPlus, Users, Zap } from 'lucide-react';
+
+import { useTalentProfiles } from '@/hooks/useTalentProfiles';
+import { TalentCard } from '@/components/generic/TalentCard';
+import { getWorkCategoryById } from '@/config/work';
+import { TALENT_AVAILABILITY, getTalentLanguageByCode } from '@/config/talent';
+import type { TalentFilters } from '@/types/talent';
+
+/**
+ * Talent Browse Component
+ * Freelancers offering work, with skill, language, availability and time zone
+ * filters parallel to the Work browse page
+ *
+ * SOA Layer: Presentation (state from useTalentProfiles)
+ */
+export default function TalentBrowse() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [skillFilter, setSkillFilter] = useState('all');
+  const [languageFilter, setLanguageFilter] = useState('all');
+  const [availabilityFilter, setAvailabilityFilter] = useState('all');
+  const [timeZoneFilter, setTimeZoneFilter] = useState('all');
+  const [sortBy, setSortBy] = useState<TalentFilters['sortBy']>('newest');
+
+  const filters: TalentFilters = useMemo(() => ({
+    searchTerm,
+    skill: skillFilter,
+    language: languageFilter,
+    availability: availabilityFilter,
+    timeZoneRegion: timeZoneFilter,
+    sortBy,
+  }), [searchTerm, skillFilter, languageFilter, availabilityFilter, timeZoneFilter, sortBy]);
+
+  const {
+    profiles,
+    totalCount,
+    isLoading,
+    error,
+    refetch,
+    availableSkills,
+    availableLanguages,
+    availableTimeZoneRegions,
+    activeFilterCount,
+  } = useTalentProfiles(filters);
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setSkillFilter('all');
+    setLanguageFilter('all');
+    setAvailabilityFilter('all');
+    setTimeZoneFilter('all');
+    setSortBy('newest');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-orange-50">
+      <section className="pt-16 lg:pt-20 pb-16 md:pb-20 bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <motion.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+            className="max-w-5xl mx-auto text-center"
+          >
+            <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold mb-6">
+              Nomad Talent
+            </h1>
+            <p className="text-lg text-purple-50 max-w-2xl mx-auto mb-8">
+              Find freelancers from the digital nomad community by skill, language and time zone,
+              and hire them directly over Nostr.
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-6">
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Users className="w-4 h-4 mr-2 text-white" />
+                <span>{totalCount} {totalCount === 1 ? 'Freelancer' : 'Freelancers'}</span>
+              </div>
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Globe className="w-4 h-4 mr-2 text-white" />
+                <span>Every Time Zone</span>
+              </div>
+              <div className="flex items-center text-sm font-medium bg-white/10 backdrop-blur-sm border border-white/20 rounded-full px-4 py-2 shadow-sm">
+                <Zap className="w-4 h-4 mr-2 text-white" />
+                <span>Paid in Sats</span>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </section>
+
+      <section className="py-8 bg-white">
+        <div className="container-width">
+          <div className="max-w-4xl mx-auto">
+            <div className="relative">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-6 h-6 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search skills, headlines or bios..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-14 pr-4 py-3 text-base rounded-lg border border-gray-200 bg-white text-gray-900 placeholder-gray-500 focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20"
+              />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="section-padding">
+        <div className="container-width">
+          {!isLoading && (
+            <div className="flex flex-wrap gap-4 items-center justify-between mb-8">
+              <div className="flex gap-4 items-center flex-wrap">
+                <label className="text-sm font-medium text-gray-700">Skill:</label>
+                <select
+                  value={skillFilter}
+                  onChange={e => setSkillFilter(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="all">All</option>
+                  {availableSkills.map(skill => (
+                    <option key={skill} value={skill}>{getWorkCategoryById(skill)?.name ?? skill}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Language:</label>
+                <select
+                  value={languageFilter}
+                  onChange={e => setLanguageFilter(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="all">All</option>
+                  {availableLanguages.map(code => (
+                    <option key={code} value={code}>{getTalentLanguageByCode(code)?.name ?? code}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Availability:</label>
+                <select
+                  value={availabilityFilter}
+                  onChange={e => setAvailabilityFilter(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="all">All</option>
+                  {TALENT_AVAILABILITY.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Time Zone:</label>
+                <select
+                  value={timeZoneFilter}
+                  onChange={e => setTimeZoneFilter(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="all">All</option>
+                  {availableTimeZoneRegions.map(region => (
+                    <option key={region} value={region}>{region}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-4 items-center flex-wrap">
+                {activeFilterCount > 0 && (
+                  <button
+                    onClick={clearFilters}
+                    className="text-sm text-purple-600 hover:text-purple-700 font-medium flex items-center gap-2"
+                  >
+                    Clear {activeFilterCount} filter{activeFilterCount !== 1 ? 's' : ''}
+                  </button>
+                )}
+                <label className="text-sm font-medium text-gray-700">Sort by:</label>
+                <select
+                  value={sortBy}
+                  onChange={e => setSortBy(e.target.value as TalentFilters['sortBy'])}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="newest">Recently Updated</option>
+                  <option value="rate-asc">Lowest Rate</option>
+                  <option value="rate-desc">Highest Rate</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-20">
+              <Loader2 className="w-12 h-12 text-purple-600 animate-spin mb-4" />
+              <p className="text-gray-600">Loading talent profiles...</p>
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="flex flex-col items-center justify-center py-20">
+              <AlertCircle className="w-16 h-16 text-red-500 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">Failed to Load Talent</h3>
+              <p className="text-gray-600 mb-6">{error}</p>
+              <button onClick={() => void refetch()} className="btn-primary">
+                Try Again
+              </button>
+            </div>
+          )}
+
+          {!isLoading && !error && profiles.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-20">
+              <Users className="w-16 h-16 text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                {activeFilterCount > 0 ? 'No Results Found' : 'No Talent Profiles Yet'}
+              </h3>
+              <p className="text-gray-600 mb-6">
+                {activeFilterCount > 0
+                  ? 'No freelancers match these filters'
+                  : 'Be the first to publish your talent profile!'}
+              </p>
+              {activeFilterCount === 0 && (
+                <Link href="/profile#talent-profile" className="btn-primary">
+                  Create Your Talent Profile →
+                </Link>
+              )}
+            </div>
+          )}
+
+          {!isLoading && !error && profiles.length > 0 && (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {profiles.map(talent => (
+                <TalentCard key={talent.pubkey} talent={talent} />
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* CTA Section */}
+      <section className="section-padding bg-gradient-to-r from-purple-600 to-orange-600 text-white">
+        <div className="container-width">
+          <div className="max-w-4xl mx-auto text-center">
+            <h2 className="text-3xl md:text-4xl font-serif font-bold mb-6">
+              Offering Your Skills?
+            </h2>
+            <p className="text-lg mb-8 text-purple-50">
+              Publish a talent profile with your skills, rate and portfolio so clients can find and hire you.
+            </p>
+            <Link
+              href="/profile#talent-profile"
+              className="btn-primary inline-flex items-center gap-2 bg-white text-purple-600 hover:bg-purple-50"
+            >
+              <UserPlus className="w-5 h-5" />
+              Create Your Talent Profile
+            </Link>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, Clock, DollarSign, ExternalLink, Languages, Loader2, MessageCircle, Pencil, UserRound } from 'lucide-react';
+import { TalentAvailabilityBadge } from '@/components/generic/TalentCard';
+import { logger } from '@/services/core/LoggingService';
+import { formatTalentRate } from '@/services/business/TalentService';
+import { useTalentPage } from '@/hooks/useTalentPage';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { getWorkCategoryById } from '@/config/work';
+import { getTalentLanguageByCode } from '@/config/talent';
+import { getRelativeTime } from '@/utils/dateUtils';
+
+interface TalentProfileViewProps {
+  pubkey: string;
+  npub: string;
+}
+
+/**
+ * Talent Profile View Component
+ * Public page of one freelancer: skills, hourly rate, languages, time zone,
+ * availability and portfolio, with a "Hire me" button opening a conversation
+ *
+ * SOA Layer: Presentation (state from useTalentPage)
+ */
+export function TalentProfileView({ pubkey, npub }: TalentProfileViewProps) {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { profile, talent, isLoading, error, refresh } = useTalentPage(pubkey);
+  const { formatConverted } = useExchangeRates();
+
+  const displayName = profile?.display_name || `${npub.slice(0, 12)}...${npub.slice(-6)}`;
+  const isOwnProfile = user?.pubkey === pubkey;
+  const convertedRate = talent?.hourlyRate
+    ? formatConverted(talent.hourlyRate.amount, talent.hourlyRate.currency)
+    : null;
+
+  const handleHire = () => {
+    logger.info('Navigating to messages to hire freelancer', {
+      service: 'TalentProfileView',
+      method: 'handleHire',
+      freelancerPubkey: pubkey,
+    });
+
+    router.push(`/messages?${new URLSearchParams({ recipient: pubkey }).toString()}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-orange-50">
+      {/* Banner */}
+      <div className="relative h-48 md:h-64 bg-gradient-to-r from-purple-600 to-orange-600">
+        {profile?.banner && (
+          <Image src={profile.banner} alt="" fill sizes="100vw" className="object-cover" />
+        )}
+      </div>
+
+      <div className="container-width pb-16">
+        {/* Freelancer header */}
+        <div className="relative -mt-16 rounded-2xl bg-white/80 p-6 shadow-sm ring-1 ring-primary-100 backdrop-blur-sm">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="w-24 h-24 -mt-16 md:-mt-20 rounded-full bg-purple-100 ring-4 ring-white flex items-center justify-center overflow-hidden flex-shrink-0">
+              {profile?.picture ? (
+                <Image
+                  src={profile.picture}
+                  alt={displayName}
+                  width={96}
+                  height={96}
+                  className="w-24 h-24 rounded-full object-cover"
+                />
+              ) : (
+                <UserRound className="w-10 h-10 text-purple-600" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <h1 className="text-3xl font-serif font-bold text-purple-900 truncate">{displayName}</h1>
+              {talent && (
+                <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                  <span className="font-medium text-purple-700">{talent.headline}</span>
+                  <TalentAvailabilityBadge availability={talent.availability} />
+                </div>
+              )}
+            </div>
+
+            {isOwnProfile ? (
+              <Link href="/profile#talent-profile" className="btn-outline-sm flex items-center justify-center gap-2">
+                <Pencil className="w-4 h-4" />
+                Edit Talent Profile
+              </Link>
+            ) : (
+              <button
+                type="button"
+                onClick={handleHire}
+                className="btn-primary-sm flex items-center justify-center gap-2"
+              >
+                <MessageCircle className="w-4 h-4" />
+                Hire Me
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-12 h-12 text-purple-600 animate-spin mb-4" />
+            <p className="text-gray-600">Loading talent profile...</p>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && !isLoading && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <AlertCircle className="w-16 h-16 text-red-500 mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Failed to Load Talent Profile</h3>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <button onClick={refresh} className="btn-primary">
+              Try Again
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !error && !talent && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <UserRound className="w-16 h-16 text-gray-400 mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No Talent Profile Yet</h3>
+            <p className="text-gray-600">
+              {isOwnProfile
+                ? 'Publish your talent profile from your profile page.'
+                : 'This user has not published a talent profile.'}
+            </p>
+          </div>
+        )}
+
+        {!isLoading && !error && talent && (
+          <div className="mt-10 grid gap-8 lg:grid-cols-3">
+            <div className="lg:col-span-2 space-y-8">
+              {talent.bio && (
+                <section className="card p-6">
+                  <h2 className="text-xl font-serif font-bold text-purple-800 mb-3">About</h2>
+                  <p className="text-gray-700 whitespace-pre-line">{talent.bio}</p>
+                </section>
+              )}
+
+              {talent.portfolio.length > 0 && (
+                <section className="card p-6">
+                  <h2 className="text-xl font-serif font-bold text-purple-800 mb-3">Portfolio</h2>
+                  <ul className="divide-y divide-gray-100">
+                    {talent.portfolio.map(item => (
+                      <li key={item.url} className="py-3">
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 font-medium text-purple-600 hover:text-purple-700"
+                        >
+                          {item.title}
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                        {item.description && <p className="text-sm text-gray-600 mt-1">{item.description}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+
+            <aside className="card p-6 space-y-5 h-fit">
+              <div>
+                <h2 className="text-sm font-semibold text-purple-800 mb-2">Skills</h2>
+                <div className="flex flex-wrap gap-2">
+                  {talent.skills.map(skill => {
+                    const category = getWorkCategoryById(skill);
+                    return (
+                      <span key={skill} className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700">
+                        {category?.icon} {category?.name}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm text-gray-700">
+                {talent.hourlyRate && (
+                  <p className="flex items-center gap-2">
+                    <DollarSign className="w-4 h-4 text-purple-400" />
+                    {formatTalentRate(talent.hourlyRate)}
+                    {convertedRate && <span className="text-gray-500">({convertedRate})</span>}
+                  </p>
+                )}
+                <p className="flex items-center gap-2">
+                  <Languages className="w-4 h-4 text-purple-400" />
+                  {talent.languages.map(code => getTalentLanguageByCode(code)?.name ?? code).join(', ')}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-purple-400" />
+                  {talent.timeZone}
+                </p>
+              </div>
+
+              <p className="text-xs text-gray-500">Updated {getRelativeTime(talent.createdAt)}</p>
+            </aside>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Wallet, RefreshCw, Loader2, ArrowDownLeft, ArrowUpRight, Copy, Check, Unplug } from 'lucide-react';
+import { InvoiceQRCode } from '@/components/generic/InvoiceQRCode';
+import { logger } from '@/services/core/LoggingService';
+import type { WalletInvoice, WalletSummary, WalletTransaction } from '@/types/wallet';
+
+interface WalletPanelProps {
+  isAuthenticated: boolean;
+  wallet: WalletSummary | null;
+  isLoading: boolean;
+  isConnecting: boolean;
+  balance: number | null;
+  transactions: WalletTransaction[];
+  error: string | null;
+  onConnect: (uri: string) => Promise<boolean>;
+  onDisconnect: () => void;
+  onReceive: (amountSats: number, description: string) => Promise<WalletInvoice | null>;
+  onRefresh: () => Promise<void>;
+}
+
+/**
+ * Wallet Panel Component
+ * Nostr Wallet Connect (NIP-47) section of the Payments page:
+ * connect a wallet, see balance and history, and create invoices to receive
+ *
+ * SOA Layer: Presentation (state from useWallet)
+ */
+export function WalletPanel({
+  isAuthenticated,
+  wallet,
+  isLoading,
+  isConnecting,
+  balance,
+  transactions,
+  error,
+  onConnect,
+  onDisconnect,
+  onReceive,
+  onRefresh,
+}: WalletPanelProps) {
+  const [connectionUri, setConnectionUri] = useState('');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [receiveAmount, setReceiveAmount] = useState('');
+  const [receiveDescription, setReceiveDescription] = useState('');
+  const [isCreatingInvoice, setIsCreatingInvoice] = useState(false);
+  const [invoice, setInvoice] = useState<WalletInvoice | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const walletPubkey = wallet?.walletPubkey;
+
+  // Load balance and history whenever a wallet is (re)connected
+  useEffect(() => {
+    if (!walletPubkey) return;
+    setIsRefreshing(true);
+    onRefresh().finally(() => setIsRefreshing(false));
+  }, [walletPubkey, onRefresh]);
+
+  const handleConnect = async () => {
+    if (await onConnect(connectionUri)) {
+      setConnectionUri('');
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await onRefresh();
+    setIsRefreshing(false);
+  };
+
+  const handleReceive = async () => {
+    setIsCreatingInvoice(true);
+    setInvoice(await onReceive(Number(receiveAmount), receiveDescription.trim()));
+    setIsCreatingInvoice(false);
+  };
+
+  const handleCopy = async () => {
+    if (!invoice) return;
+    try {
+      await navigator.clipboard.writeText(invoice.invoice);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      logger.error('Error copying invoice to clipboard', err as Error, {
+        component: 'WalletPanel',
+        method: 'handleCopy',
+      });
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow-xl p-8 border-2 border-purple-100 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-yellow-500 to-orange-500 flex items-center justify-center">
+            <Wallet className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Lightning Wallet</h2>
+            <p className="text-sm text-gray-500">Nostr Wallet Connect (NIP-47) - your keys, your wallet</p>
+          </div>
+        </div>
+        {wallet && (
+          <button
+            type="button"
+            onClick={onDisconnect}
+            className="btn-outline-sm inline-flex items-center gap-2"
+          >
+            <Unplug className="w-4 h-4" />
+            Disconnect
+          </button>
+        )}
+      </div>
+
+      {!isAuthenticated ? (
+        <p className="text-gray-600">Sign in to connect your Lightning wallet.</p>
+      ) : isLoading && !wallet ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-purple-600" />
+        </div>
+      ) : !wallet ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Paste a <code className="text-xs bg-gray-100 px-1 rounded">nostr+walletconnect://</code> connection
+            string from your wallet (Alby Hub, Coinos, Primal, ...). It is stored encrypted on this device and
+            used for zaps, shop purchases and work payments.
+          </p>
+          <input
+            type="password"
+            value={connectionUri}
+            onChange={e => setConnectionUri(e.target.value)}
+            placeholder="nostr+walletconnect://..."
+            autoComplete="off"
+            className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-purple-500 focus:ring-2 focus:ring-purple-200 outline-none transition-all"
+          />
+          <button
+            type="button"
+            onClick={handleConnect}
+            disabled={isConnecting || !connectionUri.trim()}
+            className="bg-gradient-to-r from-purple-600 to-purple-700 text-white py-3 px-6 rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50 inline-flex items-center gap-2"
+          >
+            {isConnecting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Connect Wallet
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <div className="rounded-2xl bg-gradient-to-br from-purple-50 to-orange-50 p-6 ring-1 ring-primary-100">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">Balance</p>
+                <button
+                  type="button"
+                  onClick={handleRefresh}
+                  disabled={isRefreshing}
+                  className="text-purple-600 hover:text-purple-700 disabled:opacity-50"
+                  aria-label="Refresh wallet"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              <p className="text-3xl font-bold text-purple-900 mt-1">
+                {wallet.methods.includes('get_balance')
+                  ? balance === null ? '…' : `${balance.toLocaleString()} sats`
+                  : 'Not shared'}
+              </p>
+              <p className="text-xs text-gray-500 mt-2 font-mono truncate">
+                {wallet.lud16 || `${wallet.walletPubkey.slice(0, 8)}...${wallet.walletPubkey.slice(-8)}`}
+              </p>
+            </div>
+
+            {wallet.methods.includes('make_invoice') && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Receive</h3>
+                {invoice ? (
+                  <div className="space-y-3">
+                    <InvoiceQRCode invoice={invoice.invoice} />
+                    <p className="text-center text-xs text-gray-500">
+                      Invoice for {invoice.amountSats.toLocaleString()} sats
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        type="button"
+                        onClick={handleCopy}
+                        className="btn-outline-sm inline-flex items-center justify-center gap-1"
+                      >
+                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        {copied ? 'Copied' : 'Copy'}
+                      </button>
+                      <button type="button" onClick={() => setInvoice(null)} className="btn-outline-sm">
+                        New invoice
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      value={receiveAmount}
+                      onChange={e => setReceiveAmount(e.target.value)}
+                      placeholder="Amount (sats)"
+                      className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-purple-500 outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={receiveDescription}
+                      onChange={e => setReceiveDescription(e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-purple-500 outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleReceive}
+                      disabled={isCreatingInvoice || !(Number(receiveAmount) > 0)}
+                      className="btn-primary-sm inline-flex items-center gap-2 disabled:opacity-50"
+                    >
+                      {isCreatingInvoice && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Create Invoice
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">Recent Transactions</h3>
+            {!wallet.methods.includes('list_transactions') ? (
+              <p className="text-sm text-gray-500">This connection doesn&apos;t share transaction history.</p>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-gray-500">{isRefreshing ? 'Loading...' : 'No transactions yet.'}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {transactions.map(tx => (
+                  <li key={tx.paymentHash} className="flex items-center gap-3 py-3">
+                    {tx.type === 'incoming' ? (
+                      <ArrowDownLeft className="w-5 h-5 text-green-600 flex-shrink-0" />
+                    ) : (
+                      <ArrowUpRight className="w-5 h-5 text-orange-600 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{tx.description || (tx.type === 'incoming' ? 'Received' : 'Sent')}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(tx.createdAt * 1000).toLocaleString()}
+                        {!tx.settledAt && ' · pending'}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-medium ${tx.type === 'incoming' ? 'text-green-700' : 'text-gray-900'}`}>
+                      {tx.type === 'incoming' ? '+' : '-'}{tx.amountSats.toLocaleString()} sats
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+    </section>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import {
@@ -14,7 +14,11 @@ import {
 } from 'lucide-react';
 
 import { usePublicWorkOpportunities, type WorkFilters } from '@/hooks/usePublicWorkOpportunities';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { UnifiedWorkCard, UnifiedWorkData } from '@/components/generic/UnifiedWorkCard';
+import { SavedSearchBar } from '@/components/generic/SavedSearchBar';
+import { getCountryById } from '@/config/contributions';
+import type { SavedSearchCriteria } from '@/types/saved-search';
 import type { WorkExploreItem } from '@/services/business/WorkService';
 
 // Adapter: Convert WorkExploreItem to UnifiedWorkData
@@ -27,8 +31,7 @@ function toUnifiedData(item: WorkExploreItem): UnifiedWorkData {
     jobType: item.jobType,
     category: item.category,
     duration: item.duration,
-    payRate: item.payRate,
-    currency: item.currency,
+    compensation: item.compensation,
     location: item.location,
     region: item.region,
     country: undefined, // Not present in WorkExploreItem
@@ -46,7 +49,11 @@ export default function WorkContent() {
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [jobTypeFilter, setJobTypeFilter] = useState('all');
   const [regionFilter, setRegionFilter] = useState('all');
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'title-asc' | 'title-desc' | 'payrate-desc'>('newest');
+  const [countryFilter, setCountryFilter] = useState('all');
+  const [minHourlyPay, setMinHourlyPay] = useState('');
+  const [maxHourlyPay, setMaxHourlyPay] = useState('');
+  const [sortBy, setSortBy] = useState<WorkFilters['sortBy']>('newest');
+  const { displayCurrency, setDisplayCurrency } = useExchangeRates();
 
   // Build filters object
   const filters: WorkFilters = useMemo(() => ({
@@ -54,8 +61,33 @@ export default function WorkContent() {
     category: categoryFilter,
     jobType: jobTypeFilter,
     region: regionFilter,
+    country: countryFilter,
+    minHourlyPay,
+    maxHourlyPay,
     sortBy,
-  }), [searchTerm, categoryFilter, jobTypeFilter, regionFilter, sortBy]);
+  }), [searchTerm, categoryFilter, jobTypeFilter, regionFilter, countryFilter, minHourlyPay, maxHourlyPay, sortBy]);
+
+  // Current filters as saved search criteria (pay range in the display currency)
+  const savedSearchCriteria: SavedSearchCriteria = useMemo(() => ({
+    keywords: searchTerm.trim(),
+    category: categoryFilter === 'all' ? '' : categoryFilter,
+    region: regionFilter === 'all' ? '' : regionFilter,
+    country: countryFilter === 'all' ? '' : countryFilter,
+    minAmount: minHourlyPay ? parseFloat(minHourlyPay) : null,
+    maxAmount: maxHourlyPay ? parseFloat(maxHourlyPay) : null,
+    currency: displayCurrency,
+  }), [searchTerm, categoryFilter, regionFilter, countryFilter, minHourlyPay, maxHourlyPay, displayCurrency]);
+
+  const applySavedSearch = useCallback((criteria: SavedSearchCriteria) => {
+    setSearchTerm(criteria.keywords);
+    setCategoryFilter(criteria.category || 'all');
+    setJobTypeFilter('all');
+    setRegionFilter(criteria.region || 'all');
+    setCountryFilter(criteria.country || 'all');
+    setMinHourlyPay(criteria.minAmount !== null ? String(criteria.minAmount) : '');
+    setMaxHourlyPay(criteria.maxAmount !== null ? String(criteria.maxAmount) : '');
+    setDisplayCurrency(criteria.currency);
+  }, [setDisplayCurrency]);
 
   const {
     workItems: filteredWorkItems,
@@ -68,6 +100,7 @@ export default function WorkContent() {
     availableCategories,
     availableJobTypes,
     availableRegions,
+    availableCountries,
     activeFilterCount,
   } = usePublicWorkOpportunities(filters);
 
@@ -77,6 +110,9 @@ export default function WorkContent() {
     setCategoryFilter('all');
     setJobTypeFilter('all');
     setRegionFilter('all');
+    setCountryFilter('all');
+    setMinHourlyPay('');
+    setMaxHourlyPay('');
     setSortBy('newest');
   };
 
@@ -202,6 +238,48 @@ export default function WorkContent() {
                     <option key={region} value={region}>{region}</option>
                   ))}
                 </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">Country:</label>
+                <select
+                  value={countryFilter}
+                  onChange={e => setCountryFilter(e.target.value)}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isLoading}
+                >
+                  <option value="all">All</option>
+                  {availableCountries.map((country: string) => (
+                    <option key={country} value={country}>{getCountryById(country)?.name ?? country}</option>
+                  ))}
+                </select>
+
+                <label className="text-sm font-medium text-gray-700 ml-4">
+                  Pay/hr ({displayCurrency.toUpperCase()}):
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={minHourlyPay}
+                    onChange={e => setMinHourlyPay(e.target.value)}
+                    placeholder="Min"
+                    aria-label="Minimum hourly pay"
+                    className="w-24 border border-gray-300 rounded px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isLoading}
+                  />
+                  <span className="text-gray-500">-</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={maxHourlyPay}
+                    onChange={e => setMaxHourlyPay(e.target.value)}
+                    placeholder="Max"
+                    aria-label="Maximum hourly pay"
+                    className="w-24 border border-gray-300 rounded px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
               <div className="flex gap-4 items-center flex-wrap">
                 {activeFilterCount > 0 && (
@@ -224,12 +302,15 @@ export default function WorkContent() {
                   <option value="oldest">Oldest</option>
                   <option value="title-asc">Title A-Z</option>
                   <option value="title-desc">Title Z-A</option>
-                  <option value="payrate-desc">Highest Pay</option>
+                  <option value="pay-desc">Highest Pay/hr</option>
+                  <option value="pay-asc">Lowest Pay/hr</option>
                 </select>
               </div>
             </div>
           )}
 
+          <SavedSearchBar scope="work" criteria={savedSearchCriteria} onApply={applySavedSearch} />
+
           {isLoading && (
             <div className="flex flex-col items-center justify-center py-20">
               <Loader2 className="w-12 h-12 text-purple-600 animate-spin mb-4" />
@@ -1,14 +1,23 @@
 'use client';
 
 import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Heart, Bookmark, Share2, Briefcase, Calendar, DollarSign } from 'lucide-react';
+import { Heart, Bookmark, Share2, Briefcase, Calendar, DollarSign, FileSignature, Send, Users } from 'lucide-react';
 import { ContentDetailHeader } from '@/components/generic/ContentDetailHeader';
 import { ContentDetailLayout } from '@/components/generic/ContentDetailLayout';
 import { ContentMediaGallery } from '@/components/generic/ContentMediaGallery';
 import { ContentDetailInfo } from '@/components/generic/ContentDetailInfo';
 import { ContentMetaInfo } from '@/components/generic/ContentMetaInfo';
+import { ZapPanel } from '@/components/generic/ZapPanel';
+import { ProposalForm } from '@/components/generic/ProposalForm';
 import { logger } from '@/services/core/LoggingService';
+import { PROPOSAL_STATUS_LABELS, getWorkAddress } from '@/services/business/ProposalService';
+import { formatCompensation } from '@/services/business/WorkService';
+import { useProposals } from '@/hooks/useProposals';
+import { formatDateTime } from '@/utils/dateUtils';
+import type { ProposalData } from '@/types/proposal';
+import type { WorkCompensation } from '@/types/work';
 import type { ContentDetail } from '@/types/content-detail';
 import type { InfoItem } from '@/components/generic/ContentDetailInfo';
 
@@ -21,6 +30,23 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
   const router = useRouter();
   const [isLiked, setIsLiked] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const { proposals, pubkey, isSubmitting, error: proposalError, submit: submitProposal } = useProposals();
+
+  const posterPubkey = detail.author.pubkey;
+  const isOwnListing = !!pubkey && pubkey === posterPubkey;
+  const myProposal = useMemo(() => {
+    if (!pubkey || !detail.dTag) return undefined;
+    const address = getWorkAddress(posterPubkey, detail.dTag);
+    return proposals.find(proposal => proposal.workAddress === address && proposal.applicantPubkey === pubkey);
+  }, [proposals, pubkey, posterPubkey, detail.dTag]);
+
+  const handleSubmitProposal = async (data: ProposalData) => {
+    if (!detail.dTag) return false;
+    const sent = await submitProposal({ posterPubkey, dTag: detail.dTag, title: detail.title }, data);
+    if (sent) setIsApplying(false);
+    return sent;
+  };
 
   const handleContactPoster = () => {
     const contactAction = detail.actions.find(action => action.id === 'contact-poster');
@@ -75,17 +101,7 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
     return detail.actions.find(action => action.id === 'contact-poster');
   }, [detail.actions]);
 
-  // Format pay rate display
-  const formatPayRate = (rate: number, currency: string) => {
-    const lowerCurrency = currency.toLowerCase();
-    if (lowerCurrency === 'btc') return `${rate} BTC`;
-    if (lowerCurrency === 'sats') return `${rate} sats`;
-    if (lowerCurrency === 'usd') return `$${rate}`;
-    if (lowerCurrency === 'per-hour') return `${rate}/hr`;
-    if (lowerCurrency === 'per-day') return `${rate}/day`;
-    if (lowerCurrency === 'per-project') return `${rate}/project`;
-    return `${rate} ${currency}`;
-  };
+  const compensation = detail.customFields.compensation as WorkCompensation | undefined;
 
   // Get job type icon
   const getJobTypeIcon = (type: string) => {
@@ -108,10 +124,10 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
       });
     }
 
-    if (detail.customFields.payRate !== undefined && detail.customFields.currency) {
+    if (compensation) {
       items.push({
-        label: 'Pay Rate',
-        value: formatPayRate(Number(detail.customFields.payRate), String(detail.customFields.currency)),
+        label: 'Pay',
+        value: formatCompensation(compensation),
         emphasis: true,
       });
     }
@@ -168,7 +184,7 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
     }
 
     return items;
-  }, [detail.customFields]);
+  }, [detail.customFields, compensation]);
 
   const tags = useMemo(() => {
     return (detail.tags ?? []).filter(tag => tag.toLowerCase() !== 'nostr-for-nomads-work');
@@ -271,15 +287,15 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
                 </div>
               )}
 
-              {detail.customFields.payRate !== undefined && !!detail.customFields.currency && (
+              {compensation && (
                 <div className="text-center">
                   <div className="flex items-center justify-center mb-2">
                     <DollarSign className="h-5 w-5 text-green-600" />
                   </div>
                   <p className="text-sm font-medium text-green-900">
-                    {formatPayRate(Number(detail.customFields.payRate), String(detail.customFields.currency))}
+                    {formatCompensation(compensation)}
                   </p>
-                  <p className="text-xs text-gray-600">Pay Rate</p>
+                  <p className="text-xs text-gray-600">Pay</p>
                 </div>
               )}
             </div>
@@ -304,6 +320,64 @@ export function WorkContent({ detail, backHref = '/work' }: WorkContentProps) {
                 {contactAction.label}
               </button>
             )}
+            {isOwnListing && detail.dTag && (
+              <Link
+                href={`/my-work/applicants/${encodeURIComponent(detail.dTag)}`}
+                className="btn-outline-sm w-full inline-flex items-center justify-center gap-2"
+              >
+                <Users className="h-4 w-4" />
+                View Applicants
+              </Link>
+            )}
+            {pubkey && !isOwnListing && detail.dTag && (
+              <div className="rounded-2xl bg-white/80 p-4 shadow-sm ring-1 ring-primary-100 space-y-3">
+                {myProposal ? (
+                  <>
+                    <h3 className="text-sm font-semibold text-purple-900">Your proposal</h3>
+                    <p className="text-sm text-gray-700">
+                      {PROPOSAL_STATUS_LABELS[myProposal.status]}
+                      <span className="ml-2 text-xs text-gray-500">{formatDateTime(myProposal.updatedAt)}</span>
+                    </p>
+                    {myProposal.timeline[myProposal.timeline.length - 1].message && (
+                      <p className="text-sm text-gray-600 whitespace-pre-line">
+                        {myProposal.timeline[myProposal.timeline.length - 1].message}
+                      </p>
+                    )}
+                    {myProposal.status === 'hired' && (
+                      <Link href="/my-work/contracts" className="btn-outline-sm inline-flex items-center gap-2">
+                        <FileSignature className="w-4 h-4" />
+                        View Contracts
+                      </Link>
+                    )}
+                  </>
+                ) : isApplying ? (
+                  <>
+                    <h3 className="text-sm font-semibold text-purple-900">Apply for this work</h3>
+                    <ProposalForm
+                      defaultCurrency={compensation?.currency}
+                      isSubmitting={isSubmitting}
+                      onSubmit={handleSubmitProposal}
+                      onCancel={() => setIsApplying(false)}
+                    />
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setIsApplying(true)}
+                    className="btn-primary-sm w-full inline-flex items-center justify-center gap-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    Apply
+                  </button>
+                )}
+                {proposalError && <p className="text-sm text-red-600">{proposalError}</p>}
+              </div>
+            )}
+            {detail.eventId && detail.dTag && (
+              <ZapPanel
+                target={{ eventId: detail.eventId, pubkey: detail.author.pubkey, kind: 30023, dTag: detail.dTag }}
+              />
+            )}
           </div>
         }
         footer={
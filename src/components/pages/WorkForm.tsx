@@ -8,6 +8,7 @@ import {
   WORK_JOB_TYPES,
   WORK_DURATIONS,
   WORK_CURRENCIES,
+  WORK_PAY_PERIODS,
 } from '@/config/work';
 import { COUNTRIES, REGIONS } from '@/config/contributions';
 import { AttachmentManager } from '@/components/generic/AttachmentManager';
@@ -18,7 +19,8 @@ import { useWorkPublishing } from '@/hooks/useWorkPublishing';
 import { useWorkEditing } from '@/hooks/useWorkEditing';
 import { validateWorkData } from '@/services/business/WorkValidationService';
 import { filterVisibleTags } from '@/utils/tagFilter';
-import type { WorkData } from '@/types/work';
+import { fromDateInputValue, toDateInputValue } from '@/utils/dateUtils';
+import type { WorkData, WorkPayPeriod } from '@/types/work';
 
 // Dynamic import for RichTextEditor (client-side only)
 const RichTextEditor = dynamic(
@@ -35,13 +37,16 @@ interface WorkFormData {
   category: string;
   jobType: string;
   duration: string;
-  payRate: string;
-  currency: string;
+  payAmount: string;
+  payMaxAmount: string; // Empty for a single amount instead of a range
+  payCurrency: string;
+  payPeriod: string;
   contact: string;
   language: string;
   location: string;
   region: string;
   country: string;
+  expiresAt: string; // Date input value, empty = never expires
   tags: string[];
 }
 
@@ -92,13 +97,16 @@ export const WorkForm = ({
     category: defaultValues?.category || '',
     jobType: defaultValues?.jobType || '',
     duration: defaultValues?.duration || '',
-    payRate: defaultValues?.payRate || '',
-    currency: defaultValues?.currency || '',
+    payAmount: defaultValues?.payAmount || '',
+    payMaxAmount: defaultValues?.payMaxAmount || '',
+    payCurrency: defaultValues?.payCurrency || '',
+    payPeriod: defaultValues?.payPeriod || '',
     contact: defaultValues?.contact || '',
     language: defaultValues?.language || 'en',
     location: defaultValues?.location || '',
     region: defaultValues?.region || '',
     country: defaultValues?.country || '',
+    expiresAt: defaultValues?.expiresAt || '',
     tags: filterVisibleTags(defaultValues?.tags || []),
   });
   
@@ -115,13 +123,16 @@ export const WorkForm = ({
         category: defaultValues.category || '',
         jobType: defaultValues.jobType || '',
         duration: defaultValues.duration || '',
-        payRate: defaultValues.payRate || '',
-        currency: defaultValues.currency || '',
+        payAmount: defaultValues.payAmount || '',
+        payMaxAmount: defaultValues.payMaxAmount || '',
+        payCurrency: defaultValues.payCurrency || '',
+        payPeriod: defaultValues.payPeriod || '',
         contact: defaultValues.contact || '',
         language: defaultValues.language || 'en',
         location: defaultValues.location || '',
         region: defaultValues.region || '',
         country: defaultValues.country || '',
+        expiresAt: defaultValues.expiresAt || '',
         tags: filterVisibleTags(defaultValues.tags || []),
       });
       
@@ -179,19 +190,25 @@ export const WorkForm = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    const payMaxAmount = formData.payMaxAmount.trim() ? parseFloat(formData.payMaxAmount) : undefined;
     const workData: WorkData = {
       title: formData.title,
       description: formData.description,
       category: formData.category,
       jobType: formData.jobType,
       duration: formData.duration,
-      payRate: parseFloat(formData.payRate) || 0,
-      currency: formData.currency,
+      compensation: {
+        amount: parseFloat(formData.payAmount),
+        maxAmount: payMaxAmount,
+        currency: formData.payCurrency,
+        period: formData.payPeriod as WorkPayPeriod,
+      },
       contact: formData.contact || undefined,
       language: formData.language,
       location: formData.location,
       region: formData.region,
       country: formData.country,
+      expiresAt: fromDateInputValue(formData.expiresAt),
       tags: formData.tags,
       attachments: attachments,
     };
@@ -315,7 +332,7 @@ export const WorkForm = ({
               </div>
             </div>
 
-            {/* Duration, Pay Rate, Currency Row */}
+            {/* Duration, Pay Period, Currency Row */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-2">
@@ -336,38 +353,76 @@ export const WorkForm = ({
               </div>
 
               <div>
-                <label htmlFor="payRate" className="block text-sm font-medium text-gray-700 mb-2">
-                  Pay Rate <span className="text-red-500">*</span>
+                <label htmlFor="payPeriod" className="block text-sm font-medium text-gray-700 mb-2">
+                  Pay Period <span className="text-red-500">*</span>
                 </label>
-                <input
-                  type="number"
-                  id="payRate"
-                  value={formData.payRate}
-                  onChange={(e) => handleInputChange('payRate', e.target.value)}
-                  className={`w-full px-4 py-3 border ${errors.payRate ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
-                  placeholder="e.g., 50, 1000"
-                  min="0"
-                  step="0.01"
-                />
-                {errors.payRate && <p className="mt-1 text-sm text-red-600">{errors.payRate}</p>}
+                <select
+                  id="payPeriod"
+                  value={formData.payPeriod}
+                  onChange={(e) => handleInputChange('payPeriod', e.target.value)}
+                  className={`w-full px-4 py-3 border ${errors.payPeriod ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
+                >
+                  <option value="">Select pay period</option>
+                  {WORK_PAY_PERIODS.map(period => (
+                    <option key={period.id} value={period.id}>{period.name}</option>
+                  ))}
+                </select>
+                {errors.payPeriod && <p className="mt-1 text-sm text-red-600">{errors.payPeriod}</p>}
               </div>
 
               <div>
-                <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-2">
+                <label htmlFor="payCurrency" className="block text-sm font-medium text-gray-700 mb-2">
                   Currency <span className="text-red-500">*</span>
                 </label>
                 <select
-                  id="currency"
-                  value={formData.currency}
-                  onChange={(e) => handleInputChange('currency', e.target.value)}
-                  className={`w-full px-4 py-3 border ${errors.currency ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
+                  id="payCurrency"
+                  value={formData.payCurrency}
+                  onChange={(e) => handleInputChange('payCurrency', e.target.value)}
+                  className={`w-full px-4 py-3 border ${errors.payCurrency ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
                 >
                   <option value="">Select currency</option>
                   {WORK_CURRENCIES.map(curr => (
                     <option key={curr.id} value={curr.id}>{curr.symbol} {curr.name}</option>
                   ))}
                 </select>
-                {errors.currency && <p className="mt-1 text-sm text-red-600">{errors.currency}</p>}
+                {errors.payCurrency && <p className="mt-1 text-sm text-red-600">{errors.payCurrency}</p>}
+              </div>
+            </div>
+
+            {/* Pay Amount Row (a maximum turns the amount into a range) */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="payAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Pay Amount <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  id="payAmount"
+                  value={formData.payAmount}
+                  onChange={(e) => handleInputChange('payAmount', e.target.value)}
+                  className={`w-full px-4 py-3 border ${errors.payAmount ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
+                  placeholder="e.g., 50, 1000"
+                  min="0"
+                  step="any"
+                />
+                {errors.payAmount && <p className="mt-1 text-sm text-red-600">{errors.payAmount}</p>}
+              </div>
+
+              <div>
+                <label htmlFor="payMaxAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Pay (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="payMaxAmount"
+                  value={formData.payMaxAmount}
+                  onChange={(e) => handleInputChange('payMaxAmount', e.target.value)}
+                  className={`w-full px-4 py-3 border ${errors.payMaxAmount ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
+                  placeholder="For a pay range"
+                  min="0"
+                  step="any"
+                />
+                {errors.payMaxAmount && <p className="mt-1 text-sm text-red-600">{errors.payMaxAmount}</p>}
               </div>
             </div>
           </div>
@@ -410,6 +465,23 @@ export const WorkForm = ({
               />
               <p className="mt-1 text-sm text-gray-500">How should interested candidates reach you?</p>
             </div>
+
+            {/* Listing expiration (NIP-40) */}
+            <div>
+              <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-2">
+                Listing Expires On (Optional)
+              </label>
+              <input
+                type="date"
+                id="expiresAt"
+                value={formData.expiresAt}
+                onChange={(e) => handleInputChange('expiresAt', e.target.value)}
+                min={toDateInputValue(Math.floor(Date.now() / 1000))}
+                className={`w-full md:w-1/2 px-4 py-3 border ${errors.expiresAt ? 'border-red-500' : 'border-gray-300'} rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500`}
+              />
+              {errors.expiresAt && <p className="mt-1 text-sm text-red-600">{errors.expiresAt}</p>}
+              <p className="mt-1 text-sm text-gray-500">Expired opportunities are hidden from Work and can be renewed from My Work.</p>
+            </div>
           </div>
 
           {/* Section 3: Location & Tags */}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Wifi, WifiOff, Loader2, RefreshCw } from 'lucide-react';
+import { useRelayList } from '@/hooks/useRelayList';
+
+/**
+ * Relay management panel for the Profile page
+ * Lets the user edit their NIP-65 relay list and publish it as Kind 10002
+ */
+export function RelayManager() {
+  const {
+    relays,
+    isDefaultList,
+    isLoading,
+    isDirty,
+    isPublishing,
+    error,
+    lastPublishResult,
+    health,
+    addRelay,
+    removeRelay,
+    toggleRelay,
+    testRelay,
+    testAllRelays,
+    publish,
+    loadRelays,
+  } = useRelayList();
+
+  const [newRelayUrl, setNewRelayUrl] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [publishSuccess, setPublishSuccess] = useState(false);
+
+  const handleAdd = () => {
+    const result = addRelay(newRelayUrl);
+    if (result.success) {
+      setNewRelayUrl('');
+      setAddError(null);
+    } else {
+      setAddError(result.error || 'Invalid relay URL');
+    }
+  };
+
+  const handlePublish = async () => {
+    setPublishSuccess(false);
+    const result = await publish();
+    if (result.success) {
+      setPublishSuccess(true);
+      setTimeout(() => setPublishSuccess(false), 5000);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-serif font-bold text-purple-800">Relays</h2>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={testAllRelays}
+              disabled={isLoading || relays.length === 0}
+              className="btn-outline-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Test All
+            </button>
+            <button
+              type="button"
+              onClick={loadRelays}
+              disabled={isLoading}
+              className="p-2 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Reload relay list"
+            >
+              <RefreshCw className={`w-4 h-4 text-purple-600 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose where your events are published and where content is read from. Saved as your NIP-65 relay list
+          so other Nostr apps can find you too.
+          {isDefaultList && !isLoading && (
+            <span className="block mt-1 text-orange-600">
+              You haven&apos;t published a relay list yet &mdash; showing the default relays.
+            </span>
+          )}
+        </p>
+
+        {publishSuccess && lastPublishResult && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            Relay list published to {lastPublishResult.publishedRelays.length} relay
+            {lastPublishResult.publishedRelays.length !== 1 ? 's' : ''}.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[0, 1, 2].map(i => (
+              <div key={i} className="animate-pulse h-12 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {relays.map(relay => {
+              const relayHealth = health[relay.url];
+              return (
+                <li key={relay.url} className="flex flex-col sm:flex-row sm:items-center gap-2 px-4 py-3">
+                  <div className="flex items-center gap-2 flex-1 min-w-0">
+                    {relayHealth?.status === 'testing' ? (
+                      <Loader2 className="w-4 h-4 text-gray-400 animate-spin shrink-0" />
+                    ) : relayHealth?.status === 'healthy' ? (
+                      <Wifi className="w-4 h-4 text-green-600 shrink-0" aria-label="Connected" />
+                    ) : relayHealth?.status === 'unhealthy' ? (
+                      <span title={relayHealth.error}>
+                        <WifiOff className="w-4 h-4 text-red-500 shrink-0" aria-label="Unreachable" />
+                      </span>
+                    ) : (
+                      <Wifi className="w-4 h-4 text-gray-300 shrink-0" aria-label="Not tested" />
+                    )}
+                    <span className="font-mono text-sm text-purple-800 truncate">{relay.url}</span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={relay.read}
+                        onChange={() => toggleRelay(relay.url, 'read')}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      Read
+                    </label>
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={relay.write}
+                        onChange={() => toggleRelay(relay.url, 'write')}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      Write
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => testRelay(relay.url)}
+                      className="text-xs text-purple-600 hover:text-purple-800 underline"
+                    >
+                      Test
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeRelay(relay.url)}
+                      className="p-1 rounded hover:bg-red-50 transition-colors"
+                      title="Remove relay"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+            {relays.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500">No relays configured</li>
+            )}
+          </ul>
+        )}
+
+        <div className="mt-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newRelayUrl}
+              onChange={(e) => {
+                setNewRelayUrl(e.target.value);
+                setAddError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="wss://relay.example.com"
+              className={`flex-1 px-4 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
+                addError ? 'border-red-500' : 'border-orange-300'
+              }`}
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!newRelayUrl.trim()}
+              className="inline-flex items-center gap-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+          {addError && <p className="mt-1 text-sm text-red-600">{addError}</p>}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={handlePublish}
+            disabled={isPublishing || isLoading || (!isDirty && !isDefaultList)}
+            className="btn-primary-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPublishing ? 'Publishing...' : 'Save Relay List'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { useTalentProfile } from '@/hooks/useTalentProfile';
+import { getTalentPath, toTalentProfileData } from '@/services/business/TalentService';
+import { WORK_CATEGORIES, WORK_CURRENCIES } from '@/config/work';
+import { TALENT_AVAILABILITY, TALENT_LANGUAGES } from '@/config/talent';
+import {
+  MAX_TALENT_BIO_LENGTH,
+  MAX_TALENT_HEADLINE_LENGTH,
+  MAX_TALENT_PORTFOLIO_ITEMS,
+  type TalentAvailability,
+  type TalentPortfolioItem,
+  type TalentProfileData,
+} from '@/types/talent';
+
+interface TalentProfileManagerProps {
+  pubkey: string;
+}
+
+/**
+ * Talent profile panel for the Profile page
+ * Lets the user publish the freelancer profile shown on /talent
+ */
+export function TalentProfileManager({ pubkey }: TalentProfileManagerProps) {
+  const { profile, isLoading, isPublishing, error, publish } = useTalentProfile(pubkey);
+  const [form, setForm] = useState<TalentProfileData>(() => toTalentProfileData(null));
+  const [publishSuccess, setPublishSuccess] = useState(false);
+
+  // Reset the form whenever a (newer) published profile is loaded
+  useEffect(() => {
+    setForm(toTalentProfileData(profile));
+  }, [profile]);
+
+  const update = (changes: Partial<TalentProfileData>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setPublishSuccess(false);
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const updatePortfolioItem = (index: number, changes: Partial<TalentPortfolioItem>) => {
+    update({ portfolio: form.portfolio.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const handlePublish = async () => {
+    setPublishSuccess(await publish(form));
+  };
+
+  return (
+    <div id="talent-profile" className="card scroll-mt-24">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-serif font-bold text-purple-800">Talent Profile</h2>
+          {profile && (
+            <Link
+              href={getTalentPath(pubkey)}
+              className="inline-flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700 font-medium"
+            >
+              <ExternalLink className="w-4 h-4" />
+              View public page
+            </Link>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Offer your skills on the Talent page so clients can find and hire you. Publishing again replaces
+          your previous profile.
+        </p>
+
+        {publishSuccess && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            Talent profile published.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[0, 1, 2].map(i => (
+              <div key={i} className="animate-pulse h-12 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label htmlFor="talent-headline" className="block text-sm font-medium text-purple-800 mb-1">
+                Headline *
+              </label>
+              <input
+                id="talent-headline"
+                type="text"
+                value={form.headline}
+                onChange={(e) => update({ headline: e.target.value })}
+                maxLength={MAX_TALENT_HEADLINE_LENGTH}
+                placeholder="e.g. Full-stack developer for Nostr and Lightning apps"
+                className="w-full px-4 py-2 border border-orange-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="talent-bio" className="block text-sm font-medium text-purple-800 mb-1">
+                Bio
+              </label>
+              <textarea
+                id="talent-bio"
+                value={form.bio}
+                onChange={(e) => update({ bio: e.target.value })}
+                maxLength={MAX_TALENT_BIO_LENGTH}
+                rows={4}
+                placeholder="Your experience, the kind of work you take on and how you like to collaborate"
+                className="w-full px-4 py-2 border border-orange-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-purple-800 mb-2">Skills *</legend>
+              <div className="flex flex-wrap gap-2">
+                {WORK_CATEGORIES.map(category => (
+                  <button
+                    key={category.id}
+                    type="button"
+                    onClick={() => update({ skills: toggle(form.skills, category.id) })}
+                    aria-pressed={form.skills.includes(category.id)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium ${form.skills.includes(category.id) ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50'}`}
+                  >
+                    {category.icon} {category.name}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label htmlFor="talent-rate" className="block text-sm font-medium text-purple-800 mb-1">
+                  Hourly Rate
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="talent-rate"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.rateAmount}
+                    onChange={(e) => update({ rateAmount: e.target.value })}
+                    placeholder="Optional"
+                    className="w-full px-4 py-2 border border-orange-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                  <select
+                    value={form.rateCurrency}
+                    onChange={(e) => update({ rateCurrency: e.target.value })}
+                    aria-label="Rate currency"
+                    className="px-2 py-2 border border-orange-300 rounded-lg text-sm"
+                  >
+                    {WORK_CURRENCIES.map(currency => (
+                      <option key={currency.id} value={currency.id}>{currency.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="talent-timezone" className="block text-sm font-medium text-purple-800 mb-1">
+                  Time Zone *
+                </label>
+                <input
+                  id="talent-timezone"
+                  type="text"
+                  value={form.timeZone}
+                  onChange={(e) => update({ timeZone: e.target.value })}
+                  placeholder="e.g. Europe/Lisbon"
+                  className="w-full px-4 py-2 border border-orange-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="talent-availability" className="block text-sm font-medium text-purple-800 mb-1">
+                  Availability
+                </label>
+                <select
+                  id="talent-availability"
+                  value={form.availability}
+                  onChange={(e) => update({ availability: e.target.value as TalentAvailability })}
+                  className="w-full px-4 py-2 border border-orange-300 rounded-lg"
+                >
+                  {TALENT_AVAILABILITY.map(option => (
+                    <option key={option.id} value={option.id}>{option.name} – {option.description}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-purple-800 mb-2">Languages *</legend>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {TALENT_LANGUAGES.map(language => (
+                  <label key={language.code} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.languages.includes(language.code)}
+                      onChange={() => update({ languages: toggle(form.languages, language.code) })}
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    {language.name}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-purple-800 mb-2">Portfolio</legend>
+              {form.portfolio.length > 0 && (
+                <ul className="space-y-3 mb-3">
+                  {form.portfolio.map((item, index) => (
+                    <li key={index} className="flex flex-col md:flex-row gap-2">
+                      <input
+                        type="text"
+                        value={item.title}
+                        onChange={(e) => updatePortfolioItem(index, { title: e.target.value })}
+                        placeholder="Title"
+                        aria-label={`Portfolio item ${index + 1} title`}
+                        className="md:w-1/4 px-4 py-2 border border-orange-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <input
+                        type="url"
+                        value={item.url}
+                        onChange={(e) => updatePortfolioItem(index, { url: e.target.value })}
+                        placeholder="https://..."
+                        aria-label={`Portfolio item ${index + 1} link`}
+                        className="md:w-1/3 px-4 py-2 border border-orange-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <input
+                        type="text"
+                        value={item.description ?? ''}
+                        onChange={(e) => updatePortfolioItem(index, { description: e.target.value })}
+                        placeholder="Short description (optional)"
+                        aria-label={`Portfolio item ${index + 1} description`}
+                        className="flex-1 px-4 py-2 border border-orange-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => update({ portfolio: form.portfolio.filter((_, i) => i !== index) })}
+                        className="p-2 rounded hover:bg-red-50 transition-colors self-start"
+                        title="Remove portfolio item"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                type="button"
+                onClick={() => update({ portfolio: [...form.portfolio, { url: '', title: '' }] })}
+                disabled={form.portfolio.length >= MAX_TALENT_PORTFOLIO_ITEMS}
+                className="btn-outline-sm inline-flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-4 h-4" />
+                Add Portfolio Item
+              </button>
+            </fieldset>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={handlePublish}
+            disabled={isPublishing || isLoading}
+            className="btn-primary-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPublishing ? 'Publishing...' : profile ? 'Update Talent Profile' : 'Publish Talent Profile'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Currency conversion configuration
+ * Shop and Work amounts are shown in their native currency plus the
+ * fiat currency the user picked; rates are BTC prices per fiat unit.
+ */
+
+export const SATS_PER_BTC = 100_000_000;
+
+export const DISPLAY_CURRENCIES = [
+  { id: 'USD', name: 'US Dollar (USD)', symbol: '$' },
+  { id: 'EUR', name: 'Euro (EUR)', symbol: '€' },
+  { id: 'GBP', name: 'British Pound (GBP)', symbol: '£' },
+  { id: 'CHF', name: 'Swiss Franc (CHF)', symbol: 'CHF' },
+  { id: 'CAD', name: 'Canadian Dollar (CAD)', symbol: 'CA$' },
+  { id: 'AUD', name: 'Australian Dollar (AUD)', symbol: 'A$' },
+  { id: 'JPY', name: 'Japanese Yen (JPY)', symbol: '¥' },
+  { id: 'BRL', name: 'Brazilian Real (BRL)', symbol: 'R$' },
+  { id: 'MXN', name: 'Mexican Peso (MXN)', symbol: 'MX$' },
+  { id: 'THB', name: 'Thai Baht (THB)', symbol: '฿' },
+];
+
+export const DEFAULT_DISPLAY_CURRENCY = 'USD';
+
+// Rate provider: 'coingecko' (live) or 'fixture' (static rates for offline development and tests)
+export const EXCHANGE_RATE_PROVIDER = process.env.NEXT_PUBLIC_EXCHANGE_RATE_PROVIDER || 'coingecko';
+
+export const EXCHANGE_RATE_TTL = 10 * 60 * 1000; // 10 minutes
+export const EXCHANGE_RATE_TIMEOUT = 8000;
+
+// Static BTC prices used by the fixture provider
+export const FIXTURE_BTC_RATES: Record<string, number> = {
+  USD: 100000,
+  EUR: 92000,
+  GBP: 79000,
+  CHF: 88000,
+  CAD: 138000,
+  AUD: 153000,
+  JPY: 15000000,
+  BRL: 560000,
+  MXN: 1800000,
+  THB: 3400000,
+};
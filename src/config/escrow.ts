@@ -0,0 +1,10 @@
+/**
+ * Work escrow configuration
+ * Milestone payments go through hold invoices issued by a pluggable escrow provider.
+ */
+
+// Escrow provider for new contracts: 'mock' (local test provider, no real sats move)
+export const ESCROW_PROVIDER = process.env.NEXT_PUBLIC_ESCROW_PROVIDER || 'mock';
+
+// How long a milestone hold invoice can be paid
+export const HOLD_INVOICE_EXPIRY_SECONDS = 24 * 60 * 60;
@@ -0,0 +1,25 @@
+/**
+ * Listing lifetime configuration (NIP-40)
+ * Shop products and work opportunities can expire; renewing a listing
+ * republishes it with a fresh created_at and a new expiration.
+ */
+
+const DAY = 24 * 60 * 60;
+
+// Lifetime given on renewal to listings that never had an expiration
+export const DEFAULT_LISTING_LIFETIME_DAYS = 30;
+
+/**
+ * Expiration for a renewed listing: it keeps its original lifetime,
+ * or gets the default one when it had none
+ *
+ * @param createdAt - Unix seconds the current version was published
+ * @param expiresAt - Current expiration (null = never expired)
+ * @returns New expiration in unix seconds
+ */
+export function getRenewedExpiration(createdAt: number, expiresAt: number | null): number {
+  const lifetime = expiresAt && expiresAt > createdAt
+    ? expiresAt - createdAt
+    : DEFAULT_LISTING_LIFETIME_DAYS * DAY;
+  return Math.floor(Date.now() / 1000) + lifetime;
+}
@@ -7,6 +7,8 @@ export interface RelayConfig {
   reliability: 'high' | 'medium' | 'low';
   // Relay-specific configuration
   requiresAuth?: boolean;
+  // Static NIP support flags - fallback only; live capabilities come from the
+  // relay's NIP-11 document via RelayInformationService
   // Core Protocol NIPs
   supportsNip01?: boolean;  // Basic Protocol Flow
   supportsNip02?: boolean;  // Contact List and Petnames
@@ -225,6 +227,73 @@ export const NOSTR_RELAYS: RelayConfig[] = [
   }
 ];
 
+// Relays that index Kind 10002 relay lists for most of the network (NIP-65 lookups)
+export const RELAY_LIST_INDEXERS: string[] = [
+  'wss://purplepag.es',
+  'wss://user.kindpag.es',
+];
+
+// Outbox model (NIP-65) routing limits
+export const OUTBOX_CONFIG = {
+  maxRelaysPerPubkey: 3,   // Only use the first N read/write relays from each list
+  maxExtraRelays: 12,      // Cap on relays added on top of NOSTR_RELAYS per request
+  relayListTTL: 30 * 60 * 1000, // 30 minutes
+  lookupTimeout: 4000,     // Relay list lookups should not hold up a query for long
+};
+
+// NIP-11 relay information document cache lifetime
+export const RELAY_INFO_TTL = 6 * 60 * 60 * 1000; // 6 hours
+export const RELAY_INFO_FAILURE_TTL = 5 * 60 * 1000; // Retry relays whose NIP-11 fetch failed after 5 minutes
+export const RELAY_INFO_TIMEOUT = 5000;
+
+// Shared relay connection pool (one socket per relay)
+export const RELAY_POOL_CONFIG = {
+  idleTimeout: 5 * 60 * 1000,  // Close sockets with no subscriptions after 5 minutes
+  reconnectBaseDelay: 1000,    // Backoff: 1s, 2s, 4s ... capped at reconnectMaxDelay
+  reconnectMaxDelay: 30000,
+  maxReconnectAttempts: 8,     // Give up (and close subscriptions) after this many failures
+};
+
+/**
+ * Publish outbox - signed events that no relay accepted are kept in IndexedDB
+ * and retried per relay with exponential backoff
+ */
+export const PUBLISH_OUTBOX_CONFIG = {
+  retryBaseDelay: 30 * 1000,       // Backoff per relay: 30s, 1m, 2m ... capped at retryMaxDelay
+  retryMaxDelay: 30 * 60 * 1000,
+  maxAttempts: 10,                 // Relay is given up on after this many failed retries
+  retryTimeout: 15000,             // Per-relay publish timeout during retries
+  // OK-false prefixes (NIP-01) that retrying can't fix
+  permanentErrorPrefixes: ['invalid:', 'pow:', 'blocked:', 'restricted:'],
+};
+
+/**
+ * Local event store - read-through IndexedDB cache in front of queryEvents (skipped with bypassCache)
+ */
+export const EVENT_STORE_CONFIG = {
+  refreshInterval: 30 * 1000,        // Serve repeat queries from the store without a relay refresh for 30s
+  sinceOverlap: 10 * 60,             // Seconds subtracted from the last fetch for `since` refreshes (clock skew, slow relays)
+  maxAgeDays: 30,                    // Drop events not seen from a relay for this long
+  maxEvents: 5000,
+  maxQueries: 1000,                  // Fetched-filter records kept (oldest fetch dropped first)
+  // Private kinds never stored (gift wraps have their own encrypted cache)
+  excludedKinds: [4, 14, 1059],
+  // Ephemeral kinds (NIP-01: 20000 <= kind < 30000) - auth, NWC requests and responses - are never stored either
+  ephemeralKindRange: [20000, 30000] as const,
+};
+
+/**
+ * NIPs a relay supports according to its hand-maintained supportsNipXX flags.
+ * Only used as a fallback when the relay's NIP-11 document can't be fetched.
+ */
+export const getConfiguredNips = (relay: RelayConfig): number[] => {
+  return Object.entries(relay)
+    .filter(([key, value]) => key.startsWith('supportsNip') && value === true)
+    .map(([key]) => parseInt(key.replace('supportsNip', ''), 10))
+    .filter(nip => !isNaN(nip))
+    .sort((a, b) => a - b);
+};
+
 // Helper functions
 export const getRelayUrls = (): string[] => {
   return NOSTR_RELAYS.map(relay => relay.url);
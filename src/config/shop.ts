@@ -1,3 +1,5 @@
+import { getCountryById, getRegionById } from './contributions';
+
 export const PRODUCT_CATEGORIES = [
   { id: 'art', name: 'Art & Collectibles', icon: '🎨' },
   { id: 'services', name: 'Services', icon: '⚙️' },
@@ -17,6 +19,33 @@ export const PRODUCT_CONDITIONS = [
   { id: 'refurbished', name: 'Refurbished', description: 'Professionally restored' },
 ];
 
+export const PRODUCT_AVAILABILITY = [
+  { id: 'available', name: 'Available', description: 'Ready to order' },
+  { id: 'reserved', name: 'Reserved', description: 'On hold for a buyer' },
+  { id: 'sold-out', name: 'Sold out', description: 'No longer available' },
+];
+
+export const MAX_PRODUCT_VARIANTS = 20;
+
+export const DELIVERY_METHODS = [
+  { id: 'shipping', name: 'Shipping', description: 'Sent to the buyer' },
+  { id: 'local-pickup', name: 'Local pickup', description: 'Collected in person' },
+  { id: 'digital', name: 'Digital delivery', description: 'Download or online access' },
+];
+
+export const MAX_SHIPPING_ZONES = 20;
+
+// Shipping zone destination covering every country
+export const WORLDWIDE_DESTINATION = 'worldwide';
+
+/**
+ * Display name of a shipping zone destination (worldwide, region or country)
+ */
+export function getShippingDestinationName(destination: string): string {
+  if (destination === WORLDWIDE_DESTINATION) return 'Worldwide';
+  return getRegionById(destination)?.name || getCountryById(destination)?.name || destination;
+}
+
 export const CURRENCIES = [
   { id: 'BTC', name: 'Bitcoin (BTC)', symbol: '₿' },
   { id: 'sats', name: 'Satoshis (sats)', symbol: 'sats' },
@@ -0,0 +1,83 @@
+/**
+ * Talent profile configuration
+ * Defines availability statuses and profile languages.
+ * Skills reuse WORK_CATEGORIES and hourly rates WORK_CURRENCIES, so freelancers and
+ * work listings share one taxonomy.
+ */
+
+import type { TalentAvailability } from '@/types/talent';
+
+export interface TalentAvailabilityOption {
+  id: TalentAvailability;
+  name: string;
+  description: string;
+}
+
+export interface TalentLanguage {
+  code: string; // ISO 639-1
+  name: string;
+}
+
+// Availability statuses
+export const TALENT_AVAILABILITY: TalentAvailabilityOption[] = [
+  {
+    id: 'available',
+    name: 'Available',
+    description: 'Open to new work',
+  },
+  {
+    id: 'limited',
+    name: 'Limited',
+    description: 'Open to small projects',
+  },
+  {
+    id: 'unavailable',
+    name: 'Not available',
+    description: 'Not taking new work',
+  },
+];
+
+// Languages offered on talent profiles
+export const TALENT_LANGUAGES: TalentLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'th', name: 'Thai' },
+];
+
+// Helper functions
+export const getTalentAvailabilityById = (id: string): TalentAvailabilityOption | undefined => {
+  return TALENT_AVAILABILITY.find(option => option.id === id);
+};
+
+export const getTalentLanguageByCode = (code: string): TalentLanguage | undefined => {
+  return TALENT_LANGUAGES.find(language => language.code === code);
+};
+
+/**
+ * Region of an IANA time zone ("Europe/Lisbon" -> "Europe"), used by the browse filter
+ */
+export const getTimeZoneRegion = (timeZone: string): string => {
+  return timeZone.includes('/') ? timeZone.split('/')[0] : timeZone;
+};
+
+/**
+ * Time zone of this browser, the default for a new talent profile
+ */
+export const getLocalTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
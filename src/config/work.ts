@@ -1,8 +1,10 @@
 /**
  * Work opportunity configuration
- * Defines work categories, job types, durations, and currencies
+ * Defines work categories, job types, durations, currencies and pay periods
  */
 
+import type { WorkPayPeriod } from '@/types/work';
+
 export interface WorkCategory {
   id: string;
   name: string;
@@ -29,6 +31,13 @@ export interface WorkCurrency {
   description: string;
 }
 
+export interface WorkPayPeriodOption {
+  id: WorkPayPeriod;
+  name: string;
+  suffix: string; // Appended to the amount ("$50/hr")
+  hours: number | null; // Working hours per period, null when there is no hourly equivalent
+}
+
 // Work Categories
 export const WORK_CATEGORIES: WorkCategory[] = [
   {
@@ -176,23 +185,33 @@ export const WORK_CURRENCIES: WorkCurrency[] = [
     symbol: '$',
     description: 'US Dollars',
   },
+];
+
+// Pay periods (hours are used to compare pay as an hourly equivalent)
+export const WORK_PAY_PERIODS: WorkPayPeriodOption[] = [
   {
-    id: 'per-hour',
+    id: 'hourly',
     name: 'Per Hour',
-    symbol: '/hr',
-    description: 'Hourly rate',
+    suffix: '/hr',
+    hours: 1,
   },
   {
-    id: 'per-day',
+    id: 'daily',
     name: 'Per Day',
-    symbol: '/day',
-    description: 'Daily rate',
+    suffix: '/day',
+    hours: 8,
+  },
+  {
+    id: 'monthly',
+    name: 'Per Month',
+    suffix: '/month',
+    hours: 160,
   },
   {
-    id: 'per-project',
-    name: 'Per Project',
-    symbol: '/project',
-    description: 'Project-based payment',
+    id: 'fixed',
+    name: 'Fixed Price',
+    suffix: ' fixed',
+    hours: null,
   },
 ];
 
@@ -213,6 +232,10 @@ export const getWorkCurrencyById = (id: string): WorkCurrency | undefined => {
   return WORK_CURRENCIES.find(currency => currency.id === id);
 };
 
+export const getWorkPayPeriodById = (id: string): WorkPayPeriodOption | undefined => {
+  return WORK_PAY_PERIODS.find(period => period.id === id);
+};
+
 // Export getter functions for form usage
 export const getWorkCategories = (): WorkCategory[] => {
   return WORK_CATEGORIES;
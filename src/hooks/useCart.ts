@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import {
+  createCartItem,
+  groupCartBySeller,
+  loadRemoteCart,
+  revalidateCart,
+  saveRemoteCart,
+} from '@/services/business/CartService';
+import { createOrderRequest, sendOrder } from '@/services/business/OrderService';
+import type { CartSellerGroup, CartSettings } from '@/types/cart';
+import { getCartItemKey } from '@/types/cart';
+import type { CheckoutDetails } from '@/types/order';
+import type { ProductEvent, ProductVariant } from '@/types/shop';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useCartStore } from '@/stores/useCartStore';
+import { useNostrSigner } from './useNostrSigner';
+import { type SettingsSectionSync, useSettingsSectionSync } from './useSettingsSectionSync';
+
+/**
+ * Hook for reading and editing the shopping cart
+ * Revalidates items against the latest product versions and checks out
+ * one seller at a time by sending them a structured order over NIP-17
+ */
+export function useCart() {
+  const { user, isAuthenticated } = useAuthStore();
+  const items = useCartStore(state => state.items);
+  const validation = useCartStore(state => state.validation);
+  const { addItem, setQuantity, removeItem, removeSellerItems, applyRevalidation } = useCartStore();
+  const { getSigner } = useNostrSigner();
+
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [checkoutSeller, setCheckoutSeller] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupCartBySeller(items), [items]);
+  const itemCount = useMemo(() => items.reduce((count, item) => count + item.quantity, 0), [items]);
+
+  const add = useCallback((product: ProductEvent, quantity: number, variant?: ProductVariant) => {
+    addItem(createCartItem(product, quantity, variant));
+    logger.info('Added to cart', {
+      service: 'useCart',
+      method: 'add',
+      productId: product.dTag,
+      variantId: variant?.id,
+      quantity,
+    });
+  }, [addItem]);
+
+  /**
+   * Refresh prices and availability from the latest product versions
+   */
+  const revalidate = useCallback(async () => {
+    const current = useCartStore.getState().items;
+    if (current.length === 0) return;
+
+    try {
+      setIsRevalidating(true);
+      setError(null);
+      const result = await revalidateCart(current);
+      applyRevalidation(result.items, result.validation);
+    } catch (err) {
+      logger.warn('Failed to revalidate cart', {
+        service: 'useCart',
+        method: 'revalidate',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+      setError('Could not check the latest prices. Showing prices from when items were added.');
+    } finally {
+      setIsRevalidating(false);
+    }
+  }, [applyRevalidation]);
+
+  /**
+   * Send the seller's items as an order request and remove them from the cart
+   *
+   * @returns Order id once sent, null otherwise
+   */
+  const checkout = useCallback(async (group: CartSellerGroup, details: CheckoutDetails): Promise<string | null> => {
+    if (!isAuthenticated || !user) {
+      setError('Please sign in to check out');
+      return null;
+    }
+
+    const available = group.items.filter(item => validation[getCartItemKey(item)]?.status !== 'unavailable');
+    if (available.length === 0) {
+      setError('None of these items are available anymore');
+      return null;
+    }
+
+    setCheckoutSeller(group.sellerPubkey);
+    setError(null);
+
+    try {
+      const signer = await getSigner();
+      const order = createOrderRequest({ ...group, items: available }, details, user.pubkey);
+      const result = await sendOrder(group.sellerPubkey, order, signer, user.pubkey, available[0].imageUrl);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to send order');
+        return null;
+      }
+
+      removeSellerItems(group.sellerPubkey);
+      logger.info('Cart checkout sent to seller', {
+        service: 'useCart',
+        method: 'checkout',
+        sellerPubkey: group.sellerPubkey,
+        orderId: order.id,
+        itemCount: available.length,
+      });
+      return order.id;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send order');
+      return null;
+    } finally {
+      setCheckoutSeller(null);
+    }
+  }, [isAuthenticated, user, validation, getSigner, removeSellerItems]);
+
+  return {
+    items,
+    groups,
+    itemCount,
+    validation,
+    isRevalidating,
+    checkoutSeller,
+    error,
+    add,
+    updateQuantity: setQuantity,
+    remove: removeItem,
+    revalidate,
+    checkout,
+  };
+}
+
+const CART_SYNC: SettingsSectionSync<CartSettings> = {
+  section: 'cart',
+  getLocal: () => useCartStore.getState().getCartSettings(),
+  replaceLocal: cart => useCartStore.getState().replaceCart(cart),
+  load: loadRemoteCart,
+  save: saveRemoteCart,
+};
+
+/**
+ * Keeps the local cart and the encrypted NIP-78 settings copy in sync
+ * (last writer wins on the whole cart). Mounted once from the Header.
+ */
+export function useCartSync() {
+  useSettingsSectionSync(CART_SYNC, useCartStore(state => state.updatedAt));
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { getContractMessages, subscribeToMessages } from '@/services/business/MessagingBusinessService';
+import {
+  acceptContract,
+  buildContracts,
+  cancelMilestone,
+  cancelMilestoneFunding,
+  confirmMilestoneFunding,
+  loadPendingFundings,
+  markMilestoneDelivered,
+  proposeContract,
+  releaseMilestone,
+  simulateEscrowPayment,
+  startMilestoneFunding,
+} from '@/services/business/EscrowService';
+import type { Message, SendMessageResult } from '@/types/messaging';
+import type { Proposal } from '@/types/proposal';
+import type { Contract, ContractMilestone, MilestoneDraft, PendingFunding } from '@/types/escrow';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for the signed-in user's Work contracts (as client and as freelancer)
+ * Loads contract messages once, then keeps them live from the gift-wrap subscription.
+ * Every contract step is signed and sent as a contract message; the hold invoice of a
+ * milestone being funded is saved to the client's settings until they confirm the payment,
+ * and restored from there after a reload.
+ */
+export function useContracts() {
+  const { signer, getSigner } = useNostrSigner();
+  const pubkey = useAuthStore(state => (state.isAuthenticated ? state.user?.pubkey : undefined));
+
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingContractId, setUpdatingContractId] = useState<string | null>(null);
+  const [startedFunding, setStartedFunding] = useState<PendingFunding | null>(null);
+  const [storedFundings, setStoredFundings] = useState<PendingFunding[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const addMessage = useCallback((message: Message) => {
+    if (!message.contract) return;
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  const loadContracts = useCallback(async () => {
+    if (!signer || !pubkey) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [contractMessages, fundings] = await Promise.all([
+        getContractMessages(signer, pubkey),
+        // Fundings are only a fallback for a lost page, contracts still load without them
+        loadPendingFundings(pubkey, signer).catch(err => {
+          logger.warn('Failed to load escrow fundings in progress', {
+            service: 'useContracts',
+            method: 'loadContracts',
+            error: err instanceof Error ? err.message : String(err),
+          });
+          return [];
+        }),
+      ]);
+      setMessages(contractMessages);
+      setStoredFundings(fundings);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load contracts';
+      logger.error('Failed to load contracts', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useContracts',
+        method: 'loadContracts',
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [signer, pubkey]);
+
+  useEffect(() => {
+    if (!signer || !pubkey) {
+      setMessages([]);
+      setIsLoading(false);
+      return;
+    }
+
+    void loadContracts();
+    return subscribeToMessages(signer, addMessage, pubkey);
+  }, [signer, pubkey, loadContracts, addMessage]);
+
+  const contracts = useMemo(() => buildContracts(messages), [messages]);
+
+  // Funding started in this session, else one saved earlier whose milestone still waits for it
+  const pendingFunding = useMemo(() => startedFunding ?? storedFundings.find(funding =>
+    contracts.some(contract =>
+      contract.id === funding.contractId &&
+      contract.clientPubkey === pubkey &&
+      contract.status === 'active' &&
+      contract.milestones.some(m => m.id === funding.milestoneId && m.status === 'pending')
+    )
+  ) ?? null, [startedFunding, storedFundings, contracts, pubkey]);
+
+  const clearPendingFunding = useCallback((funding: PendingFunding) => {
+    setStartedFunding(null);
+    setStoredFundings(prev => prev.filter(f => f.holdInvoice.paymentHash !== funding.holdInvoice.paymentHash));
+  }, []);
+
+  /**
+   * Run one contract action, tracking the contract being updated and surfacing errors
+   */
+  const runAction = useCallback(async (
+    contractId: string,
+    method: string,
+    action: () => Promise<SendMessageResult | void>
+  ): Promise<boolean> => {
+    setUpdatingContractId(contractId);
+    setError(null);
+
+    try {
+      const result = await action();
+      if (result && (!result.success || !result.message)) {
+        setError(result.error || 'Failed to update contract');
+        return false;
+      }
+      if (result?.message) addMessage(result.message);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update contract';
+      logger.warn('Contract action failed', {
+        service: 'useContracts',
+        method,
+        contractId,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return false;
+    } finally {
+      setUpdatingContractId(null);
+    }
+  }, [addMessage]);
+
+  /**
+   * Client: propose milestones to a hired freelancer
+   */
+  const propose = useCallback(async (proposal: Proposal, title: string, drafts: MilestoneDraft[]) => (
+    runAction(proposal.id, 'propose', async () => proposeContract(proposal, title, drafts, await getSigner()))
+  ), [runAction, getSigner]);
+
+  /**
+   * Freelancer: accept the proposed milestones
+   */
+  const accept = useCallback(async (contract: Contract) => (
+    runAction(contract.id, 'accept', async () => acceptContract(contract, await getSigner()))
+  ), [runAction, getSigner]);
+
+  /**
+   * Client: create the hold invoice for a milestone
+   */
+  const startFunding = useCallback(async (contract: Contract, milestone: ContractMilestone) => (
+    runAction(contract.id, 'startFunding', async () => {
+      setStartedFunding(await startMilestoneFunding(contract, milestone, await getSigner()));
+    })
+  ), [runAction, getSigner]);
+
+  /**
+   * Client: pay the pending hold invoice with the test provider
+   */
+  const simulatePayment = useCallback(async (contract: Contract) => {
+    if (!pendingFunding) return false;
+    return runAction(contract.id, 'simulatePayment', () => simulateEscrowPayment(contract, pendingFunding));
+  }, [runAction, pendingFunding]);
+
+  /**
+   * Client: confirm the pending hold invoice is paid and tell the freelancer
+   */
+  const confirmFunding = useCallback(async (contract: Contract) => {
+    if (!pendingFunding) return false;
+    const confirmed = await runAction(
+      contract.id,
+      'confirmFunding',
+      async () => confirmMilestoneFunding(contract, pendingFunding, await getSigner())
+    );
+    if (confirmed) clearPendingFunding(pendingFunding);
+    return confirmed;
+  }, [runAction, pendingFunding, getSigner, clearPendingFunding]);
+
+  /**
+   * Client: cancel the pending hold invoice
+   */
+  const cancelFunding = useCallback(async (contract: Contract) => {
+    if (!pendingFunding) return false;
+    const cancelled = await runAction(
+      contract.id,
+      'cancelFunding',
+      async () => cancelMilestoneFunding(contract, pendingFunding, await getSigner())
+    );
+    if (cancelled) clearPendingFunding(pendingFunding);
+    return cancelled;
+  }, [runAction, pendingFunding, getSigner, clearPendingFunding]);
+
+  /**
+   * Freelancer: mark a funded milestone as delivered
+   */
+  const deliver = useCallback(async (contract: Contract, milestone: ContractMilestone, message: string) => (
+    runAction(contract.id, 'deliver', async () => markMilestoneDelivered(contract, milestone, message, await getSigner()))
+  ), [runAction, getSigner]);
+
+  /**
+   * Client: settle the hold invoice of a delivered milestone
+   */
+  const release = useCallback(async (contract: Contract, milestone: ContractMilestone) => (
+    runAction(contract.id, 'release', async () => releaseMilestone(contract, milestone, await getSigner()))
+  ), [runAction, getSigner]);
+
+  /**
+   * Client: cancel an overdue milestone, refunding its hold invoice if funded
+   */
+  const cancel = useCallback(async (contract: Contract, milestone: ContractMilestone) => (
+    runAction(contract.id, 'cancel', async () => cancelMilestone(contract, milestone, await getSigner()))
+  ), [runAction, getSigner]);
+
+  return {
+    contracts,
+    pubkey,
+    isLoading,
+    updatingContractId,
+    pendingFunding,
+    error,
+    refresh: loadContracts,
+    propose,
+    accept,
+    startFunding,
+    simulatePayment,
+    confirmFunding,
+    cancelFunding,
+    deliver,
+    release,
+    cancel,
+  };
+}
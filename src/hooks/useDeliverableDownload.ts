@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { downloadDeliverable } from '@/services/business/DigitalDeliveryService';
+import type { OrderDelivery } from '@/types/order';
+
+/**
+ * Hook for buyers to download and decrypt the digital products of their orders
+ * The decrypted file is handed to the browser as a regular download.
+ */
+export function useDeliverableDownload() {
+  const [downloadingUrl, setDownloadingUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = useCallback(async (delivery: OrderDelivery): Promise<void> => {
+    setDownloadingUrl(delivery.url);
+    setError(null);
+
+    try {
+      const blob = await downloadDeliverable(delivery);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = delivery.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to download file';
+      logger.warn('Deliverable download failed', {
+        service: 'useDeliverableDownload',
+        method: 'download',
+        productId: delivery.product_id,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+    } finally {
+      setDownloadingUrl(null);
+    }
+  }, []);
+
+  return {
+    downloadingUrl,
+    error,
+    download,
+  };
+}
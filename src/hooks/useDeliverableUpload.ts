@@ -0,0 +1,46 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { uploadDeliverable } from '@/services/business/DigitalDeliveryService';
+import type { ProductDeliverable } from '@/types/shop';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for uploading the encrypted file of a digital product from ProductForm
+ * The file is encrypted before it leaves the browser; the signer is asked to
+ * authorize the Blossom upload and to encrypt the file key to the seller.
+ */
+export function useDeliverableUpload() {
+  const { getSigner } = useNostrSigner();
+
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = useCallback(async (file: File): Promise<ProductDeliverable | null> => {
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      return await uploadDeliverable(file, await getSigner());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
+      logger.warn('Deliverable upload failed', {
+        service: 'useDeliverableUpload',
+        method: 'upload',
+        fileName: file.name,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsUploading(false);
+    }
+  }, [getSigner]);
+
+  return {
+    isUploading,
+    error,
+    upload,
+  };
+}
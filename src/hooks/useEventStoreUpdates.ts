@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { eventStoreService } from '@/services/core/EventStoreService';
+
+/**
+ * Re-runs a loader when the local event store picks up changes for the given kinds
+ * (background relay refreshes, our own publishes and deletions).
+ * Returns a reload function that makes the next query refresh from relays.
+ */
+export function useEventStoreUpdates(kinds: number[], onUpdate: () => void) {
+  const onUpdateRef = useRef(onUpdate);
+  const kindsKey = kinds.join(',');
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => {
+    const watched = kindsKey.split(',').map(Number);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = eventStoreService.subscribe(changedKinds => {
+      if (!changedKinds.some(kind => watched.includes(kind))) return;
+      // A refresh can store several batches in a row - reload once
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => onUpdateRef.current(), 300);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [kindsKey]);
+
+  return useCallback(async () => {
+    await eventStoreService.expireQueries();
+    onUpdateRef.current();
+  }, []);
+}
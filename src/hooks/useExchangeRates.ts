@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { formatConvertedAmount, loadExchangeRates } from '@/services/business/ExchangeRateService';
+import { useCurrencyStore } from '@/stores/useCurrencyStore';
+import { EXCHANGE_RATE_TTL } from '@/config/currency';
+
+/**
+ * Hook for the user's display currency and BTC exchange rates
+ * Any component showing converted amounts can use it: rates are loaded once
+ * and shared through useCurrencyStore until they expire.
+ */
+export function useExchangeRates() {
+  const displayCurrency = useCurrencyStore(state => state.displayCurrency);
+  const setDisplayCurrency = useCurrencyStore(state => state.setDisplayCurrency);
+  const rates = useCurrencyStore(state => state.rates);
+  const isLoading = useCurrencyStore(state => state.isLoadingRates);
+  const error = useCurrencyStore(state => state.ratesError);
+
+  useEffect(() => {
+    const { rates: current, isLoadingRates, ratesError, setRates, setLoadingRates, setRatesError } = useCurrencyStore.getState();
+    // Don't retry from every mounted card after a failure - amounts fall back to native only
+    if (isLoadingRates || ratesError || (current && Date.now() - current.fetchedAt < EXCHANGE_RATE_TTL)) return;
+
+    setLoadingRates(true);
+    loadExchangeRates()
+      .then(setRates)
+      .catch(err => {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load exchange rates';
+        logger.warn('Exchange rates unavailable', {
+          service: 'useExchangeRates',
+          method: 'loadExchangeRates',
+          error: errorMessage,
+        });
+        setRatesError(errorMessage);
+      })
+      .finally(() => setLoadingRates(false));
+  }, [rates]);
+
+  /**
+   * "≈ ..." label in the display currency (or sats), null when it can't be converted
+   */
+  const formatConverted = useCallback(
+    (amount: number, currency: string) => formatConvertedAmount(amount, currency, displayCurrency, rates),
+    [displayCurrency, rates]
+  );
+
+  return {
+    displayCurrency,
+    setDisplayCurrency,
+    rates,
+    isLoading,
+    error,
+    formatConverted,
+  };
+}
@@ -5,6 +5,7 @@ import { logger } from '@/services/core/LoggingService';
 import { fetchPublicContributions, type ContributionExploreItem } from '@/services/business/ContributionService';
 import { AppError } from '@/errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+import { useEventStoreUpdates } from './useEventStoreUpdates';
 
 export interface ContributionFilters {
   searchTerm: string;
@@ -117,6 +118,9 @@ export function useExploreContributions(filters?: ContributionFilters) {
     }
   }, [contributionItems, isLoadingMore, hasMore]);
 
+  // Reload when a background relay refresh updates the local event store
+  const reloadFromRelays = useEventStoreUpdates([30023], loadInitial);
+
   const refetch = useCallback(() => {
     logger.info('Refetching contribution items', {
       service: 'useExploreContributions',
@@ -125,8 +129,8 @@ export function useExploreContributions(filters?: ContributionFilters) {
     
     setContributionItems([]);
     setHasMore(true);
-    loadInitial();
-  }, [loadInitial]);
+    void reloadFromRelays();
+  }, [reloadFromRelays]);
 
   useEffect(() => {
     loadInitial();
@@ -2,14 +2,14 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import { logger } from '@/services/core/LoggingService';
-import { fetchPublicProducts, type RelayProgress } from '@/services/business/ShopService';
+import { fetchMyProducts, type RelayProgress } from '@/services/business/ShopService';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { useMyShopStore } from '@/stores/useMyShopStore';
 
 /**
  * Hook for fetching and managing user's own products
  * Integrates with useMyShopStore for state management
- * Pattern from temp-cb-reference: Fetch all products, filter by user's pubkey
+ * Queries the user's products by author so expired listings stay manageable
  * Auto-loads products on mount when authenticated
  */
 export function useMyShopProducts() {
@@ -28,7 +28,6 @@ export function useMyShopProducts() {
 
   /**
    * Load user's products
-   * Pattern: Fetch all → filter by pubkey (client-side)
    */
   const loadMyProducts = useCallback(async () => {
     if (!pubkey || !isAuthenticated) {
@@ -52,30 +51,23 @@ export function useMyShopProducts() {
       setMyProductsError(null);
       setRelayProgress(null);
 
-      // Fetch ALL products from relays with progress tracking
-      const allProducts = await fetchPublicProducts(100, undefined, (progress: RelayProgress) => {
+      // Fetch the user's products from relays with progress tracking
+      const userProducts = await fetchMyProducts(pubkey, (progress: RelayProgress) => {
         setRelayProgress(progress);
         logger.debug('Relay query progress (my products)', {
           service: 'useMyShopProducts',
           method: 'loadMyProducts',
           ...progress,
         });
-      }); // Higher limit for user's products
-      
-      // Filter by current user's pubkey (client-side)
-      const userProducts = allProducts.filter(p => p.pubkey === pubkey);
-      
-      // Sort by newest first
-      const sorted = userProducts.sort((a, b) => b.createdAt - a.createdAt);
+      });
       
       // Update store
-      setMyProducts(sorted);
+      setMyProducts(userProducts);
 
       logger.info('User products loaded', {
         service: 'useMyShopProducts',
         method: 'loadMyProducts',
-        totalFetched: allProducts.length,
-        userProducts: sorted.length,
+        userProducts: userProducts.length,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load products';
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { getOrderMessages, subscribeToMessages } from '@/services/business/MessagingBusinessService';
+import { buildOrders, sendOrderStatus, sendPaymentRequest } from '@/services/business/OrderService';
+import type { Message, SendMessageResult } from '@/types/messaging';
+import type { NostrSigner } from '@/types/nostr';
+import type { Order, OrderStatusPayload, PaymentRequestPayload } from '@/types/order';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for the signed-in user's orders (as buyer and as seller)
+ * Loads order messages once, then keeps the timeline live from the
+ * gift-wrap subscription. Seller actions are sent as order messages.
+ */
+export function useOrders() {
+  const { signer, getSigner } = useNostrSigner();
+  const pubkey = useAuthStore(state => (state.isAuthenticated ? state.user?.pubkey : undefined));
+
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const addMessage = useCallback((message: Message) => {
+    if (!message.order) return;
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  const loadOrders = useCallback(async () => {
+    if (!signer || !pubkey) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setMessages(await getOrderMessages(signer, pubkey));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load orders';
+      logger.error('Failed to load orders', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useOrders',
+        method: 'loadOrders',
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [signer, pubkey]);
+
+  useEffect(() => {
+    if (!signer || !pubkey) {
+      setMessages([]);
+      setIsLoading(false);
+      return;
+    }
+
+    void loadOrders();
+    return subscribeToMessages(signer, addMessage, pubkey);
+  }, [signer, pubkey, loadOrders, addMessage]);
+
+  const orders = useMemo(() => buildOrders(messages), [messages]);
+
+  const runOrderAction = useCallback(async (
+    order: Order,
+    method: string,
+    send: (signer: NostrSigner) => Promise<SendMessageResult>
+  ): Promise<boolean> => {
+    setUpdatingOrderId(order.id);
+    setError(null);
+
+    try {
+      const result = await send(await getSigner());
+      if (!result.success || !result.message) {
+        setError(result.error || 'Failed to update order');
+        return false;
+      }
+      addMessage(result.message);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update order';
+      logger.warn('Order action failed', {
+        service: 'useOrders',
+        method,
+        orderId: order.id,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return false;
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  }, [getSigner, addMessage]);
+
+  /**
+   * Seller: send payment options for an order
+   */
+  const requestPayment = useCallback((
+    order: Order,
+    paymentOptions: PaymentRequestPayload['payment_options'],
+    message: string
+  ) => runOrderAction(order, 'requestPayment', s => sendPaymentRequest(order, paymentOptions, message, s)), [runOrderAction]);
+
+  /**
+   * Seller: mark an order paid / shipped / completed, or cancel it
+   */
+  const updateStatus = useCallback((
+    order: Order,
+    status: NonNullable<OrderStatusPayload['status']>,
+    message: string
+  ) => runOrderAction(order, 'updateStatus', s => sendOrderStatus(order, status, message, s)), [runOrderAction]);
+
+  return {
+    orders,
+    pubkey,
+    isLoading,
+    updatingOrderId,
+    error,
+    refresh: loadOrders,
+    requestPayment,
+    updateStatus,
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchProductRatings } from '@/services/business/ReviewService';
+import type { RatingSummary } from '@/types/review';
+
+/**
+ * Hook for the rating summaries of a list of products (one relay query for all)
+ *
+ * @param addresses - Product addresses ("<kind>:<pubkey>:<d tag>")
+ * @returns Product address -> rating summary (missing until loaded)
+ */
+export function useProductRatings(addresses: string[]): Record<string, RatingSummary> {
+  const [ratings, setRatings] = useState<Record<string, RatingSummary>>({});
+  const addressKey = [...addresses].sort().join(',');
+
+  useEffect(() => {
+    const productAddresses = addressKey ? addressKey.split(',') : [];
+    if (productAddresses.length === 0) return;
+
+    let cancelled = false;
+    fetchProductRatings(productAddresses)
+      .then(result => {
+        if (!cancelled) setRatings(current => ({ ...current, ...result }));
+      })
+      .catch(err => {
+        logger.warn('Failed to load product ratings', {
+          service: 'useProductRatings',
+          method: 'fetchProductRatings',
+          productCount: productAddresses.length,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [addressKey]);
+
+  return ratings;
+}
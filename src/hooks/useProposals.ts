@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { getProposalMessages, subscribeToMessages } from '@/services/business/MessagingBusinessService';
+import { buildProposals, sendProposalStatus, submitProposal } from '@/services/business/ProposalService';
+import type { Message } from '@/types/messaging';
+import type { Proposal, ProposalData, ProposalDecision, ProposalTarget } from '@/types/proposal';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for the signed-in user's job proposals (sent as applicant and received as poster)
+ * Loads proposal messages once, then keeps them live from the gift-wrap subscription.
+ * Applying and poster decisions are sent as proposal messages.
+ */
+export function useProposals() {
+  const { signer, getSigner } = useNostrSigner();
+  const pubkey = useAuthStore(state => (state.isAuthenticated ? state.user?.pubkey : undefined));
+
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [updatingProposalId, setUpdatingProposalId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const addMessage = useCallback((message: Message) => {
+    if (!message.proposal) return;
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  const loadProposals = useCallback(async () => {
+    if (!signer || !pubkey) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setMessages(await getProposalMessages(signer, pubkey));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load proposals';
+      logger.error('Failed to load proposals', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useProposals',
+        method: 'loadProposals',
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [signer, pubkey]);
+
+  useEffect(() => {
+    if (!signer || !pubkey) {
+      setMessages([]);
+      setIsLoading(false);
+      return;
+    }
+
+    void loadProposals();
+    return subscribeToMessages(signer, addMessage, pubkey);
+  }, [signer, pubkey, loadProposals, addMessage]);
+
+  const proposals = useMemo(() => buildProposals(messages), [messages]);
+
+  /**
+   * Applicant: send a proposal for a work listing
+   */
+  const submit = useCallback(async (target: ProposalTarget, data: ProposalData): Promise<boolean> => {
+    if (!pubkey) return false;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await submitProposal(target, data, await getSigner(), pubkey);
+      if (!result.success || !result.message) {
+        setError(result.error || 'Failed to send proposal');
+        return false;
+      }
+      addMessage(result.message);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send proposal';
+      logger.warn('Proposal submission failed', {
+        service: 'useProposals',
+        method: 'submit',
+        workDTag: target.dTag,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [pubkey, getSigner, addMessage]);
+
+  /**
+   * Poster: shortlist, reject or hire an applicant
+   */
+  const updateStatus = useCallback(async (
+    proposal: Proposal,
+    status: ProposalDecision,
+    message: string
+  ): Promise<boolean> => {
+    setUpdatingProposalId(proposal.id);
+    setError(null);
+
+    try {
+      const result = await sendProposalStatus(proposal, status, message, await getSigner());
+      if (!result.success || !result.message) {
+        setError(result.error || 'Failed to update proposal');
+        return false;
+      }
+      addMessage(result.message);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update proposal';
+      logger.warn('Proposal status update failed', {
+        service: 'useProposals',
+        method: 'updateStatus',
+        proposalId: proposal.id,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return false;
+    } finally {
+      setUpdatingProposalId(null);
+    }
+  }, [getSigner, addMessage]);
+
+  return {
+    proposals,
+    pubkey,
+    isLoading,
+    isSubmitting,
+    updatingProposalId,
+    error,
+    refresh: loadProposals,
+    submit,
+    updateStatus,
+  };
+}
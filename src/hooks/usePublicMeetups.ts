@@ -6,6 +6,7 @@ import { fetchPublicMeetups } from '@/services/generic/GenericMeetService';
 import type { MeetupCardData } from '@/types/meetup';
 import { AppError } from '@/errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+import { useEventStoreUpdates } from './useEventStoreUpdates';
 
 /**
  * Relay progress interface (matching service layer)
@@ -141,6 +142,9 @@ export function usePublicMeetups(limit = 20, upcomingOnly = false) {
     }
   }, [meetups, isLoadingMore, hasMore, limit, upcomingOnly]);
 
+  // Reload when a background relay refresh updates the local event store
+  const reloadFromRelays = useEventStoreUpdates([31923], loadInitial);
+
   /**
    * Refresh meetups (re-fetch from relays)
    */
@@ -151,8 +155,8 @@ export function usePublicMeetups(limit = 20, upcomingOnly = false) {
     });
     
     setHasMore(true);
-    loadInitial();
-  }, [loadInitial]);
+    void reloadFromRelays();
+  }, [reloadFromRelays]);
 
   // Auto-load on mount (PAGE REFRESH behavior)
   useEffect(() => {
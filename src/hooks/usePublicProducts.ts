@@ -6,6 +6,7 @@ import { fetchPublicProducts, type RelayProgress } from '@/services/business/Sho
 import { useShopStore } from '@/stores/useShopStore';
 import { AppError } from '@/errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+import { useEventStoreUpdates } from './useEventStoreUpdates';
 
 /**
  * Hook for fetching and managing public products for browse/explore view
@@ -137,6 +138,9 @@ export function usePublicProducts(limit = 20) {
     }
   }, [products, isLoadingMore, hasMore, limit, setProducts]);
 
+  // Reload when a background relay refresh updates the local event store
+  const reloadFromRelays = useEventStoreUpdates([30023], loadInitial);
+
   /**
    * Refresh products (re-fetch from relays)
    */
@@ -147,8 +151,8 @@ export function usePublicProducts(limit = 20) {
     });
     
     setHasMore(true);
-    loadInitial();
-  }, [loadInitial]);
+    void reloadFromRelays();
+  }, [reloadFromRelays]);
 
   // Auto-load on mount (PAGE REFRESH behavior)
   useEffect(() => {
@@ -2,19 +2,25 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { logger } from '@/services/core/LoggingService';
-import { fetchPublicWorkOpportunities, type WorkExploreItem } from '@/services/business/WorkService';
+import { fetchPublicWorkOpportunities, getHourlyEquivalent, type WorkExploreItem } from '@/services/business/WorkService';
 import { AppError } from '@/errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+import { useEventStoreUpdates } from './useEventStoreUpdates';
+import { useExchangeRates } from './useExchangeRates';
 
 export interface WorkFilters {
   searchTerm: string;
   category: string;
   jobType: string;
   region: string;
-  sortBy: 'newest' | 'oldest' | 'title-asc' | 'title-desc' | 'payrate-desc';
+  country: string;
+  minHourlyPay: string; // In the user's display currency; empty for no minimum
+  maxHourlyPay: string; // Empty for no maximum
+  sortBy: 'newest' | 'oldest' | 'title-asc' | 'title-desc' | 'pay-desc' | 'pay-asc';
 }
 
 export function usePublicWorkOpportunities(filters?: WorkFilters) {
+  const { displayCurrency, rates } = useExchangeRates();
   const [workItems, setWorkItems] = useState<WorkExploreItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
@@ -118,6 +124,9 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     }
   }, [workItems, isLoadingMore, hasMore]);
 
+  // Reload when a background relay refresh updates the local event store
+  const reloadFromRelays = useEventStoreUpdates([30023], loadInitial);
+
   const refetch = useCallback(() => {
     logger.info('Refetching work opportunity items', {
       service: 'usePublicWorkOpportunities',
@@ -126,8 +135,8 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     
     setWorkItems([]);
     setHasMore(true);
-    loadInitial();
-  }, [loadInitial]);
+    void reloadFromRelays();
+  }, [reloadFromRelays]);
 
   useEffect(() => {
     loadInitial();
@@ -158,6 +167,14 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     return Array.from(set).sort();
   }, [workItems]);
 
+  const availableCountries = useMemo(() => {
+    const set = new Set<string>();
+    workItems.forEach(item => {
+      if (item.country) set.add(item.country);
+    });
+    return Array.from(set).sort();
+  }, [workItems]);
+
   // Apply client-side filtering and sorting
   const filteredAndSortedItems = useMemo(() => {
     if (!filters) return workItems;
@@ -192,6 +209,32 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
       filtered = filtered.filter((item) => item.region === filters.region);
     }
 
+    // Apply country filter
+    if (filters.country !== 'all') {
+      filtered = filtered.filter((item) => item.country === filters.country);
+    }
+
+    // Apply pay range filter (fixed-price and unconvertible listings have no hourly equivalent)
+    const minHourlyPay = parseFloat(filters.minHourlyPay);
+    const maxHourlyPay = parseFloat(filters.maxHourlyPay);
+    if (!isNaN(minHourlyPay) || !isNaN(maxHourlyPay)) {
+      filtered = filtered.filter((item) => {
+        const hourly = getHourlyEquivalent(item.compensation, displayCurrency, rates);
+        return hourly !== null &&
+          (isNaN(minHourlyPay) || hourly >= minHourlyPay) &&
+          (isNaN(maxHourlyPay) || hourly <= maxHourlyPay);
+      });
+    }
+
+    // Pay sorting compares hourly equivalents in sats; listings without one sort last
+    const hourlySats = (item: WorkExploreItem) => getHourlyEquivalent(item.compensation, 'sats', rates);
+    const comparePay = (a: WorkExploreItem, b: WorkExploreItem, direction: 1 | -1) => {
+      const payA = hourlySats(a);
+      const payB = hourlySats(b);
+      if (payA === null || payB === null) return (payA === null ? 1 : 0) - (payB === null ? 1 : 0);
+      return (payA - payB) * direction;
+    };
+
     // Apply sorting
     switch (filters.sortBy) {
       case 'oldest':
@@ -203,8 +246,11 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
       case 'title-desc':
         filtered.sort((a, b) => b.name.localeCompare(a.name));
         break;
-      case 'payrate-desc':
-        filtered.sort((a, b) => b.payRate - a.payRate);
+      case 'pay-desc':
+        filtered.sort((a, b) => comparePay(a, b, -1));
+        break;
+      case 'pay-asc':
+        filtered.sort((a, b) => comparePay(a, b, 1));
         break;
       case 'newest':
       default:
@@ -213,7 +259,7 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     }
 
     return filtered;
-  }, [workItems, filters]);
+  }, [workItems, filters, displayCurrency, rates]);
 
   // Calculate active filter count
   const activeFilterCount = useMemo(() => {
@@ -223,6 +269,8 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     if (filters.category !== 'all') count++;
     if (filters.jobType !== 'all') count++;
     if (filters.region !== 'all') count++;
+    if (filters.country !== 'all') count++;
+    if (filters.minHourlyPay.trim() || filters.maxHourlyPay.trim()) count++;
     return count;
   }, [filters]);
 
@@ -238,6 +286,7 @@ export function usePublicWorkOpportunities(filters?: WorkFilters) {
     availableCategories,
     availableJobTypes,
     availableRegions,
+    availableCountries,
     activeFilterCount,
   };
 }
@@ -0,0 +1,103 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { publishOutboxService, type OutboxEntry } from '@/services/generic/PublishOutboxService';
+import { useAuthStore } from '@/stores/useAuthStore';
+
+/**
+ * Hook for the signed-in user's publish outbox
+ * Starts the background retry triggers and keeps the queued entries
+ * (and pending/failed counts) in sync with IndexedDB
+ */
+export function usePublishOutbox() {
+  const { user, isAuthenticated } = useAuthStore();
+  const pubkey = isAuthenticated ? user?.pubkey : undefined;
+
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!pubkey) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const result = await publishOutboxService.getEntries(pubkey);
+        if (!cancelled) setEntries(result);
+      } catch (err) {
+        logger.warn('Failed to load publish outbox', {
+          service: 'usePublishOutbox',
+          method: 'load',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    publishOutboxService.start();
+    void load();
+    const unsubscribe = publishOutboxService.subscribe(() => {
+      void load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [pubkey]);
+
+  const pendingCount = useMemo(() => entries.filter(entry => entry.status === 'pending').length, [entries]);
+  const failedCount = useMemo(() => entries.filter(entry => entry.status === 'failed').length, [entries]);
+
+  const withBusy = useCallback(async (id: string, action: () => Promise<void>) => {
+    setBusyIds(prev => [...prev, id]);
+    try {
+      await action();
+    } finally {
+      setBusyIds(prev => prev.filter(busyId => busyId !== id));
+    }
+  }, []);
+
+  /**
+   * Retry one queued event now, ignoring its backoff
+   */
+  const retry = useCallback(
+    (eventId: string) => withBusy(eventId, () => publishOutboxService.retry(eventId)),
+    [withBusy]
+  );
+
+  /**
+   * Remove a queued event without publishing it
+   */
+  const discard = useCallback(
+    (eventId: string) => withBusy(eventId, () => publishOutboxService.discard(eventId)),
+    [withBusy]
+  );
+
+  /**
+   * Retry all of the user's queued events now
+   */
+  const retryAll = useCallback(
+    () => withBusy('all', () => publishOutboxService.retryAll(pubkey)),
+    [withBusy, pubkey]
+  );
+
+  return {
+    entries,
+    pendingCount,
+    failedCount,
+    isLoading,
+    isRetryingAll: busyIds.includes('all'),
+    isBusy: (eventId: string) => busyIds.includes(eventId),
+    retry,
+    discard,
+    retryAll,
+  };
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import { setRelayAuthSigner } from '@/services/generic/GenericRelayService';
+import { useAuthStore } from '@/stores/useAuthStore';
+
+/**
+ * Hands the signed-in user's cached signer to the relay service so relays
+ * that require NIP-42 AUTH (e.g. for gift-wrap reads) can be answered.
+ * Mounted once from the Header.
+ */
+export function useRelayAuthSync() {
+  const signer = useAuthStore(state => state.signer);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  useEffect(() => {
+    setRelayAuthSigner(isAuthenticated ? signer : null);
+  }, [signer, isAuthenticated]);
+}
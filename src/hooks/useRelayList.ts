@@ -0,0 +1,187 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import {
+  fetchUserRelayPreferences,
+  publishRelayList,
+  testRelayConnection,
+  validateRelayUrl,
+  activateUserRelayList,
+  deactivateUserRelayList,
+  type RelayListPublishResult,
+} from '@/services/business/RelayListService';
+import type { RelayPreference } from '@/types/nostr';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+export type RelayHealthStatus = 'unknown' | 'testing' | 'healthy' | 'unhealthy';
+
+/**
+ * Hook for editing the signed-in user's NIP-65 relay list
+ * Loads the current list, tracks local edits and connectivity tests,
+ * and publishes the result as a Kind 10002 event
+ */
+export function useRelayList() {
+  const { user, isAuthenticated } = useAuthStore();
+  const { getSigner } = useNostrSigner();
+  const pubkey = user?.pubkey;
+
+  const [relays, setRelays] = useState<RelayPreference[]>([]);
+  const [isDefaultList, setIsDefaultList] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastPublishResult, setLastPublishResult] = useState<RelayListPublishResult | null>(null);
+  const [health, setHealth] = useState<Record<string, { status: RelayHealthStatus; error?: string }>>({});
+
+  /**
+   * Load relay list from relays (or defaults)
+   */
+  const loadRelays = useCallback(async () => {
+    if (!pubkey || !isAuthenticated) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await fetchUserRelayPreferences(pubkey);
+      setRelays(result.relays);
+      setIsDefaultList(result.isDefault);
+      setIsDirty(false);
+
+      logger.info('Relay list loaded', {
+        service: 'useRelayList',
+        method: 'loadRelays',
+        relayCount: result.relays.length,
+        isDefault: result.isDefault,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load relay list';
+      logger.error('Error loading relay list', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useRelayList',
+        method: 'loadRelays',
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pubkey, isAuthenticated]);
+
+  /**
+   * Add a relay (read + write by default)
+   */
+  const addRelay = useCallback((url: string): { success: boolean; error?: string } => {
+    const validation = validateRelayUrl(url, relays);
+    if (!validation.valid || !validation.url) {
+      return { success: false, error: validation.error };
+    }
+
+    setRelays(prev => [...prev, { url: validation.url!, read: true, write: true }]);
+    setIsDirty(true);
+    return { success: true };
+  }, [relays]);
+
+  const removeRelay = useCallback((url: string) => {
+    setRelays(prev => prev.filter(relay => relay.url !== url));
+    setIsDirty(true);
+  }, []);
+
+  const toggleRelay = useCallback((url: string, direction: 'read' | 'write') => {
+    setRelays(prev => prev.map(relay =>
+      relay.url === url ? { ...relay, [direction]: !relay[direction] } : relay
+    ));
+    setIsDirty(true);
+  }, []);
+
+  /**
+   * Test connectivity for one relay
+   */
+  const testRelay = useCallback(async (url: string) => {
+    setHealth(prev => ({ ...prev, [url]: { status: 'testing' } }));
+    const result = await testRelayConnection(url);
+    setHealth(prev => ({
+      ...prev,
+      [url]: { status: result.healthy ? 'healthy' : 'unhealthy', error: result.error },
+    }));
+  }, []);
+
+  const testAllRelays = useCallback(async () => {
+    await Promise.allSettled(relays.map(relay => testRelay(relay.url)));
+  }, [relays, testRelay]);
+
+  /**
+   * Publish the edited list as Kind 10002
+   */
+  const publish = useCallback(async (): Promise<RelayListPublishResult> => {
+    if (!pubkey) {
+      return { success: false, publishedRelays: [], failedRelays: [], error: 'Please sign in first' };
+    }
+
+    try {
+      setIsPublishing(true);
+      setError(null);
+
+      const signer = await getSigner();
+      const result = await publishRelayList(relays, signer, pubkey);
+      setLastPublishResult(result);
+
+      if (result.success) {
+        setIsDirty(false);
+        setIsDefaultList(false);
+      } else {
+        setError(result.error || 'Failed to publish relay list');
+      }
+
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish relay list';
+      setError(errorMessage);
+      return { success: false, publishedRelays: [], failedRelays: [], error: errorMessage };
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [pubkey, relays, getSigner]);
+
+  useEffect(() => {
+    if (pubkey && isAuthenticated) {
+      loadRelays();
+    }
+  }, [pubkey, isAuthenticated, loadRelays]);
+
+  return {
+    relays,
+    isDefaultList,
+    isLoading,
+    isDirty,
+    isPublishing,
+    error,
+    lastPublishResult,
+    health,
+    loadRelays,
+    addRelay,
+    removeRelay,
+    toggleRelay,
+    testRelay,
+    testAllRelays,
+    publish,
+  };
+}
+
+/**
+ * Keeps the relay service on the signed-in user's relay list for the whole session
+ * Mounted once from the Header
+ */
+export function useUserRelayListSync() {
+  const pubkey = useAuthStore(state => state.user?.pubkey);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  useEffect(() => {
+    if (pubkey && isAuthenticated) {
+      activateUserRelayList(pubkey);
+    } else {
+      deactivateUserRelayList();
+    }
+  }, [pubkey, isAuthenticated]);
+}
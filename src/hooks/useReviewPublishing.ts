@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { publishReview } from '@/services/business/ReviewService';
+import type { Review, ReviewData } from '@/types/review';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for publishing the signed-in user's reviews
+ * Used by product pages and by My Orders (where reviews carry a purchase proof)
+ */
+export function useReviewPublishing() {
+  const { user, isAuthenticated } = useAuthStore();
+  const { getSigner } = useNostrSigner();
+  const userPubkey = isAuthenticated ? user?.pubkey : undefined;
+
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const publish = useCallback(async (review: ReviewData): Promise<Review | null> => {
+    if (!userPubkey) {
+      setError('Please sign in to leave a review');
+      return null;
+    }
+
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const result = await publishReview(review, userPubkey, await getSigner());
+      if (!result.success || !result.review) {
+        setError(result.error || 'Failed to publish review');
+        return null;
+      }
+      return result.review;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish review';
+      logger.warn('Review publishing failed', {
+        service: 'useReviewPublishing',
+        method: 'publish',
+        targetType: review.target.type,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [userPubkey, getSigner]);
+
+  return {
+    userPubkey,
+    isPublishing,
+    error,
+    publish,
+  };
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchReviews, summarizeRatings } from '@/services/business/ReviewService';
+import type { Review, ReviewTarget } from '@/types/review';
+import { useReviewPublishing } from './useReviewPublishing';
+
+/**
+ * Hook for the reviews of a product or seller, with the rating summary
+ * and the signed-in user's own review (which submitReview replaces)
+ */
+export function useReviews(target: ReviewTarget) {
+  const { userPubkey, isPublishing, error: publishError, publish } = useReviewPublishing();
+  const { sellerPubkey } = target;
+  const address = target.type === 'product' ? target.address : undefined;
+
+  // Stable target for callbacks (callers usually pass an inline object)
+  const reviewTarget = useMemo<ReviewTarget>(
+    () => (address ? { type: 'product', address, sellerPubkey } : { type: 'seller', sellerPubkey }),
+    [address, sellerPubkey]
+  );
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setReviews(await fetchReviews(reviewTarget));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load reviews';
+      logger.warn('Failed to load reviews', {
+        service: 'useReviews',
+        method: 'loadReviews',
+        targetType: reviewTarget.type,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reviewTarget]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const summary = useMemo(() => summarizeRatings(reviews), [reviews]);
+
+  const myReview = useMemo(
+    () => reviews.find(review => review.reviewerPubkey === userPubkey && review.productAddress === address),
+    [reviews, userPubkey, address]
+  );
+
+  /**
+   * Publish or replace the user's review, keeping the purchase proof of an earlier verified review
+   */
+  const submitReview = useCallback(async (rating: number, content: string): Promise<boolean> => {
+    const review = await publish({ target: reviewTarget, rating, content, purchaseProof: myReview?.purchaseProof });
+    if (!review) return false;
+
+    setReviews(current => [review, ...current.filter(r => r.id !== myReview?.id)]);
+    return true;
+  }, [publish, reviewTarget, myReview]);
+
+  return {
+    reviews,
+    summary,
+    myReview,
+    userPubkey,
+    isLoading,
+    isSubmitting: isPublishing,
+    error: error || publishError,
+    submitReview,
+    refresh: loadReviews,
+  };
+}
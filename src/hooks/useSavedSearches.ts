@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import {
+  createSavedSearch,
+  loadRemoteSavedSearches,
+  saveRemoteSavedSearches,
+  subscribeToSavedSearchMatches,
+} from '@/services/business/SavedSearchService';
+import {
+  MAX_SAVED_SEARCHES,
+  type SavedSearchCriteria,
+  type SavedSearchScope,
+  type SavedSearchSettings,
+} from '@/types/saved-search';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useSavedSearchStore } from '@/stores/useSavedSearchStore';
+import { useExchangeRates } from './useExchangeRates';
+import { type SettingsSectionSync, useSettingsSectionSync } from './useSettingsSectionSync';
+
+/**
+ * Hook for the saved searches of one browse page (or all of them when no scope is given)
+ * with the number of new matching listings per search
+ */
+export function useSavedSearches(scope?: SavedSearchScope) {
+  const allSearches = useSavedSearchStore(state => state.searches);
+  const newMatches = useSavedSearchStore(state => state.newMatches);
+  const { addSearch, removeSearch, markChecked } = useSavedSearchStore();
+  const [error, setError] = useState<string | null>(null);
+
+  const searches = useMemo(
+    () => (scope ? allSearches.filter(search => search.scope === scope) : allSearches),
+    [allSearches, scope]
+  );
+
+  const getNewMatchCount = useCallback((id: string) => newMatches[id]?.length ?? 0, [newMatches]);
+
+  /**
+   * Save the current filters of a browse page
+   *
+   * @returns Whether the search was saved
+   */
+  const save = useCallback((searchScope: SavedSearchScope, name: string, criteria: SavedSearchCriteria): boolean => {
+    if (useSavedSearchStore.getState().searches.length >= MAX_SAVED_SEARCHES) {
+      setError(`You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`);
+      return false;
+    }
+
+    const search = createSavedSearch(searchScope, name, criteria);
+    addSearch(search);
+    setError(null);
+    logger.info('Search saved', {
+      service: 'useSavedSearches',
+      method: 'save',
+      scope: searchScope,
+      searchId: search.id,
+    });
+    return true;
+  }, [addSearch]);
+
+  return {
+    searches,
+    error,
+    getNewMatchCount,
+    save,
+    remove: removeSearch,
+    markChecked,
+  };
+}
+
+const SAVED_SEARCH_SYNC: SettingsSectionSync<SavedSearchSettings> = {
+  section: 'savedSearches',
+  getLocal: () => useSavedSearchStore.getState().getSavedSearchSettings(),
+  replaceLocal: settings => useSavedSearchStore.getState().replaceSearches(settings),
+  load: loadRemoteSavedSearches,
+  save: saveRemoteSavedSearches,
+};
+
+/**
+ * Keeps saved searches in sync with the encrypted NIP-78 settings copy (last writer
+ * wins on the whole list) and watches relays for new matching listings.
+ * Mounted once from the Header.
+ */
+export function useSavedSearchSync() {
+  const pubkey = useAuthStore(state => state.user?.pubkey);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const searches = useSavedSearchStore(state => state.searches);
+  const { rates } = useExchangeRates();
+
+  // New, deleted or checked searches are pushed after a quiet period
+  useSettingsSectionSync(SAVED_SEARCH_SYNC, useSavedSearchStore(state => state.updatedAt));
+
+  // Live alerts while signed in: re-subscribe when searches are added, removed or checked
+  useEffect(() => {
+    if (!isAuthenticated || !pubkey) return;
+    return subscribeToSavedSearchMatches(searches, rates, useSavedSearchStore.getState().addMatch, pubkey);
+  }, [searches, rates, pubkey, isAuthenticated]);
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchStorefront, type SellerStorefront } from '@/services/business/StorefrontService';
+
+/**
+ * Hook for a seller's public storefront: profile, NIP-05 status and active products
+ */
+export function useSellerStorefront(pubkey: string) {
+  const [storefront, setStorefront] = useState<SellerStorefront | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStorefront = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setStorefront(await fetchStorefront(pubkey));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load storefront';
+      logger.warn('Failed to load storefront', {
+        service: 'useSellerStorefront',
+        method: 'loadStorefront',
+        pubkey,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pubkey]);
+
+  useEffect(() => {
+    loadStorefront();
+  }, [loadStorefront]);
+
+  return {
+    profile: storefront?.profile ?? null,
+    nip05Verified: storefront?.nip05Verified ?? false,
+    products: storefront?.products ?? [],
+    isLoading,
+    error,
+    refresh: loadStorefront,
+  };
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import type { NostrSigner } from '@/types/nostr';
+import { useAuthStore } from '@/stores/useAuthStore';
+
+const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * One section of the encrypted NIP-78 settings mirrored by a local store
+ * Define it at module level so the functions stay stable between renders.
+ */
+export interface SettingsSectionSync<T extends { updatedAt: number }> {
+  section: string; // For logs, e.g. 'cart'
+  getLocal: () => T;
+  replaceLocal: (remote: T) => void;
+  load: (userPubkey: string, signer: NostrSigner) => Promise<T | null>;
+  save: (value: T, userPubkey: string, signer: NostrSigner) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Keeps a local store and its settings section in sync (last writer wins on the whole section)
+ * Saves go through SettingsService's queue, so sections synced side by side never overwrite
+ * each other.
+ *
+ * @param sync - Section to sync
+ * @param updatedAt - updatedAt of the local copy, read from its store so edits trigger a push
+ */
+export function useSettingsSectionSync<T extends { updatedAt: number }>(sync: SettingsSectionSync<T>, updatedAt: number) {
+  const pubkey = useAuthStore(state => state.user?.pubkey);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const signer = useAuthStore(state => state.signer);
+
+  // updatedAt of the copy both sides agree on; null until the initial load finished
+  const syncedAtRef = useRef<number | null>(null);
+
+  // Initial load: newest copy wins
+  useEffect(() => {
+    syncedAtRef.current = null;
+    if (!pubkey || !isAuthenticated || !signer?.nip44) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const remote = await sync.load(pubkey, signer);
+        if (cancelled) return;
+
+        const local = sync.getLocal();
+        if (remote && remote.updatedAt > local.updatedAt) {
+          sync.replaceLocal(remote);
+          syncedAtRef.current = remote.updatedAt;
+        } else if (local.updatedAt > (remote?.updatedAt ?? 0)) {
+          const result = await sync.save(local, pubkey, signer);
+          // On failure the next local edit pushes again
+          syncedAtRef.current = result.success ? local.updatedAt : (remote?.updatedAt ?? 0);
+        } else {
+          syncedAtRef.current = local.updatedAt;
+        }
+      } catch (err) {
+        logger.warn('Settings sync unavailable, keeping data on this device', {
+          service: 'useSettingsSectionSync',
+          method: 'load',
+          section: sync.section,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sync, pubkey, isAuthenticated, signer]);
+
+  // Push local edits after a quiet period
+  useEffect(() => {
+    if (!pubkey || !isAuthenticated || !signer?.nip44) return;
+    if (syncedAtRef.current === null || updatedAt <= syncedAtRef.current) return;
+
+    const timer = setTimeout(async () => {
+      const local = sync.getLocal();
+      const result = await sync.save(local, pubkey, signer);
+      if (result.success) {
+        syncedAtRef.current = local.updatedAt;
+      } else {
+        logger.warn('Failed to sync settings section', {
+          service: 'useSettingsSectionSync',
+          method: 'save',
+          section: sync.section,
+          error: result.error,
+        });
+      }
+    }, SYNC_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [sync, updatedAt, pubkey, isAuthenticated, signer]);
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchTalentPage, type TalentPage } from '@/services/business/TalentService';
+
+/**
+ * Hook for a user's public talent page: Kind 0 profile and talent profile
+ */
+export function useTalentPage(pubkey: string) {
+  const [page, setPage] = useState<TalentPage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPage(await fetchTalentPage(pubkey));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load talent profile';
+      logger.warn('Failed to load talent page', {
+        service: 'useTalentPage',
+        method: 'loadPage',
+        pubkey,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pubkey]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return {
+    profile: page?.profile ?? null,
+    talent: page?.talent ?? null,
+    isLoading,
+    error,
+    refresh: loadPage,
+  };
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchTalentProfile, publishTalentProfile } from '@/services/business/TalentService';
+import type { TalentProfile, TalentProfileData } from '@/types/talent';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+
+/**
+ * Hook for one user's talent profile
+ * When it is the signed-in user's own profile, it can also be published (replacing the previous version).
+ */
+export function useTalentProfile(pubkey: string | undefined) {
+  const { getSigner } = useNostrSigner();
+  const userPubkey = useAuthStore(state => (state.isAuthenticated ? state.user?.pubkey : undefined));
+
+  const [profile, setProfile] = useState<TalentProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    if (!pubkey) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setProfile(await fetchTalentProfile(pubkey));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load talent profile';
+      logger.warn('Failed to load talent profile', {
+        service: 'useTalentProfile',
+        method: 'loadProfile',
+        pubkey,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pubkey]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  /**
+   * Publish the signed-in user's talent profile
+   */
+  const publish = useCallback(async (data: TalentProfileData): Promise<boolean> => {
+    if (!userPubkey || userPubkey !== pubkey) return false;
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const result = await publishTalentProfile(data, userPubkey, await getSigner());
+      if (!result.success || !result.profile) {
+        setError(result.error || 'Failed to publish talent profile');
+        return false;
+      }
+      setProfile(result.profile);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish talent profile';
+      logger.warn('Talent profile publishing failed', {
+        service: 'useTalentProfile',
+        method: 'publish',
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [pubkey, userPubkey, getSigner]);
+
+  return {
+    profile,
+    isOwnProfile: !!userPubkey && userPubkey === pubkey,
+    isLoading,
+    isPublishing,
+    error,
+    refresh: loadProfile,
+    publish,
+  };
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import { fetchTalentProfiles, filterTalentProfiles } from '@/services/business/TalentService';
+import { getTimeZoneRegion } from '@/config/talent';
+import type { TalentFilters, TalentProfile } from '@/types/talent';
+import { useEventStoreUpdates } from './useEventStoreUpdates';
+import { useExchangeRates } from './useExchangeRates';
+
+/**
+ * Hook for the talent browse page: loads talent profiles, then filters and sorts them
+ * client-side (hourly rates are compared in sats using the shared exchange rates)
+ */
+export function useTalentProfiles(filters: TalentFilters) {
+  const { rates } = useExchangeRates();
+  const [profiles, setProfiles] = useState<TalentProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setProfiles(await fetchTalentProfiles());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load talent profiles';
+      logger.error('Error loading talent profiles', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useTalentProfiles',
+        method: 'loadProfiles',
+      });
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload when a background relay refresh updates the local event store
+  const refetch = useEventStoreUpdates([30023], loadProfiles);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Only offer the filter values present in the loaded profiles
+  const availableSkills = useMemo(() => [...new Set(profiles.flatMap(profile => profile.skills))], [profiles]);
+  const availableLanguages = useMemo(() => [...new Set(profiles.flatMap(profile => profile.languages))], [profiles]);
+  const availableTimeZoneRegions = useMemo(
+    () => [...new Set(profiles.map(profile => getTimeZoneRegion(profile.timeZone)))].sort(),
+    [profiles]
+  );
+
+  const filteredProfiles = useMemo(() => filterTalentProfiles(profiles, filters, rates), [profiles, filters, rates]);
+
+  const activeFilterCount = [
+    filters.searchTerm.trim(),
+    filters.skill !== 'all',
+    filters.language !== 'all',
+    filters.availability !== 'all',
+    filters.timeZoneRegion !== 'all',
+  ].filter(Boolean).length;
+
+  return {
+    profiles: filteredProfiles,
+    totalCount: profiles.length,
+    isLoading,
+    error,
+    refetch,
+    availableSkills,
+    availableLanguages,
+    availableTimeZoneRegions,
+    activeFilterCount,
+  };
+}
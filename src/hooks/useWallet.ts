@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import {
+  closeWallet,
+  connectWallet,
+  disconnectWallet,
+  getBalance,
+  getConnectedWallet,
+  listTransactions,
+  loadWallet,
+  makeInvoice,
+  payInvoice,
+  subscribeToWallet,
+} from '@/services/business/WalletService';
+import type { WalletInvoice, WalletPayment, WalletSummary, WalletTransaction } from '@/types/wallet';
+import { useAuthStore } from '@/stores/useAuthStore';
+
+/**
+ * Hook for the signed-in user's Nostr Wallet Connect (NIP-47) wallet
+ * Restores the stored connection, and exposes pay / receive / balance / history
+ * for the Payments page and any payment flow (zaps, shop, work)
+ */
+export function useWallet() {
+  const { user, isAuthenticated } = useAuthStore();
+  const pubkey = isAuthenticated ? user?.pubkey : undefined;
+
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pubkey) {
+      closeWallet();
+      setWallet(null);
+      return;
+    }
+
+    let cancelled = false;
+    setWallet(getConnectedWallet(pubkey));
+    setIsLoading(true);
+    loadWallet(pubkey)
+      .then(result => {
+        if (!cancelled) setWallet(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    const unsubscribe = subscribeToWallet(setWallet);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [pubkey]);
+
+  const runWalletRequest = useCallback(async <T,>(method: string, request: () => Promise<T>): Promise<T | null> => {
+    try {
+      setError(null);
+      return await request();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Wallet request failed';
+      logger.warn('Wallet request failed', {
+        service: 'useWallet',
+        method,
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Connect a wallet from a nostr+walletconnect:// URI
+   */
+  const connect = useCallback(async (uri: string): Promise<boolean> => {
+    if (!pubkey) {
+      setError('Please sign in to connect a wallet');
+      return false;
+    }
+
+    setIsConnecting(true);
+    const result = await runWalletRequest('connect', () => connectWallet(uri, pubkey));
+    setIsConnecting(false);
+    return result !== null;
+  }, [pubkey, runWalletRequest]);
+
+  const disconnect = useCallback(() => {
+    disconnectWallet();
+    setBalance(null);
+    setTransactions([]);
+    setError(null);
+  }, []);
+
+  /**
+   * Pay a bolt11 invoice from the connected wallet
+   */
+  const pay = useCallback(async (bolt11: string): Promise<WalletPayment | null> => {
+    setIsPaying(true);
+    const result = await runWalletRequest('pay', () => payInvoice(bolt11));
+    setIsPaying(false);
+    return result;
+  }, [runWalletRequest]);
+
+  /**
+   * Create an invoice to receive into the connected wallet
+   */
+  const receive = useCallback(async (amountSats: number, description: string): Promise<WalletInvoice | null> => {
+    return runWalletRequest('receive', () => makeInvoice(amountSats, description));
+  }, [runWalletRequest]);
+
+  /**
+   * Refresh balance and recent transactions (each only if the connection allows it)
+   */
+  const refresh = useCallback(async () => {
+    if (!wallet) return;
+
+    if (wallet.methods.includes('get_balance')) {
+      const result = await runWalletRequest('refreshBalance', getBalance);
+      if (result !== null) setBalance(result);
+    }
+    if (wallet.methods.includes('list_transactions')) {
+      const result = await runWalletRequest('refreshTransactions', () => listTransactions());
+      if (result !== null) setTransactions(result);
+    }
+  }, [wallet, runWalletRequest]);
+
+  return {
+    wallet,
+    isLoading,
+    isConnecting,
+    isPaying,
+    canPay: !!wallet?.methods.includes('pay_invoice'),
+    balance,
+    transactions,
+    error,
+    connect,
+    disconnect,
+    pay,
+    receive,
+    refresh,
+  };
+}
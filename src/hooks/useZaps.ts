@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/services/core/LoggingService';
+import {
+  createZapInvoice,
+  fetchZapSummary,
+  getRecipientPayEndpoint,
+  subscribeToZapReceipts,
+  summarizeZaps,
+} from '@/services/business/ZapService';
+import type { ZapInvoice, ZapSummary, ZapTarget } from '@/types/zap';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useNostrSigner } from './useNostrSigner';
+import { useWallet } from './useWallet';
+
+// WebLN provider injected by lightning browser extensions (Alby, etc.)
+declare global {
+  interface Window {
+    webln?: {
+      enable(): Promise<void>;
+      sendPayment(paymentRequest: string): Promise<{ preimage: string }>;
+    };
+  }
+}
+
+export type ZapStatus = 'idle' | 'creating' | 'awaiting-payment' | 'paying' | 'paid';
+
+const EMPTY_SUMMARY: ZapSummary = { totalSats: 0, count: 0, receipts: [] };
+
+/**
+ * Hook for zapping a single piece of content (NIP-57)
+ * Loads validated zap receipts, listens for new ones and drives the
+ * request -> invoice -> payment flow. Invoices paid outside WebLN are confirmed by their receipt.
+ */
+export function useZaps(target: ZapTarget) {
+  const { user, isAuthenticated } = useAuthStore();
+  const { getSigner } = useNostrSigner();
+  const { canPay: canPayWithWallet, pay: payFromWallet, error: walletError } = useWallet();
+  const userPubkey = user?.pubkey;
+  const { eventId, pubkey, kind, dTag } = target;
+
+  const [summary, setSummary] = useState<ZapSummary>(EMPTY_SUMMARY);
+  const [isLoading, setIsLoading] = useState(false);
+  const [canZap, setCanZap] = useState(false);
+  const [invoice, setInvoice] = useState<ZapInvoice | null>(null);
+  const [status, setStatus] = useState<ZapStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [hasWebLN, setHasWebLN] = useState(false);
+
+  // Extensions inject window.webln after load - check on the client only
+  useEffect(() => {
+    setHasWebLN(!!window.webln);
+  }, []);
+
+  /**
+   * Load zap receipts for the content
+   */
+  const loadZaps = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await fetchZapSummary({ eventId, pubkey, kind, dTag });
+      setSummary(result);
+    } catch (err) {
+      logger.warn('Failed to load zaps', {
+        service: 'useZaps',
+        method: 'loadZaps',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, pubkey, kind, dTag]);
+
+  useEffect(() => {
+    loadZaps();
+  }, [loadZaps]);
+
+  // Resolve the recipient's lightning endpoint, then listen for new receipts
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getRecipientPayEndpoint(pubkey)
+      .then(endpoint => {
+        if (cancelled) return;
+        setCanZap(true);
+        if (!endpoint.allowsNostr || !endpoint.nostrPubkey) return;
+
+        unsubscribe = subscribeToZapReceipts({ eventId, pubkey, kind, dTag }, endpoint.nostrPubkey, receipt => {
+          setSummary(current => summarizeZaps([receipt, ...current.receipts]));
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setCanZap(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [eventId, pubkey, kind, dTag]);
+
+  // Invoices paid from another wallet (QR / lightning: link) are confirmed by their receipt
+  useEffect(() => {
+    const zapRequestId = invoice?.zapRequestId;
+    if (status === 'awaiting-payment' && zapRequestId && summary.receipts.some(r => r.requestId === zapRequestId)) {
+      setStatus('paid');
+    }
+  }, [invoice, status, summary]);
+
+  /**
+   * Sign a zap request and fetch an invoice for it
+   */
+  const createInvoice = useCallback(async (amountSats: number, comment: string): Promise<ZapInvoice | null> => {
+    if (!isAuthenticated || !userPubkey) {
+      setError('Please sign in to zap');
+      return null;
+    }
+
+    try {
+      setStatus('creating');
+      setError(null);
+
+      const signer = await getSigner();
+      const result = await createZapInvoice({ eventId, pubkey, kind, dTag }, amountSats, comment, userPubkey, signer);
+
+      setInvoice(result);
+      setStatus('awaiting-payment');
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create zap invoice';
+      logger.error('Failed to create zap invoice', err instanceof Error ? err : new Error(errorMessage), {
+        service: 'useZaps',
+        method: 'createInvoice',
+        amountSats,
+      });
+      setError(errorMessage);
+      setStatus('idle');
+      return null;
+    }
+  }, [getSigner, isAuthenticated, userPubkey, eventId, pubkey, kind, dTag]);
+
+  /**
+   * Pay the current invoice from the user's Nostr Wallet Connect wallet
+   */
+  const payWithWallet = useCallback(async () => {
+    if (!invoice) return;
+
+    setStatus('paying');
+    setError(null);
+    const payment = await payFromWallet(invoice.bolt11);
+    if (!payment) {
+      setStatus('awaiting-payment');
+      return;
+    }
+
+    logger.info('Zap paid with connected wallet', {
+      service: 'useZaps',
+      method: 'payWithWallet',
+      amountSats: invoice.amountSats,
+    });
+
+    setStatus('paid');
+    // The receipt may land on relays we're not subscribed to
+    if (invoice.receiptsSupported) setTimeout(() => loadZaps(), 3000);
+  }, [invoice, payFromWallet, loadZaps]);
+
+  /**
+   * Pay the current invoice with a WebLN wallet extension
+   */
+  const payWithWebLN = useCallback(async () => {
+    if (!invoice || !window.webln) return;
+
+    try {
+      setStatus('paying');
+      setError(null);
+      await window.webln.enable();
+      await window.webln.sendPayment(invoice.bolt11);
+
+      logger.info('Zap paid with WebLN', {
+        service: 'useZaps',
+        method: 'payWithWebLN',
+        amountSats: invoice.amountSats,
+      });
+
+      setStatus('paid');
+      // The receipt may land on relays we're not subscribed to
+      if (invoice.receiptsSupported) setTimeout(() => loadZaps(), 3000);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Payment failed';
+      logger.warn('WebLN payment failed', {
+        service: 'useZaps',
+        method: 'payWithWebLN',
+        error: errorMessage,
+      });
+      setError(errorMessage);
+      setStatus('awaiting-payment');
+    }
+  }, [invoice, loadZaps]);
+
+  /**
+   * Clear the current invoice (closing the zap dialog)
+   */
+  const reset = useCallback(() => {
+    setInvoice(null);
+    setStatus('idle');
+    setError(null);
+  }, []);
+
+  return {
+    summary,
+    isLoading,
+    canZap,
+    invoice,
+    status,
+    error: error || (status === 'awaiting-payment' ? walletError : null),
+    hasWebLN,
+    canPayWithWallet,
+    createInvoice,
+    payWithWallet,
+    payWithWebLN,
+    reset,
+    loadZaps,
+  };
+}
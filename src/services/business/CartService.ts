@@ -0,0 +1,154 @@
+import type { NostrSigner } from '@/types/nostr';
+import type { ProductEvent, ProductVariant } from '@/types/shop';
+import { getProductAvailability } from '@/types/shop';
+import type { CartItem, CartItemValidation, CartSellerGroup, CartSettings } from '@/types/cart';
+import { getCartItemKey } from '@/types/cart';
+import { fetchSettings, saveSettings } from './SettingsService';
+import { fetchProductsByAddress } from './ShopService';
+import { logger } from '@/services/core/LoggingService';
+import { isExpired } from '@/utils/dateUtils';
+
+/**
+ * CartService
+ * Business logic layer for the multi-vendor shopping cart
+ * Items are product addresses + quantities, grouped by seller for checkout and
+ * synced across devices through the encrypted NIP-78 settings event ("cart" section).
+ * Layer: Business Service
+ * Dependencies: SettingsService (NIP-78 settings), ShopService (products)
+ */
+
+export const MAX_CART_QUANTITY = 99;
+
+/**
+ * NIP-33 address of a product
+ */
+export function getProductAddress(kind: number, sellerPubkey: string, dTag: string): string {
+  return `${kind}:${sellerPubkey}:${dTag}`;
+}
+
+/**
+ * Cart item for a product or one of its variants (details are a snapshot for display and change detection)
+ */
+export function createCartItem(product: ProductEvent, quantity: number, variant?: ProductVariant): CartItem {
+  return {
+    address: getProductAddress(product.kind, product.pubkey, product.dTag),
+    sellerPubkey: product.pubkey,
+    dTag: product.dTag,
+    ...(variant && { variantId: variant.id, variantName: variant.name }),
+    quantity: Math.min(Math.max(1, Math.floor(quantity)), MAX_CART_QUANTITY),
+    addedAt: Math.floor(Date.now() / 1000),
+    title: product.title,
+    price: variant?.price ?? product.price,
+    currency: product.currency,
+    imageUrl: product.media.images[0]?.url,
+  };
+}
+
+/**
+ * Group cart items by seller, with per-currency subtotals
+ */
+export function groupCartBySeller(items: CartItem[]): CartSellerGroup[] {
+  const groups = new Map<string, CartSellerGroup>();
+
+  for (const item of items) {
+    const group = groups.get(item.sellerPubkey) || { sellerPubkey: item.sellerPubkey, items: [], subtotals: {} };
+    group.items.push(item);
+    group.subtotals[item.currency] = (group.subtotals[item.currency] || 0) + item.price * item.quantity;
+    groups.set(item.sellerPubkey, group);
+  }
+
+  // Oldest seller first so groups don't jump around as items are added
+  return Array.from(groups.values()).sort(
+    (a, b) => Math.min(...a.items.map(i => i.addedAt)) - Math.min(...b.items.map(i => i.addedAt))
+  );
+}
+
+function isCartItem(value: unknown): value is CartItem {
+  const item = value as CartItem;
+  return !!item && typeof item.address === 'string' && typeof item.sellerPubkey === 'string' &&
+    typeof item.dTag === 'string' && typeof item.quantity === 'number' && typeof item.price === 'number';
+}
+
+/**
+ * Load the cart section of the user's settings (null when never synced)
+ */
+export async function loadRemoteCart(userPubkey: string, signer: NostrSigner): Promise<CartSettings | null> {
+  const { settings } = await fetchSettings(userPubkey, signer);
+  const cart = settings.cart as Partial<CartSettings> | undefined;
+
+  if (!cart || !Array.isArray(cart.items) || typeof cart.updatedAt !== 'number') {
+    return null;
+  }
+
+  return { items: cart.items.filter(isCartItem), updatedAt: cart.updatedAt };
+}
+
+/**
+ * Save the cart section of the user's settings
+ */
+export async function saveRemoteCart(
+  cart: CartSettings,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  logger.info('Syncing cart', {
+    service: 'CartService',
+    method: 'saveRemoteCart',
+    itemCount: cart.items.length,
+  });
+
+  return saveSettings({ cart }, userPubkey, signer);
+}
+
+/**
+ * Check cart items against the latest version of each product
+ * Sold out / reserved / expired products and removed or sold out variants become unavailable
+ * Returns the items with refreshed details and a status per cart item key
+ */
+export async function revalidateCart(items: CartItem[]): Promise<{
+  items: CartItem[];
+  validation: Record<string, CartItemValidation>;
+}> {
+  const latest = await fetchProductsByAddress([...new Set(items.map(item => item.address))]);
+  const validation: Record<string, CartItemValidation> = {};
+
+  const refreshed = items.map(item => {
+    const key = getCartItemKey(item);
+    const product = latest.get(item.address);
+    const variant = item.variantId ? product?.variants.find(v => v.id === item.variantId) : undefined;
+    const isAvailable = !!product &&
+      getProductAvailability(product) === 'available' &&
+      !isExpired(product.expiresAt) &&
+      (item.variantId ? !!variant && variant.quantity !== 0 : true);
+
+    if (!product || !isAvailable) {
+      validation[key] = { status: 'unavailable' };
+      return item;
+    }
+
+    const price = variant?.price ?? product.price;
+    const priceChanged = price !== item.price || product.currency !== item.currency;
+    validation[key] = priceChanged
+      ? { status: 'price-changed', previousPrice: item.price }
+      : { status: 'ok' };
+
+    return {
+      ...item,
+      title: product.title,
+      ...(variant && { variantName: variant.name }),
+      price,
+      currency: product.currency,
+      imageUrl: product.media.images[0]?.url || item.imageUrl,
+    };
+  });
+
+  logger.info('Cart revalidated', {
+    service: 'CartService',
+    method: 'revalidateCart',
+    itemCount: items.length,
+    unavailable: Object.values(validation).filter(v => v.status === 'unavailable').length,
+    priceChanged: Object.values(validation).filter(v => v.status === 'price-changed').length,
+  });
+
+  return { items: refreshed, validation };
+}
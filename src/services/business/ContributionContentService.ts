@@ -211,6 +211,7 @@ class ContributionContentService extends BaseContentProvider<ContributionCustomF
         content: {
           id,
           dTag: id,
+          eventId: event.id,
           title,
           description: fullDescription,
           summary: summary || fullDescription.slice(0, 200) + '...',
@@ -0,0 +1,169 @@
+import type { NostrSigner } from '@/types/nostr';
+import type { Order, OrderDelivery } from '@/types/order';
+import type { ProductDeliverable } from '@/types/shop';
+import { EncryptionService } from '@/services/generic/EncryptionService';
+import { downloadFile, uploadFile, validateFile } from '@/services/generic/GenericBlossomService';
+import { queryEvents } from '@/services/generic/GenericRelayService';
+import { extractDelivery } from '@/services/generic/GenericShopService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * DigitalDeliveryService
+ * Business logic layer for delivering digital products. The seller's file is encrypted
+ * client-side (AES-256-GCM) before it is uploaded to Blossom, so its URL can be public.
+ * The file key is stored in the listing NIP-44 encrypted to the seller, and sent to the
+ * buyer inside the NIP-17 order status once the order is paid.
+ * Layer: Business Service
+ * Dependencies: EncryptionService, GenericBlossomService (upload/download), GenericRelayService (Relay)
+ */
+
+/**
+ * Seller: encrypt and upload the deliverable file of a digital product
+ */
+export async function uploadDeliverable(file: File, signer: NostrSigner): Promise<ProductDeliverable> {
+  const validation = validateFile(file);
+  if (!validation.valid) {
+    throw new AppError(
+      validation.error || 'Invalid file',
+      ErrorCode.VALIDATION_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      ErrorSeverity.LOW,
+      { fileName: file.name }
+    );
+  }
+
+  const { ciphertext, key } = await EncryptionService.encryptFile(await file.arrayBuffer());
+  const encryptedFile = new File([ciphertext], `${file.name}.enc`, { type: 'application/octet-stream' });
+  const uploadResult = await uploadFile(encryptedFile, signer);
+
+  if (!uploadResult.success || !uploadResult.metadata) {
+    throw new AppError(
+      uploadResult.error || 'Failed to upload file',
+      ErrorCode.EXTERNAL_SERVICE_ERROR,
+      HttpStatus.BAD_GATEWAY,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.MEDIUM,
+      { fileName: file.name }
+    );
+  }
+
+  const pubkey = await signer.getPublicKey();
+  const encryptedKey = await EncryptionService.encryptWithSigner(signer, pubkey, key);
+
+  logger.info('Deliverable uploaded', {
+    service: 'DigitalDeliveryService',
+    method: 'uploadDeliverable',
+    hash: uploadResult.metadata.hash,
+    size: file.size,
+  });
+
+  return {
+    url: uploadResult.metadata.url,
+    hash: uploadResult.metadata.hash,
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    encryptedKey,
+  };
+}
+
+/**
+ * Seller: files and decryption keys for the digital products in an order
+ * Reads the deliverables from the seller's current listings
+ */
+export async function getOrderDeliveries(order: Order, signer: NostrSigner): Promise<OrderDelivery[]> {
+  const dTags = [...new Set(order.items.map(item => item.product_id))];
+  const queryResult = await queryEvents([{ kinds: [30023], authors: [order.sellerPubkey], '#d': dTags }]);
+
+  if (!queryResult.success) {
+    throw new AppError(
+      queryResult.error || 'Failed to load the ordered products',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.MEDIUM,
+      { orderId: order.id }
+    );
+  }
+
+  // Newest version of each listing
+  const latest = new Map<string, string[][]>();
+  for (const event of [...queryResult.events].sort((a, b) => a.created_at - b.created_at)) {
+    const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+    if (dTag) latest.set(dTag, event.tags);
+  }
+
+  const deliveries: OrderDelivery[] = [];
+  for (const [dTag, tags] of latest) {
+    const { deliveryMethods, deliverable } = extractDelivery(tags);
+    if (!deliverable || !deliveryMethods.includes('digital')) continue;
+
+    deliveries.push({
+      product_id: dTag,
+      url: deliverable.url,
+      sha256: deliverable.hash,
+      name: deliverable.name,
+      mime_type: deliverable.mimeType,
+      size: deliverable.size,
+      key: await EncryptionService.decryptWithSigner(signer, order.sellerPubkey, deliverable.encryptedKey),
+    });
+  }
+
+  logger.info('Order deliveries prepared', {
+    service: 'DigitalDeliveryService',
+    method: 'getOrderDeliveries',
+    orderId: order.id,
+    deliveryCount: deliveries.length,
+  });
+
+  return deliveries;
+}
+
+async function fetchEncryptedFile(delivery: OrderDelivery): Promise<Blob | null> {
+  try {
+    const response = await fetch(delivery.url);
+    if (response.ok) return await response.blob();
+  } catch (error) {
+    logger.warn('Deliverable URL unavailable, trying Blossom servers', {
+      service: 'DigitalDeliveryService',
+      method: 'fetchEncryptedFile',
+      url: delivery.url,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+  return downloadFile(delivery.sha256);
+}
+
+/**
+ * Buyer: download and decrypt a delivered file
+ */
+export async function downloadDeliverable(delivery: OrderDelivery): Promise<Blob> {
+  const encrypted = await fetchEncryptedFile(delivery);
+  if (!encrypted) {
+    throw new AppError(
+      'The file could not be downloaded',
+      ErrorCode.FILE_NOT_FOUND,
+      HttpStatus.NOT_FOUND,
+      ErrorCategory.NETWORK,
+      ErrorSeverity.MEDIUM,
+      { url: delivery.url }
+    );
+  }
+
+  try {
+    const decrypted = await EncryptionService.decryptFile(await encrypted.arrayBuffer(), delivery.key);
+    return new Blob([decrypted], { type: delivery.mime_type || 'application/octet-stream' });
+  } catch (error) {
+    throw new AppError(
+      'The file could not be decrypted',
+      ErrorCode.INVALID_FORMAT,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      ErrorSeverity.MEDIUM,
+      { url: delivery.url, originalError: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+}
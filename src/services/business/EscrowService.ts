@@ -0,0 +1,665 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import type { Message, SendMessageResult } from '@/types/messaging';
+import type { Proposal } from '@/types/proposal';
+import type {
+  Contract,
+  ContractAction,
+  ContractMessage,
+  ContractMilestone,
+  ContractRole,
+  ContractStatus,
+  ContractTerms,
+  EscrowProvider,
+  MilestoneDelivery,
+  MilestoneDraft,
+  MilestoneFunding,
+  MilestoneRelease,
+  MilestoneStatus,
+  PendingFunding,
+} from '@/types/escrow';
+import { CONTRACT_EVENT_KIND, MAX_CONTRACT_MILESTONES } from '@/types/escrow';
+import { sendContractMessage } from './MessagingBusinessService';
+import { fetchSettings, updateSettingsSection } from './SettingsService';
+import { createContractEvent, signEvent, verifyEventSignature } from '@/services/generic/GenericEventService';
+import { genericEscrowService } from '@/services/generic/GenericEscrowService';
+import { EncryptionService } from '@/services/generic/EncryptionService';
+import { fromDateInputValue, formatDate } from '@/utils/dateUtils';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * EscrowService
+ * Business logic layer for Work contracts with Lightning escrow milestones
+ * The client (listing poster) proposes milestones to the hired freelancer, funds each one
+ * into a hold invoice, and releases it once the freelancer marked it delivered. Every step
+ * is a signed contract event (Kind 21556) sent over NIP-17; contracts are rebuilt from
+ * those events and only steps signed by the right party, in the right order, count.
+ * Layer: Business Service
+ * Dependencies: MessagingBusinessService (NIP-17), GenericEventService (signing),
+ * GenericEscrowService (hold invoices), SettingsService (fundings in progress)
+ */
+
+// Settings section holding the client's fundings in progress (preimages NIP-44 encrypted)
+const FUNDINGS_SETTINGS_SECTION = 'escrowFundings';
+
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  proposed: 'Awaiting acceptance',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Not funded',
+  funded: 'Funded in escrow',
+  delivered: 'Delivered',
+  released: 'Released',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * The user's side of a contract, or null when they are not part of it
+ */
+export function getContractRole(contract: Contract, pubkey: string | undefined): ContractRole | null {
+  if (pubkey === contract.clientPubkey) return 'client';
+  if (pubkey === contract.freelancerPubkey) return 'freelancer';
+  return null;
+}
+
+/**
+ * Escrow provider holding a contract's payments, if available in this client
+ */
+export function getContractProvider(contract: Contract): EscrowProvider | undefined {
+  return genericEscrowService.findProvider(contract.providerId);
+}
+
+/**
+ * Whether the client may cancel a milestone: only once it is past its due date
+ * and not delivered yet, so a freelancer working on time can't lose a funded milestone
+ */
+export function canCancelMilestone(milestone: ContractMilestone, at = Math.floor(Date.now() / 1000)): boolean {
+  return (milestone.status === 'pending' || milestone.status === 'funded') && at > milestone.dueAt;
+}
+
+/**
+ * First validation error of a contract form, if any
+ */
+export function validateMilestones(title: string, drafts: MilestoneDraft[]): string | null {
+  if (!title.trim()) return 'Contract title is required';
+  if (drafts.length === 0) return 'Add at least one milestone';
+  if (drafts.length > MAX_CONTRACT_MILESTONES) return `You can add up to ${MAX_CONTRACT_MILESTONES} milestones`;
+
+  const now = Math.floor(Date.now() / 1000);
+  for (const [index, draft] of drafts.entries()) {
+    const label = `Milestone ${index + 1}`;
+    if (!draft.description.trim()) return `${label}: description is required`;
+    const amount = Number(draft.amountSats);
+    if (!Number.isInteger(amount) || amount <= 0) return `${label}: amount must be a whole number of sats`;
+    const due = fromDateInputValue(draft.dueDate);
+    if (!due) return `${label}: due date is required`;
+    if (due < now) return `${label}: due date must be in the future`;
+  }
+  return null;
+}
+
+const contractError = (message: string, context: Record<string, unknown>) =>
+  new AppError(
+    message,
+    ErrorCode.VALIDATION_ERROR,
+    HttpStatus.BAD_REQUEST,
+    ErrorCategory.VALIDATION,
+    ErrorSeverity.MEDIUM,
+    context
+  );
+
+/**
+ * Sign one contract step and send it to the other party
+ */
+async function sendContractStep(
+  action: ContractAction,
+  contractId: string | null,
+  route: { senderPubkey: string; recipientPubkey: string; workAddress: string },
+  details: object,
+  summary: string,
+  signer: NostrSigner,
+  milestoneId?: string
+): Promise<SendMessageResult> {
+  const signResult = await signEvent(
+    createContractEvent(
+      action,
+      contractId,
+      route.recipientPubkey,
+      route.workAddress,
+      details,
+      route.senderPubkey,
+      milestoneId
+    ),
+    signer
+  );
+
+  if (!signResult.success || !signResult.signedEvent) {
+    throw new AppError(
+      signResult.error || 'Failed to sign contract step',
+      ErrorCode.SIGNER_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.AUTHENTICATION,
+      ErrorSeverity.MEDIUM,
+      { action, contractId, milestoneId }
+    );
+  }
+
+  const event = signResult.signedEvent;
+  const payload: ContractMessage = { type: 'contract', contract: contractId ?? event.id, event };
+  const result = await sendContractMessage(route.recipientPubkey, summary, payload, signer, route.senderPubkey);
+
+  logger.info(result.success ? 'Contract step sent' : 'Failed to send contract step', {
+    service: 'EscrowService',
+    method: 'sendContractStep',
+    action,
+    contractId: payload.contract,
+    milestoneId,
+    error: result.error,
+  });
+
+  return result;
+}
+
+function toClientStep(contract: Contract) {
+  return {
+    senderPubkey: contract.clientPubkey,
+    recipientPubkey: contract.freelancerPubkey,
+    workAddress: contract.workAddress,
+  };
+}
+
+function toFreelancerStep(contract: Contract) {
+  return {
+    senderPubkey: contract.freelancerPubkey,
+    recipientPubkey: contract.clientPubkey,
+    workAddress: contract.workAddress,
+  };
+}
+
+function requireMilestoneStatus(contract: Contract, milestone: ContractMilestone, status: MilestoneStatus): void {
+  if (contract.status !== 'active' || milestone.status !== status) {
+    throw contractError(`Milestone is ${MILESTONE_STATUS_LABELS[milestone.status].toLowerCase()}`, {
+      contractId: contract.id,
+      milestoneId: milestone.id,
+      contractStatus: contract.status,
+    });
+  }
+}
+
+/**
+ * Client -> freelancer: propose milestones for a hired proposal
+ */
+export async function proposeContract(
+  proposal: Proposal,
+  title: string,
+  drafts: MilestoneDraft[],
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  if (proposal.status !== 'hired') {
+    return { success: false, error: 'Only hired proposals can get a contract' };
+  }
+  const validationError = validateMilestones(title, drafts);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const provider = genericEscrowService.getProvider();
+  const terms: ContractTerms = {
+    title: title.trim(),
+    work: proposal.workAddress,
+    proposal: proposal.id,
+    provider: provider.id,
+    milestones: drafts.map((draft, index) => ({
+      id: `m${index + 1}`,
+      description: draft.description.trim(),
+      amount_sats: Number(draft.amountSats),
+      due: fromDateInputValue(draft.dueDate) as number,
+    })),
+  };
+  const totalSats = terms.milestones.reduce((sum, milestone) => sum + milestone.amount_sats, 0);
+
+  return sendContractStep(
+    'propose',
+    null,
+    { senderPubkey: proposal.posterPubkey, recipientPubkey: proposal.applicantPubkey, workAddress: proposal.workAddress },
+    terms,
+    [
+      `Contract proposed for "${proposal.workTitle || terms.title}": ${totalSats.toLocaleString()} sats in escrow`,
+      '',
+      ...terms.milestones.map(m => `- ${m.description}: ${m.amount_sats.toLocaleString()} sats, due ${formatDate(m.due)}`),
+    ].join('\n'),
+    signer
+  );
+}
+
+/**
+ * Freelancer -> client: accept the proposed milestones
+ */
+export async function acceptContract(contract: Contract, signer: NostrSigner): Promise<SendMessageResult> {
+  if (contract.status !== 'proposed') {
+    return { success: false, error: 'Contract was already accepted' };
+  }
+
+  return sendContractStep(
+    'accept',
+    contract.id,
+    toFreelancerStep(contract),
+    {},
+    `Contract "${contract.title}" accepted`,
+    signer
+  );
+}
+
+function isPendingFunding(value: unknown): value is PendingFunding {
+  const funding = value as PendingFunding;
+  return !!funding && typeof funding.contractId === 'string' && typeof funding.milestoneId === 'string' &&
+    typeof funding.encryptedPreimage === 'string' && typeof funding.holdInvoice?.paymentHash === 'string';
+}
+
+function toFundingList(value: unknown): PendingFunding[] {
+  return Array.isArray(value) ? value.filter(isPendingFunding) : [];
+}
+
+/**
+ * Drop a funding in progress from the client's settings (best effort: a leftover
+ * entry is ignored once its milestone is no longer pending)
+ */
+async function forgetMilestoneFunding(funding: PendingFunding, signer: NostrSigner, clientPubkey: string): Promise<void> {
+  const result = await updateSettingsSection(
+    FUNDINGS_SETTINGS_SECTION,
+    current => toFundingList(current).filter(f => f.holdInvoice.paymentHash !== funding.holdInvoice.paymentHash),
+    clientPubkey,
+    signer
+  );
+  if (!result.success) {
+    logger.warn('Failed to remove escrow funding from settings', {
+      service: 'EscrowService',
+      method: 'forgetMilestoneFunding',
+      contractId: funding.contractId,
+      milestoneId: funding.milestoneId,
+      error: result.error,
+    });
+  }
+}
+
+/**
+ * Client: fundings started on any device but not confirmed yet
+ */
+export async function loadPendingFundings(clientPubkey: string, signer: NostrSigner): Promise<PendingFunding[]> {
+  const { settings } = await fetchSettings(clientPubkey, signer);
+  return toFundingList(settings[FUNDINGS_SETTINGS_SECTION]);
+}
+
+/**
+ * Client: create the hold invoice for a milestone
+ * The preimage stays with the client until the milestone is released. It is saved
+ * (encrypted) to the client's settings before the invoice is returned, so paying and
+ * then reloading can't strand the sats in a hold invoice nobody can settle.
+ */
+export async function startMilestoneFunding(
+  contract: Contract,
+  milestone: ContractMilestone,
+  signer: NostrSigner
+): Promise<PendingFunding> {
+  requireMilestoneStatus(contract, milestone, 'pending');
+
+  const { preimage, paymentHash } = genericEscrowService.createPreimage();
+  const encryptedPreimage = await EncryptionService.encryptWithSigner(signer, contract.clientPubkey, preimage);
+  const holdInvoice = await genericEscrowService.createHoldInvoice(contract.providerId, {
+    amountSats: milestone.amountSats,
+    paymentHash,
+    description: `${contract.title} - ${milestone.description}`,
+    payeePubkey: contract.freelancerPubkey,
+  });
+  const funding: PendingFunding = { contractId: contract.id, milestoneId: milestone.id, encryptedPreimage, holdInvoice };
+
+  const saveResult = await updateSettingsSection(
+    FUNDINGS_SETTINGS_SECTION,
+    current => [...toFundingList(current), funding],
+    contract.clientPubkey,
+    signer
+  );
+  if (!saveResult.success) {
+    await genericEscrowService.getProvider(contract.providerId).cancelHoldInvoice(paymentHash);
+    throw new AppError(
+      saveResult.error || 'Failed to save the escrow funding',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.MEDIUM,
+      { contractId: contract.id, milestoneId: milestone.id }
+    );
+  }
+
+  return funding;
+}
+
+/**
+ * Pay a hold invoice with a test provider (no real sats move)
+ */
+export async function simulateEscrowPayment(contract: Contract, funding: PendingFunding): Promise<void> {
+  const provider = genericEscrowService.getProvider(contract.providerId);
+  if (!provider.simulatePayment) {
+    throw contractError(`${provider.name} does not support simulated payments`, { providerId: provider.id });
+  }
+  await provider.simulatePayment(funding.holdInvoice.paymentHash);
+}
+
+/**
+ * Client: drop a funding in progress and cancel its hold invoice
+ */
+export async function cancelMilestoneFunding(
+  contract: Contract,
+  funding: PendingFunding,
+  signer: NostrSigner
+): Promise<void> {
+  await genericEscrowService.getProvider(contract.providerId).cancelHoldInvoice(funding.holdInvoice.paymentHash);
+  await forgetMilestoneFunding(funding, signer, contract.clientPubkey);
+}
+
+/**
+ * Client -> freelancer: milestone paid into escrow
+ * Requires the hold invoice to be held by the provider.
+ */
+export async function confirmMilestoneFunding(
+  contract: Contract,
+  funding: PendingFunding,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  const milestone = contract.milestones.find(m => m.id === funding.milestoneId);
+  if (!milestone) {
+    return { success: false, error: 'Milestone not found' };
+  }
+  requireMilestoneStatus(contract, milestone, 'pending');
+
+  const state = await genericEscrowService
+    .getProvider(contract.providerId)
+    .getHoldInvoiceState(funding.holdInvoice.paymentHash);
+  if (state !== 'held') {
+    return { success: false, error: state === 'open' ? 'Payment not received yet' : `Hold invoice is ${state}` };
+  }
+
+  const details: MilestoneFunding = {
+    payment_hash: funding.holdInvoice.paymentHash,
+    invoice: funding.holdInvoice.invoice,
+    encrypted_preimage: funding.encryptedPreimage,
+  };
+
+  const result = await sendContractStep(
+    'fund',
+    contract.id,
+    toClientStep(contract),
+    details,
+    `Milestone "${milestone.description}" funded: ${milestone.amountSats.toLocaleString()} sats held in escrow`,
+    signer,
+    milestone.id
+  );
+
+  // The fund step now carries the encrypted preimage
+  if (result.success) {
+    await forgetMilestoneFunding(funding, signer, contract.clientPubkey);
+  }
+  return result;
+}
+
+/**
+ * Freelancer -> client: milestone delivered
+ */
+export async function markMilestoneDelivered(
+  contract: Contract,
+  milestone: ContractMilestone,
+  message: string,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  requireMilestoneStatus(contract, milestone, 'funded');
+
+  const details: MilestoneDelivery = { message: message.trim() || undefined };
+  return sendContractStep(
+    'deliver',
+    contract.id,
+    toFreelancerStep(contract),
+    details,
+    [`Milestone "${milestone.description}" delivered`, ...(details.message ? ['', details.message] : [])].join('\n'),
+    signer,
+    milestone.id
+  );
+}
+
+/**
+ * Client -> freelancer: settle the hold invoice and release the milestone
+ */
+export async function releaseMilestone(
+  contract: Contract,
+  milestone: ContractMilestone,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  requireMilestoneStatus(contract, milestone, 'delivered');
+
+  const preimage = await EncryptionService.decryptWithSigner(
+    signer,
+    contract.clientPubkey,
+    milestone.encryptedPreimage as string
+  );
+  if (!genericEscrowService.matchesPaymentHash(preimage, milestone.paymentHash as string)) {
+    throw contractError('Escrow preimage does not match the payment hash', {
+      contractId: contract.id,
+      milestoneId: milestone.id,
+    });
+  }
+
+  await genericEscrowService.getProvider(contract.providerId).settleHoldInvoice(preimage);
+
+  const details: MilestoneRelease = { preimage };
+  return sendContractStep(
+    'release',
+    contract.id,
+    toClientStep(contract),
+    details,
+    `Milestone "${milestone.description}" released: ${milestone.amountSats.toLocaleString()} sats paid`,
+    signer,
+    milestone.id
+  );
+}
+
+/**
+ * Client -> freelancer: cancel an overdue milestone, refunding its hold invoice if funded
+ */
+export async function cancelMilestone(
+  contract: Contract,
+  milestone: ContractMilestone,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  if (contract.status !== 'active' || !canCancelMilestone(milestone)) {
+    throw contractError('Only overdue milestones that were not delivered can be cancelled', {
+      contractId: contract.id,
+      milestoneId: milestone.id,
+      milestoneStatus: milestone.status,
+    });
+  }
+
+  if (milestone.status === 'funded') {
+    await genericEscrowService.getProvider(contract.providerId).cancelHoldInvoice(milestone.paymentHash as string);
+  }
+
+  return sendContractStep(
+    'cancel',
+    contract.id,
+    toClientStep(contract),
+    {},
+    `Milestone "${milestone.description}" cancelled` +
+      (milestone.status === 'funded' ? `: ${milestone.amountSats.toLocaleString()} sats refunded` : ''),
+    signer,
+    milestone.id
+  );
+}
+
+function parseDetails<T>(event: NostrEvent): T | null {
+  try {
+    const details = JSON.parse(event.content) as T;
+    return details && typeof details === 'object' ? details : null;
+  } catch {
+    return null;
+  }
+}
+
+function isValidTerms(terms: ContractTerms | null): terms is ContractTerms {
+  return !!terms &&
+    typeof terms.title === 'string' &&
+    typeof terms.work === 'string' &&
+    typeof terms.proposal === 'string' &&
+    typeof terms.provider === 'string' &&
+    Array.isArray(terms.milestones) &&
+    terms.milestones.length > 0 &&
+    terms.milestones.length <= MAX_CONTRACT_MILESTONES &&
+    terms.milestones.every(m =>
+      typeof m.id === 'string' &&
+      typeof m.description === 'string' &&
+      Number.isInteger(m.amount_sats) && m.amount_sats > 0 &&
+      typeof m.due === 'number'
+    );
+}
+
+function createContract(event: NostrEvent, terms: ContractTerms): Contract | null {
+  const [, clientPubkey, ...dTagParts] = terms.work.split(':');
+  const freelancerPubkey = event.tags.find(t => t[0] === 'p')?.[1];
+  if (clientPubkey !== event.pubkey || !freelancerPubkey || freelancerPubkey === clientPubkey) return null;
+
+  return {
+    id: event.id,
+    title: terms.title,
+    workAddress: terms.work,
+    workDTag: dTagParts.join(':'),
+    proposalId: terms.proposal,
+    clientPubkey,
+    freelancerPubkey,
+    providerId: terms.provider,
+    status: 'proposed',
+    milestones: terms.milestones.map(m => ({
+      id: m.id,
+      description: m.description,
+      amountSats: m.amount_sats,
+      dueAt: m.due,
+      status: 'pending',
+    })),
+    totalSats: terms.milestones.reduce((sum, m) => sum + m.amount_sats, 0),
+    createdAt: event.created_at,
+    updatedAt: event.created_at,
+    history: [{ eventId: event.id, action: 'propose', signerPubkey: event.pubkey, createdAt: event.created_at }],
+  };
+}
+
+/**
+ * Apply one signed step to a contract
+ *
+ * @returns Whether the step was valid for the contract's current state
+ */
+function applyContractStep(contract: Contract, event: NostrEvent, action: ContractAction): boolean {
+  const isClientStep = action === 'fund' || action === 'release' || action === 'cancel';
+  const expectedSigner = isClientStep ? contract.clientPubkey : contract.freelancerPubkey;
+  const expectedRecipient = isClientStep ? contract.freelancerPubkey : contract.clientPubkey;
+  if (event.pubkey !== expectedSigner || !event.tags.some(t => t[0] === 'p' && t[1] === expectedRecipient)) return false;
+
+  if (action === 'accept') {
+    if (contract.status !== 'proposed') return false;
+    contract.status = 'active';
+    return true;
+  }
+
+  const milestoneId = event.tags.find(t => t[0] === 'milestone')?.[1];
+  const milestone = contract.milestones.find(m => m.id === milestoneId);
+  if (contract.status !== 'active' || !milestone) return false;
+
+  if (action === 'fund') {
+    const details = parseDetails<MilestoneFunding>(event);
+    if (milestone.status !== 'pending' || !details?.payment_hash || !details.encrypted_preimage) return false;
+    Object.assign(milestone, {
+      status: 'funded',
+      paymentHash: details.payment_hash,
+      invoice: details.invoice,
+      encryptedPreimage: details.encrypted_preimage,
+      fundedAt: event.created_at,
+    });
+    return true;
+  }
+
+  if (action === 'deliver') {
+    if (milestone.status !== 'funded') return false;
+    const details = parseDetails<MilestoneDelivery>(event);
+    Object.assign(milestone, { status: 'delivered', deliveryMessage: details?.message, deliveredAt: event.created_at });
+    return true;
+  }
+
+  if (action === 'cancel') {
+    if (!canCancelMilestone(milestone, event.created_at)) return false;
+    Object.assign(milestone, { status: 'cancelled', cancelledAt: event.created_at });
+  } else {
+    // release: the preimage proves the hold invoice was settled
+    const details = parseDetails<MilestoneRelease>(event);
+    if (
+      milestone.status !== 'delivered' ||
+      !details?.preimage ||
+      !genericEscrowService.matchesPaymentHash(details.preimage, milestone.paymentHash as string)
+    ) {
+      return false;
+    }
+    Object.assign(milestone, { status: 'released', preimage: details.preimage, releasedAt: event.created_at });
+  }
+
+  if (contract.milestones.every(m => m.status === 'released' || m.status === 'cancelled')) {
+    contract.status = 'completed';
+  }
+  return true;
+}
+
+/**
+ * Rebuild contracts from contract messages
+ * Each embedded event must carry a valid signature; the propose event fixes client
+ * (the listing poster) and freelancer, later steps must reference it and follow
+ * propose -> accept -> fund -> deliver -> release for each milestone (or cancel once overdue).
+ *
+ * @param messages - Contract messages in any order (duplicates allowed)
+ * @returns Contracts, most recently updated first
+ */
+export function buildContracts(messages: Message[]): Contract[] {
+  const events = [...new Map(
+    messages
+      .map(message => (message.contract as ContractMessage | undefined)?.event)
+      .filter((event): event is NostrEvent => event?.kind === CONTRACT_EVENT_KIND)
+      .map(event => [event.id, event])
+  ).values()]
+    .filter(event => verifyEventSignature(event).valid)
+    .sort((a, b) => a.created_at - b.created_at);
+  const contracts = new Map<string, Contract>();
+
+  for (const event of events) {
+    const action = event.tags.find(t => t[0] === 'action')?.[1] as ContractAction | undefined;
+
+    if (action === 'propose') {
+      const terms = parseDetails<ContractTerms>(event);
+      const contract = isValidTerms(terms) ? createContract(event, terms) : null;
+      if (contract) contracts.set(contract.id, contract);
+      continue;
+    }
+
+    const contract = contracts.get(event.tags.find(t => t[0] === 'e')?.[1] ?? '');
+    if (!action || !contract || !event.tags.some(t => t[0] === 'a' && t[1] === contract.workAddress)) continue;
+
+    if (applyContractStep(contract, event, action)) {
+      const milestoneId = event.tags.find(t => t[0] === 'milestone')?.[1];
+      contract.history.push({
+        eventId: event.id,
+        action,
+        ...(milestoneId && action !== 'accept' && { milestoneId }),
+        signerPubkey: event.pubkey,
+        createdAt: event.created_at,
+      });
+      contract.updatedAt = event.created_at;
+    }
+  }
+
+  return [...contracts.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,88 @@
+import type { ExchangeRates } from '@/types/exchange-rate';
+import { formatProductPrice } from '@/types/shop';
+import { DISPLAY_CURRENCIES, SATS_PER_BTC } from '@/config/currency';
+import { genericExchangeRateService } from '@/services/generic/GenericExchangeRateService';
+
+/**
+ * ExchangeRateService
+ * Business logic layer for converting Shop and Work amounts between sats,
+ * BTC and fiat. All conversions go through sats; fiat needs a BTC rate.
+ * Layer: Business Service
+ * Dependencies: GenericExchangeRateService (rate provider)
+ */
+
+/**
+ * Canonical currency code: 'BTC', 'sats' or an uppercase fiat code
+ * Returns null for non-monetary units (e.g. the legacy Work 'per-hour' currency)
+ */
+export function normalizeCurrency(currency: string): string | null {
+  const lower = currency.trim().toLowerCase();
+  if (lower === 'btc') return 'BTC';
+  if (lower === 'sats' || lower === 'sat') return 'sats';
+  if (/^[a-z]{3}$/.test(lower)) return lower.toUpperCase();
+  return null;
+}
+
+/**
+ * Amount in sats, or null when the currency has no known rate
+ */
+export function toSats(amount: number, currency: string, rates: ExchangeRates | null): number | null {
+  const code = normalizeCurrency(currency);
+  if (!code) return null;
+  if (code === 'sats') return amount;
+  if (code === 'BTC') return amount * SATS_PER_BTC;
+
+  const rate = rates?.rates[code];
+  return rate ? (amount / rate) * SATS_PER_BTC : null;
+}
+
+/**
+ * Convert an amount between currencies, or null when either side has no known rate
+ * (amounts already in the target currency need no rate)
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates | null
+): number | null {
+  const code = normalizeCurrency(to);
+  if (code && normalizeCurrency(from) === code) return amount;
+
+  const sats = toSats(amount, from, rates);
+  if (sats === null || !code) return null;
+  if (code === 'sats') return sats;
+  if (code === 'BTC') return sats / SATS_PER_BTC;
+
+  const rate = rates?.rates[code];
+  return rate ? (sats / SATS_PER_BTC) * rate : null;
+}
+
+/**
+ * Currency to show next to a native amount: the user's display currency,
+ * or sats when the amount is already in that currency
+ */
+export function getSecondaryCurrency(nativeCurrency: string, displayCurrency: string): string {
+  return normalizeCurrency(nativeCurrency) === displayCurrency ? 'sats' : displayCurrency;
+}
+
+/**
+ * "≈ €12.30" label for an amount in the secondary currency, or null if it can't be converted
+ */
+export function formatConvertedAmount(
+  amount: number,
+  nativeCurrency: string,
+  displayCurrency: string,
+  rates: ExchangeRates | null
+): string | null {
+  const target = getSecondaryCurrency(nativeCurrency, displayCurrency);
+  const converted = convertAmount(amount, nativeCurrency, target, rates);
+  return converted === null ? null : `≈ ${formatProductPrice(converted, target)}`;
+}
+
+/**
+ * Load BTC rates for every display currency
+ */
+export function loadExchangeRates(): Promise<ExchangeRates> {
+  return genericExchangeRateService.getRates(DISPLAY_CURRENCIES.map(currency => currency.id));
+}
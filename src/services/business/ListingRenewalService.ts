@@ -0,0 +1,105 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import { getStoredEvents, queryEvents, publishEvent } from '@/services/generic/GenericRelayService';
+import { createRenewedEvent, getEventExpiration, signEvent } from '@/services/generic/GenericEventService';
+import { logger } from '@/services/core/LoggingService';
+import { getRenewedExpiration } from '@/config/listings';
+
+/**
+ * ListingRenewalService
+ * Business logic layer for renewing (bumping) Shop and Work listings.
+ * A listing is renewed by republishing its latest version with a fresh created_at
+ * and a new NIP-40 expiration, so it moves back to the top of the feeds.
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay)
+ */
+
+export interface ListingRenewalResult {
+  success: boolean;
+  event?: NostrEvent; // Renewed version of the main (first kind) event
+  error?: string;
+}
+
+/**
+ * Renew a listing and any mirrors published under the same d tag
+ * The first kind is the listing itself and must succeed; other kinds
+ * (marketplace mirrors) are renewed best effort with the same expiration.
+ * Relays are asked for the newest version; relays honouring NIP-40 drop expired
+ * listings, so the copies this device already holds (shown in the dashboard) count too.
+ *
+ * @param dTag - Listing d tag
+ * @param kinds - Event kinds to renew, main kind first
+ * @param signer - Signer of the listing author
+ */
+export async function renewListing(
+  dTag: string,
+  kinds: number[],
+  signer: NostrSigner
+): Promise<ListingRenewalResult> {
+  try {
+    const pubkey = await signer.getPublicKey();
+    const filters = [{ kinds, authors: [pubkey], '#d': [dTag] }];
+    const [queryResult, storedEvents] = await Promise.all([
+      queryEvents(filters, undefined, { bypassCache: true }),
+      getStoredEvents(filters),
+    ]);
+    if (!queryResult.success && storedEvents.length === 0) {
+      return { success: false, error: queryResult.error || 'Failed to load the listing' };
+    }
+
+    // Newest version of each kind
+    const latest = new Map<number, NostrEvent>();
+    const candidates = [...queryResult.events, ...storedEvents].filter(event => event.pubkey === pubkey);
+    for (const event of candidates.sort((a, b) => a.created_at - b.created_at)) {
+      latest.set(event.kind, event);
+    }
+
+    const listing = latest.get(kinds[0]);
+    if (!listing) {
+      return { success: false, error: 'Listing not found' };
+    }
+
+    const expiresAt = getRenewedExpiration(listing.created_at, getEventExpiration(listing.tags));
+    let renewed: NostrEvent | undefined;
+    const failedKinds: number[] = [];
+
+    for (const kind of kinds) {
+      const event = latest.get(kind);
+      if (!event) continue;
+
+      const signResult = await signEvent(createRenewedEvent(event, expiresAt), signer);
+      const publishResult = signResult.success && signResult.signedEvent
+        ? await publishEvent(signResult.signedEvent, signer)
+        : { success: false, error: signResult.error || 'Failed to sign event' };
+
+      if (!publishResult.success) {
+        if (kind === kinds[0]) {
+          return { success: false, error: publishResult.error || 'No relay accepted the renewed listing' };
+        }
+        failedKinds.push(kind);
+        continue;
+      }
+
+      if (kind === kinds[0]) {
+        renewed = signResult.signedEvent;
+      }
+    }
+
+    logger.info('Listing renewed', {
+      service: 'ListingRenewalService',
+      method: 'renewListing',
+      dTag,
+      expiresAt,
+      renewedKinds: Array.from(latest.keys()).filter(kind => !failedKinds.includes(kind)),
+      failedKinds,
+    });
+
+    return { success: true, event: renewed };
+  } catch (error) {
+    logger.error('Failed to renew listing', error instanceof Error ? error : new Error(String(error)), {
+      service: 'ListingRenewalService',
+      method: 'renewListing',
+      dTag,
+    });
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
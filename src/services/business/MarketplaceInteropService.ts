@@ -0,0 +1,503 @@
+import { logger } from '@/services/core/LoggingService';
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import type {
+  MarketplaceListingData,
+  Nip15ProductContent,
+  Nip15ShippingZone,
+  Nip15StallContent,
+  ProductData,
+  ProductEvent,
+  ShippingZone,
+} from '@/types/shop';
+import { PRODUCT_SYSTEM_TAG, getProductAvailability, getProductStock } from '@/types/shop';
+import { PRODUCT_CATEGORIES, WORLDWIDE_DESTINATION } from '@/config/shop';
+import { COUNTRIES, REGIONS, getCountryById } from '@/config/contributions';
+import { queryEvents, publishEvent } from '@/services/generic/GenericRelayService';
+import {
+  createClassifiedListingEvent,
+  createStallEvent,
+  createStallProductEvent,
+  getEventExpiration,
+  signEvent,
+} from '@/services/generic/GenericEventService';
+import { extractMedia } from '@/services/generic/GenericShopService';
+import { isExpired } from '@/utils/dateUtils';
+
+/**
+ * MarketplaceInteropService
+ * Business logic layer for sharing Shop listings with other Nostr marketplace clients
+ * (Plebeian Market, Shopstr, ...). Every product is mirrored as a NIP-99 classified
+ * listing (Kind 30402) and a NIP-15 stall product (Kind 30018, stall Kind 30017) under
+ * the same d tag, and listings published by those clients are mapped to ProductEvent.
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay)
+ */
+
+// Mirrors carry the native system tag so we can tell them apart from foreign listings
+const isSystemTag = (tag: string[]) => tag[0] === 't' && tag[1] === PRODUCT_SYSTEM_TAG;
+
+// A stall is shared by every product in its currency, so it always lists the same zones
+// (worldwide and one per region) and each product sets its own cost per zone
+const STALL_SHIPPING_ZONES: Nip15ShippingZone[] = [
+  { id: WORLDWIDE_DESTINATION, name: 'Worldwide', cost: 0, regions: ['Worldwide'] },
+  ...REGIONS.map(region => ({ id: region.id, name: region.name, cost: 0, regions: [region.name] })),
+];
+
+/**
+ * NIP-33 addresses of a product's marketplace mirrors (used to delete them with the product)
+ */
+export function getMarketplaceAddresses(pubkey: string, dTag: string): string[] {
+  return [`30402:${pubkey}:${dTag}`, `30018:${pubkey}:${dTag}`];
+}
+
+/**
+ * Listing data for the mirrors of a native product
+ */
+export function createMarketplaceListing(
+  productData: ProductData,
+  dTag: string,
+  publishedAt: number
+): MarketplaceListingData {
+  return {
+    dTag,
+    title: productData.title,
+    description: productData.description,
+    price: productData.price,
+    currency: productData.currency,
+    category: productData.category,
+    condition: productData.condition,
+    location: productData.location,
+    availability: getProductAvailability(productData),
+    quantity: getProductStock(productData),
+    deliveryMethods: productData.deliveryMethods,
+    shippingZones: productData.deliveryMethods.includes('shipping') ? productData.shippingZones : [],
+    tags: productData.tags.filter(tag => tag !== PRODUCT_SYSTEM_TAG),
+    imageUrls: productData.attachments
+      .filter(attachment => attachment.type === 'image' && attachment.url)
+      .map(attachment => attachment.url!),
+    publishedAt,
+    expiresAt: productData.expiresAt,
+  };
+}
+
+function toNip99Currency(currency: string): string {
+  return currency === 'sats' ? 'SATS' : currency.toUpperCase();
+}
+
+function toNip15Currency(currency: string): string {
+  return currency === 'sats' ? 'sat' : currency.toUpperCase();
+}
+
+/**
+ * Map a marketplace currency code back to the Shop's codes (sats / BTC / ISO 4217)
+ */
+function fromMarketplaceCurrency(code: string | undefined): string {
+  const normalized = (code || '').trim().toUpperCase();
+  if (['SAT', 'SATS', 'SATOSHI', 'SATOSHIS'].includes(normalized)) return 'sats';
+  return normalized || 'USD';
+}
+
+function getStallId(currency: string): string {
+  return `${PRODUCT_SYSTEM_TAG}-${currency.toLowerCase()}`;
+}
+
+/**
+ * NIP-15 shipping costs of a listing (stall zone id -> cost)
+ * Country zones are offered at region level - the seller confirms the final cost with the payment request.
+ * Listings without shipping zones (pickup, digital, unspecified) keep a free worldwide zone so they stay orderable.
+ */
+function toNip15Shipping(listing: MarketplaceListingData): Array<{ id: string; cost: number }> {
+  const costs = new Map<string, number>();
+  for (const zone of listing.shippingZones) {
+    const zoneId = getCountryById(zone.destination)?.region || zone.destination;
+    if (!costs.has(zoneId)) {
+      costs.set(zoneId, zone.cost);
+    }
+  }
+
+  return costs.size > 0
+    ? Array.from(costs, ([id, cost]) => ({ id, cost }))
+    : [{ id: WORLDWIDE_DESTINATION, cost: 0 }];
+}
+
+/**
+ * Shipping zone destination for a NIP-15 region name ('Worldwide', a region or a country)
+ */
+function toShippingDestination(name: string): string | undefined {
+  const normalized = name.trim().toLowerCase();
+  if (normalized === WORLDWIDE_DESTINATION) return WORLDWIDE_DESTINATION;
+  return [...REGIONS, ...COUNTRIES].find(place => place.id === normalized || place.name.toLowerCase() === normalized)?.id;
+}
+
+/**
+ * Shipping zones of a NIP-15 product: stall zone cost plus the product's extra cost
+ * Products without their own shipping list ship to every stall zone. Regions we can't map are skipped.
+ */
+function parseStallShipping(content: Nip15ProductContent, stall: Nip15StallContent | undefined): ShippingZone[] {
+  const stallZones = stall?.shipping || [];
+  const offered = Array.isArray(content.shipping)
+    ? content.shipping.flatMap(entry => {
+      const zone = stallZones.find(z => z.id === entry.id);
+      return zone ? [{ zone, cost: zone.cost + (Number(entry.cost) || 0) }] : [];
+    })
+    : stallZones.map(zone => ({ zone, cost: zone.cost }));
+
+  return offered.flatMap(({ zone, cost }) =>
+    (zone.regions || []).flatMap(region => {
+      const destination = toShippingDestination(region);
+      return destination
+        ? [{ id: `${zone.id}-${destination}`, destination, cost: Math.max(0, cost), minDays: null, maxDays: null }]
+        : [];
+    })
+  );
+}
+
+/**
+ * Publish the NIP-99 and NIP-15 versions of a product
+ * Failures are logged and reported, never thrown - the native listing is already published
+ */
+export async function publishMarketplaceListing(
+  listing: MarketplaceListingData,
+  signer: NostrSigner
+): Promise<{ publishedKinds: number[]; failedKinds: number[] }> {
+  const publishedKinds: number[] = [];
+  const failedKinds: number[] = [];
+
+  const pubkey = await signer.getPublicKey();
+  const stall: Nip15StallContent = {
+    id: getStallId(listing.currency),
+    name: `Nostr for Nomads Shop (${toNip15Currency(listing.currency)})`,
+    description: 'Listings from the Nostr for Nomads marketplace',
+    currency: toNip15Currency(listing.currency),
+    shipping: STALL_SHIPPING_ZONES,
+  };
+  const stallProduct: Nip15ProductContent = {
+    id: listing.dTag,
+    stall_id: stall.id,
+    name: listing.title,
+    description: listing.description,
+    images: listing.imageUrls,
+    currency: stall.currency,
+    price: listing.price,
+    // NIP-15 has no reserved state - anything not available cannot be ordered
+    quantity: listing.availability === 'available' ? listing.quantity : 0,
+    specs: [
+      ['condition', listing.condition],
+      ...(listing.location ? [['location', listing.location] as [string, string]] : []),
+    ],
+    shipping: toNip15Shipping(listing),
+  };
+
+  const events = [
+    createClassifiedListingEvent({ ...listing, currency: toNip99Currency(listing.currency) }, pubkey, PRODUCT_SYSTEM_TAG),
+    createStallEvent(stall, pubkey),
+    createStallProductEvent(stallProduct, [listing.category, ...listing.tags, PRODUCT_SYSTEM_TAG], pubkey, listing.expiresAt),
+  ];
+
+  for (const unsignedEvent of events) {
+    try {
+      const signResult = await signEvent(unsignedEvent, signer);
+      if (!signResult.success || !signResult.signedEvent) {
+        throw new Error(signResult.error || 'Failed to sign event');
+      }
+
+      const publishResult = await publishEvent(signResult.signedEvent, signer);
+      if (!publishResult.success) {
+        throw new Error(publishResult.error || 'No relay accepted the event');
+      }
+      publishedKinds.push(unsignedEvent.kind);
+    } catch (error) {
+      failedKinds.push(unsignedEvent.kind);
+      logger.warn('Failed to publish marketplace mirror', {
+        service: 'MarketplaceInteropService',
+        method: 'publishMarketplaceListing',
+        kind: unsignedEvent.kind,
+        dTag: listing.dTag,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.info('Marketplace mirrors published', {
+    service: 'MarketplaceInteropService',
+    method: 'publishMarketplaceListing',
+    dTag: listing.dTag,
+    publishedKinds,
+    failedKinds,
+  });
+
+  return { publishedKinds, failedKinds };
+}
+
+/**
+ * Split marketplace 't' tags into one of our categories and free-form tags
+ */
+function mapMarketplaceTags(tags: string[]): { category: string; tags: string[] } {
+  const categoryIds = PRODUCT_CATEGORIES.map(category => category.id);
+  const category = tags.find(tag => categoryIds.includes(tag.toLowerCase()))?.toLowerCase() || 'other';
+  return {
+    category,
+    tags: tags.filter(tag => tag.toLowerCase() !== category && tag !== PRODUCT_SYSTEM_TAG),
+  };
+}
+
+function mapCondition(condition: string | undefined): string {
+  const normalized = (condition || '').toLowerCase();
+  if (normalized.includes('refurb')) return 'refurbished';
+  if (normalized.includes('used') || normalized.includes('pre-owned')) return 'used';
+  return 'new';
+}
+
+/**
+ * Parse a NIP-99 classified listing (Kind 30402) - sold listings show as sold out
+ */
+function parseClassifiedListing(event: NostrEvent): ProductEvent | null {
+  const tag = (name: string) => event.tags.find(t => t[0] === name);
+  const dTag = tag('d')?.[1];
+  const title = tag('title')?.[1];
+  if (!dTag || !title) return null;
+
+  const priceTag = tag('price');
+  const { category, tags } = mapMarketplaceTags(event.tags.filter(t => t[0] === 't').map(t => t[1]));
+  const publishedAt = parseInt(tag('published_at')?.[1] || '', 10);
+
+  return {
+    id: event.id,
+    kind: 30402,
+    dTag,
+    pubkey: event.pubkey,
+    title,
+    summary: tag('summary')?.[1] || event.content.substring(0, 200),
+    description: event.content,
+    price: parseFloat(priceTag?.[1] || '0') || 0,
+    currency: fromMarketplaceCurrency(priceTag?.[2]),
+    category,
+    condition: mapCondition(tag('condition')?.[1]),
+    location: tag('location')?.[1] || '',
+    contact: '',
+    availability: tag('status')?.[1] === 'sold' ? 'sold-out' : 'available',
+    quantity: null,
+    variants: [],
+    deliveryMethods: [],
+    shippingZones: [],
+    deliverable: null,
+    tags,
+    media: extractMedia(event.tags),
+    createdAt: event.created_at,
+    publishedAt: Number.isFinite(publishedAt) ? publishedAt : event.created_at,
+    expiresAt: getEventExpiration(event.tags),
+  };
+}
+
+function parseJson<T>(content: string): T | null {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a NIP-15 stall product (Kind 30018), using its stall for currency and shipping regions
+ */
+function parseStallProduct(event: NostrEvent, stall: Nip15StallContent | undefined): ProductEvent | null {
+  const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+  const content = parseJson<Nip15ProductContent>(event.content);
+  if (!dTag || !content?.name || typeof content.price !== 'number') return null;
+
+  const spec = (name: string) => content.specs?.find(s => s[0]?.toLowerCase() === name)?.[1];
+  const { category, tags } = mapMarketplaceTags(event.tags.filter(t => t[0] === 't').map(t => t[1]));
+  const regions = stall?.shipping.flatMap(zone => zone.regions || []) || [];
+  const shippingZones = parseStallShipping(content, stall);
+  const description = content.description || '';
+
+  return {
+    id: event.id,
+    kind: 30018,
+    dTag,
+    pubkey: event.pubkey,
+    title: content.name,
+    summary: description.substring(0, 200),
+    description,
+    price: content.price,
+    currency: fromMarketplaceCurrency(content.currency || stall?.currency),
+    category,
+    condition: mapCondition(spec('condition')),
+    location: spec('location') || regions.join(', '),
+    contact: '',
+    availability: 'available',
+    quantity: typeof content.quantity === 'number' && content.quantity >= 0 ? content.quantity : null,
+    variants: [],
+    deliveryMethods: shippingZones.length > 0 ? ['shipping'] : [],
+    shippingZones,
+    deliverable: null,
+    tags,
+    media: {
+      images: (content.images || []).filter(url => typeof url === 'string').map(url => ({ url })),
+      audio: [],
+      videos: [],
+    },
+    createdAt: event.created_at,
+    publishedAt: event.created_at,
+    expiresAt: getEventExpiration(event.tags),
+  };
+}
+
+/**
+ * Fetch the stalls referenced by NIP-15 products, keyed by "<pubkey>:<stall id>"
+ */
+async function fetchStalls(products: NostrEvent[]): Promise<Map<string, Nip15StallContent>> {
+  const stallIdsBySeller = new Map<string, Set<string>>();
+  for (const event of products) {
+    const stallId = parseJson<Nip15ProductContent>(event.content)?.stall_id;
+    if (!stallId) continue;
+    stallIdsBySeller.set(event.pubkey, (stallIdsBySeller.get(event.pubkey) || new Set()).add(stallId));
+  }
+
+  const stalls = new Map<string, Nip15StallContent>();
+  if (stallIdsBySeller.size === 0) return stalls;
+
+  const queryResult = await queryEvents(
+    Array.from(stallIdsBySeller.entries()).map(([pubkey, ids]) => ({
+      kinds: [30017],
+      authors: [pubkey],
+      '#d': Array.from(ids),
+    }))
+  );
+  if (!queryResult.success) return stalls;
+
+  // Oldest first so the newest version of each stall wins
+  for (const event of [...queryResult.events].sort((a, b) => a.created_at - b.created_at)) {
+    const stall = parseJson<Nip15StallContent>(event.content);
+    if (stall?.id && Array.isArray(stall.shipping)) {
+      stalls.set(`${event.pubkey}:${stall.id}`, stall);
+    }
+  }
+
+  return stalls;
+}
+
+/**
+ * Parse NIP-99 / NIP-15 events into products, keeping the newest version of each address
+ */
+export async function parseMarketplaceEvents(events: NostrEvent[]): Promise<ProductEvent[]> {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    if (event.kind !== 30402 && event.kind !== 30018) continue;
+    const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+    if (!dTag) continue;
+
+    const address = `${event.kind}:${event.pubkey}:${dTag}`;
+    const existing = latest.get(address);
+    if (!existing || event.created_at > existing.created_at) {
+      latest.set(address, event);
+    }
+  }
+
+  const stallProducts = Array.from(latest.values()).filter(event => event.kind === 30018);
+  const stalls = await fetchStalls(stallProducts);
+
+  const products: ProductEvent[] = [];
+  for (const event of latest.values()) {
+    const parsed = event.kind === 30402
+      ? parseClassifiedListing(event)
+      : parseStallProduct(
+          event,
+          stalls.get(`${event.pubkey}:${parseJson<Nip15ProductContent>(event.content)?.stall_id}`)
+        );
+    if (parsed) products.push(parsed);
+  }
+
+  return products;
+}
+
+/**
+ * Fetch listings published by other marketplace clients (our own mirrors are skipped)
+ *
+ * @param limit - Maximum number of listings per kind
+ * @param until - Optional timestamp for pagination
+ */
+export async function fetchMarketplaceProducts(limit: number, until?: number): Promise<ProductEvent[]> {
+  try {
+    const queryResult = await queryEvents([
+      { kinds: [30402], limit, ...(until && { until }) },
+      { kinds: [30018], limit, ...(until && { until }) },
+    ]);
+
+    if (!queryResult.success) return [];
+
+    const foreign = queryResult.events.filter(event => !event.tags.some(isSystemTag));
+    // NIP-40: newest version decides whether a listing has expired
+    const products = (await parseMarketplaceEvents(foreign)).filter(product => !isExpired(product.expiresAt));
+
+    logger.info('Marketplace listings fetched', {
+      service: 'MarketplaceInteropService',
+      method: 'fetchMarketplaceProducts',
+      eventCount: queryResult.events.length,
+      productCount: products.length,
+    });
+
+    return products;
+  } catch (error) {
+    logger.error('Failed to fetch marketplace listings', error as Error, {
+      service: 'MarketplaceInteropService',
+      method: 'fetchMarketplaceProducts',
+    });
+    return [];
+  }
+}
+
+/**
+ * Fetch one seller's listings published by other marketplace clients (our own mirrors are skipped)
+ *
+ * @param pubkey - Seller's public key
+ */
+export async function fetchMarketplaceProductsBySeller(pubkey: string): Promise<ProductEvent[]> {
+  try {
+    const queryResult = await queryEvents([{ kinds: [30402, 30018], authors: [pubkey] }]);
+    if (!queryResult.success) return [];
+
+    const foreign = queryResult.events.filter(event => event.pubkey === pubkey && !event.tags.some(isSystemTag));
+    const products = (await parseMarketplaceEvents(foreign)).filter(product => !isExpired(product.expiresAt));
+
+    logger.info('Seller marketplace listings fetched', {
+      service: 'MarketplaceInteropService',
+      method: 'fetchMarketplaceProductsBySeller',
+      eventCount: queryResult.events.length,
+      productCount: products.length,
+    });
+
+    return products;
+  } catch (error) {
+    logger.error('Failed to fetch seller marketplace listings', error as Error, {
+      service: 'MarketplaceInteropService',
+      method: 'fetchMarketplaceProductsBySeller',
+    });
+    return [];
+  }
+}
+
+/**
+ * Fetch a single NIP-99 / NIP-15 listing by its kind:pubkey:d address (see getProductPath)
+ */
+export async function fetchMarketplaceProductById(address: string): Promise<ProductEvent | null> {
+  // d tags are only unique per author - never resolve another seller's listing by d tag alone
+  const [kind, pubkey, ...dTagParts] = address.split(':');
+  const dTag = dTagParts.join(':');
+  if ((kind !== '30402' && kind !== '30018') || !/^[0-9a-f]{64}$/.test(pubkey ?? '') || !dTag) return null;
+
+  try {
+    const queryResult = await queryEvents([{ kinds: [Number(kind)], authors: [pubkey], '#d': [dTag] }]);
+    if (!queryResult.success) return null;
+
+    const products = await parseMarketplaceEvents(queryResult.events.filter(event => event.pubkey === pubkey));
+    return products.sort((a, b) => b.createdAt - a.createdAt)[0] || null;
+  } catch (error) {
+    logger.error('Failed to fetch marketplace listing', error as Error, {
+      service: 'MarketplaceInteropService',
+      method: 'fetchMarketplaceProductById',
+      address,
+    });
+    return null;
+  }
+}
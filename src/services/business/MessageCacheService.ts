@@ -43,9 +43,20 @@ interface MessageCacheDB extends DBSchema {
       value: string | number | boolean;
     };
   };
+  giftWraps: {
+    key: string; // Kind 1059 event id
+    value: {
+      id: string;
+      createdAt: number; // Gift wrap created_at (randomized, not the message time)
+      seenAt: number;
+    };
+    indexes: {
+      'by-created-at': number;
+    };
+  };
 }
 
-const DB_VERSION = 1;
+const DB_VERSION = 3; // v2: giftWraps store for NIP-77 sync, v3: re-decrypt messages cached before seal authors were checked
 const CACHE_TTL_DAYS = 30; // Auto-delete cached data older than 30 days
 
 export class MessageCacheService {
@@ -104,7 +115,17 @@ export class MessageCacheService {
 
       // Open/create database
       this.db = await openDB<MessageCacheDB>(userDbName, DB_VERSION, {
-        upgrade(db) {
+        upgrade(db, oldVersion, _newVersion, transaction) {
+          // v3: messages cached before the seal/rumor author check may be forged - drop
+          // everything so it is fetched and decrypted again
+          if (oldVersion > 0 && oldVersion < 3) {
+            for (const name of ['messages', 'conversations', 'metadata', 'giftWraps'] as const) {
+              if (db.objectStoreNames.contains(name)) {
+                void transaction.objectStore(name).clear();
+              }
+            }
+          }
+
           // Messages store
           if (!db.objectStoreNames.contains('messages')) {
             const messageStore = db.createObjectStore('messages', { keyPath: 'id' });
@@ -124,6 +145,12 @@ export class MessageCacheService {
           if (!db.objectStoreNames.contains('metadata')) {
             db.createObjectStore('metadata', { keyPath: 'key' });
           }
+
+          // Gift wrap ids we've already fetched (negentropy reconciliation set)
+          if (!db.objectStoreNames.contains('giftWraps')) {
+            const giftWrapStore = db.createObjectStore('giftWraps', { keyPath: 'id' });
+            giftWrapStore.createIndex('by-created-at', 'createdAt');
+          }
         }
       });
 
@@ -545,6 +572,52 @@ export class MessageCacheService {
     }
   }
 
+  /**
+   * Record gift wraps we've fetched, whether or not they decrypted,
+   * so sync never asks relays for them again
+   */
+  async recordGiftWraps(giftWraps: Array<{ id: string; created_at: number }>): Promise<void> {
+    if (!this.db || giftWraps.length === 0) {
+      return;
+    }
+
+    try {
+      const tx = this.db.transaction('giftWraps', 'readwrite');
+      const store = tx.objectStore('giftWraps');
+      const seenAt = Date.now();
+      giftWraps.forEach(giftWrap => {
+        store.put({ id: giftWrap.id, createdAt: giftWrap.created_at, seenAt });
+      });
+      await tx.done;
+    } catch (error) {
+      console.error('❌ Failed to record gift wraps:', error);
+    }
+  }
+
+  /**
+   * Oldest gift wrap created_at kept in the index (seconds) - the window sync reconciles over
+   */
+  getGiftWrapWindowStart(): number {
+    return Math.floor(Date.now() / 1000) - CACHE_TTL_DAYS * 24 * 60 * 60;
+  }
+
+  /**
+   * Gift wraps we already have with created_at >= since (local side of a negentropy sync)
+   */
+  async getGiftWrapItems(since: number): Promise<Array<{ id: string; createdAt: number }>> {
+    if (!this.db) {
+      return [];
+    }
+
+    try {
+      const records = await this.db.getAllFromIndex('giftWraps', 'by-created-at', IDBKeyRange.lowerBound(since));
+      return records.map(record => ({ id: record.id, createdAt: record.createdAt }));
+    } catch (error) {
+      console.error('❌ Failed to read gift wrap index:', error);
+      return [];
+    }
+  }
+
   /**
    * Clear all cached data (on logout)
    */
@@ -558,10 +631,11 @@ export class MessageCacheService {
 
     if (this.db) {
       try {
-        const tx = this.db.transaction(['messages', 'conversations', 'metadata'], 'readwrite');
+        const tx = this.db.transaction(['messages', 'conversations', 'metadata', 'giftWraps'], 'readwrite');
         await tx.objectStore('messages').clear();
         await tx.objectStore('conversations').clear();
         await tx.objectStore('metadata').clear();
+        await tx.objectStore('giftWraps').clear();
         await tx.done;
 
         // Close database
@@ -679,8 +753,20 @@ export class MessageCacheService {
         convoCursor = await convoCursor.continue();
       }
 
-      if (deletedMessages > 0 || deletedConvos > 0) {
-        console.log(`🧹 Cleaned up ${deletedMessages} old messages, ${deletedConvos} old conversations`);
+      // Cleanup gift wrap ids outside the sync window (keyed by wrap created_at, in seconds)
+      const wrapTx = this.db.transaction('giftWraps', 'readwrite');
+      const wrapIndex = wrapTx.objectStore('giftWraps').index('by-created-at');
+      let wrapCursor = await wrapIndex.openCursor(IDBKeyRange.upperBound(Math.floor(cutoffTime / 1000)));
+      let deletedWraps = 0;
+
+      while (wrapCursor) {
+        await wrapCursor.delete();
+        deletedWraps++;
+        wrapCursor = await wrapCursor.continue();
+      }
+
+      if (deletedMessages > 0 || deletedConvos > 0 || deletedWraps > 0) {
+        console.log(`🧹 Cleaned up ${deletedMessages} old messages, ${deletedConvos} old conversations, ${deletedWraps} old gift wrap ids`);
       }
     } catch (error) {
       console.error('❌ Failed to cleanup old cache:', error);
@@ -3,9 +3,13 @@ import { logger } from '../core/LoggingService';
 import { NostrSigner, NostrEvent } from '../../types/nostr';
 import { Conversation, Message, ConversationContext, SendMessageResult } from '../../types/messaging';
 import { GenericAttachment } from '../../types/attachments';
+import type { OrderMessage } from '../../types/order';
+import type { ProposalMessage } from '../../types/proposal';
+import type { ContractMessage } from '../../types/escrow';
 import { nostrEventService } from '../nostr/NostrEventService';
-import { queryEvents, publishEvent, subscribeToEvents } from '../generic/GenericRelayService';
+import { queryEvents, publishEvent, subscribeToEvents, reconcileEvents } from '../generic/GenericRelayService';
 import { EncryptionService } from '../generic/EncryptionService';
+import { verifyEventSignature } from '../generic/GenericEventService';
 import { AppError } from '../../errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
 import { profileService } from './ProfileBusinessService';
@@ -24,6 +28,7 @@ export class MessagingBusinessService {
   private readonly MAX_SYNC_INTERVAL = 600000; // 10 minutes maximum
   private readonly BACKOFF_MULTIPLIER = 1.5; // Exponential backoff
   private consecutiveEmptySyncs = 0;
+  private readonly MAX_SYNC_EVENTS = 200; // Missing gift wraps fetched per sync (rest on the next one)
 
   private constructor() {
     this.cache = MessageCacheService.getInstance();
@@ -322,6 +327,170 @@ export class MessagingBusinessService {
     }
   }
 
+  /**
+   * Send a structured order message (NIP-15 checkout payload) as a gift-wrapped DM
+   * The readable summary comes first so other NIP-17 clients still show something useful;
+   * the payload follows in an [Order] block that is parsed back into Message.order.
+   *
+   * @param recipientPubkey - Buyer or seller on the other side of the order
+   * @param summary - Human-readable text shown in the conversation
+   * @param order - Order payload
+   * @param signer - NIP-07 signer
+   * @param senderPubkey - Authenticated user's pubkey
+   * @param context - Optional product context for the conversation
+   */
+  public async sendOrderMessage(
+    recipientPubkey: string,
+    summary: string,
+    order: OrderMessage,
+    signer: NostrSigner,
+    senderPubkey: string,
+    context?: ConversationContext
+  ): Promise<SendMessageResult> {
+    const content = `${summary}\n\n[Order]\n${JSON.stringify(order)}`;
+    const result = await this.sendMessage(recipientPubkey, content, signer, undefined, context, undefined, senderPubkey);
+
+    if (result.success && result.message) {
+      result.message = { ...result.message, content: summary, order };
+    }
+    return result;
+  }
+
+  /**
+   * Send a structured job proposal message (Work application or poster decision)
+   * Same layout as order messages, with the payload in a [Proposal] block
+   * that is parsed back into Message.proposal.
+   *
+   * @param recipientPubkey - Poster or applicant on the other side of the proposal
+   * @param summary - Human-readable text shown in the conversation
+   * @param proposal - Proposal payload
+   * @param signer - NIP-07 signer
+   * @param senderPubkey - Authenticated user's pubkey
+   */
+  public async sendProposalMessage(
+    recipientPubkey: string,
+    summary: string,
+    proposal: ProposalMessage,
+    signer: NostrSigner,
+    senderPubkey: string
+  ): Promise<SendMessageResult> {
+    const content = `${summary}\n\n[Proposal]\n${JSON.stringify(proposal)}`;
+    const result = await this.sendMessage(recipientPubkey, content, signer, undefined, undefined, undefined, senderPubkey);
+
+    if (result.success && result.message) {
+      result.message = { ...result.message, content: summary, proposal };
+    }
+    return result;
+  }
+
+  /**
+   * Send a signed Work contract step (escrow milestones) as a gift-wrapped DM
+   * Same layout as order messages, with the payload in a [Contract] block
+   * that is parsed back into Message.contract.
+   *
+   * @param recipientPubkey - Client or freelancer on the other side of the contract
+   * @param summary - Human-readable text shown in the conversation
+   * @param contract - Contract payload with the signed step
+   * @param signer - NIP-07 signer
+   * @param senderPubkey - Authenticated user's pubkey
+   */
+  public async sendContractMessage(
+    recipientPubkey: string,
+    summary: string,
+    contract: ContractMessage,
+    signer: NostrSigner,
+    senderPubkey: string
+  ): Promise<SendMessageResult> {
+    const content = `${summary}\n\n[Contract]\n${JSON.stringify(contract)}`;
+    const result = await this.sendMessage(recipientPubkey, content, signer, undefined, undefined, undefined, senderPubkey);
+
+    if (result.success && result.message) {
+      result.message = { ...result.message, content: summary, contract };
+    }
+    return result;
+  }
+
+  /**
+   * Get every order message (sent and received) for the current user
+   * Queries the user's gift wraps directly - order history spans all conversations
+   *
+   * @param signer - NIP-07 signer
+   * @param pubkey - Authenticated user's pubkey
+   * @returns Order messages, oldest first
+   */
+  public async getOrderMessages(signer: NostrSigner, pubkey: string): Promise<Message[]> {
+    return this.getStructuredMessages(signer, pubkey, message => !!message.order, 'getOrderMessages');
+  }
+
+  /**
+   * Get every proposal message (sent and received) for the current user
+   *
+   * @param signer - NIP-07 signer
+   * @param pubkey - Authenticated user's pubkey
+   * @returns Proposal messages, oldest first
+   */
+  public async getProposalMessages(signer: NostrSigner, pubkey: string): Promise<Message[]> {
+    return this.getStructuredMessages(signer, pubkey, message => !!message.proposal, 'getProposalMessages');
+  }
+
+  /**
+   * Get every contract message (sent and received) for the current user
+   *
+   * @param signer - NIP-07 signer
+   * @param pubkey - Authenticated user's pubkey
+   * @returns Contract messages, oldest first
+   */
+  public async getContractMessages(signer: NostrSigner, pubkey: string): Promise<Message[]> {
+    return this.getStructuredMessages(signer, pubkey, message => !!message.contract, 'getContractMessages');
+  }
+
+  /**
+   * Decrypt the user's gift wraps and keep the messages carrying a structured payload
+   * Notes to self are skipped (only the copies exchanged with the other side count)
+   */
+  private async getStructuredMessages(
+    signer: NostrSigner,
+    pubkey: string,
+    hasPayload: (message: Message) => boolean,
+    method: string
+  ): Promise<Message[]> {
+    const queryResult = await queryEvents([
+      {
+        kinds: [1059],
+        '#p': [pubkey],
+        limit: 500,
+      },
+    ]);
+
+    if (!queryResult.success) {
+      throw new AppError(
+        'Failed to query messages',
+        ErrorCode.NOSTR_ERROR,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCategory.EXTERNAL_SERVICE,
+        ErrorSeverity.MEDIUM,
+        { queryResult, method }
+      );
+    }
+
+    const messages = (await this.decryptGiftWraps(queryResult.events, signer))
+      .filter(message => hasPayload(message) && !(message.senderPubkey === pubkey && message.recipientPubkey === pubkey))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    messages.forEach(message => {
+      message.isSent = message.senderPubkey === pubkey;
+    });
+
+    logger.info('Structured messages loaded', {
+      service: 'MessagingBusinessService',
+      method,
+      giftWrapCount: queryResult.events.length,
+      messageCount: messages.length,
+    });
+
+    return messages;
+  }
+
   /**
    * Get all conversations for the current user
    * Queries for gift-wrapped messages (Kind 1059) addressed to user
@@ -432,9 +601,14 @@ export class MessagingBusinessService {
   }
 
   /**
-   * Background sync for new messages (since last sync)
+   * Background sync for new messages
    * Does NOT block UI - runs in background
    * 
+   * Gift wraps carry a randomized created_at (up to days in the past), so a plain
+   * "since last sync" query misses late arrivals. Relays that support NIP-77 are
+   * reconciled with negentropy against the gift wrap ids already in the cache and
+   * only the missing ids are fetched; other relays are polled with since.
+   * 
    * OPTIMIZATION: Adaptive polling with exponential backoff
    * - Increases interval when no new messages (less network traffic)
    * - Decreases interval when messages detected (faster updates)
@@ -453,33 +627,48 @@ export class MessagingBusinessService {
         return; // No last sync time, skip background sync
       }
 
-      const sinceDate = new Date(lastSync * 1000);
-      const ageSeconds = Math.floor((Date.now() - lastSync * 1000) / 1000);
+      const userPubkey = await signer.getPublicKey();
+      const windowStart = this.cache.getGiftWrapWindowStart();
+      const localItems = await this.cache.getGiftWrapItems(windowStart);
+      const knownIds = new Set(localItems.map(item => item.id));
 
-      logger.info('🔄 Background sync: fetching new messages', {
+      logger.info('🔄 Background sync: reconciling gift wraps', {
         service: 'MessagingBusinessService',
         method: 'syncNewMessages',
-        since: sinceDate.toISOString(),
-        ageSeconds,
+        since: new Date(lastSync * 1000).toISOString(),
+        localGiftWraps: localItems.length,
         currentInterval: Math.floor(this.syncBackoffMs / 1000) + 's',
       });
 
-      const userPubkey = await signer.getPublicKey();
-
-      // Fetch only messages AFTER last sync
-      const filters = [
-        {
-          kinds: [1059],
-          '#p': [userPubkey],
-          since: lastSync, // Only new messages
-          limit: 100,
-        },
-      ];
+      // NIP-77: fetch only the ids we're missing from relays that support it
+      const reconcileResult = await reconcileEvents(
+        { kinds: [1059], '#p': [userPubkey], since: windowStart },
+        localItems,
+        this.MAX_SYNC_EVENTS
+      );
+      const fetched = [...reconcileResult.events];
+
+      // Fallback: since-based polling for relays without negentropy
+      if (reconcileResult.unsupportedRelays.length > 0) {
+        const queryResult = await queryEvents([
+          {
+            kinds: [1059],
+            '#p': [userPubkey],
+            since: lastSync, // Only new messages
+            limit: 100,
+          },
+        ]);
+        if (queryResult.success) {
+          fetched.push(...queryResult.events);
+        }
+      }
 
-      const queryResult = await queryEvents(filters);
+      const newGiftWraps = Array.from(new Map(
+        fetched.filter(event => !knownIds.has(event.id)).map(event => [event.id, event])
+      ).values());
       const elapsed = performance.now() - startTime;
 
-      if (!queryResult.success || queryResult.events.length === 0) {
+      if (newGiftWraps.length === 0) {
         // NO NEW MESSAGES - increase backoff
         this.consecutiveEmptySyncs++;
         this.increaseBackoff();
@@ -487,6 +676,8 @@ export class MessagingBusinessService {
         logger.info('📭 No new messages in background sync', {
           service: 'MessagingBusinessService',
           method: 'syncNewMessages',
+          reconciledRelays: reconcileResult.reconciledRelays.length,
+          polledFallback: reconcileResult.unsupportedRelays.length > 0,
           consecutiveEmpty: this.consecutiveEmptySyncs,
           nextInterval: Math.floor(this.syncBackoffMs / 1000) + 's',
           elapsedMs: elapsed.toFixed(2),
@@ -499,22 +690,28 @@ export class MessagingBusinessService {
       this.resetBackoff();
 
       // Decrypt and cache new messages
-      const newMessages = await this.decryptGiftWraps(queryResult.events, signer);
+      const newMessages = await this.decryptGiftWraps(newGiftWraps, signer);
+      newMessages.forEach(msg => {
+        msg.isSent = msg.senderPubkey === userPubkey;
+      });
+      await this.cache.recordGiftWraps(newGiftWraps);
       if (newMessages.length > 0) {
         await this.cache.cacheMessages(newMessages);
-        await this.cache.setLastSyncTime(Math.floor(Date.now() / 1000));
+      }
+      await this.cache.setLastSyncTime(Math.floor(Date.now() / 1000));
 
-        const finalElapsed = performance.now() - startTime;
+      const finalElapsed = performance.now() - startTime;
 
-        logger.info('✅ Background sync: cached new messages', {
-          service: 'MessagingBusinessService',
-          method: 'syncNewMessages',
-          count: newMessages.length,
-          decryptionTime: (finalElapsed - elapsed).toFixed(2) + 'ms',
-          totalTime: finalElapsed.toFixed(2) + 'ms',
-          nextInterval: Math.floor(this.syncBackoffMs / 1000) + 's',
-        });
-      }
+      logger.info('✅ Background sync: cached new messages', {
+        service: 'MessagingBusinessService',
+        method: 'syncNewMessages',
+        giftWraps: newGiftWraps.length,
+        count: newMessages.length,
+        reconciledRelays: reconcileResult.reconciledRelays.length,
+        decryptionTime: (finalElapsed - elapsed).toFixed(2) + 'ms',
+        totalTime: finalElapsed.toFixed(2) + 'ms',
+        nextInterval: Math.floor(this.syncBackoffMs / 1000) + 's',
+      });
     } catch (error) {
       const elapsed = performance.now() - startTime;
       
@@ -790,6 +987,7 @@ export class MessagingBusinessService {
 
       // Decrypt and parse messages
       const messages = await this.decryptGiftWraps(queryResult.events, signer);
+      await this.cache.recordGiftWraps(queryResult.events);
 
       // Mark messages as sent or received
       messages.forEach(msg => {
@@ -966,6 +1164,7 @@ export class MessagingBusinessService {
 
       // Decrypt and parse messages
       const allMessages = await this.decryptGiftWraps(queryResult.events, signer);
+      await this.cache.recordGiftWraps(queryResult.events);
 
       logger.info('All decrypted messages before filtering', {
         service: 'MessagingBusinessService',
@@ -1100,6 +1299,7 @@ export class MessagingBusinessService {
             
             // Cache the message for future access
             try {
+              await this.cache.recordGiftWraps([event]);
               await this.cache.cacheMessages([messages[0]]);
             } catch (cacheError) {
               logger.warn('Failed to cache incoming message', {
@@ -1129,6 +1329,36 @@ export class MessagingBusinessService {
     };
   }
 
+  /**
+   * Parse the structured payload block ([Order], [Proposal] or [Contract]) appended by
+   * sendOrderMessage, sendProposalMessage and sendContractMessage
+   *
+   * @param content - Message content potentially ending with a payload block
+   * @param label - Block label
+   * @param isValid - Shape check for the parsed payload
+   * @returns Content without the block and the parsed payload (if valid)
+   */
+  private parsePayloadBlock<T>(
+    content: string,
+    label: string,
+    isValid: (payload: T) => boolean
+  ): { cleanContent: string; payload?: T } {
+    const match = content.match(new RegExp(`\\n\\n\\[${label}\\]\\n(\\{[^\\n]*\\})\\s*$`));
+    if (!match) {
+      return { cleanContent: content };
+    }
+
+    try {
+      const payload = JSON.parse(match[1]) as T;
+      if (!isValid(payload)) {
+        return { cleanContent: content };
+      }
+      return { cleanContent: content.slice(0, match.index).trim(), payload };
+    } catch {
+      return { cleanContent: content };
+    }
+  }
+
   /**
    * Parse imeta tags from message content and extract attachments
    * Removes imeta tag text from content and returns clean content + attachments
@@ -1213,6 +1443,8 @@ export class MessagingBusinessService {
   /**
    * Decrypt gift-wrapped messages (Kind 1059 events)
    * Private helper method
+   * Drops messages whose rumor claims a different author than the signed seal (NIP-17),
+   * so nobody can pass off a message - or an order / proposal / contract update - as someone else's
    * 
    * @param giftWraps - Array of Kind 1059 gift wrap events
    * @param signer - NIP-07 signer for decryption
@@ -1244,6 +1476,15 @@ export class MessagingBusinessService {
 
         const rumor = JSON.parse(rumorJson);
 
+        if (seal.pubkey !== rumor.pubkey || !verifyEventSignature(seal).valid) {
+          logger.warn('Dropping gift wrap whose seal does not match the rumor author', {
+            service: 'MessagingBusinessService',
+            method: 'decryptGiftWraps',
+            eventId: giftWrap.id,
+          });
+          continue;
+        }
+
         // Step 3: Extract message data from rumor
         let content = rumor.content;
         let context: ConversationContext | undefined;
@@ -1265,8 +1506,25 @@ export class MessagingBusinessService {
         const recipientTag = rumor.tags.find((tag: string[]) => tag[0] === 'p');
         const recipientPubkey = recipientTag ? recipientTag[1] : '';
 
-        // Parse imeta tags from content and create attachments
-        const { cleanContent, attachments } = this.parseImetaFromContent(content);
+        // Parse order / proposal / contract payload, then imeta tags from content and create attachments
+        const { cleanContent: contentWithoutOrder, payload: order } = this.parsePayloadBlock<OrderMessage>(
+          content,
+          'Order',
+          payload => typeof payload.id === 'string' && [0, 1, 2].includes(payload.type)
+        );
+        const { cleanContent: contentWithoutProposal, payload: proposal } = this.parsePayloadBlock<ProposalMessage>(
+          contentWithoutOrder,
+          'Proposal',
+          payload => typeof payload.id === 'string' &&
+            typeof payload.work === 'string' &&
+            ['proposal', 'proposal-status'].includes(payload.type)
+        );
+        const { cleanContent: contentWithoutPayload, payload: contract } = this.parsePayloadBlock<ContractMessage>(
+          contentWithoutProposal,
+          'Contract',
+          payload => payload.type === 'contract' && typeof payload.contract === 'string' && !!payload.event?.sig
+        );
+        const { cleanContent, attachments } = this.parseImetaFromContent(contentWithoutPayload);
 
         const message: Message = {
           id: giftWrap.id,
@@ -1276,6 +1534,9 @@ export class MessagingBusinessService {
           attachments: attachments.length > 0 ? attachments : undefined,
           createdAt: rumor.created_at,
           context,
+          ...(order && { order }),
+          ...(proposal && { proposal }),
+          ...(contract && { contract }),
         };
 
         messages.push(message);
@@ -1315,3 +1576,40 @@ export const getMessages = (otherPubkey: string, signer: NostrSigner, limit: num
 
 export const subscribeToMessages = (signer: NostrSigner, onMessage: (message: Message) => void, pubkey: string) =>
   messagingBusinessService.subscribeToMessages(signer, onMessage, pubkey);
+
+export const sendOrderMessage = (
+  recipientPubkey: string,
+  summary: string,
+  order: OrderMessage,
+  signer: NostrSigner,
+  senderPubkey: string,
+  context?: ConversationContext
+) =>
+  messagingBusinessService.sendOrderMessage(recipientPubkey, summary, order, signer, senderPubkey, context);
+
+export const getOrderMessages = (signer: NostrSigner, pubkey: string) =>
+  messagingBusinessService.getOrderMessages(signer, pubkey);
+
+export const sendProposalMessage = (
+  recipientPubkey: string,
+  summary: string,
+  proposal: ProposalMessage,
+  signer: NostrSigner,
+  senderPubkey: string
+) =>
+  messagingBusinessService.sendProposalMessage(recipientPubkey, summary, proposal, signer, senderPubkey);
+
+export const getProposalMessages = (signer: NostrSigner, pubkey: string) =>
+  messagingBusinessService.getProposalMessages(signer, pubkey);
+
+export const sendContractMessage = (
+  recipientPubkey: string,
+  summary: string,
+  contract: ContractMessage,
+  signer: NostrSigner,
+  senderPubkey: string
+) =>
+  messagingBusinessService.sendContractMessage(recipientPubkey, summary, contract, signer, senderPubkey);
+
+export const getContractMessages = (signer: NostrSigner, pubkey: string) =>
+  messagingBusinessService.getContractMessages(signer, pubkey);
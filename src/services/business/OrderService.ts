@@ -0,0 +1,316 @@
+import type { NostrSigner } from '@/types/nostr';
+import type { CartSellerGroup } from '@/types/cart';
+import type { ConversationContext, Message, SendMessageResult } from '@/types/messaging';
+import type {
+  CheckoutDetails,
+  Order,
+  OrderMessage,
+  OrderRequestPayload,
+  OrderStatus,
+  OrderStatusPayload,
+  OrderTimelineEntry,
+  PaymentRequestPayload,
+} from '@/types/order';
+import { formatProductPrice } from '@/types/shop';
+import { getOrderMessages, sendOrderMessage } from './MessagingBusinessService';
+import { createPurchaseProof } from './ReviewService';
+import { getOrderDeliveries } from './DigitalDeliveryService';
+import { logger } from '@/services/core/LoggingService';
+
+/**
+ * OrderService
+ * Business logic layer for the checkout protocol between buyer and seller
+ * Orders travel as NIP-17 gift-wrapped messages carrying NIP-15 style payloads:
+ * type 0 (order), type 1 (payment request) and type 2 (status update).
+ * Order state is never stored - it is rebuilt from the message history.
+ * Layer: Business Service
+ * Dependencies: MessagingBusinessService (NIP-17), CartService (price formatting), ReviewService (purchase proofs),
+ * DigitalDeliveryService (digital product keys)
+ */
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting seller',
+  'payment-requested': 'Payment requested',
+  paid: 'Paid',
+  shipped: 'Shipped',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Order payload for one seller's cart items
+ */
+export function createOrderRequest(
+  group: CartSellerGroup,
+  details: CheckoutDetails,
+  buyerPubkey: string
+): OrderRequestPayload {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    type: 0,
+    name: details.name.trim() || undefined,
+    address: details.address.trim() || undefined,
+    message: details.message.trim() || undefined,
+    contact: { nostr: buyerPubkey },
+    items: group.items.map(item => ({
+      product_id: item.dTag,
+      quantity: item.quantity,
+      address: item.address,
+      ...(item.variantId && { variant_id: item.variantId, variant: item.variantName }),
+      title: item.title,
+      price: item.price,
+      currency: item.currency,
+    })),
+  };
+}
+
+/**
+ * Totals per currency for the items of an order
+ */
+export function getOrderTotals(items: OrderRequestPayload['items']): Record<string, number> {
+  return items.reduce<Record<string, number>>((totals, item) => {
+    if (item.price === undefined || !item.currency) return totals;
+    totals[item.currency] = (totals[item.currency] || 0) + item.price * item.quantity;
+    return totals;
+  }, {});
+}
+
+export function formatOrderTotals(totals: Record<string, number>): string {
+  return Object.entries(totals)
+    .map(([currency, amount]) => formatProductPrice(amount, currency))
+    .join(' + ');
+}
+
+/**
+ * Readable text sent alongside the payload (shown by other NIP-17 clients and in Messages)
+ */
+function summarizeOrderMessage(order: OrderMessage): string {
+  switch (order.type) {
+    case 0: {
+      const lines = order.items.map(item => {
+        const name = `${item.title || item.product_id}${item.variant ? ` (${item.variant})` : ''}`;
+        return item.price !== undefined && item.currency
+          ? `- ${item.quantity} × ${name} @ ${formatProductPrice(item.price, item.currency)}`
+          : `- ${item.quantity} × ${name}`;
+      });
+      const totals = formatOrderTotals(getOrderTotals(order.items));
+      return [
+        `New order #${order.id}:`,
+        '',
+        ...lines,
+        ...(totals ? ['', `Total: ${totals}`] : []),
+        ...(order.address ? ['', `Ship to: ${order.name ? `${order.name}, ` : ''}${order.address}`] : []),
+        ...(order.message ? ['', order.message] : []),
+      ].join('\n');
+    }
+    case 1:
+      return [
+        `Payment request for order #${order.id}`,
+        ...(order.message ? ['', order.message] : []),
+      ].join('\n');
+    case 2:
+      return [
+        `Order #${order.id} is now ${ORDER_STATUS_LABELS[order.status || getStatusFromFlags(order)].toLowerCase()}`,
+        ...(order.deliveries?.length ? ['', 'Your downloads are ready in My Orders.'] : []),
+        ...(order.message ? ['', order.message] : []),
+      ].join('\n');
+  }
+}
+
+function getStatusFromFlags(update: OrderStatusPayload): OrderStatus {
+  if (update.status) return update.status;
+  if (update.shipped) return 'shipped';
+  if (update.paid) return 'paid';
+  return 'pending';
+}
+
+async function sendOrderPayload(
+  recipientPubkey: string,
+  order: OrderMessage,
+  signer: NostrSigner,
+  senderPubkey: string,
+  context?: ConversationContext
+): Promise<SendMessageResult> {
+  const result = await sendOrderMessage(recipientPubkey, summarizeOrderMessage(order), order, signer, senderPubkey, context);
+
+  logger.info(result.success ? 'Order message sent' : 'Failed to send order message', {
+    service: 'OrderService',
+    method: 'sendOrderPayload',
+    orderId: order.id,
+    type: order.type,
+    error: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Buyer -> seller: place the order
+ */
+export function sendOrder(
+  sellerPubkey: string,
+  order: OrderRequestPayload,
+  signer: NostrSigner,
+  buyerPubkey: string,
+  imageUrl?: string
+): Promise<SendMessageResult> {
+  return sendOrderPayload(sellerPubkey, order, signer, buyerPubkey, {
+    type: 'product',
+    id: order.items[0]?.product_id || order.id,
+    title: `Order: ${order.items.length} item${order.items.length === 1 ? '' : 's'}`,
+    imageUrl,
+  });
+}
+
+/**
+ * Seller -> buyer: ask for payment (bolt11 invoice, on-chain address, ...)
+ */
+export function sendPaymentRequest(
+  order: Order,
+  paymentOptions: PaymentRequestPayload['payment_options'],
+  message: string,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  return sendOrderPayload(
+    order.buyerPubkey,
+    { id: order.id, type: 1, message: message.trim() || undefined, payment_options: paymentOptions },
+    signer,
+    order.sellerPubkey
+  );
+}
+
+/**
+ * Seller -> buyer: move the order forward (paid, shipped, completed) or cancel it
+ * The first update after payment carries the keys of any digital products, and
+ * completing an order hands the buyer a purchase proof for verified reviews
+ */
+export async function sendOrderStatus(
+  order: Order,
+  status: NonNullable<OrderStatusPayload['status']>,
+  message: string,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  const paid = status === 'paid' || status === 'shipped' || status === 'completed' || order.timeline.some(e => e.status === 'paid');
+  const shipped = status === 'shipped' || status === 'completed' || order.timeline.some(e => e.status === 'shipped');
+  const proof = status === 'completed' ? await createPurchaseProof(order, signer) : undefined;
+  const deliveries = paid && status !== 'cancelled' && !order.deliveries?.length
+    ? await getOrderDeliveries(order, signer)
+    : [];
+
+  return sendOrderPayload(
+    order.buyerPubkey,
+    {
+      id: order.id,
+      type: 2,
+      message: message.trim() || undefined,
+      paid,
+      shipped,
+      status,
+      proof,
+      ...(deliveries.length > 0 && { deliveries }),
+    },
+    signer,
+    order.sellerPubkey
+  );
+}
+
+/**
+ * Rebuild orders from order messages
+ * The type 0 message fixes buyer (sender) and seller (recipient); follow-ups only
+ * count when they come from that seller, so the buyer cannot mark their own order paid.
+ *
+ * @param messages - Order messages in any order (duplicates allowed)
+ * @returns Orders, most recently updated first
+ */
+export function buildOrders(messages: Message[]): Order[] {
+  const sorted = [...new Map(messages.filter(m => m.order).map(m => [m.id, m])).values()]
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const orders = new Map<string, Order>();
+
+  for (const message of sorted) {
+    const payload = message.order as OrderMessage;
+
+    if (payload.type === 0) {
+      if (orders.has(payload.id)) continue;
+      orders.set(payload.id, {
+        id: payload.id,
+        buyerPubkey: message.senderPubkey,
+        sellerPubkey: message.recipientPubkey,
+        items: payload.items,
+        totals: getOrderTotals(payload.items),
+        shippingName: payload.name,
+        shippingAddress: payload.address,
+        message: payload.message,
+        status: 'pending',
+        createdAt: message.createdAt,
+        updatedAt: message.createdAt,
+        timeline: [{
+          messageId: message.id,
+          type: 0,
+          status: 'pending',
+          senderPubkey: message.senderPubkey,
+          createdAt: message.createdAt,
+          message: payload.message,
+        }],
+      });
+      continue;
+    }
+
+    const order = orders.get(payload.id);
+    if (!order || message.senderPubkey !== order.sellerPubkey) continue;
+
+    const entry: OrderTimelineEntry = payload.type === 1
+      ? {
+        messageId: message.id,
+        type: 1,
+        status: 'payment-requested',
+        senderPubkey: message.senderPubkey,
+        createdAt: message.createdAt,
+        message: payload.message,
+        paymentOptions: payload.payment_options,
+      }
+      : {
+        messageId: message.id,
+        type: 2,
+        status: getStatusFromFlags(payload),
+        senderPubkey: message.senderPubkey,
+        createdAt: message.createdAt,
+        message: payload.message,
+      };
+
+    order.timeline.push(entry);
+    order.updatedAt = message.createdAt;
+    if (entry.paymentOptions) {
+      order.paymentOptions = entry.paymentOptions;
+    }
+    if (payload.type === 2 && payload.proof) {
+      order.purchaseProof = payload.proof;
+    }
+    if (payload.type === 2 && payload.deliveries?.length) {
+      order.deliveries = payload.deliveries;
+    }
+    // A payment request after the order was paid (e.g. a resent invoice) does not move it back
+    if (!(entry.status === 'payment-requested' && order.status !== 'pending' && order.status !== 'payment-requested')) {
+      order.status = entry.status;
+    }
+  }
+
+  return [...orders.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Fetch all orders where the user is buyer or seller
+ */
+export async function fetchOrders(signer: NostrSigner, pubkey: string): Promise<Order[]> {
+  const messages = await getOrderMessages(signer, pubkey);
+  const orders = buildOrders(messages);
+
+  logger.info('Orders loaded', {
+    service: 'OrderService',
+    method: 'fetchOrders',
+    messageCount: messages.length,
+    orderCount: orders.length,
+  });
+
+  return orders;
+}
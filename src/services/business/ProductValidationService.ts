@@ -1,6 +1,23 @@
 import { logger } from '@/services/core/LoggingService';
 import type { ProductData, ProductValidationResult } from '@/types/shop';
-import { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS, CURRENCIES } from '@/config/shop';
+import {
+  PRODUCT_CATEGORIES,
+  PRODUCT_CONDITIONS,
+  PRODUCT_AVAILABILITY,
+  MAX_PRODUCT_VARIANTS,
+  DELIVERY_METHODS,
+  MAX_SHIPPING_ZONES,
+  WORLDWIDE_DESTINATION,
+  CURRENCIES,
+} from '@/config/shop';
+import { getCountryById, getRegionById } from '@/config/contributions';
+import { isExpired } from '@/utils/dateUtils';
+
+const isValidDestination = (destination: string) =>
+  destination === WORLDWIDE_DESTINATION || !!getRegionById(destination) || !!getCountryById(destination);
+
+const isValidStock = (quantity: number | null | undefined) =>
+  quantity === null || quantity === undefined || (Number.isInteger(quantity) && quantity >= 0 && quantity <= 1000000);
 
 /**
  * Business service for product data validation
@@ -79,6 +96,64 @@ export class ProductValidationService {
       errors.contact = 'Contact information is too long';
     }
 
+    // Availability validation
+    const validAvailability = PRODUCT_AVAILABILITY.map(a => a.id);
+    if (data.availability !== undefined && !validAvailability.includes(data.availability)) {
+      errors.availability = `Availability must be one of: ${validAvailability.join(', ')}`;
+    }
+
+    // Stock validation (whole number, empty = not tracked)
+    if (!isValidStock(data.quantity)) {
+      errors.quantity = 'Quantity must be a whole number of 0 or more';
+    }
+
+    // Variants validation (name, positive price, stock, unique names)
+    if (data.variants && data.variants.length > 0) {
+      const names = data.variants.map(v => v.name.trim().toLowerCase());
+      if (data.variants.length > MAX_PRODUCT_VARIANTS) {
+        errors.variants = `Maximum ${MAX_PRODUCT_VARIANTS} variants allowed`;
+      } else if (names.some(name => name.length === 0 || name.length > 50)) {
+        errors.variants = 'Every variant needs a name (up to 50 characters)';
+      } else if (new Set(names).size !== names.length) {
+        errors.variants = 'Variant names must be unique';
+      } else if (data.variants.some(v => !Number.isFinite(v.price) || v.price <= 0 || v.price > 1000000000)) {
+        errors.variants = 'Every variant needs a positive price';
+      } else if (data.variants.some(v => !isValidStock(v.quantity))) {
+        errors.variants = 'Variant stock must be a whole number of 0 or more';
+      }
+    }
+
+    // Delivery validation (at least one method)
+    const validDeliveryMethods = DELIVERY_METHODS.map(m => m.id);
+    if (data.deliveryMethods !== undefined) {
+      if (data.deliveryMethods.length === 0) {
+        errors.deliveryMethods = 'Choose at least one delivery method';
+      } else if (data.deliveryMethods.some(method => !validDeliveryMethods.includes(method))) {
+        errors.deliveryMethods = `Delivery must be one of: ${validDeliveryMethods.join(', ')}`;
+      }
+    }
+
+    // Shipping zones validation (required for shipping, one zone per destination)
+    if (data.deliveryMethods?.includes('shipping')) {
+      const zones = data.shippingZones || [];
+      const destinations = zones.map(zone => zone.destination);
+      if (zones.length === 0) {
+        errors.shippingZones = 'Add at least one shipping zone';
+      } else if (zones.length > MAX_SHIPPING_ZONES) {
+        errors.shippingZones = `Maximum ${MAX_SHIPPING_ZONES} shipping zones allowed`;
+      } else if (destinations.some(destination => !isValidDestination(destination))) {
+        errors.shippingZones = 'Every shipping zone needs a destination';
+      } else if (new Set(destinations).size !== destinations.length) {
+        errors.shippingZones = 'Each destination can only have one shipping zone';
+      } else if (zones.some(zone => !Number.isFinite(zone.cost) || zone.cost < 0 || zone.cost > 1000000000)) {
+        errors.shippingZones = 'Shipping cost must be 0 or more';
+      } else if (zones.some(zone => !isValidStock(zone.minDays) || !isValidStock(zone.maxDays))) {
+        errors.shippingZones = 'Delivery days must be whole numbers';
+      } else if (zones.some(zone => zone.minDays !== null && zone.maxDays !== null && zone.minDays > zone.maxDays)) {
+        errors.shippingZones = 'Minimum delivery days cannot exceed the maximum';
+      }
+    }
+
     // Attachments validation (max 10 files)
     if (data.attachments && data.attachments.length > 10) {
       errors.attachments = 'Maximum 10 media files allowed';
@@ -89,6 +164,11 @@ export class ProductValidationService {
       errors.tags = 'Maximum 20 tags allowed';
     }
 
+    // Expiration validation (NIP-40, optional)
+    if (isExpired(data.expiresAt)) {
+      errors.expiresAt = 'Expiration date must be in the future';
+    }
+
     const isValid = Object.keys(errors).length === 0;
 
     if (!isValid) {
@@ -0,0 +1,260 @@
+import type { NostrSigner } from '@/types/nostr';
+import type { Message, SendMessageResult } from '@/types/messaging';
+import type {
+  Proposal,
+  ProposalAttachment,
+  ProposalData,
+  ProposalDecision,
+  ProposalMessage,
+  ProposalRequestPayload,
+  ProposalStatus,
+  ProposalTarget,
+} from '@/types/proposal';
+import { MAX_COVER_LETTER_LENGTH, MAX_PROPOSAL_ATTACHMENTS } from '@/types/proposal';
+import { sendProposalMessage } from './MessagingBusinessService';
+import { uploadFile, validateFile } from '@/services/generic/GenericBlossomService';
+import { getWorkCurrencyById } from '@/config/work';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * ProposalService
+ * Business logic layer for job applications on Work listings
+ * Proposals travel as NIP-17 gift-wrapped messages: the applicant sends the proposal
+ * (cover letter, rate, availability, portfolio files on Blossom) and the poster answers
+ * with shortlist / reject / hire updates. State is rebuilt from the message history.
+ * Layer: Business Service
+ * Dependencies: MessagingBusinessService (NIP-17), GenericBlossomService (portfolio uploads)
+ */
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  submitted: 'Submitted',
+  shortlisted: 'Shortlisted',
+  rejected: 'Rejected',
+  hired: 'Hired',
+};
+
+/**
+ * Address of a work listing ("30023:<poster pubkey>:<d tag>")
+ */
+export function getWorkAddress(posterPubkey: string, dTag: string): string {
+  return `30023:${posterPubkey}:${dTag}`;
+}
+
+export function formatProposalRate(rate: NonNullable<ProposalRequestPayload['rate']>): string {
+  const currency = getWorkCurrencyById(rate.currency);
+  return currency ? `${rate.amount.toLocaleString()} ${currency.symbol}` : `${rate.amount.toLocaleString()} ${rate.currency}`;
+}
+
+/**
+ * First validation error of a proposal form, if any
+ */
+export function validateProposal(data: ProposalData): string | null {
+  const coverLetter = data.coverLetter.trim();
+  if (!coverLetter) return 'Cover letter is required';
+  if (coverLetter.length > MAX_COVER_LETTER_LENGTH) {
+    return `Cover letter must be ${MAX_COVER_LETTER_LENGTH} characters or less`;
+  }
+  if (data.rateAmount.trim() && !(Number(data.rateAmount) > 0)) return 'Rate must be a positive number';
+  if (data.files.length > MAX_PROPOSAL_ATTACHMENTS) {
+    return `You can attach up to ${MAX_PROPOSAL_ATTACHMENTS} files`;
+  }
+  for (const file of data.files) {
+    const validation = validateFile(file);
+    if (!validation.valid) return `${file.name}: ${validation.error || 'Invalid file'}`;
+  }
+  return null;
+}
+
+/**
+ * Readable text sent alongside the payload (shown by other NIP-17 clients and in Messages)
+ */
+function summarizeProposalMessage(proposal: ProposalMessage, workTitle?: string): string {
+  const work = workTitle ? `"${workTitle}"` : 'the work listing';
+
+  if (proposal.type === 'proposal') {
+    return [
+      `New proposal for ${work}:`,
+      '',
+      proposal.cover_letter,
+      ...(proposal.rate ? ['', `Rate: ${formatProposalRate(proposal.rate)}`] : []),
+      ...(proposal.availability ? [`Availability: ${proposal.availability}`] : []),
+      ...(proposal.attachments?.length ? ['', ...proposal.attachments.map(file => `- ${file.name}: ${file.url}`)] : []),
+    ].join('\n');
+  }
+
+  return [
+    `Your proposal for ${work} is now ${PROPOSAL_STATUS_LABELS[proposal.status].toLowerCase()}`,
+    ...(proposal.message ? ['', proposal.message] : []),
+  ].join('\n');
+}
+
+async function uploadAttachments(files: File[], signer: NostrSigner): Promise<ProposalAttachment[]> {
+  const attachments: ProposalAttachment[] = [];
+
+  // Sequential uploads - one Blossom auth prompt at a time
+  for (const file of files) {
+    const uploadResult = await uploadFile(file, signer);
+    if (!uploadResult.success || !uploadResult.metadata) {
+      throw new AppError(
+        uploadResult.error || `Failed to upload ${file.name}`,
+        ErrorCode.EXTERNAL_SERVICE_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.EXTERNAL_SERVICE,
+        ErrorSeverity.MEDIUM,
+        { fileName: file.name }
+      );
+    }
+
+    attachments.push({
+      url: uploadResult.metadata.url,
+      sha256: uploadResult.metadata.hash,
+      name: file.name,
+      mime_type: file.type || 'application/octet-stream',
+      size: file.size,
+    });
+  }
+
+  return attachments;
+}
+
+/**
+ * Applicant -> poster: upload the portfolio files and send the proposal
+ */
+export async function submitProposal(
+  target: ProposalTarget,
+  data: ProposalData,
+  signer: NostrSigner,
+  applicantPubkey: string
+): Promise<SendMessageResult> {
+  if (target.posterPubkey === applicantPubkey) {
+    return { success: false, error: 'You cannot apply to your own work listing' };
+  }
+  const validationError = validateProposal(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const attachments = await uploadAttachments(data.files, signer);
+  const proposal: ProposalRequestPayload = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    type: 'proposal',
+    work: getWorkAddress(target.posterPubkey, target.dTag),
+    work_title: target.title,
+    cover_letter: data.coverLetter.trim(),
+    ...(data.rateAmount.trim() && { rate: { amount: Number(data.rateAmount), currency: data.rateCurrency } }),
+    availability: data.availability.trim() || undefined,
+    ...(attachments.length > 0 && { attachments }),
+  };
+
+  const result = await sendProposalMessage(
+    target.posterPubkey,
+    summarizeProposalMessage(proposal, target.title),
+    proposal,
+    signer,
+    applicantPubkey
+  );
+
+  logger.info(result.success ? 'Proposal sent' : 'Failed to send proposal', {
+    service: 'ProposalService',
+    method: 'submitProposal',
+    proposalId: proposal.id,
+    workAddress: proposal.work,
+    attachmentCount: attachments.length,
+    error: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Poster -> applicant: shortlist, reject or hire
+ */
+export async function sendProposalStatus(
+  proposal: Proposal,
+  status: ProposalDecision,
+  message: string,
+  signer: NostrSigner
+): Promise<SendMessageResult> {
+  const payload: ProposalMessage = {
+    id: proposal.id,
+    type: 'proposal-status',
+    work: proposal.workAddress,
+    status,
+    message: message.trim() || undefined,
+  };
+
+  const result = await sendProposalMessage(
+    proposal.applicantPubkey,
+    summarizeProposalMessage(payload, proposal.workTitle),
+    payload,
+    signer,
+    proposal.posterPubkey
+  );
+
+  logger.info(result.success ? 'Proposal status sent' : 'Failed to send proposal status', {
+    service: 'ProposalService',
+    method: 'sendProposalStatus',
+    proposalId: proposal.id,
+    status,
+    error: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Rebuild proposals from proposal messages
+ * The proposal fixes applicant (sender) and poster (recipient, who must own the listing);
+ * status updates only count when they come from that poster.
+ *
+ * @param messages - Proposal messages in any order (duplicates allowed)
+ * @returns Proposals, most recently updated first
+ */
+export function buildProposals(messages: Message[]): Proposal[] {
+  const sorted = [...new Map(messages.filter(m => m.proposal).map(m => [m.id, m])).values()]
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const proposals = new Map<string, Proposal>();
+
+  for (const message of sorted) {
+    const payload = message.proposal as ProposalMessage;
+
+    if (payload.type === 'proposal') {
+      const [, posterPubkey, ...dTagParts] = payload.work.split(':');
+      if (proposals.has(payload.id) || posterPubkey !== message.recipientPubkey) continue;
+
+      proposals.set(payload.id, {
+        id: payload.id,
+        workAddress: payload.work,
+        workDTag: dTagParts.join(':'),
+        workTitle: payload.work_title,
+        applicantPubkey: message.senderPubkey,
+        posterPubkey,
+        coverLetter: payload.cover_letter,
+        rate: payload.rate,
+        availability: payload.availability,
+        attachments: payload.attachments ?? [],
+        status: 'submitted',
+        createdAt: message.createdAt,
+        updatedAt: message.createdAt,
+        timeline: [{ messageId: message.id, status: 'submitted', createdAt: message.createdAt }],
+      });
+      continue;
+    }
+
+    const proposal = proposals.get(payload.id);
+    if (!proposal || message.senderPubkey !== proposal.posterPubkey || payload.work !== proposal.workAddress) continue;
+
+    proposal.timeline.push({
+      messageId: message.id,
+      status: payload.status,
+      createdAt: message.createdAt,
+      message: payload.message,
+    });
+    proposal.status = payload.status;
+    proposal.updatedAt = message.createdAt;
+  }
+
+  return [...proposals.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
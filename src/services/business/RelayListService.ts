@@ -0,0 +1,279 @@
+import type { NostrSigner, RelayListEntry, RelayPreference } from '@/types/nostr';
+import {
+  getRelayList,
+  getRelayHealth,
+  getUserRelayList,
+  publishEvent,
+  setUserRelayList,
+} from '@/services/generic/GenericRelayService';
+import { createRelayListEvent, signEvent } from '@/services/generic/GenericEventService';
+import { NOSTR_RELAYS } from '@/config/relays';
+import { normalizeRelayUrl } from '@/utils/relayList';
+import { logger } from '@/services/core/LoggingService';
+import { relayListCacheService } from '@/services/core/RelayListCacheService';
+import { publishOutboxService } from '@/services/generic/PublishOutboxService';
+
+/**
+ * RelayListService
+ * Business logic layer for the user's NIP-65 relay list (Kind 10002)
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay)
+ */
+
+// localStorage key - starts with 'nostr' so logout clears it
+const STORAGE_KEY = 'nostr-relay-list';
+
+export interface RelayListPublishResult {
+  success: boolean;
+  eventId?: string;
+  publishedRelays: string[];
+  failedRelays: string[];
+  error?: string;
+}
+
+/**
+ * Convert a parsed relay list into editable preferences
+ */
+export function relayListToPreferences(entry: RelayListEntry): RelayPreference[] {
+  const urls = Array.from(new Set([...entry.read, ...entry.write]));
+  return urls.map(url => ({
+    url,
+    read: entry.read.includes(url),
+    write: entry.write.includes(url),
+  }));
+}
+
+/**
+ * Convert editable preferences back into a relay list entry
+ */
+export function preferencesToRelayList(pubkey: string, relays: RelayPreference[], createdAt: number): RelayListEntry {
+  return {
+    pubkey,
+    read: relays.filter(r => r.read).map(r => r.url),
+    write: relays.filter(r => r.write).map(r => r.url),
+    createdAt,
+  };
+}
+
+/**
+ * Default preferences for users who have never published a relay list
+ */
+export function getDefaultRelayPreferences(): RelayPreference[] {
+  return NOSTR_RELAYS.map(relay => ({ url: relay.url, read: true, write: true }));
+}
+
+/**
+ * Validate a relay URL entered by the user
+ * Returns the normalized URL or an error message
+ */
+export function validateRelayUrl(
+  url: string,
+  existing: RelayPreference[]
+): { valid: boolean; url?: string; error?: string } {
+  if (!url.trim()) {
+    return { valid: false, error: 'Relay URL is required' };
+  }
+
+  const normalized = normalizeRelayUrl(url.startsWith('wss://') || url.startsWith('ws://') ? url : `wss://${url}`);
+  if (!normalized) {
+    return { valid: false, error: 'Relay URL must be a public wss:// address' };
+  }
+
+  if (existing.some(relay => relay.url === normalized)) {
+    return { valid: false, error: 'Relay is already in your list' };
+  }
+
+  return { valid: true, url: normalized };
+}
+
+/**
+ * Validate the full relay list before publishing
+ */
+export function validateRelayPreferences(relays: RelayPreference[]): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!relays.some(r => r.read)) {
+    errors.push('At least one relay must be enabled for reading');
+  }
+  if (!relays.some(r => r.write)) {
+    errors.push('At least one relay must be enabled for publishing');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Load the user's relay preferences from the network
+ * Falls back to the default relays when no Kind 10002 exists
+ */
+export async function fetchUserRelayPreferences(
+  pubkey: string
+): Promise<{ relays: RelayPreference[]; isDefault: boolean; createdAt: number }> {
+  const entry = await getRelayList(pubkey);
+
+  if (entry.createdAt === 0 || (entry.read.length === 0 && entry.write.length === 0)) {
+    return { relays: getDefaultRelayPreferences(), isDefault: true, createdAt: 0 };
+  }
+
+  return { relays: relayListToPreferences(entry), isDefault: false, createdAt: entry.createdAt };
+}
+
+/**
+ * Test connectivity to a relay
+ */
+export async function testRelayConnection(url: string): Promise<{ healthy: boolean; error?: string }> {
+  return getRelayHealth(url);
+}
+
+/**
+ * Switch back to the relay list that was active before a failed publish
+ * The cache never takes an older list over a newer one, so drop the unpublished one first
+ */
+function restoreRelayList(previous: RelayListEntry | null, pubkey: string): void {
+  relayListCacheService.invalidate(pubkey);
+  setUserRelayList(previous);
+}
+
+/**
+ * Create, sign and publish the user's Kind 10002 relay list,
+ * then switch the relay service over to it.
+ * The previous list stays active when no relay accepts the new one.
+ */
+export async function publishRelayList(
+  relays: RelayPreference[],
+  signer: NostrSigner,
+  pubkey: string
+): Promise<RelayListPublishResult> {
+  const previous = getUserRelayList();
+
+  try {
+    const validation = validateRelayPreferences(relays);
+    if (!validation.valid) {
+      return {
+        success: false,
+        publishedRelays: [],
+        failedRelays: [],
+        error: validation.errors.join(', '),
+      };
+    }
+
+    logger.info('Publishing relay list', {
+      service: 'RelayListService',
+      method: 'publishRelayList',
+      relayCount: relays.length,
+    });
+
+    const unsignedEvent = createRelayListEvent(pubkey, relays);
+    const signResult = await signEvent(unsignedEvent, signer);
+
+    if (!signResult.success || !signResult.signedEvent) {
+      return {
+        success: false,
+        publishedRelays: [],
+        failedRelays: [],
+        error: signResult.error || 'Failed to sign relay list',
+      };
+    }
+
+    // Activate before publishing so the new write relays receive the list too
+    const entry = preferencesToRelayList(pubkey, relays, signResult.signedEvent.created_at);
+    setUserRelayList(entry);
+
+    const publishResult = await publishEvent(signResult.signedEvent, signer);
+    if (publishResult.success) {
+      storeRelayList(entry);
+    } else {
+      restoreRelayList(previous, pubkey);
+      // The UI is back on the previous list - don't let the outbox publish the rejected one later
+      if (publishResult.queued) {
+        await publishOutboxService.discard(publishResult.eventId);
+      }
+    }
+
+    logger.info('Relay list publishing completed', {
+      service: 'RelayListService',
+      method: 'publishRelayList',
+      success: publishResult.success,
+      publishedRelays: publishResult.publishedRelays.length,
+    });
+
+    return {
+      success: publishResult.success,
+      eventId: publishResult.eventId,
+      publishedRelays: publishResult.publishedRelays,
+      failedRelays: publishResult.failedRelays,
+      error: publishResult.error,
+    };
+  } catch (error) {
+    restoreRelayList(previous, pubkey);
+    logger.error('Relay list publishing failed', error instanceof Error ? error : new Error(String(error)), {
+      service: 'RelayListService',
+      method: 'publishRelayList',
+    });
+    return {
+      success: false,
+      publishedRelays: [],
+      failedRelays: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Make the signed-in user's relay list the active relay set for this session.
+ * Uses the locally stored copy immediately, then refreshes it from the network.
+ */
+export async function activateUserRelayList(pubkey: string): Promise<void> {
+  const stored = loadStoredRelayList(pubkey);
+  if (stored) {
+    setUserRelayList(stored);
+  }
+
+  try {
+    const entry = await getRelayList(pubkey);
+    if (entry.createdAt > (stored?.createdAt || 0)) {
+      setUserRelayList(entry);
+      storeRelayList(entry);
+    }
+  } catch (error) {
+    logger.warn('Failed to refresh user relay list', {
+      service: 'RelayListService',
+      method: 'activateUserRelayList',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Go back to the default relays (on logout)
+ */
+export function deactivateUserRelayList(): void {
+  setUserRelayList(null);
+}
+
+function loadStoredRelayList(pubkey: string): RelayListEntry | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as RelayListEntry;
+    return entry.pubkey === pubkey && Array.isArray(entry.read) && Array.isArray(entry.write) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeRelayList(entry: RelayListEntry): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entry));
+  } catch (error) {
+    logger.warn('Failed to store relay list locally', {
+      service: 'RelayListService',
+      method: 'storeRelayList',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
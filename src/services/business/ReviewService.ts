@@ -0,0 +1,233 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import type { Order } from '@/types/order';
+import type { RatingSummary, Review, ReviewData, ReviewTarget } from '@/types/review';
+import { MAX_RATING, MAX_REVIEW_LENGTH, MIN_RATING, PURCHASE_PROOF_KIND, REVIEW_KIND } from '@/types/review';
+import { queryEvents, publishEvent } from '@/services/generic/GenericRelayService';
+import {
+  createPurchaseProofEvent,
+  createReviewEvent,
+  signEvent,
+  verifyEventSignature,
+} from '@/services/generic/GenericEventService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * ReviewService
+ * Business logic layer for product and seller reviews (Kind 31555) and the
+ * purchase proofs that mark a review as a verified purchase
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay)
+ */
+
+/**
+ * Purchase proof embedded in a review, if it shows the reviewer bought from the seller
+ * The proof must be signed by the seller, name the reviewer as buyer and,
+ * for product reviews, include the reviewed product
+ */
+function getValidPurchaseProof(
+  proofJson: string | undefined,
+  reviewerPubkey: string,
+  sellerPubkey: string,
+  productAddress?: string
+): NostrEvent | undefined {
+  if (!proofJson) return undefined;
+
+  let proof: NostrEvent;
+  try {
+    proof = JSON.parse(proofJson) as NostrEvent;
+  } catch {
+    return undefined;
+  }
+
+  if (proof.kind !== PURCHASE_PROOF_KIND || proof.pubkey !== sellerPubkey) return undefined;
+  if (!proof.tags?.some(t => t[0] === 'p' && t[1] === reviewerPubkey)) return undefined;
+  if (productAddress && !proof.tags.some(t => t[0] === 'a' && t[1] === productAddress)) return undefined;
+
+  return verifyEventSignature(proof).valid ? proof : undefined;
+}
+
+/**
+ * Parse a Kind 31555 review event, or null when it is malformed
+ */
+export function parseReview(event: NostrEvent): Review | null {
+  if (event.kind !== REVIEW_KIND) return null;
+
+  const tag = (name: string) => event.tags.find(t => t[0] === name);
+  const sellerPubkey = tag('p')?.[1];
+  const score = Number(tag('rating')?.[1]);
+  if (!sellerPubkey || !Number.isFinite(score) || score < 0 || score > 1) return null;
+
+  const productAddress = tag('a')?.[1];
+  const purchaseProof = getValidPurchaseProof(tag('proof')?.[1], event.pubkey, sellerPubkey, productAddress);
+  const rating = Math.min(MAX_RATING, Math.max(MIN_RATING, Math.round(score * MAX_RATING)));
+
+  return {
+    id: event.id,
+    reviewerPubkey: event.pubkey,
+    sellerPubkey,
+    productAddress,
+    rating,
+    content: event.content,
+    verified: !!purchaseProof,
+    purchaseProof,
+    createdAt: event.created_at,
+  };
+}
+
+/**
+ * Average and counts for a list of reviews
+ */
+export function summarizeRatings(reviews: Review[]): RatingSummary {
+  if (reviews.length === 0) {
+    return { average: 0, count: 0, verifiedCount: 0 };
+  }
+
+  return {
+    average: reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length,
+    count: reviews.length,
+    verifiedCount: reviews.filter(review => review.verified).length,
+  };
+}
+
+/**
+ * Latest review per reviewer and target (addressable events can come back in several versions),
+ * newest first. Sellers can't review themselves.
+ */
+function toReviews(events: NostrEvent[]): Review[] {
+  const latest = new Map<string, Review>();
+
+  for (const event of events) {
+    const review = parseReview(event);
+    if (!review || review.reviewerPubkey === review.sellerPubkey) continue;
+
+    const key = `${review.reviewerPubkey}:${review.productAddress || `p:${review.sellerPubkey}`}`;
+    const existing = latest.get(key);
+    if (!existing || existing.createdAt < review.createdAt) {
+      latest.set(key, review);
+    }
+  }
+
+  return [...latest.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function queryReviews(filter: Record<string, unknown>, method: string): Promise<Review[]> {
+  const queryResult = await queryEvents([{ kinds: [REVIEW_KIND], ...filter }]);
+
+  if (!queryResult.success) {
+    throw new AppError(
+      queryResult.error || 'Failed to fetch reviews',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.LOW
+    );
+  }
+
+  const reviews = toReviews(queryResult.events);
+
+  logger.info('Reviews fetched', {
+    service: 'ReviewService',
+    method,
+    eventCount: queryResult.events.length,
+    reviewCount: reviews.length,
+  });
+
+  return reviews;
+}
+
+/**
+ * Reviews of a product, or all reviews of a seller (their products and the seller themselves)
+ */
+export function fetchReviews(target: ReviewTarget): Promise<Review[]> {
+  return target.type === 'product'
+    ? queryReviews({ '#a': [target.address] }, 'fetchReviews')
+    : queryReviews({ '#p': [target.sellerPubkey] }, 'fetchReviews');
+}
+
+/**
+ * Rating summaries for several products at once (product address -> summary)
+ */
+export async function fetchProductRatings(addresses: string[]): Promise<Record<string, RatingSummary>> {
+  if (addresses.length === 0) return {};
+
+  const reviews = await queryReviews({ '#a': addresses }, 'fetchProductRatings');
+  return Object.fromEntries(
+    addresses.map(address => [address, summarizeRatings(reviews.filter(review => review.productAddress === address))])
+  );
+}
+
+/**
+ * Publish (or replace) the user's review of a product or seller
+ */
+export async function publishReview(
+  review: ReviewData,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; review?: Review; error?: string }> {
+  if (review.target.sellerPubkey === userPubkey) {
+    return { success: false, error: 'You cannot review your own listings' };
+  }
+  if (!Number.isInteger(review.rating) || review.rating < MIN_RATING || review.rating > MAX_RATING) {
+    return { success: false, error: `Rating must be between ${MIN_RATING} and ${MAX_RATING} stars` };
+  }
+  if (review.content.length > MAX_REVIEW_LENGTH) {
+    return { success: false, error: `Review must be ${MAX_REVIEW_LENGTH} characters or less` };
+  }
+
+  try {
+    const signResult = await signEvent(createReviewEvent({ ...review, content: review.content.trim() }, userPubkey), signer);
+    if (!signResult.success || !signResult.signedEvent) {
+      return { success: false, error: signResult.error || 'Failed to sign review' };
+    }
+
+    const publishResult = await publishEvent(signResult.signedEvent, signer);
+
+    logger.info('Review published', {
+      service: 'ReviewService',
+      method: 'publishReview',
+      targetType: review.target.type,
+      rating: review.rating,
+      verified: !!review.purchaseProof,
+      success: publishResult.success,
+    });
+
+    return {
+      success: publishResult.success,
+      review: publishResult.success ? parseReview(signResult.signedEvent) ?? undefined : undefined,
+      error: publishResult.error,
+    };
+  } catch (error) {
+    logger.error('Failed to publish review', error instanceof Error ? error : new Error(String(error)), {
+      service: 'ReviewService',
+      method: 'publishReview',
+      targetType: review.target.type,
+    });
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Seller: sign the purchase proof for a completed order
+ */
+export async function createPurchaseProof(order: Order, signer: NostrSigner): Promise<NostrEvent> {
+  const addresses = order.items.map(item => item.address).filter((address): address is string => !!address);
+  const signResult = await signEvent(
+    createPurchaseProofEvent(order.id, order.buyerPubkey, addresses, order.sellerPubkey),
+    signer
+  );
+
+  if (!signResult.success || !signResult.signedEvent) {
+    throw new AppError(
+      signResult.error || 'Failed to sign purchase proof',
+      ErrorCode.SIGNER_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.AUTHENTICATION,
+      ErrorSeverity.MEDIUM,
+      { orderId: order.id }
+    );
+  }
+
+  return signResult.signedEvent;
+}
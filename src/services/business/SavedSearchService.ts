@@ -0,0 +1,198 @@
+import type { NostrSigner } from '@/types/nostr';
+import type { ExchangeRates } from '@/types/exchange-rate';
+import type { ProductExploreItem } from '@/types/shop';
+import { shipsToCountry } from '@/types/shop';
+import type { SavedSearch, SavedSearchCriteria, SavedSearchScope, SavedSearchSettings } from '@/types/saved-search';
+import { MAX_SAVED_SEARCH_NAME_LENGTH } from '@/types/saved-search';
+import { subscribeToEvents } from '@/services/generic/GenericRelayService';
+import { fetchSettings, saveSettings } from './SettingsService';
+import { getHourlyEquivalent, parseWorkExploreItem, type WorkExploreItem } from './WorkService';
+import { parseProductExploreItem } from './ShopService';
+import { convertAmount } from './ExchangeRateService';
+import { getCountryById } from '@/config/contributions';
+import { logger } from '@/services/core/LoggingService';
+import { isExpired } from '@/utils/dateUtils';
+
+/**
+ * SavedSearchService
+ * Business logic layer for saved Work and Shop searches: matching listings against
+ * saved criteria, syncing the list through the encrypted NIP-78 settings event
+ * ("savedSearches" section) and watching relays for new matching listings.
+ * Layer: Business Service
+ * Dependencies: SettingsService (NIP-78 settings), WorkService / ShopService (listing parsing), GenericRelayService (live subscription)
+ */
+
+const SYSTEM_TAGS: Record<SavedSearchScope, string> = {
+  work: 'nostr-for-nomads-work',
+  shop: 'nostr-for-nomads-shop',
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * New saved search, checked as of now so only later listings count as new
+ */
+export function createSavedSearch(scope: SavedSearchScope, name: string, criteria: SavedSearchCriteria): SavedSearch {
+  const createdAt = now();
+  return {
+    id: `${scope}-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    scope,
+    name: name.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH) || describeSavedSearch(criteria),
+    criteria,
+    createdAt,
+    lastCheckedAt: createdAt,
+  };
+}
+
+/**
+ * Short criteria summary: "“rust” · development · europe · 50-100 USD"
+ */
+export function describeSavedSearch(criteria: SavedSearchCriteria): string {
+  const { minAmount, maxAmount, currency } = criteria;
+  const amount = minAmount !== null && maxAmount !== null
+    ? `${minAmount}-${maxAmount} ${currency}`
+    : minAmount !== null
+      ? `from ${minAmount} ${currency}`
+      : maxAmount !== null
+        ? `up to ${maxAmount} ${currency}`
+        : '';
+
+  const parts = [
+    criteria.keywords.trim() && `“${criteria.keywords.trim()}”`,
+    criteria.category,
+    criteria.region,
+    criteria.country && (getCountryById(criteria.country)?.name ?? criteria.country),
+    amount,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All listings';
+}
+
+function inAmountRange(amount: number | null, criteria: SavedSearchCriteria): boolean {
+  if (criteria.minAmount === null && criteria.maxAmount === null) return true;
+  if (amount === null) return false;
+  return (criteria.minAmount === null || amount >= criteria.minAmount) &&
+    (criteria.maxAmount === null || amount <= criteria.maxAmount);
+}
+
+function matchesKeywords(keywords: string, fields: string[]): boolean {
+  const term = keywords.trim().toLowerCase();
+  return !term || fields.some(field => field.toLowerCase().includes(term));
+}
+
+/**
+ * Whether a work opportunity matches the criteria (pay compares as hourly equivalent)
+ */
+export function matchesWorkSearch(
+  item: WorkExploreItem,
+  criteria: SavedSearchCriteria,
+  rates: ExchangeRates | null
+): boolean {
+  return matchesKeywords(criteria.keywords, [item.name, item.description, item.location, item.category, ...item.tags]) &&
+    (!criteria.category || item.category === criteria.category) &&
+    (!criteria.region || item.region === criteria.region) &&
+    (!criteria.country || item.country === criteria.country) &&
+    inAmountRange(getHourlyEquivalent(item.compensation, criteria.currency, rates), criteria);
+}
+
+/**
+ * Whether a product matches the criteria (country means the product ships there)
+ */
+export function matchesShopSearch(
+  item: ProductExploreItem,
+  criteria: SavedSearchCriteria,
+  rates: ExchangeRates | null
+): boolean {
+  const country = criteria.country ? getCountryById(criteria.country) : undefined;
+  return matchesKeywords(criteria.keywords, [item.title, item.description, item.location, item.category, ...item.tags]) &&
+    (!criteria.category || item.category === criteria.category) &&
+    (!country || shipsToCountry(item, country)) &&
+    inAmountRange(convertAmount(item.price, item.currency, criteria.currency, rates), criteria);
+}
+
+function isSavedSearch(value: unknown): value is SavedSearch {
+  const search = value as SavedSearch;
+  return !!search && typeof search.id === 'string' && (search.scope === 'work' || search.scope === 'shop') &&
+    typeof search.name === 'string' && !!search.criteria && typeof search.lastCheckedAt === 'number';
+}
+
+/**
+ * Load the saved searches section of the user's settings (null when never synced)
+ */
+export async function loadRemoteSavedSearches(
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<SavedSearchSettings | null> {
+  const { settings } = await fetchSettings(userPubkey, signer);
+  const section = settings.savedSearches as Partial<SavedSearchSettings> | undefined;
+
+  if (!section || !Array.isArray(section.searches) || typeof section.updatedAt !== 'number') {
+    return null;
+  }
+
+  return { searches: section.searches.filter(isSavedSearch), updatedAt: section.updatedAt };
+}
+
+/**
+ * Save the saved searches section of the user's settings
+ */
+export async function saveRemoteSavedSearches(
+  savedSearches: SavedSearchSettings,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  logger.info('Syncing saved searches', {
+    service: 'SavedSearchService',
+    method: 'saveRemoteSavedSearches',
+    searchCount: savedSearches.searches.length,
+  });
+
+  return saveSettings({ savedSearches }, userPubkey, signer);
+}
+
+/**
+ * Listen for listings published after each search was last checked - returns an unsubscribe function
+ * onMatch receives the search id and the listing's NIP-33 address (stable across edits)
+ */
+export function subscribeToSavedSearchMatches(
+  searches: SavedSearch[],
+  rates: ExchangeRates | null,
+  onMatch: (searchId: string, address: string) => void,
+  ownPubkey?: string
+): () => void {
+  if (searches.length === 0) {
+    return () => {};
+  }
+
+  const scopes = [...new Set(searches.map(search => search.scope))];
+  const since = Math.min(...searches.map(search => search.lastCheckedAt));
+
+  logger.info('Watching for saved search matches', {
+    service: 'SavedSearchService',
+    method: 'subscribeToSavedSearchMatches',
+    searchCount: searches.length,
+    scopes,
+    since,
+  });
+
+  return subscribeToEvents(
+    [{ kinds: [30023], '#t': scopes.map(scope => SYSTEM_TAGS[scope]), since }],
+    event => {
+      if (event.pubkey === ownPubkey) return;
+      const isWork = event.tags.some(tag => tag[0] === 't' && tag[1] === SYSTEM_TAGS.work);
+      const work = isWork ? parseWorkExploreItem(event) : null;
+      const product = isWork ? null : parseProductExploreItem(event);
+      const listing = work ?? product;
+      if (!listing || isExpired(listing.expiresAt)) return;
+
+      const address = `${event.kind}:${event.pubkey}:${listing.dTag}`;
+      for (const search of searches) {
+        if (event.created_at <= search.lastCheckedAt) continue;
+        const matches = work
+          ? search.scope === 'work' && matchesWorkSearch(work, search.criteria, rates)
+          : search.scope === 'shop' && !!product && matchesShopSearch(product, search.criteria, rates);
+        if (matches) onMatch(search.id, address);
+      }
+    }
+  );
+}
@@ -0,0 +1,163 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import { queryEvents, publishEvent } from '@/services/generic/GenericRelayService';
+import { signEvent } from '@/services/generic/GenericEventService';
+import { EncryptionService } from '@/services/generic/EncryptionService';
+import { nostrEventService } from '@/services/nostr/NostrEventService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * SettingsService
+ * Business logic layer for the user's private app settings: the single NIP-78
+ * event (Kind 30078, d='nostr-for-nomads-settings') holding one section per
+ * feature (cart, saved searches, ...). The content is NIP-44 encrypted to the
+ * user's own key so only their devices can read it.
+ * Layer: Business Service
+ * Dependencies: GenericRelayService (Relay), GenericEventService (Event), EncryptionService
+ */
+
+const SETTINGS_D_TAG = 'nostr-for-nomads-settings';
+
+// Saves run one at a time so each merges onto the event the previous one published
+let saveQueue: Promise<unknown> = Promise.resolve();
+
+export type AppSettings = Record<string, unknown>;
+
+export interface SettingsSnapshot {
+  settings: AppSettings;
+  createdAt: number; // Settings event created_at (0 when none published yet)
+}
+
+function requireEncryption(signer: NostrSigner): void {
+  if (!signer.nip44) {
+    throw new AppError(
+      'Your signer does not support NIP-44 encryption, settings stay on this device',
+      ErrorCode.SIGNER_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.AUTHENTICATION,
+      ErrorSeverity.LOW
+    );
+  }
+}
+
+async function parseSettingsEvent(event: NostrEvent, signer: NostrSigner): Promise<AppSettings> {
+  // Settings written before encryption was added are plain JSON
+  let json = event.content;
+  if (!json.trimStart().startsWith('{')) {
+    json = await EncryptionService.decryptWithSigner(signer, event.pubkey, event.content);
+  }
+
+  const parsed = JSON.parse(json) as { data?: AppSettings };
+  return parsed.data && typeof parsed.data === 'object' ? parsed.data : {};
+}
+
+/**
+ * Fetch and decrypt the latest settings event
+ * Always asks the relays (not the local event store): every feature section is
+ * merged onto this copy, so a stale one would overwrite other devices' changes.
+ */
+export async function fetchSettings(userPubkey: string, signer: NostrSigner): Promise<SettingsSnapshot> {
+  requireEncryption(signer);
+
+  const queryResult = await queryEvents(
+    [{ kinds: [30078], authors: [userPubkey], '#d': [SETTINGS_D_TAG] }],
+    undefined,
+    { bypassCache: true }
+  );
+
+  // No relay answering is not the same as no settings - never merge onto an empty copy
+  if (!queryResult.success || queryResult.relayCount === 0) {
+    throw new AppError(
+      queryResult.error || 'Failed to fetch settings',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.LOW
+    );
+  }
+
+  const latest = queryResult.events
+    .filter(event => event.pubkey === userPubkey)
+    .sort((a, b) => b.created_at - a.created_at)[0];
+
+  if (!latest) {
+    return { settings: {}, createdAt: 0 };
+  }
+
+  return { settings: await parseSettingsEvent(latest, signer), createdAt: latest.created_at };
+}
+
+/**
+ * Update one or more feature sections, keeping the others as last published
+ * Queued behind any save still in progress
+ */
+export function saveSettings(
+  sections: AppSettings,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  return enqueueSave(Object.keys(sections), current => ({ ...current, ...sections }), userPubkey, signer);
+}
+
+/**
+ * Rewrite one section from its latest published value (e.g. add to or remove from a list)
+ * Queued like saveSettings, so the update always sees the previous save's result
+ */
+export function updateSettingsSection(
+  section: string,
+  update: (current: unknown) => unknown,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  return enqueueSave([section], current => ({ ...current, [section]: update(current[section]) }), userPubkey, signer);
+}
+
+function enqueueSave(
+  sections: string[],
+  merge: (current: AppSettings) => AppSettings,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  const result = saveQueue.then(() => mergeAndPublishSettings(sections, merge, userPubkey, signer));
+  saveQueue = result;
+  return result;
+}
+
+async function mergeAndPublishSettings(
+  sections: string[],
+  merge: (current: AppSettings) => AppSettings,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const current = await fetchSettings(userPubkey, signer);
+    const merged = merge(current.settings);
+
+    const unsignedEvent = nostrEventService.createSettingsEvent(merged, userPubkey);
+    unsignedEvent.content = await EncryptionService.encryptWithSigner(signer, userPubkey, unsignedEvent.content);
+
+    const signResult = await signEvent(unsignedEvent, signer);
+    if (!signResult.success || !signResult.signedEvent) {
+      return { success: false, error: signResult.error || 'Failed to sign settings' };
+    }
+
+    const publishResult = await publishEvent(signResult.signedEvent, signer);
+
+    logger.info('Settings saved', {
+      service: 'SettingsService',
+      method: 'mergeAndPublishSettings',
+      sections,
+      success: publishResult.success,
+    });
+
+    return { success: publishResult.success, error: publishResult.error };
+  } catch (error) {
+    logger.error('Failed to save settings', error instanceof Error ? error : new Error(String(error)), {
+      service: 'SettingsService',
+      method: 'mergeAndPublishSettings',
+      sections,
+    });
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -3,20 +3,46 @@ import { BaseContentProvider } from './BaseContentProvider';
 import { queryEvents } from '../generic/GenericRelayService';
 import type { ContentDetailResult, ContentMeta } from '@/types/content-detail';
 import type { ContentMediaItem } from '@/types/content-media';
+import type {
+  ProductAvailability,
+  ProductDeliverable,
+  ProductDeliveryMethod,
+  ProductEvent,
+  ProductKind,
+  ProductVariant,
+  ShippingZone,
+} from '@/types/shop';
+import { getProductAvailability } from '@/types/shop';
+import { PRODUCT_AVAILABILITY } from '@/config/shop';
+import { extractDelivery, extractInventory } from '../generic/GenericShopService';
+import { getEventExpiration } from '../generic/GenericEventService';
+import { fetchMarketplaceProductById } from './MarketplaceInteropService';
 
 /**
  * Custom fields for shop products
  */
 export interface ShopCustomFields {
+  kind: ProductKind;
   price: number;
   currency: string;
   category: string;
   condition: string;
   location: string;
   contact: string;
+  availability: ProductAvailability;
+  quantity: number | null;
+  variants: ProductVariant[];
+  deliveryMethods: ProductDeliveryMethod[];
+  shippingZones: ShippingZone[];
+  deliverable: ProductDeliverable | null;
+  expiresAt: number | null; // NIP-40 expiration
   [key: string]: unknown;
 }
 
+function getAvailabilityLabel(availability: ProductAvailability): string {
+  return PRODUCT_AVAILABILITY.find(option => option.id === availability)?.name || availability;
+}
+
 /**
  * Service for fetching shop product content details from Nostr relays
  * Extends BaseContentProvider to provide product-specific content fetching
@@ -65,6 +91,12 @@ class ShopContentService extends BaseContentProvider<ShopCustomFields> {
       const queryResult = await queryEvents(filters);
 
       if (!queryResult.success || !queryResult.events || queryResult.events.length === 0) {
+        // Not a native listing - may be a NIP-99 / NIP-15 listing, linked by its kind:pubkey:d address
+        const marketplaceProduct = await fetchMarketplaceProductById(id);
+        if (marketplaceProduct) {
+          return this.buildMarketplaceDetail(marketplaceProduct);
+        }
+
         logger.warn('Product not found', {
           service: 'ShopContentService',
           method: 'getContentDetail',
@@ -92,6 +124,7 @@ class ShopContentService extends BaseContentProvider<ShopCustomFields> {
       const condition = tagsMap.get('condition') || 'used';
       const location = tagsMap.get('location') || '';
       const contact = tagsMap.get('contact') || '';
+      const inventory = extractInventory(event.tags);
 
       // Parse price
       let price = 0;
@@ -167,6 +200,7 @@ class ShopContentService extends BaseContentProvider<ShopCustomFields> {
         { label: 'Category', value: category },
         { label: 'Condition', value: condition },
         { label: 'Location', value: location },
+        { label: 'Availability', value: getAvailabilityLabel(getProductAvailability(inventory)) },
       ];
 
       logger.info('Product content detail fetched successfully', {
@@ -178,12 +212,16 @@ class ShopContentService extends BaseContentProvider<ShopCustomFields> {
 
       // Custom fields for product-specific data
       const customFields: ShopCustomFields = {
+        kind: 30023,
         price,
         currency,
         category,
         condition,
         location,
         contact,
+        ...inventory,
+        ...extractDelivery(event.tags),
+        expiresAt: getEventExpiration(event.tags),
       };
 
       return {
@@ -236,6 +274,85 @@ class ShopContentService extends BaseContentProvider<ShopCustomFields> {
       };
     }
   }
+
+  /**
+   * Content detail for a NIP-99 / NIP-15 listing published by another marketplace client
+   */
+  private async buildMarketplaceDetail(product: ProductEvent): Promise<ContentDetailResult<ShopCustomFields>> {
+    const media: ContentMediaItem[] = [
+      ...product.media.images.map(image => ({ type: 'image' as const, source: image })),
+      ...product.media.videos.map(video => ({ type: 'video' as const, source: video })),
+      ...product.media.audio.map(audio => ({ type: 'audio' as const, source: audio })),
+    ].map(item => ({
+      id: `${item.source.hash || item.source.url}-${product.createdAt}`,
+      type: item.type,
+      source: { url: item.source.url, mimeType: item.source.mimeType, hash: item.source.hash, size: item.source.size },
+    }));
+
+    logger.info('Marketplace product content detail fetched', {
+      service: 'ShopContentService',
+      method: 'buildMarketplaceDetail',
+      productId: product.dTag,
+      kind: product.kind,
+    });
+
+    return {
+      success: true,
+      content: {
+        id: product.id,
+        title: product.title,
+        description: product.description,
+        summary: product.summary,
+        publishedAt: product.publishedAt,
+        updatedAt: product.createdAt,
+        author: {
+          pubkey: product.pubkey,
+          npub: this.tryGetNpub(product.pubkey),
+          displayName: await this.tryGetAuthorDisplayName(product.pubkey),
+        },
+        tags: product.tags,
+        media,
+        contentType: 'shop',
+        customFields: {
+          kind: product.kind,
+          price: product.price,
+          currency: product.currency,
+          category: product.category,
+          condition: product.condition,
+          location: product.location,
+          contact: product.contact,
+          availability: product.availability,
+          quantity: product.quantity,
+          variants: product.variants,
+          deliveryMethods: product.deliveryMethods,
+          shippingZones: product.shippingZones,
+          deliverable: product.deliverable,
+          expiresAt: product.expiresAt,
+        },
+        meta: [
+          { label: 'Price', value: `${product.price} ${product.currency}` },
+          { label: 'Category', value: product.category },
+          { label: 'Condition', value: product.condition },
+          { label: 'Location', value: product.location },
+          { label: 'Availability', value: getAvailabilityLabel(getProductAvailability(product)) },
+        ],
+        actions: [
+          {
+            id: 'contact-seller',
+            label: 'Contact Seller',
+            type: 'primary',
+            metadata: {
+              sellerPubkey: product.pubkey,
+              productId: product.dTag,
+              productTitle: product.title,
+              productImageUrl: media[0]?.source.url,
+              contact: product.contact,
+            },
+          },
+        ],
+      },
+    };
+  }
 }
 
 export const shopContentService = ShopContentService.getInstance();
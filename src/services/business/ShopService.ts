@@ -1,12 +1,24 @@
 import { logger } from '@/services/core/LoggingService';
 import type { ProductData, ProductPublishingProgress, ProductEvent, ProductExploreItem, UpdateProductResult } from '@/types/shop';
+import { getProductAvailability } from '@/types/shop';
 import { validateProductData } from './ProductValidationService';
 import { nostrEventService } from '../nostr/NostrEventService';
 import type { NostrSigner, NostrEvent, NIP23Event } from '@/types/nostr';
 import { uploadSequentialWithConsent } from '@/services/generic/GenericBlossomService';
-import { fetchPublicProducts as fetchPublicProductsFromRelay, extractMedia } from '@/services/generic/GenericShopService';
+import { fetchPublicProducts as fetchPublicProductsFromRelay, extractDelivery, extractInventory, extractMedia } from '@/services/generic/GenericShopService';
 import { queryEvents } from '@/services/generic/GenericRelayService';
-import { createDeletionEvent, signEvent } from '@/services/generic/GenericEventService';
+import { createDeletionEvent, getEventExpiration, signEvent } from '@/services/generic/GenericEventService';
+import {
+  createMarketplaceListing,
+  fetchMarketplaceProductById,
+  fetchMarketplaceProducts,
+  fetchMarketplaceProductsBySeller,
+  getMarketplaceAddresses,
+  parseMarketplaceEvents,
+  publishMarketplaceListing,
+} from './MarketplaceInteropService';
+import { renewListing } from './ListingRenewalService';
+import { isExpired } from '@/utils/dateUtils';
 
 export interface RelayProgress {
   step: string;
@@ -240,6 +252,19 @@ export async function createProduct(
       };
     }
 
+    // Mirror to NIP-99 / NIP-15 marketplace clients (best effort)
+    onProgress?.({
+      step: 'publishing',
+      progress: 95,
+      message: 'Sharing with other Nostr marketplaces...',
+      details: 'NIP-99 classified + NIP-15 stall product',
+    });
+
+    await publishMarketplaceListing(
+      createMarketplaceListing(dataWithAttachments, dTag, event.created_at),
+      signer
+    );
+
     // Step 5: Complete
     onProgress?.({
       step: 'complete',
@@ -288,10 +313,12 @@ export async function createProduct(
  * Business layer method for querying user's own products
  * 
  * @param pubkey - Author's public key
- * @returns Array of product events authored by this user
+ * @param onProgress - Optional callback for relay query progress
+ * @returns Array of product events authored by this user (expired ones included)
  */
 export async function fetchProductsByAuthor(
-  pubkey: string
+  pubkey: string,
+  onProgress?: (progress: RelayProgress) => void
 ): Promise<ProductEvent[]> {
   try {
     logger.info('Fetching products by author', {
@@ -306,7 +333,7 @@ export async function fetchProductsByAuthor(
       '#t': ['nostr-for-nomads-shop'],
     };
 
-    const queryResult = await queryEvents([filter]);
+    const queryResult = await queryEvents([filter], onProgress);
     
     if (!queryResult.success || !queryResult.events || queryResult.events.length === 0) {
       return [];
@@ -376,7 +403,8 @@ export async function fetchProductById(
     const queryResult = await queryEvents(filters);
     
     if (!queryResult.success || !queryResult.events || queryResult.events.length === 0) {
-      return null;
+      // Not a native listing - may be a NIP-99 / NIP-15 listing, linked by its kind:pubkey:d address
+      return fetchMarketplaceProductById(dTag);
     }
 
     // Get most recent (NIP-33 replaceable)
@@ -401,6 +429,82 @@ export async function fetchProductById(
   }
 }
 
+/**
+ * Fetch the latest version of several products by NIP-33 address ("<kind>:<pubkey>:<d tag>")
+ * Used to revalidate cart items, so it always asks the relays instead of the local event store
+ * Addresses with no (undeleted) product are missing from the map
+ *
+ * @param addresses - Product addresses (native, NIP-99 or NIP-15)
+ * @returns Map of address -> latest product
+ */
+export async function fetchProductsByAddress(
+  addresses: string[]
+): Promise<Map<string, ProductEvent>> {
+  const products = new Map<string, ProductEvent>();
+  if (addresses.length === 0) return products;
+
+  try {
+    // One filter per kind + seller keeps author + d-tag pairs together
+    const dTagsByKindAndSeller = new Map<string, { kind: number; pubkey: string; dTags: string[] }>();
+    for (const address of addresses) {
+      const [kind, pubkey, ...dTagParts] = address.split(':');
+      const dTag = dTagParts.join(':');
+      if (!kind || !pubkey || !dTag) continue;
+      const key = `${kind}:${pubkey}`;
+      const entry = dTagsByKindAndSeller.get(key) || { kind: parseInt(kind, 10), pubkey, dTags: [] };
+      entry.dTags.push(dTag);
+      dTagsByKindAndSeller.set(key, entry);
+    }
+
+    const filters = Array.from(dTagsByKindAndSeller.values()).map(({ kind, pubkey, dTags }) => ({
+      kinds: [kind],
+      authors: [pubkey],
+      '#d': dTags,
+    }));
+
+    let queryResult = await queryEvents(filters, undefined, { bypassCache: true });
+    if (queryResult.success && queryResult.relayCount === 0) {
+      // Offline - the stored copies beat marking every item unavailable
+      queryResult = await queryEvents(filters);
+    }
+    if (!queryResult.success) {
+      return products;
+    }
+
+    const parsedProducts = [
+      ...queryResult.events
+        .filter(event => event.kind === 30023)
+        .map(parseProductEvent)
+        .filter((product): product is ProductEvent => product !== null),
+      ...await parseMarketplaceEvents(queryResult.events),
+    ];
+
+    for (const parsed of parsedProducts) {
+      const address = `${parsed.kind}:${parsed.pubkey}:${parsed.dTag}`;
+      const existing = products.get(address);
+      if (addresses.includes(address) && (!existing || parsed.createdAt > existing.createdAt)) {
+        products.set(address, parsed);
+      }
+    }
+
+    logger.info('Products fetched by address', {
+      service: 'ShopService',
+      method: 'fetchProductsByAddress',
+      requested: addresses.length,
+      found: products.size,
+    });
+
+    return products;
+  } catch (error) {
+    logger.error('Failed to fetch products by address', error as Error, {
+      service: 'ShopService',
+      method: 'fetchProductsByAddress',
+      count: addresses.length,
+    });
+    return products;
+  }
+}
+
 /**
  * Delete a product by publishing NIP-09 deletion event
  * Business layer method for deleting user's own product
@@ -409,13 +513,15 @@ export async function fetchProductById(
  * @param signer - Nostr signer
  * @param pubkey - Author's public key
  * @param title - Product title (for deletion reason)
+ * @param dTag - Product dTag (also deletes its NIP-99 / NIP-15 marketplace mirrors)
  * @returns Result with success status and relay publishing info
  */
 export async function deleteProduct(
   eventId: string,
   signer: NostrSigner,
   pubkey: string,
-  title: string
+  title: string,
+  dTag?: string
 ): Promise<{ success: boolean; publishedRelays?: string[]; failedRelays?: string[]; error?: string }> {
   try {
     logger.info('Deleting product', {
@@ -430,6 +536,7 @@ export async function deleteProduct(
       pubkey,
       {
         reason: `Deleted product: ${title}`,
+        additionalTags: dTag ? getMarketplaceAddresses(pubkey, dTag).map(address => ['a', address]) : [],
       }
     );
 
@@ -690,6 +797,13 @@ export async function updateProductWithAttachments(
       updatedProductData.currency !== originalProduct.currency ||
       updatedProductData.location !== originalProduct.location ||
       updatedProductData.contact !== originalProduct.contact ||
+      updatedProductData.availability !== originalProduct.availability ||
+      updatedProductData.quantity !== originalProduct.quantity ||
+      JSON.stringify(updatedProductData.variants) !== JSON.stringify(originalProduct.variants) ||
+      JSON.stringify(updatedProductData.deliveryMethods) !== JSON.stringify(originalProduct.deliveryMethods) ||
+      JSON.stringify(updatedProductData.shippingZones) !== JSON.stringify(originalProduct.shippingZones) ||
+      updatedProductData.deliverable?.hash !== originalProduct.deliverable?.hash ||
+      updatedProductData.expiresAt !== originalProduct.expiresAt ||
       JSON.stringify(updatedProductData.tags) !== JSON.stringify(originalProduct.tags);
 
     const hasAttachmentChanges =
@@ -783,6 +897,12 @@ export async function updateProductWithAttachments(
       };
     }
 
+    // Keep the NIP-99 / NIP-15 mirrors in step with the listing (best effort)
+    await publishMarketplaceListing(
+      createMarketplaceListing(productDataWithAttachments, dTag, originalProduct.publishedAt),
+      signer
+    );
+
     onProgress?.({
       step: 'complete',
       progress: 100,
@@ -837,6 +957,7 @@ export async function updateProductWithAttachments(
 function mapToExploreItem(event: ProductEvent): ProductExploreItem {
   return {
     id: event.id,
+    kind: event.kind,
     dTag: event.dTag,
     title: event.title,
     description: event.description,
@@ -845,16 +966,29 @@ function mapToExploreItem(event: ProductEvent): ProductExploreItem {
     category: event.category,
     condition: event.condition,
     location: event.location,
+    availability: getProductAvailability(event),
+    deliveryMethods: event.deliveryMethods,
+    shippingZones: event.shippingZones,
     imageUrl: event.media.images[0]?.url, // Extract first image URL
     tags: event.tags,
     pubkey: event.pubkey,
     createdAt: event.createdAt,
+    expiresAt: event.expiresAt,
   };
 }
 
+/**
+ * Parse a native shop listing event (e.g. from a live subscription) into an explore item
+ */
+export function parseProductExploreItem(event: NostrEvent): ProductExploreItem | null {
+  const product = parseProductEvent(event);
+  return product ? mapToExploreItem(product) : null;
+}
+
 /**
  * Fetch public products for shop/listing view
  * Business layer method that orchestrates fetching and data transformation
+ * Merges native listings with NIP-99 / NIP-15 listings from other marketplace clients
  * 
  * @param limit - Maximum number of products to fetch
  * @param until - Optional timestamp for pagination
@@ -874,7 +1008,15 @@ export async function fetchPublicProducts(
       until,
     });
 
-    const products = await fetchPublicProductsFromRelay(limit, until, onProgress);
+    const [nativeProducts, marketplaceProducts] = await Promise.all([
+      fetchPublicProductsFromRelay(limit, until, onProgress),
+      fetchMarketplaceProducts(limit, until),
+    ]);
+
+    // Newest first across both sources; trimming to the limit keeps `until` pagination gap-free
+    const products = [...nativeProducts, ...marketplaceProducts]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
     
     // Map events to explore items using transformation function
     const exploreItems = products.map(mapToExploreItem);
@@ -883,6 +1025,8 @@ export async function fetchPublicProducts(
       service: 'ShopService',
       method: 'fetchPublicProducts',
       count: exploreItems.length,
+      nativeCount: nativeProducts.length,
+      marketplaceCount: marketplaceProducts.length,
     });
 
     return exploreItems;
@@ -895,6 +1039,66 @@ export async function fetchPublicProducts(
   }
 }
 
+/**
+ * Fetch the user's own products for My Shop, expired listings included
+ * 
+ * @param pubkey - User's public key
+ * @param onProgress - Optional callback for relay query progress
+ * @returns Product explore items, newest first
+ */
+export async function fetchMyProducts(
+  pubkey: string,
+  onProgress?: (progress: RelayProgress) => void
+): Promise<ProductExploreItem[]> {
+  const products = await fetchProductsByAuthor(pubkey, onProgress);
+
+  return products
+    .map(mapToExploreItem)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Fetch a seller's active products for their storefront, including their
+ * NIP-99 / NIP-15 listings from other marketplace clients
+ * Sold-out and expired listings are left out; reserved ones stay visible
+ * 
+ * @param pubkey - Seller's public key
+ * @returns Product explore items, newest first
+ */
+export async function fetchSellerProducts(pubkey: string): Promise<ProductExploreItem[]> {
+  const [nativeProducts, marketplaceProducts] = await Promise.all([
+    fetchProductsByAuthor(pubkey),
+    fetchMarketplaceProductsBySeller(pubkey),
+  ]);
+
+  return [...nativeProducts, ...marketplaceProducts]
+    .map(mapToExploreItem)
+    .filter(item => item.availability !== 'sold-out' && !isExpired(item.expiresAt))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Renew a product: republish it (and its NIP-99 / NIP-15 mirrors) with a
+ * fresh created_at and a new NIP-40 expiration
+ * 
+ * @param dTag - Product dTag
+ * @param signer - Nostr signer of the product author
+ * @returns Result with the renewed product
+ */
+export async function renewProduct(
+  dTag: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; product?: ProductExploreItem; error?: string }> {
+  const result = await renewListing(dTag, [30023, 30402, 30018], signer);
+  const parsed = result.event ? parseProductEvent(result.event) : null;
+
+  return {
+    success: result.success,
+    product: parsed ? mapToExploreItem(parsed) : undefined,
+    error: result.error,
+  };
+}
+
 /**
  * Parse NIP-23 event content safely
  * Handles both JSON-stringified content and plain text
@@ -985,6 +1189,7 @@ function parseProductEvent(event: NostrEvent): ProductEvent | null {
 
     return {
       id: event.id,
+      kind: 30023,
       dTag,
       pubkey: event.pubkey,
       title,
@@ -996,10 +1201,13 @@ function parseProductEvent(event: NostrEvent): ProductEvent | null {
       condition,
       location,
       contact,
+      ...extractInventory(event.tags),
+      ...extractDelivery(event.tags),
       tags,
       media,
       createdAt: event.created_at,
       publishedAt: event.created_at,
+      expiresAt: getEventExpiration(event.tags),
     };
   } catch (error) {
     logger.error('Failed to parse product event', error as Error, {
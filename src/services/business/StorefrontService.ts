@@ -0,0 +1,51 @@
+import type { ProductExploreItem } from '@/types/shop';
+import { profileService, type UserProfile } from './ProfileBusinessService';
+import { fetchSellerProducts } from './ShopService';
+import { verifyNIP05 } from '@/utils/nip05';
+import { encodeNpub } from '@/utils/keyManagement';
+import { logger } from '@/services/core/LoggingService';
+
+/**
+ * StorefrontService
+ * Business logic layer for public seller storefronts (/shop/seller/[npub]):
+ * the seller's Kind 0 profile, NIP-05 status and active products
+ * Layer: Business Service
+ * Dependencies: ProfileBusinessService (profiles), ShopService (products)
+ */
+
+export interface SellerStorefront {
+  pubkey: string;
+  profile: UserProfile | null;
+  nip05Verified: boolean;
+  products: ProductExploreItem[];
+}
+
+/**
+ * Storefront URL of a seller
+ */
+export function getStorefrontPath(pubkey: string): string {
+  return `/shop/seller/${encodeNpub(pubkey)}`;
+}
+
+/**
+ * Load a seller's storefront
+ * Profile and products are fetched in parallel; a missing profile still shows the products
+ */
+export async function fetchStorefront(pubkey: string): Promise<SellerStorefront> {
+  const [profile, products] = await Promise.all([
+    profileService.getUserProfile(pubkey),
+    fetchSellerProducts(pubkey),
+  ]);
+  const nip05Verified = profile?.nip05 ? (await verifyNIP05(profile.nip05, pubkey)) !== null : false;
+
+  logger.info('Storefront loaded', {
+    service: 'StorefrontService',
+    method: 'fetchStorefront',
+    pubkey,
+    hasProfile: !!profile,
+    nip05Verified,
+    productCount: products.length,
+  });
+
+  return { pubkey, profile, nip05Verified, products };
+}
@@ -0,0 +1,311 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import type { ExchangeRates } from '@/types/exchange-rate';
+import type { TalentAvailability, TalentFilters, TalentProfile, TalentProfileData, TalentRate } from '@/types/talent';
+import {
+  MAX_TALENT_BIO_LENGTH,
+  MAX_TALENT_HEADLINE_LENGTH,
+  MAX_TALENT_PORTFOLIO_ITEMS,
+  TALENT_PROFILE_D_TAG,
+  TALENT_SYSTEM_TAG,
+} from '@/types/talent';
+import { queryEvents, publishEvent } from '@/services/generic/GenericRelayService';
+import { createTalentProfileEvent, signEvent } from '@/services/generic/GenericEventService';
+import { getWorkCategoryById, getWorkCurrencyById } from '@/config/work';
+import {
+  getLocalTimeZone,
+  getTalentAvailabilityById,
+  getTalentLanguageByCode,
+  getTimeZoneRegion,
+} from '@/config/talent';
+import { encodeNpub } from '@/utils/keyManagement';
+import { profileService, type UserProfile } from './ProfileBusinessService';
+import { toSats } from './ExchangeRateService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * TalentService
+ * Business logic layer for freelancer talent profiles: one replaceable Kind 30023
+ * event per user with skills (Work categories), hourly rate, languages, time zone,
+ * availability and portfolio items
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay), ProfileBusinessService (profiles)
+ */
+
+const TALENT_FETCH_LIMIT = 100;
+
+export interface TalentPage {
+  pubkey: string;
+  profile: UserProfile | null;
+  talent: TalentProfile | null;
+}
+
+/**
+ * Public talent page of a user
+ */
+export function getTalentPath(pubkey: string): string {
+  return `/talent/${encodeNpub(pubkey)}`;
+}
+
+/**
+ * Hourly rate label ("50 $/hr", "20,000 sats/hr")
+ */
+export function formatTalentRate(rate: TalentRate): string {
+  const currency = getWorkCurrencyById(rate.currency);
+  return `${rate.amount.toLocaleString()} ${currency?.symbol ?? rate.currency}/hr`;
+}
+
+/**
+ * Parse a talent profile event, or null when it is not one
+ * Unknown skills, languages and currencies are dropped
+ */
+export function parseTalentProfile(event: NostrEvent): TalentProfile | null {
+  const tag = (name: string) => event.tags.find(t => t[0] === name);
+  if (
+    event.kind !== 30023 ||
+    tag('d')?.[1] !== TALENT_PROFILE_D_TAG ||
+    !event.tags.some(t => t[0] === 't' && t[1] === TALENT_SYSTEM_TAG)
+  ) {
+    return null;
+  }
+
+  const rateTag = tag('rate');
+  const rateAmount = Number(rateTag?.[1]);
+  const rateCurrency = rateTag?.[2];
+  const availability = tag('availability')?.[1] ?? '';
+
+  return {
+    id: event.id,
+    pubkey: event.pubkey,
+    headline: tag('title')?.[1] ?? '',
+    bio: event.content,
+    skills: [...new Set(event.tags.filter(t => t[0] === 'skill' && getWorkCategoryById(t[1])).map(t => t[1]))],
+    hourlyRate: rateAmount > 0 && rateCurrency && getWorkCurrencyById(rateCurrency)
+      ? { amount: rateAmount, currency: rateCurrency as string }
+      : undefined,
+    languages: [...new Set(event.tags.filter(t => t[0] === 'language' && getTalentLanguageByCode(t[1])).map(t => t[1]))],
+    timeZone: tag('timezone')?.[1] || 'UTC',
+    availability: getTalentAvailabilityById(availability) ? (availability as TalentAvailability) : 'available',
+    portfolio: event.tags
+      .filter(t => t[0] === 'portfolio' && /^https?:\/\//.test(t[1] ?? ''))
+      .map(t => ({ url: t[1], title: t[2] || t[1], description: t[3] || undefined })),
+    createdAt: event.created_at,
+  };
+}
+
+/**
+ * Latest profile per user, newest first
+ */
+function toTalentProfiles(events: NostrEvent[]): TalentProfile[] {
+  const latest = new Map<string, TalentProfile>();
+
+  for (const event of events) {
+    const profile = parseTalentProfile(event);
+    if (!profile) continue;
+
+    const existing = latest.get(profile.pubkey);
+    if (!existing || existing.createdAt < profile.createdAt) {
+      latest.set(profile.pubkey, profile);
+    }
+  }
+
+  return [...latest.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function queryTalentProfiles(filter: Record<string, unknown>, method: string): Promise<TalentProfile[]> {
+  const queryResult = await queryEvents([{
+    kinds: [30023],
+    '#d': [TALENT_PROFILE_D_TAG],
+    '#t': [TALENT_SYSTEM_TAG],
+    ...filter,
+  }]);
+
+  if (!queryResult.success) {
+    throw new AppError(
+      queryResult.error || 'Failed to fetch talent profiles',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.LOW
+    );
+  }
+
+  const profiles = toTalentProfiles(queryResult.events);
+
+  logger.info('Talent profiles fetched', {
+    service: 'TalentService',
+    method,
+    eventCount: queryResult.events.length,
+    profileCount: profiles.length,
+  });
+
+  return profiles;
+}
+
+/**
+ * Most recently updated talent profiles
+ */
+export function fetchTalentProfiles(): Promise<TalentProfile[]> {
+  return queryTalentProfiles({ limit: TALENT_FETCH_LIMIT }, 'fetchTalentProfiles');
+}
+
+/**
+ * A user's talent profile, or null when they have none
+ */
+export async function fetchTalentProfile(pubkey: string): Promise<TalentProfile | null> {
+  const profiles = await queryTalentProfiles({ authors: [pubkey] }, 'fetchTalentProfile');
+  return profiles[0] ?? null;
+}
+
+/**
+ * Load a user's public talent page: Kind 0 profile and talent profile in parallel
+ */
+export async function fetchTalentPage(pubkey: string): Promise<TalentPage> {
+  const [profile, talent] = await Promise.all([
+    profileService.getUserProfile(pubkey),
+    fetchTalentProfile(pubkey),
+  ]);
+  return { pubkey, profile, talent };
+}
+
+/**
+ * Hourly rate in sats, or null without a rate (or an exchange rate for its currency)
+ */
+export function getHourlyRateSats(profile: TalentProfile, rates: ExchangeRates | null): number | null {
+  return profile.hourlyRate ? toSats(profile.hourlyRate.amount, profile.hourlyRate.currency, rates) : null;
+}
+
+/**
+ * Apply the browse filters and sort order
+ * Rates in different currencies are compared in sats; profiles without a comparable rate sort last.
+ */
+export function filterTalentProfiles(
+  profiles: TalentProfile[],
+  filters: TalentFilters,
+  rates: ExchangeRates | null
+): TalentProfile[] {
+  const term = filters.searchTerm.trim().toLowerCase();
+
+  const filtered = profiles.filter(profile =>
+    (!term ||
+      profile.headline.toLowerCase().includes(term) ||
+      profile.bio.toLowerCase().includes(term) ||
+      profile.skills.some(skill => getWorkCategoryById(skill)?.name.toLowerCase().includes(term))) &&
+    (filters.skill === 'all' || profile.skills.includes(filters.skill)) &&
+    (filters.language === 'all' || profile.languages.includes(filters.language)) &&
+    (filters.availability === 'all' || profile.availability === filters.availability) &&
+    (filters.timeZoneRegion === 'all' || getTimeZoneRegion(profile.timeZone) === filters.timeZoneRegion)
+  );
+
+  if (filters.sortBy === 'newest') {
+    return filtered.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  const direction = filters.sortBy === 'rate-asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const rateA = getHourlyRateSats(a, rates);
+    const rateB = getHourlyRateSats(b, rates);
+    if (rateA === null || rateB === null) return (rateA === null ? 1 : 0) - (rateB === null ? 1 : 0);
+    return (rateA - rateB) * direction;
+  });
+}
+
+/**
+ * Form values for a new or existing talent profile
+ */
+export function toTalentProfileData(profile: TalentProfile | null): TalentProfileData {
+  return {
+    headline: profile?.headline ?? '',
+    bio: profile?.bio ?? '',
+    skills: profile?.skills ?? [],
+    rateAmount: profile?.hourlyRate ? String(profile.hourlyRate.amount) : '',
+    rateCurrency: profile?.hourlyRate?.currency ?? 'sats',
+    languages: profile?.languages ?? [],
+    timeZone: profile?.timeZone ?? getLocalTimeZone(),
+    availability: profile?.availability ?? 'available',
+    portfolio: profile?.portfolio ?? [],
+  };
+}
+
+/**
+ * First validation error of a talent profile form, if any
+ */
+export function validateTalentProfile(data: TalentProfileData): string | null {
+  const headline = data.headline.trim();
+  if (!headline) return 'Headline is required';
+  if (headline.length > MAX_TALENT_HEADLINE_LENGTH) {
+    return `Headline must be ${MAX_TALENT_HEADLINE_LENGTH} characters or less`;
+  }
+  if (data.bio.length > MAX_TALENT_BIO_LENGTH) return `Bio must be ${MAX_TALENT_BIO_LENGTH} characters or less`;
+  if (data.skills.length === 0) return 'Pick at least one skill';
+  if (data.rateAmount.trim() && !(Number(data.rateAmount) > 0)) return 'Hourly rate must be a positive number';
+  if (data.languages.length === 0) return 'Pick at least one language';
+  if (!data.timeZone.trim()) return 'Time zone is required';
+  if (data.portfolio.length > MAX_TALENT_PORTFOLIO_ITEMS) {
+    return `You can add up to ${MAX_TALENT_PORTFOLIO_ITEMS} portfolio items`;
+  }
+  for (const [index, item] of data.portfolio.entries()) {
+    if (!item.title.trim()) return `Portfolio item ${index + 1}: title is required`;
+    if (!/^https?:\/\/\S+$/.test(item.url.trim())) return `Portfolio item ${index + 1}: enter a valid http(s) link`;
+  }
+  return null;
+}
+
+/**
+ * Publish (or replace) the user's talent profile
+ */
+export async function publishTalentProfile(
+  data: TalentProfileData,
+  userPubkey: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; profile?: TalentProfile; error?: string }> {
+  const validationError = validateTalentProfile(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const unsignedEvent = createTalentProfileEvent({
+      headline: data.headline.trim(),
+      bio: data.bio.trim(),
+      skills: data.skills,
+      hourlyRate: data.rateAmount.trim() ? { amount: Number(data.rateAmount), currency: data.rateCurrency } : undefined,
+      languages: data.languages,
+      timeZone: data.timeZone.trim(),
+      availability: data.availability,
+      portfolio: data.portfolio.map(item => ({
+        url: item.url.trim(),
+        title: item.title.trim(),
+        description: item.description?.trim() || undefined,
+      })),
+    }, userPubkey);
+
+    const signResult = await signEvent(unsignedEvent, signer);
+    if (!signResult.success || !signResult.signedEvent) {
+      return { success: false, error: signResult.error || 'Failed to sign talent profile' };
+    }
+
+    const publishResult = await publishEvent(signResult.signedEvent, signer);
+
+    logger.info('Talent profile published', {
+      service: 'TalentService',
+      method: 'publishTalentProfile',
+      skillCount: data.skills.length,
+      portfolioCount: data.portfolio.length,
+      success: publishResult.success,
+    });
+
+    return {
+      success: publishResult.success,
+      profile: publishResult.success ? parseTalentProfile(signResult.signedEvent) ?? undefined : undefined,
+      error: publishResult.error,
+    };
+  } catch (error) {
+    logger.error('Failed to publish talent profile', error instanceof Error ? error : new Error(String(error)), {
+      service: 'TalentService',
+      method: 'publishTalentProfile',
+    });
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,288 @@
+import type {
+  NwcConnection,
+  NwcMethod,
+  NwcWalletInfo,
+  WalletInvoice,
+  WalletPayment,
+  WalletSummary,
+  WalletTransaction,
+} from '@/types/wallet';
+import { genericNwcService } from '@/services/generic/GenericNwcService';
+import { CacheEncryptionService } from '@/services/core/CacheEncryptionService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * WalletService
+ * Business logic layer for the user's Nostr Wallet Connect (NIP-47) wallet:
+ * one non-custodial wallet backend for zaps, shop purchases and work payments.
+ * The connection string is stored encrypted (CacheEncryptionService) and only
+ * kept in memory while the user is signed in.
+ * Layer: Business Service
+ * Dependencies: GenericNwcService (NWC transport), CacheEncryptionService
+ */
+
+// localStorage key - starts with 'nostr' so logout clears it
+const STORAGE_KEY = 'nostr-wallet-connect';
+
+interface StoredWalletConnection {
+  pubkey: string; // Owner of the connection
+  ciphertext: string;
+  iv: string;
+}
+
+interface ActiveWallet {
+  userPubkey: string;
+  connection: NwcConnection;
+  info: NwcWalletInfo;
+}
+
+interface RawTransaction {
+  type: 'incoming' | 'outgoing';
+  invoice?: string;
+  description?: string;
+  payment_hash: string;
+  amount: number; // millisats
+  fees_paid?: number; // millisats
+  created_at: number;
+  settled_at?: number;
+}
+
+let activeWallet: ActiveWallet | null = null;
+const listeners = new Set<(wallet: WalletSummary | null) => void>();
+
+function toSummary(wallet: ActiveWallet | null): WalletSummary | null {
+  if (!wallet) return null;
+  return {
+    walletPubkey: wallet.connection.walletPubkey,
+    relays: wallet.connection.relays,
+    lud16: wallet.connection.lud16,
+    methods: wallet.info.methods,
+  };
+}
+
+function setActiveWallet(wallet: ActiveWallet | null): void {
+  activeWallet = wallet;
+  const summary = toSummary(wallet);
+  listeners.forEach(listener => listener(summary));
+}
+
+/**
+ * Listen for wallet connect / disconnect - returns an unsubscribe function
+ */
+export function subscribeToWallet(listener: (wallet: WalletSummary | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Currently connected wallet for a user (null when none)
+ */
+export function getConnectedWallet(userPubkey: string): WalletSummary | null {
+  return activeWallet?.userPubkey === userPubkey ? toSummary(activeWallet) : null;
+}
+
+/**
+ * Connect a wallet from a nostr+walletconnect:// URI and remember it for this user
+ */
+export async function connectWallet(uri: string, userPubkey: string): Promise<WalletSummary> {
+  const connection = genericNwcService.parseConnectionUri(uri);
+  const info = await genericNwcService.getWalletInfo(connection);
+
+  if (!info) {
+    throw new AppError(
+      'Wallet service not found on its relay - check the connection string',
+      ErrorCode.EXTERNAL_SERVICE_ERROR,
+      HttpStatus.NOT_FOUND,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.LOW,
+      { relays: connection.relays }
+    );
+  }
+
+  const encryption = CacheEncryptionService.getInstance();
+  await encryption.initializeKey(userPubkey);
+  const { ciphertext, iv } = await encryption.encrypt({ connection, info });
+
+  const stored: StoredWalletConnection = { pubkey: userPubkey, ciphertext, iv };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+  setActiveWallet({ userPubkey, connection, info });
+
+  logger.info('Wallet connected', {
+    service: 'WalletService',
+    method: 'connectWallet',
+    walletPubkey: connection.walletPubkey.substring(0, 8) + '...',
+    methods: info.methods,
+    encryption: info.encryption,
+  });
+
+  return toSummary(activeWallet) as WalletSummary;
+}
+
+/**
+ * Restore the user's stored wallet connection (after sign-in or reload)
+ */
+export async function loadWallet(userPubkey: string): Promise<WalletSummary | null> {
+  if (activeWallet?.userPubkey === userPubkey) return toSummary(activeWallet);
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const stored = JSON.parse(raw) as StoredWalletConnection;
+    if (stored.pubkey !== userPubkey) return null;
+
+    const encryption = CacheEncryptionService.getInstance();
+    await encryption.initializeKey(userPubkey);
+    const { connection, info } = await encryption.decrypt<{ connection: NwcConnection; info: NwcWalletInfo }>(
+      stored.ciphertext,
+      stored.iv
+    );
+
+    setActiveWallet({ userPubkey, connection, info });
+    return toSummary(activeWallet);
+  } catch (error) {
+    logger.warn('Failed to restore wallet connection', {
+      service: 'WalletService',
+      method: 'loadWallet',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Drop the in-memory connection on sign-out (the stored copy stays encrypted)
+ */
+export function closeWallet(): void {
+  if (activeWallet) setActiveWallet(null);
+}
+
+/**
+ * Forget the wallet connection
+ */
+export function disconnectWallet(): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  setActiveWallet(null);
+
+  logger.info('Wallet disconnected', {
+    service: 'WalletService',
+    method: 'disconnectWallet',
+  });
+}
+
+function requireWallet(method: NwcMethod): ActiveWallet {
+  if (!activeWallet) {
+    throw new AppError(
+      'No wallet connected',
+      ErrorCode.VALIDATION_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      ErrorSeverity.LOW
+    );
+  }
+  if (!activeWallet.info.methods.includes(method)) {
+    throw new AppError(
+      `Your wallet connection does not allow ${method.replace(/_/g, ' ')}`,
+      ErrorCode.VALIDATION_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      ErrorSeverity.LOW,
+      { method, supported: activeWallet.info.methods }
+    );
+  }
+  return activeWallet;
+}
+
+/**
+ * Pay a bolt11 invoice from the connected wallet
+ */
+export async function payInvoice(bolt11: string): Promise<WalletPayment> {
+  const wallet = requireWallet('pay_invoice');
+  const result = await genericNwcService.request<{ preimage: string; fees_paid?: number }>(
+    wallet.connection,
+    'pay_invoice',
+    { invoice: bolt11.trim().replace(/^lightning:/i, '') },
+    wallet.info.encryption
+  );
+
+  logger.info('Invoice paid with connected wallet', {
+    service: 'WalletService',
+    method: 'payInvoice',
+    feesPaidMsats: result.fees_paid || 0,
+  });
+
+  return { preimage: result.preimage, feesPaidSats: Math.ceil((result.fees_paid || 0) / 1000) };
+}
+
+/**
+ * Wallet balance in sats
+ */
+export async function getBalance(): Promise<number> {
+  const wallet = requireWallet('get_balance');
+  const result = await genericNwcService.request<{ balance: number }>(
+    wallet.connection,
+    'get_balance',
+    {},
+    wallet.info.encryption
+  );
+  return Math.floor(result.balance / 1000);
+}
+
+/**
+ * Create an invoice to receive into the connected wallet
+ */
+export async function makeInvoice(amountSats: number, description: string): Promise<WalletInvoice> {
+  const wallet = requireWallet('make_invoice');
+  const result = await genericNwcService.request<{
+    invoice: string;
+    payment_hash: string;
+    amount: number;
+    expires_at?: number;
+  }>(
+    wallet.connection,
+    'make_invoice',
+    { amount: Math.round(amountSats * 1000), ...(description && { description }) },
+    wallet.info.encryption
+  );
+
+  return {
+    invoice: result.invoice,
+    paymentHash: result.payment_hash,
+    amountSats: Math.floor(result.amount / 1000),
+    expiresAt: result.expires_at,
+  };
+}
+
+/**
+ * Recent wallet transactions, newest first
+ */
+export async function listTransactions(limit = 20): Promise<WalletTransaction[]> {
+  const wallet = requireWallet('list_transactions');
+  const result = await genericNwcService.request<{ transactions: RawTransaction[] }>(
+    wallet.connection,
+    'list_transactions',
+    { limit },
+    wallet.info.encryption
+  );
+
+  return (result.transactions || [])
+    .map(tx => ({
+      type: tx.type,
+      invoice: tx.invoice,
+      description: tx.description,
+      paymentHash: tx.payment_hash,
+      amountSats: Math.floor(tx.amount / 1000),
+      feesPaidSats: Math.ceil((tx.fees_paid || 0) / 1000),
+      createdAt: tx.created_at,
+      settledAt: tx.settled_at,
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
@@ -1,7 +1,10 @@
 import { logger } from '@/services/core/LoggingService';
 import { BaseContentProvider } from './BaseContentProvider';
 import { queryEvents } from '../generic/GenericRelayService';
-import type { WorkCustomFields } from '@/types/work';
+import { getEventExpiration } from '../generic/GenericEventService';
+import { formatDate, isExpired } from '@/utils/dateUtils';
+import { parseWorkCompensation, type WorkCustomFields } from '@/types/work';
+import { formatCompensation } from './WorkService';
 import type { ContentDetailResult, ContentMeta } from '@/types/content-detail';
 import type { ContentMediaItem } from '@/types/content-media';
 
@@ -86,14 +89,13 @@ class WorkContentService extends BaseContentProvider<WorkCustomFields> {
       // Parse work-specific fields
       const jobType = tagsMap.get('job-type') || '';
       const duration = tagsMap.get('duration') || '';
-      const payRateStr = tagsMap.get('pay-rate') || '0';
-      const payRate = parseFloat(payRateStr);
-      const currency = tagsMap.get('currency') || '';
+      const compensation = parseWorkCompensation(event.tags);
       const contact = tagsMap.get('contact');
       const category = tagsMap.get('category') || '';
       const region = tagsMap.get('region') || '';
       const country = tagsMap.get('country') || '';
       const language = tagsMap.get('language') || 'en';
+      const expiresAt = getEventExpiration(event.tags);
 
       // Extract media attachments from imeta tags
       const media: ContentMediaItem[] = [];
@@ -153,14 +155,14 @@ class WorkContentService extends BaseContentProvider<WorkCustomFields> {
       const customFields: WorkCustomFields = {
         jobType: jobType || undefined,
         duration: duration || undefined,
-        payRate: payRate || undefined,
-        currency: currency || undefined,
+        compensation: compensation ?? undefined,
         contact: contact || undefined,
         category: category || undefined,
         region: region || undefined,
         country: country || undefined,
         language: language || undefined,
         location: location || undefined,
+        expiresAt,
       };
 
       const meta: ContentMeta[] = [];
@@ -170,8 +172,8 @@ class WorkContentService extends BaseContentProvider<WorkCustomFields> {
       if (customFields.duration) {
         meta.push({ label: 'Duration', value: customFields.duration });
       }
-      if (customFields.payRate && customFields.currency) {
-        meta.push({ label: 'Pay Rate', value: `${customFields.payRate} ${customFields.currency}` });
+      if (customFields.compensation) {
+        meta.push({ label: 'Pay', value: formatCompensation(customFields.compensation) });
       }
       if (customFields.category) {
         meta.push({ label: 'Category', value: customFields.category });
@@ -191,12 +193,16 @@ class WorkContentService extends BaseContentProvider<WorkCustomFields> {
       if (customFields.language) {
         meta.push({ label: 'Language', value: customFields.language });
       }
+      if (expiresAt) {
+        meta.push({ label: isExpired(expiresAt) ? 'Expired' : 'Expires', value: formatDate(expiresAt) });
+      }
 
       // Extract general tags (not system tags)
       const systemTags = new Set([
         'title', 'summary', 'published_at', 'image', 'location',
-        'job-type', 'duration', 'pay-rate', 'currency', 'contact',
-        'category', 'region', 'country', 'language', 'd', 'imeta', 't'
+        'job-type', 'duration', 'pay-amount', 'pay-min', 'pay-max', 'pay-currency', 'pay-period',
+        'pay-rate', 'currency', 'contact',
+        'category', 'region', 'country', 'language', 'd', 'imeta', 't', 'expiration'
       ]);
       const generalTags = event.tags
         .filter((tag: string[]) => !systemTags.has(tag[0]))
@@ -229,6 +235,7 @@ class WorkContentService extends BaseContentProvider<WorkCustomFields> {
         content: {
           id,
           dTag: id,
+          eventId: event.id,
           title,
           description: fullDescription,
           summary: summary || fullDescription.slice(0, 200) + '...',
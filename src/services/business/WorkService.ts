@@ -1,17 +1,23 @@
 import { logger } from '@/services/core/LoggingService';
-import type { WorkData, WorkPublishingProgress } from '@/types/work';
+import type { WorkCompensation, WorkData, WorkPublishingProgress } from '@/types/work';
+import { parseWorkCompensation } from '@/types/work';
+import type { ExchangeRates } from '@/types/exchange-rate';
 import { validateWorkData } from './WorkValidationService';
 import { nostrEventService } from '../nostr/NostrEventService';
 import type { NostrSigner, NostrEvent } from '@/types/nostr';
 import { uploadSequentialWithConsent } from '@/services/generic/GenericBlossomService';
 import { 
   fetchPublicWorkOpportunities as fetchPublicWorkFromRelay, 
+  parseWorkEvent,
   type WorkEvent 
 } from '@/services/generic/GenericWorkService';
 import { getRelativeTime } from '@/utils/dateUtils';
 import { queryEvents } from '@/services/generic/GenericRelayService';
-import { createDeletionEvent, signEvent } from '@/services/generic/GenericEventService';
+import { createDeletionEvent, getEventExpiration, signEvent } from '@/services/generic/GenericEventService';
 import { extractMedia } from '@/services/generic/GenericContributionService';
+import { renewListing } from './ListingRenewalService';
+import { convertAmount } from './ExchangeRateService';
+import { getWorkCurrencyById, getWorkPayPeriodById } from '@/config/work';
 
 export interface CreateWorkResult {
   success: boolean;
@@ -32,20 +38,55 @@ export interface WorkExploreItem {
   name: string;
   location: string;
   region: string;
+  country?: string;
   image: string;
   jobType: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   mediaCount: number;
   tags: string[];
   description: string;
   category: string;
   publishedAt: number;
+  expiresAt: number | null; // NIP-40 expiration
   relativeTime: string;
   pubkey: string; // Author's pubkey for contact functionality
 }
 
+/**
+ * Pay label: "$50/hr", "20,000-30,000 sats/day", "0.01 ₿ fixed"
+ * Legacy listings without a currency show the bare amount and period
+ */
+export function formatCompensation(compensation: WorkCompensation): string {
+  const currency = compensation.currency ? getWorkCurrencyById(compensation.currency) : undefined;
+  const amounts = compensation.maxAmount !== undefined
+    ? `${compensation.amount.toLocaleString()}-${compensation.maxAmount.toLocaleString()}`
+    : compensation.amount.toLocaleString();
+  const period = getWorkPayPeriodById(compensation.period)?.suffix ?? '';
+
+  if (!compensation.currency) return `${amounts}${period}`;
+  if (compensation.currency === 'usd') return `$${amounts}${period}`;
+  return `${amounts} ${currency?.symbol ?? compensation.currency}${period}`;
+}
+
+/**
+ * Hourly-equivalent pay in the target currency (ranges count at their midpoint)
+ * Null for fixed-price work and for amounts that can't be converted.
+ */
+export function getHourlyEquivalent(
+  compensation: WorkCompensation | null,
+  targetCurrency: string,
+  rates: ExchangeRates | null
+): number | null {
+  const hours = compensation ? getWorkPayPeriodById(compensation.period)?.hours : null;
+  if (!compensation?.currency || !hours) return null;
+
+  const amount = compensation.maxAmount !== undefined
+    ? (compensation.amount + compensation.maxAmount) / 2
+    : compensation.amount;
+  return convertAmount(amount / hours, compensation.currency, targetCurrency, rates);
+}
+
 /**
  * Create a new work opportunity with file upload, event creation and publishing
  * Orchestrates: validation → upload → event creation → publishing
@@ -245,13 +286,13 @@ export async function createWork(
         category: workData.category,
         jobType: workData.jobType,
         duration: workData.duration,
-        payRate: workData.payRate,
-        currency: workData.currency,
+        compensation: workData.compensation,
         contact: workData.contact,
         language: workData.language || 'en',
         location: workData.location || '',
         region: workData.region,
         country: workData.country,
+        expiresAt: workData.expiresAt,
         tags: workData.tags,
         attachments: mappedAttachments,
       },
@@ -419,21 +460,30 @@ function mapToExploreItem(event: WorkEvent): WorkExploreItem {
     name: event.title,
     location: event.region || event.location || 'Remote',
     region: event.region || 'Global',
+    country: event.country,
     image,
     jobType: event.jobType,
     duration: event.duration,
-    payRate: event.payRate,
-    currency: event.currency,
+    compensation: event.compensation,
     mediaCount: totalMedia,
     tags: event.tags,
     description: event.summary,
     category: event.category,
     publishedAt: event.publishedAt,
+    expiresAt: event.expiresAt,
     relativeTime: getRelativeTime(event.publishedAt),
     pubkey: event.pubkey,
   };
 }
 
+/**
+ * Parse a work opportunity event (e.g. from a live subscription) into an explore item
+ */
+export function parseWorkExploreItem(event: NostrEvent): WorkExploreItem | null {
+  const work = parseWorkEvent(event);
+  return work ? mapToExploreItem(work) : null;
+}
+
 /**
  * Fetch public work opportunities for explore/listing view
  * Business layer method that orchestrates fetching and data transformation
@@ -562,9 +612,7 @@ export async function fetchWorkByAuthor(pubkey: string): Promise<WorkEvent[]> {
       const category = event.tags.find(t => t[0] === 'category')?.[1] || '';
       const jobType = event.tags.find(t => t[0] === 'job-type')?.[1] || '';
       const duration = event.tags.find(t => t[0] === 'duration')?.[1] || '';
-      const payRateStr = event.tags.find(t => t[0] === 'pay-rate')?.[1] || '0';
-      const payRate = parseFloat(payRateStr);
-      const currency = event.tags.find(t => t[0] === 'currency')?.[1] || '';
+      const compensation = parseWorkCompensation(event.tags);
       const contact = event.tags.find(t => t[0] === 'contact')?.[1];
       const language = event.tags.find(t => t[0] === 'language')?.[1] || 'en';
       const location = event.tags.find(t => t[0] === 'location')?.[1] || '';
@@ -586,8 +634,7 @@ export async function fetchWorkByAuthor(pubkey: string): Promise<WorkEvent[]> {
         category,
         jobType,
         duration,
-        payRate,
-        currency,
+        compensation,
         contact,
         language,
         location,
@@ -597,6 +644,7 @@ export async function fetchWorkByAuthor(pubkey: string): Promise<WorkEvent[]> {
         media,
         createdAt: event.created_at,
         publishedAt: event.created_at,
+        expiresAt: getEventExpiration(event.tags),
       });
     }
 
@@ -673,9 +721,7 @@ export async function fetchWorkById(dTag: string): Promise<WorkEvent | null> {
     const category = latestEvent.tags.find(t => t[0] === 'category')?.[1] || '';
     const jobType = latestEvent.tags.find(t => t[0] === 'job-type')?.[1] || '';
     const duration = latestEvent.tags.find(t => t[0] === 'duration')?.[1] || '';
-    const payRateStr = latestEvent.tags.find(t => t[0] === 'pay-rate')?.[1] || '0';
-    const payRate = parseFloat(payRateStr);
-    const currency = latestEvent.tags.find(t => t[0] === 'currency')?.[1] || '';
+    const compensation = parseWorkCompensation(latestEvent.tags);
     const contact = latestEvent.tags.find(t => t[0] === 'contact')?.[1];
     const language = latestEvent.tags.find(t => t[0] === 'language')?.[1] || 'en';
     const location = latestEvent.tags.find(t => t[0] === 'location')?.[1] || '';
@@ -697,8 +743,7 @@ export async function fetchWorkById(dTag: string): Promise<WorkEvent | null> {
       category,
       jobType,
       duration,
-      payRate,
-      currency,
+      compensation,
       contact,
       language,
       location,
@@ -708,6 +753,7 @@ export async function fetchWorkById(dTag: string): Promise<WorkEvent | null> {
       media,
       createdAt: latestEvent.created_at,
       publishedAt: latestEvent.created_at,
+      expiresAt: getEventExpiration(latestEvent.tags),
     };
 
     logger.info('Work opportunity fetched successfully', {
@@ -827,11 +873,35 @@ export async function deleteWork(
   }
 }
 
+/**
+ * Renew a work opportunity: republish it with a fresh created_at and a new NIP-40 expiration
+ * 
+ * @param dTag - The d tag of the work opportunity
+ * @param signer - Nostr signer of the work author
+ * @returns Result with the renewed work opportunity
+ */
+export async function renewWork(
+  dTag: string,
+  signer: NostrSigner
+): Promise<{ success: boolean; work?: WorkEvent; error?: string }> {
+  const result = await renewListing(dTag, [30023], signer);
+
+  return {
+    success: result.success,
+    work: result.event ? parseWorkEvent(result.event) ?? undefined : undefined,
+    error: result.error,
+  };
+}
+
 export const WorkService = {
+  formatCompensation,
+  getHourlyEquivalent,
+  parseWorkExploreItem,
   createWork,
   fetchPublicWorkOpportunities,
   fetchWorkByAuthor,
   fetchWorkById,
   deleteWork,
+  renewWork,
 };
 
@@ -223,19 +223,27 @@ export async function updateWorkWithAttachments(
     }
 
     // Step 4: Prepare merged data - ensure all non-optional fields have values
+    const compensation = updatedData.compensation ?? originalWork.compensation;
+    if (!compensation) {
+      return {
+        success: false,
+        error: 'Pay amount is required',
+      };
+    }
+
     const mergedData: WorkData = {
       title: updatedData.title !== undefined ? updatedData.title : originalWork.title,
       description: updatedData.description !== undefined ? updatedData.description : originalWork.description,
       category: updatedData.category !== undefined ? updatedData.category : originalWork.category,
       jobType: updatedData.jobType !== undefined ? updatedData.jobType : originalWork.jobType,
       duration: updatedData.duration !== undefined ? updatedData.duration : originalWork.duration,
-      payRate: updatedData.payRate !== undefined ? updatedData.payRate : originalWork.payRate,
-      currency: updatedData.currency !== undefined ? updatedData.currency : originalWork.currency,
+      compensation,
       language: updatedData.language !== undefined ? updatedData.language : (originalWork.language ?? 'en'),
       location: updatedData.location !== undefined ? updatedData.location : (originalWork.location ?? ''),
       region: updatedData.region !== undefined ? updatedData.region : originalWork.region,
       country: updatedData.country !== undefined ? updatedData.country : (originalWork.country ?? 'Unknown'),
       contact: updatedData.contact !== undefined ? updatedData.contact : originalWork.contact,
+      expiresAt: updatedData.expiresAt !== undefined ? updatedData.expiresAt : originalWork.expiresAt,
       tags: updatedData.tags !== undefined ? updatedData.tags : originalWork.tags,
       attachments: allAttachments,
     };
@@ -247,13 +255,13 @@ export async function updateWorkWithAttachments(
       (updatedData.category !== undefined && updatedData.category !== originalWork.category) ||
       (updatedData.jobType !== undefined && updatedData.jobType !== originalWork.jobType) ||
       (updatedData.duration !== undefined && updatedData.duration !== originalWork.duration) ||
-      (updatedData.payRate !== undefined && updatedData.payRate !== originalWork.payRate) ||
-      (updatedData.currency !== undefined && updatedData.currency !== originalWork.currency) ||
+      (updatedData.compensation !== undefined && JSON.stringify(updatedData.compensation) !== JSON.stringify(originalWork.compensation)) ||
       (updatedData.language !== undefined && updatedData.language !== originalWork.language) ||
       (updatedData.location !== undefined && updatedData.location !== originalWork.location) ||
       (updatedData.region !== undefined && updatedData.region !== originalWork.region) ||
       (updatedData.country !== undefined && updatedData.country !== originalWork.country) ||
       (updatedData.contact !== undefined && updatedData.contact !== originalWork.contact) ||
+      (updatedData.expiresAt !== undefined && updatedData.expiresAt !== originalWork.expiresAt) ||
       (updatedData.tags !== undefined && JSON.stringify(updatedData.tags) !== JSON.stringify(originalWork.tags));
 
     const hasAttachmentChanges = newAttachments.length > 0 || (selectiveOps && selectiveOps.removedAttachments.length > 0);
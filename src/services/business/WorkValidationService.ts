@@ -1,5 +1,7 @@
 import { logger } from '@/services/core/LoggingService';
 import type { WorkData, WorkValidationResult } from '@/types/work';
+import { isExpired } from '@/utils/dateUtils';
+import { getWorkCurrencyById, getWorkPayPeriodById } from '@/config/work';
 
 /**
  * Business service for work opportunity data validation
@@ -37,16 +39,24 @@ export class WorkValidationService {
       errors.duration = 'Duration is required';
     }
 
-    // Pay rate validation
-    if (data.payRate === undefined || data.payRate === null) {
-      errors.payRate = 'Pay rate is required';
-    } else if (data.payRate < 0) {
-      errors.payRate = 'Pay rate must be a positive number';
+    // Compensation validation
+    const compensation = data.compensation;
+    if (!compensation || isNaN(compensation.amount)) {
+      errors.payAmount = 'Pay amount is required';
+    } else if (compensation.amount < 0) {
+      errors.payAmount = 'Pay amount must be a positive number';
     }
 
-    // Currency validation
-    if (!data.currency) {
-      errors.currency = 'Currency is required';
+    if (compensation?.maxAmount !== undefined && !(compensation.maxAmount > compensation.amount)) {
+      errors.payMaxAmount = 'Maximum pay must be higher than the minimum';
+    }
+
+    if (!compensation?.currency || !getWorkCurrencyById(compensation.currency)) {
+      errors.payCurrency = 'Currency is required';
+    }
+
+    if (!compensation?.period || !getWorkPayPeriodById(compensation.period)) {
+      errors.payPeriod = 'Pay period is required';
     }
 
     // Description validation
@@ -64,6 +74,11 @@ export class WorkValidationService {
       errors.country = 'Country is required';
     }
 
+    // Expiration validation (NIP-40, optional)
+    if (isExpired(data.expiresAt)) {
+      errors.expiresAt = 'Expiration date must be in the future';
+    }
+
     const isValid = Object.keys(errors).length === 0;
 
     if (!isValid) {
@@ -0,0 +1,224 @@
+import type { NostrEvent, NostrSigner } from '@/types/nostr';
+import type { LnurlPayEndpoint, ZapInvoice, ZapReceipt, ZapSummary, ZapTarget } from '@/types/zap';
+import { genericRelayService, queryEvents, subscribeToEvents } from '@/services/generic/GenericRelayService';
+import { createZapRequestEvent, signEvent } from '@/services/generic/GenericEventService';
+import { genericLightningService } from '@/services/generic/GenericLightningService';
+import { profileService } from '@/services/business/ProfileBusinessService';
+import { logger } from '@/services/core/LoggingService';
+import { AppError } from '@/errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '@/errors/ErrorTypes';
+
+/**
+ * ZapService
+ * Business logic layer for NIP-57 Lightning zaps on addressable content
+ * (products, work listings, contributions and meetups)
+ * Layer: Business Service
+ * Dependencies: GenericEventService (Event), GenericRelayService (Relay), GenericLightningService (LNURL)
+ */
+
+// Relays the recipient's LNURL server is asked to publish the receipt to
+const MAX_RECEIPT_RELAYS = 5;
+
+/**
+ * "a" coordinate of the zapped event
+ */
+export function getZapTargetAddress(target: ZapTarget): string {
+  return `${target.kind}:${target.pubkey}:${target.dTag}`;
+}
+
+/**
+ * Resolve the recipient's LNURL-pay endpoint from their profile (lud16 / lud06)
+ */
+export async function getRecipientPayEndpoint(pubkey: string): Promise<LnurlPayEndpoint> {
+  const profile = await profileService.getUserProfile(pubkey);
+  if (!profile?.lud16 && !profile?.lud06) {
+    throw new AppError(
+      'This author has not set up a lightning address',
+      ErrorCode.VALIDATION_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.VALIDATION,
+      ErrorSeverity.LOW,
+      { pubkey }
+    );
+  }
+
+  return genericLightningService.resolvePayEndpoint({ lud16: profile.lud16, lud06: profile.lud06 });
+}
+
+/**
+ * Build and sign a Kind 9734 zap request and get the invoice for it
+ * Falls back to a plain LNURL-pay invoice when the recipient's server doesn't support zaps
+ */
+export async function createZapInvoice(
+  target: ZapTarget,
+  amountSats: number,
+  comment: string,
+  senderPubkey: string,
+  signer: NostrSigner
+): Promise<ZapInvoice> {
+  const endpoint = await getRecipientPayEndpoint(target.pubkey);
+  const amountMsats = Math.round(amountSats * 1000);
+
+  if (!endpoint.allowsNostr) {
+    logger.info('Recipient does not support zap receipts, requesting plain invoice', {
+      service: 'ZapService',
+      method: 'createZapInvoice',
+      recipient: target.pubkey.substring(0, 8) + '...',
+    });
+
+    const bolt11 = await genericLightningService.requestInvoice(endpoint, amountMsats, { comment });
+    return { bolt11, amountSats, receiptsSupported: false };
+  }
+
+  const relays = genericRelayService.getBaseRelays('read').slice(0, MAX_RECEIPT_RELAYS);
+  const zapRequest = createZapRequestEvent(target, amountMsats, relays, senderPubkey, {
+    comment,
+    lnurl: endpoint.lnurl,
+  });
+
+  const signingResult = await signEvent(zapRequest, signer);
+  if (!signingResult.success || !signingResult.signedEvent) {
+    throw new AppError(
+      signingResult.error || 'Failed to sign zap request',
+      ErrorCode.SIGNER_ERROR,
+      HttpStatus.BAD_REQUEST,
+      ErrorCategory.AUTHENTICATION,
+      ErrorSeverity.MEDIUM
+    );
+  }
+
+  const bolt11 = await genericLightningService.requestInvoice(endpoint, amountMsats, {
+    zapRequest: signingResult.signedEvent,
+  });
+
+  logger.info('Zap invoice created', {
+    service: 'ZapService',
+    method: 'createZapInvoice',
+    address: getZapTargetAddress(target),
+    amountSats,
+    zapRequestId: signingResult.signedEvent.id,
+  });
+
+  return { bolt11, amountSats, receiptsSupported: true, zapRequestId: signingResult.signedEvent.id };
+}
+
+/**
+ * Validate a Kind 9735 receipt against the zapped target (NIP-57 appendix F)
+ * Receipts not signed by the recipient's LNURL server, not zapping the target,
+ * or whose invoice amount doesn't match the embedded zap request's amount are dropped.
+ */
+export function parseZapReceipt(event: NostrEvent, target: ZapTarget, serverPubkey: string): ZapReceipt | null {
+  if (event.kind !== 9735 || event.pubkey !== serverPubkey) return null;
+
+  const tag = (name: string) => event.tags.find(t => t[0] === name)?.[1];
+  const bolt11 = tag('bolt11');
+  const description = tag('description');
+  if (!bolt11 || !description) return null;
+
+  let zapRequest: NostrEvent;
+  try {
+    zapRequest = JSON.parse(description) as NostrEvent;
+  } catch {
+    return null;
+  }
+  if (zapRequest.kind !== 9734) return null;
+
+  const requestTag = (name: string) => zapRequest.tags?.find(t => t[0] === name)?.[1];
+  if (requestTag('p') !== target.pubkey) return null;
+  if (requestTag('a') !== getZapTargetAddress(target) && requestTag('e') !== target.eventId) return null;
+
+  const amountSats = genericLightningService.getInvoiceAmountSats(bolt11);
+  const requestedMsats = Number(requestTag('amount'));
+  if (amountSats <= 0 || requestedMsats !== amountSats * 1000) return null;
+
+  return {
+    id: event.id,
+    requestId: zapRequest.id,
+    senderPubkey: zapRequest.pubkey || event.pubkey,
+    amountSats,
+    comment: zapRequest.content || '',
+    paidAt: event.created_at,
+  };
+}
+
+/**
+ * Summarize a list of receipts (newest first, deduplicated)
+ */
+export function summarizeZaps(receipts: ZapReceipt[]): ZapSummary {
+  const unique = Array.from(new Map(receipts.map(receipt => [receipt.id, receipt])).values())
+    .sort((a, b) => b.paidAt - a.paidAt);
+
+  return {
+    totalSats: unique.reduce((sum, receipt) => sum + receipt.amountSats, 0),
+    count: unique.length,
+    receipts: unique,
+  };
+}
+
+/**
+ * Fetch and validate zap receipts for a target
+ * Without the recipient's LNURL server pubkey no receipt can be verified, so none are counted
+ */
+export async function fetchZapSummary(target: ZapTarget): Promise<ZapSummary> {
+  const serverPubkey = await getRecipientPayEndpoint(target.pubkey)
+    .then(endpoint => endpoint.nostrPubkey)
+    .catch(() => undefined);
+
+  if (!serverPubkey) {
+    logger.info('Recipient zap server unknown, skipping receipts', {
+      service: 'ZapService',
+      method: 'fetchZapSummary',
+      address: getZapTargetAddress(target),
+    });
+    return summarizeZaps([]);
+  }
+
+  // Receipts reference the address (all versions) and/or the specific event id
+  const queryResult = await queryEvents([
+    { kinds: [9735], '#a': [getZapTargetAddress(target)] },
+    { kinds: [9735], '#e': [target.eventId] },
+  ]);
+
+  if (!queryResult.success) {
+    throw new AppError(
+      queryResult.error || 'Failed to fetch zaps',
+      ErrorCode.NOSTR_ERROR,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      ErrorCategory.EXTERNAL_SERVICE,
+      ErrorSeverity.LOW
+    );
+  }
+
+  const receipts = queryResult.events
+    .map(event => parseZapReceipt(event, target, serverPubkey))
+    .filter((receipt): receipt is ZapReceipt => receipt !== null);
+
+  logger.info('Zap receipts fetched', {
+    service: 'ZapService',
+    method: 'fetchZapSummary',
+    address: getZapTargetAddress(target),
+    eventCount: queryResult.events.length,
+    validReceipts: receipts.length,
+  });
+
+  return summarizeZaps(receipts);
+}
+
+/**
+ * Listen for new zap receipts on a target - returns an unsubscribe function
+ */
+export function subscribeToZapReceipts(
+  target: ZapTarget,
+  serverPubkey: string,
+  onReceipt: (receipt: ZapReceipt) => void
+): () => void {
+  const since = Math.floor(Date.now() / 1000) - 60;
+
+  return subscribeToEvents(
+    [{ kinds: [9735], '#a': [getZapTargetAddress(target)], since }],
+    event => {
+      const receipt = parseZapReceipt(event, target, serverPubkey);
+      if (receipt) onReceipt(receipt);
+    }
+  );
+}
@@ -0,0 +1,517 @@
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction } from 'idb';
+import { verifyEvent } from 'nostr-tools';
+import { logger } from './LoggingService';
+import { NostrEvent } from '../../types/nostr';
+import { EVENT_STORE_CONFIG } from '../../config/relays';
+
+interface StoredEvent {
+  id: string;
+  event: NostrEvent;
+  kind: number;
+  pubkey: string;
+  createdAt: number;
+  dTag?: string;
+  tTags: string[];
+  address?: string; // kind:pubkey:d for replaceable / parameterized replaceable events
+  seenAt: number;   // Last time a relay (or our own publish) returned it, ms
+}
+
+interface DeletionRecord {
+  key: string;       // pubkey:target - only the author's own deletions count
+  pubkey: string;
+  deletedAt: number; // Deletion event created_at
+}
+
+interface QueryRecord {
+  key: string;         // Normalized filters
+  fetchedAt: number;   // Relay time (seconds) covered by the last fetch - next refresh uses it as `since`
+  refreshedAt: number; // Last relay round trip, ms
+}
+
+interface EventStoreDB extends DBSchema {
+  events: {
+    key: string;
+    value: StoredEvent;
+    indexes: {
+      'by-kind': number;
+      'by-pubkey': string;
+      'by-d-tag': string;
+      'by-t': string;
+      'by-address': string;
+      'by-seen-at': number;
+    };
+  };
+  deletions: {
+    key: string;
+    value: DeletionRecord;
+  };
+  queries: {
+    key: string;
+    value: QueryRecord;
+  };
+}
+
+type StoreTransaction = IDBPTransaction<EventStoreDB, ('events' | 'deletions')[], 'readwrite'>;
+
+export interface CachedQuery {
+  events: NostrEvent[];
+  fetchedAt: number;
+  refreshedAt: number;
+}
+
+const DB_NAME = 'nostr-event-store';
+const DB_VERSION = 1;
+
+/**
+ * EventStoreService
+ * Local IndexedDB event database used as a read-through cache by queryEvents.
+ * Applies NIP-01 replaceable / NIP-33 parameterized replaceable semantics
+ * (only the newest version per address is kept) and NIP-09 deletions
+ * (deleted events are removed and never stored again).
+ */
+export class EventStoreService {
+  private static instance: EventStoreService;
+  private dbPromise: Promise<IDBPDatabase<EventStoreDB>> | null = null;
+  private listeners: Set<(kinds: number[]) => void> = new Set();
+  private lastPrune = 0;
+
+  private constructor() {}
+
+  public static getInstance(): EventStoreService {
+    if (!EventStoreService.instance) {
+      EventStoreService.instance = new EventStoreService();
+    }
+    return EventStoreService.instance;
+  }
+
+  /**
+   * Whether the filters can be answered from the store
+   * (needs an indexed field, no NIP-50 search and no private kinds)
+   */
+  public isCacheable(filters: Record<string, unknown>[]): boolean {
+    if (typeof indexedDB === 'undefined' || filters.length === 0) return false;
+
+    return filters.every(filter => {
+      if (filter.search !== undefined) return false;
+      const kinds = numberList(filter.kinds);
+      if (kinds.some(kind => !isStorableKind(kind))) return false;
+      return ['ids', 'kinds', 'authors', '#d', '#t'].some(field => Array.isArray(filter[field]));
+    });
+  }
+
+  /**
+   * Stored results for filters that have been fetched from relays before
+   * Returns null for filters never fetched (the store can't know what it's missing)
+   */
+  public async getCachedQuery(filters: Record<string, unknown>[]): Promise<CachedQuery | null> {
+    try {
+      const db = await this.getDB();
+      const record = await db.get('queries', queryKey(filters));
+      if (!record) return null;
+
+      return {
+        events: await this.query(filters),
+        fetchedAt: record.fetchedAt,
+        refreshedAt: record.refreshedAt,
+      };
+    } catch (error) {
+      this.logFailure('getCachedQuery', error);
+      return null;
+    }
+  }
+
+  /**
+   * Run filters against the store (newest first, limit applied per filter)
+   */
+  public async query(filters: Record<string, unknown>[]): Promise<NostrEvent[]> {
+    const db = await this.getDB();
+    const results = new Map<string, NostrEvent>();
+
+    for (const filter of filters) {
+      const candidates = await this.getCandidates(db, filter);
+      const matches = candidates
+        .map(stored => stored.event)
+        .filter(event => matchesFilter(event, filter))
+        .sort(compareNewestFirst);
+      const limit = typeof filter.limit === 'number' ? filter.limit : matches.length;
+      matches.slice(0, limit).forEach(event => results.set(event.id, event));
+    }
+
+    return Array.from(results.values()).sort(compareNewestFirst);
+  }
+
+  /**
+   * Record that filters were fetched from relays up to fetchedAt (seconds)
+   */
+  public async markQueried(filters: Record<string, unknown>[], fetchedAt: number): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.put('queries', { key: queryKey(filters), fetchedAt, refreshedAt: Date.now() });
+    } catch (error) {
+      this.logFailure('markQueried', error);
+    }
+  }
+
+  /**
+   * Make every stored query due for a relay refresh on its next read
+   */
+  public async expireQueries(): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction('queries', 'readwrite');
+      let cursor = await tx.store.openCursor();
+      while (cursor) {
+        await cursor.update({ ...cursor.value, refreshedAt: 0 });
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+    } catch (error) {
+      this.logFailure('expireQueries', error);
+    }
+  }
+
+  /**
+   * Store events from relays (or our own publishes)
+   * Events with an invalid signature are dropped, so a relay can't forge listings
+   * or deletions that would outlive the session.
+   * Returns the kinds whose stored results changed (new events, newer versions, deletions)
+   */
+  public async putEvents(events: NostrEvent[]): Promise<number[]> {
+    if (typeof indexedDB === 'undefined') return [];
+    const candidates = events.filter(event => isStorableKind(event.kind));
+    const storable = candidates.filter(event => verifyEvent(event));
+    if (storable.length < candidates.length) {
+      logger.warn('Dropped events with invalid signatures', {
+        service: 'EventStoreService',
+        method: 'putEvents',
+        dropped: candidates.length - storable.length,
+      });
+    }
+    if (storable.length === 0) return [];
+
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(['events', 'deletions'], 'readwrite');
+      const changedKinds = new Set<number>();
+
+      // Deletions first so events deleted in the same batch aren't stored
+      const ordered = [...storable].sort((a, b) => (a.kind === 5 ? -1 : 0) - (b.kind === 5 ? -1 : 0));
+      for (const event of ordered) {
+        if (event.kind === 5) {
+          (await this.applyDeletion(tx, event)).forEach(kind => changedKinds.add(kind));
+        }
+        if (await this.storeEvent(tx, event)) {
+          changedKinds.add(event.kind);
+        }
+      }
+
+      await tx.done;
+      void this.pruneIfDue();
+
+      if (changedKinds.size > 0) {
+        this.notify(Array.from(changedKinds));
+      }
+      return Array.from(changedKinds);
+    } catch (error) {
+      this.logFailure('putEvents', error);
+      return [];
+    }
+  }
+
+  /**
+   * Listen for changes to stored events - returns an unsubscribe function
+   */
+  public subscribe(listener: (kinds: number[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Insert an event unless it is deleted, already stored or superseded
+   * Returns true when the stored results changed
+   */
+  private async storeEvent(tx: StoreTransaction, event: NostrEvent): Promise<boolean> {
+    const events = tx.objectStore('events');
+    const deletions = tx.objectStore('deletions');
+    const address = getAddress(event);
+
+    if (await deletions.get(deletionKey(event.pubkey, event.id))) return false;
+    if (address) {
+      const deletedByAddress = await deletions.get(deletionKey(event.pubkey, address));
+      if (deletedByAddress && deletedByAddress.deletedAt >= event.created_at) return false;
+    }
+
+    const existing = await events.get(event.id);
+    if (existing) {
+      await events.put({ ...existing, seenAt: Date.now() });
+      return false;
+    }
+
+    if (address) {
+      const versions = await events.index('by-address').getAll(address);
+      if (versions.some(version => compareNewestFirst(version.event, event) < 0)) {
+        return false; // A newer version is already stored
+      }
+      await Promise.all(versions.map(version => events.delete(version.id)));
+    }
+
+    await events.put({
+      id: event.id,
+      event,
+      kind: event.kind,
+      pubkey: event.pubkey,
+      createdAt: event.created_at,
+      dTag: address && event.kind >= 30000 ? getTagValue(event, 'd') || '' : undefined,
+      tTags: Array.from(new Set(event.tags.filter(tag => tag[0] === 't' && tag[1]).map(tag => tag[1]))),
+      address,
+      seenAt: Date.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Apply a NIP-09 deletion: remove the author's referenced events and remember them
+   */
+  private async applyDeletion(tx: StoreTransaction, deletion: NostrEvent): Promise<number[]> {
+    const events = tx.objectStore('events');
+    const deletions = tx.objectStore('deletions');
+    const changedKinds: number[] = [];
+
+    const remember = async (target: string, deletedAt: number) => {
+      const key = deletionKey(deletion.pubkey, target);
+      const existing = await deletions.get(key);
+      if (!existing || existing.deletedAt < deletedAt) {
+        await deletions.put({ key, pubkey: deletion.pubkey, deletedAt });
+      }
+    };
+
+    for (const [name, value] of deletion.tags) {
+      if (name === 'e' && value) {
+        await remember(value, deletion.created_at);
+        const stored = await events.get(value);
+        if (stored && stored.pubkey === deletion.pubkey) {
+          await events.delete(value);
+          changedKinds.push(stored.kind);
+          // Older versions of the same address must not come back either
+          if (stored.address) await remember(stored.address, stored.createdAt);
+        }
+      } else if (name === 'a' && value) {
+        const [, pubkey] = value.split(':');
+        if (pubkey !== deletion.pubkey) continue;
+
+        await remember(value, deletion.created_at);
+        const versions = await events.index('by-address').getAll(value);
+        for (const version of versions) {
+          if (version.createdAt <= deletion.created_at) {
+            await events.delete(version.id);
+            changedKinds.push(version.kind);
+          }
+        }
+      }
+    }
+
+    return changedKinds;
+  }
+
+  /**
+   * Narrow a filter to stored events using the most selective index available
+   */
+  private async getCandidates(db: IDBPDatabase<EventStoreDB>, filter: Record<string, unknown>): Promise<StoredEvent[]> {
+    const ids = stringList(filter.ids);
+    if (ids.length > 0) {
+      const found = await Promise.all(ids.map(id => db.get('events', id)));
+      return found.filter((stored): stored is StoredEvent => stored !== undefined);
+    }
+
+    const lookup = async (index: 'by-d-tag' | 'by-pubkey' | 'by-t', values: string[]) =>
+      (await Promise.all(values.map(value => db.getAllFromIndex('events', index, value)))).flat();
+
+    if (Array.isArray(filter['#d'])) return lookup('by-d-tag', stringList(filter['#d']));
+    if (Array.isArray(filter.authors)) return lookup('by-pubkey', stringList(filter.authors));
+    if (Array.isArray(filter['#t'])) return lookup('by-t', stringList(filter['#t']));
+
+    const kinds = numberList(filter.kinds);
+    return (await Promise.all(kinds.map(kind => db.getAllFromIndex('events', 'by-kind', kind)))).flat();
+  }
+
+  /**
+   * Drop events not seen for maxAgeDays and cap the store at maxEvents, and the
+   * fetched-filter records the same way (at most once an hour)
+   */
+  private async pruneIfDue(): Promise<void> {
+    if (Date.now() - this.lastPrune < 60 * 60 * 1000) return;
+    this.lastPrune = Date.now();
+
+    try {
+      const db = await this.getDB();
+      const cutoff = Date.now() - EVENT_STORE_CONFIG.maxAgeDays * 24 * 60 * 60 * 1000;
+      const total = await db.count('events');
+      const overflow = Math.max(0, total - EVENT_STORE_CONFIG.maxEvents);
+
+      const tx = db.transaction('events', 'readwrite');
+      let removed = 0;
+      let cursor = await tx.store.index('by-seen-at').openCursor();
+      while (cursor && (cursor.value.seenAt < cutoff || removed < overflow)) {
+        await cursor.delete();
+        removed++;
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+
+      const removedQueries = await this.pruneQueries(db, Math.floor(cutoff / 1000));
+
+      if (removed > 0 || removedQueries > 0) {
+        logger.info('Pruned local event store', {
+          service: 'EventStoreService',
+          method: 'pruneIfDue',
+          removed,
+          remaining: total - removed,
+          removedQueries,
+        });
+      }
+    } catch (error) {
+      this.logFailure('pruneIfDue', error);
+    }
+  }
+
+  /**
+   * Drop fetched-filter records not fetched since cutoff (seconds) and cap them at maxQueries
+   * A dropped record only means the next read of those filters goes to relays first
+   */
+  private async pruneQueries(db: IDBPDatabase<EventStoreDB>, cutoff: number): Promise<number> {
+    const records = (await db.getAll('queries')).sort((a, b) => a.fetchedAt - b.fetchedAt);
+    const overflow = Math.max(0, records.length - EVENT_STORE_CONFIG.maxQueries);
+    const stale = records.filter((record, index) => index < overflow || record.fetchedAt < cutoff);
+    if (stale.length === 0) return 0;
+
+    const tx = db.transaction('queries', 'readwrite');
+    await Promise.all(stale.map(record => tx.store.delete(record.key)));
+    await tx.done;
+    return stale.length;
+  }
+
+  private getDB(): Promise<IDBPDatabase<EventStoreDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<EventStoreDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains('events')) {
+            const store = db.createObjectStore('events', { keyPath: 'id' });
+            store.createIndex('by-kind', 'kind');
+            store.createIndex('by-pubkey', 'pubkey');
+            store.createIndex('by-d-tag', 'dTag');
+            store.createIndex('by-t', 'tTags', { multiEntry: true });
+            store.createIndex('by-address', 'address');
+            store.createIndex('by-seen-at', 'seenAt');
+          }
+          if (!db.objectStoreNames.contains('deletions')) {
+            db.createObjectStore('deletions', { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains('queries')) {
+            db.createObjectStore('queries', { keyPath: 'key' });
+          }
+        },
+        // Logout deletes every IndexedDB database - don't hold it open
+        blocking: () => {
+          void this.dbPromise?.then(db => db.close());
+          this.dbPromise = null;
+        },
+        terminated: () => {
+          this.dbPromise = null;
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private notify(kinds: number[]): void {
+    this.listeners.forEach(listener => listener(kinds));
+  }
+
+  private logFailure(method: string, error: unknown): void {
+    logger.warn('Local event store unavailable', {
+      service: 'EventStoreService',
+      method,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * NIP-01 filter matching (ids, kinds, authors, #<tag>, since, until)
+ */
+function matchesFilter(event: NostrEvent, filter: Record<string, unknown>): boolean {
+  const ids = stringList(filter.ids);
+  if (Array.isArray(filter.ids) && !ids.includes(event.id)) return false;
+  if (Array.isArray(filter.kinds) && !numberList(filter.kinds).includes(event.kind)) return false;
+  if (Array.isArray(filter.authors) && !stringList(filter.authors).includes(event.pubkey)) return false;
+  if (typeof filter.since === 'number' && event.created_at < filter.since) return false;
+  if (typeof filter.until === 'number' && event.created_at > filter.until) return false;
+
+  return Object.entries(filter)
+    .filter(([key]) => key.length === 2 && key.startsWith('#'))
+    .every(([key, values]) => {
+      const wanted = stringList(values);
+      return event.tags.some(tag => tag[0] === key[1] && wanted.includes(tag[1]));
+    });
+}
+
+/**
+ * Private and ephemeral kinds are never stored
+ */
+function isStorableKind(kind: number): boolean {
+  const [ephemeralStart, ephemeralEnd] = EVENT_STORE_CONFIG.ephemeralKindRange;
+  if (kind >= ephemeralStart && kind < ephemeralEnd) return false;
+  return !EVENT_STORE_CONFIG.excludedKinds.includes(kind);
+}
+
+/**
+ * Replaceable (0, 3, 10000-19999) and parameterized replaceable (30000-39999) coordinate
+ */
+function getAddress(event: NostrEvent): string | undefined {
+  if (event.kind === 0 || event.kind === 3 || (event.kind >= 10000 && event.kind < 20000)) {
+    return `${event.kind}:${event.pubkey}:`;
+  }
+  if (event.kind >= 30000 && event.kind < 40000) {
+    return `${event.kind}:${event.pubkey}:${getTagValue(event, 'd') || ''}`;
+  }
+  return undefined;
+}
+
+function deletionKey(pubkey: string, target: string): string {
+  return `${pubkey}:${target}`;
+}
+
+function getTagValue(event: NostrEvent, name: string): string | undefined {
+  return event.tags.find(tag => tag[0] === name)?.[1];
+}
+
+// Newest first; NIP-01 tie-break keeps the lowest id
+function compareNewestFirst(a: NostrEvent, b: NostrEvent): number {
+  if (a.created_at !== b.created_at) return b.created_at - a.created_at;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function queryKey(filters: Record<string, unknown>[]): string {
+  return JSON.stringify(
+    filters.map(filter =>
+      Object.keys(filter)
+        .sort()
+        .map(key => {
+          const value = filter[key];
+          return [key, Array.isArray(value) ? [...value].sort() : value];
+        })
+    )
+  );
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function numberList(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((v): v is number => typeof v === 'number') : [];
+}
+
+export const eventStoreService = EventStoreService.getInstance();
@@ -0,0 +1,82 @@
+import { logger } from '@/services/core/LoggingService';
+import { RelayListEntry } from '@/types/nostr';
+import { OUTBOX_CONFIG } from '@/config/relays';
+
+/**
+ * In-memory cache of NIP-65 relay lists (Kind 10002)
+ * Also caches "no relay list" results so we don't look the same pubkey up on every query
+ */
+export class RelayListCacheService {
+  private static instance: RelayListCacheService;
+  private cache: Map<string, { entry: RelayListEntry; timestamp: number }> = new Map();
+  private readonly TTL = OUTBOX_CONFIG.relayListTTL;
+
+  private constructor() {
+    logger.info('RelayListCacheService initialized', {
+      service: 'RelayListCacheService',
+      ttl: this.TTL / 1000 + 's',
+    });
+  }
+
+  public static getInstance(): RelayListCacheService {
+    if (!RelayListCacheService.instance) {
+      RelayListCacheService.instance = new RelayListCacheService();
+    }
+    return RelayListCacheService.instance;
+  }
+
+  /**
+   * Get relay list from cache if available and not expired
+   * Returns undefined on miss so callers can tell "not cached" from "cached empty list"
+   */
+  public get(pubkey: string): RelayListEntry | undefined {
+    const cached = this.cache.get(pubkey);
+    if (!cached) return undefined;
+
+    if (Date.now() - cached.timestamp > this.TTL) {
+      this.cache.delete(pubkey);
+      return undefined;
+    }
+
+    return cached.entry;
+  }
+
+  /**
+   * Store relay list in cache
+   * Never replaces a newer list with an older one (relays can return stale Kind 10002 versions)
+   */
+  public set(pubkey: string, entry: RelayListEntry): void {
+    const existing = this.cache.get(pubkey);
+    if (existing && existing.entry.createdAt > entry.createdAt) {
+      existing.timestamp = Date.now();
+      return;
+    }
+
+    this.cache.set(pubkey, { entry, timestamp: Date.now() });
+
+    logger.debug('Relay list CACHED', {
+      service: 'RelayListCacheService',
+      method: 'set',
+      pubkey: pubkey.substring(0, 8) + '...',
+      readCount: entry.read.length,
+      writeCount: entry.write.length,
+      cacheSize: this.cache.size,
+    });
+  }
+
+  /**
+   * Remove specific relay list from cache
+   */
+  public invalidate(pubkey: string): void {
+    this.cache.delete(pubkey);
+  }
+
+  /**
+   * Clear entire cache
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+}
+
+export const relayListCacheService = RelayListCacheService.getInstance();
@@ -1,6 +1,6 @@
 
 import { nip44 } from 'nostr-tools';
-import { hexToBytes } from '@noble/hashes/utils';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 import type { NostrSigner } from '@/types/nostr';
 
 export class EncryptionService {
@@ -125,4 +125,48 @@ export class EncryptionService {
       );
     }
   }
+
+  /**
+   * Encrypt file contents with a new random AES-256-GCM key
+   * 
+   * @param data - File contents
+   * @returns Ciphertext prefixed with its 12-byte IV, and the key (hex string)
+   */
+  static async encryptFile(data: ArrayBuffer): Promise<{ ciphertext: Uint8Array; key: string }> {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+
+    const ciphertext = new Uint8Array(iv.length + encrypted.length);
+    ciphertext.set(iv);
+    ciphertext.set(encrypted, iv.length);
+
+    return {
+      ciphertext,
+      key: bytesToHex(new Uint8Array(await crypto.subtle.exportKey('raw', key))),
+    };
+  }
+
+  /**
+   * Decrypt file contents produced by encryptFile
+   * 
+   * @param ciphertext - IV-prefixed ciphertext
+   * @param key - AES-256 key (hex string)
+   * @returns Decrypted file contents
+   * @throws Error if the key is wrong or the data was modified
+   */
+  static async decryptFile(ciphertext: ArrayBuffer, key: string): Promise<ArrayBuffer> {
+    try {
+      const cryptoKey = await crypto.subtle.importKey('raw', hexToBytes(key), 'AES-GCM', false, ['decrypt']);
+      return await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(ciphertext, 0, 12) },
+        cryptoKey,
+        new Uint8Array(ciphertext, 12)
+      );
+    } catch (error) {
+      throw new Error(
+        `File decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 }
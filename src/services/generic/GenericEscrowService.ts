@@ -0,0 +1,176 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { logger } from '../core/LoggingService';
+import { AppError } from '../../errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
+import { EscrowProvider, HoldInvoice, HoldInvoiceState } from '../../types/escrow';
+import { ESCROW_PROVIDER, HOLD_INVOICE_EXPIRY_SECONDS } from '../../config/escrow';
+
+// localStorage key of the mock provider's invoices - starts with 'nostr' so logout clears it
+const MOCK_STORAGE_KEY = 'nostr-mock-escrow';
+
+interface MockHoldInvoice extends HoldInvoice {
+  state: HoldInvoiceState;
+}
+
+const escrowError = (message: string, context: Record<string, unknown>) =>
+  new AppError(
+    message,
+    ErrorCode.VALIDATION_ERROR,
+    HttpStatus.BAD_REQUEST,
+    ErrorCategory.VALIDATION,
+    ErrorSeverity.MEDIUM,
+    context
+  );
+
+function readMockInvoices(): Record<string, MockHoldInvoice> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_STORAGE_KEY) || '{}') as Record<string, MockHoldInvoice>;
+  } catch {
+    return {};
+  }
+}
+
+function updateMockInvoice(paymentHash: string, update: (invoice: MockHoldInvoice) => MockHoldInvoice): void {
+  const invoices = readMockInvoices();
+  const invoice = invoices[paymentHash];
+  if (!invoice) {
+    throw escrowError('Unknown hold invoice', { paymentHash });
+  }
+  invoices[paymentHash] = update(invoice);
+  localStorage.setItem(MOCK_STORAGE_KEY, JSON.stringify(invoices));
+}
+
+/**
+ * Local test provider - hold invoices live in this browser and payments are simulated
+ */
+const mockProvider: EscrowProvider = {
+  id: 'mock',
+  name: 'Test escrow (no real payments)',
+  isTestProvider: true,
+  createHoldInvoice: async ({ amountSats, paymentHash }) => {
+    const invoice: MockHoldInvoice = {
+      invoice: `mock-hold-invoice:${amountSats}:${paymentHash}`,
+      paymentHash,
+      amountSats,
+      expiresAt: Math.floor(Date.now() / 1000) + HOLD_INVOICE_EXPIRY_SECONDS,
+      state: 'open',
+    };
+    localStorage.setItem(MOCK_STORAGE_KEY, JSON.stringify({ ...readMockInvoices(), [paymentHash]: invoice }));
+    return invoice;
+  },
+  getHoldInvoiceState: async paymentHash => {
+    const invoice = readMockInvoices()[paymentHash];
+    if (!invoice) return 'cancelled';
+    return invoice.state === 'open' && invoice.expiresAt < Date.now() / 1000 ? 'cancelled' : invoice.state;
+  },
+  settleHoldInvoice: async preimage => {
+    const paymentHash = bytesToHex(sha256(hexToBytes(preimage)));
+    updateMockInvoice(paymentHash, invoice => {
+      if (invoice.state !== 'held') {
+        throw escrowError(`Hold invoice is ${invoice.state}, not held`, { paymentHash });
+      }
+      return { ...invoice, state: 'settled' };
+    });
+  },
+  cancelHoldInvoice: async paymentHash => {
+    updateMockInvoice(paymentHash, invoice => (invoice.state === 'settled' ? invoice : { ...invoice, state: 'cancelled' }));
+  },
+  simulatePayment: async paymentHash => {
+    updateMockInvoice(paymentHash, invoice => {
+      if (invoice.state !== 'open') {
+        throw escrowError(`Hold invoice is ${invoice.state}`, { paymentHash });
+      }
+      return { ...invoice, state: 'held' };
+    });
+  },
+};
+
+/**
+ * GenericEscrowService
+ * Registry of escrow providers that issue and settle hold invoices.
+ * The provider for new contracts comes from config (NEXT_PUBLIC_ESCROW_PROVIDER);
+ * existing contracts keep using the provider recorded in their terms.
+ */
+export class GenericEscrowService {
+  private static instance: GenericEscrowService;
+  private providers: Map<string, EscrowProvider> = new Map([[mockProvider.id, mockProvider]]);
+  private providerId: string = ESCROW_PROVIDER;
+
+  private constructor() {}
+
+  public static getInstance(): GenericEscrowService {
+    if (!GenericEscrowService.instance) {
+      GenericEscrowService.instance = new GenericEscrowService();
+    }
+    return GenericEscrowService.instance;
+  }
+
+  public registerProvider(provider: EscrowProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Provider by id, if registered in this client
+   */
+  public findProvider(providerId: string): EscrowProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  /**
+   * Provider by id, or the default provider for new contracts
+   */
+  public getProvider(providerId: string = this.providerId): EscrowProvider {
+    const provider = this.findProvider(providerId);
+    if (!provider) {
+      throw new AppError(
+        `Unknown escrow provider: ${providerId}`,
+        ErrorCode.VALIDATION_ERROR,
+        HttpStatus.BAD_REQUEST,
+        ErrorCategory.VALIDATION,
+        ErrorSeverity.MEDIUM,
+        { providerId }
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * New random preimage and its payment hash (hex)
+   */
+  public createPreimage(): { preimage: string; paymentHash: string } {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return { preimage: bytesToHex(bytes), paymentHash: bytesToHex(sha256(bytes)) };
+  }
+
+  /**
+   * Whether a preimage unlocks a payment hash
+   */
+  public matchesPaymentHash(preimage: string, paymentHash: string): boolean {
+    try {
+      return bytesToHex(sha256(hexToBytes(preimage))) === paymentHash;
+    } catch {
+      return false;
+    }
+  }
+
+  public async createHoldInvoice(
+    providerId: string,
+    request: Parameters<EscrowProvider['createHoldInvoice']>[0]
+  ): Promise<HoldInvoice> {
+    const holdInvoice = await this.getProvider(providerId).createHoldInvoice(request);
+
+    logger.info('Hold invoice created', {
+      service: 'GenericEscrowService',
+      method: 'createHoldInvoice',
+      providerId,
+      amountSats: request.amountSats,
+      paymentHash: holdInvoice.paymentHash,
+    });
+
+    return holdInvoice;
+  }
+}
+
+export const genericEscrowService = GenericEscrowService.getInstance();
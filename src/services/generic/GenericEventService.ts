@@ -1,5 +1,11 @@
+import { verifyEvent } from 'nostr-tools';
 import { logger } from '../core/LoggingService';
-import { NostrSigner, NostrEvent, NIP23Event, NIP23Content } from '../../types/nostr';
+import { NostrSigner, NostrEvent, NIP23Event, NIP23Content, RelayPreference } from '../../types/nostr';
+import { ZapTarget } from '../../types/zap';
+import { MAX_RATING, PURCHASE_PROOF_KIND, REVIEW_KIND, REVIEW_SYSTEM_TAG, ReviewData } from '../../types/review';
+import type { MarketplaceListingData, Nip15ProductContent, Nip15StallContent } from '../../types/shop';
+import { CONTRACT_EVENT_KIND, ContractAction } from '../../types/escrow';
+import { TALENT_PROFILE_D_TAG, TALENT_SYSTEM_TAG, TalentProfile } from '../../types/talent';
 import { getRelayUrls } from '@/config/relays';
 
 export interface EventCreationOptions {
@@ -348,9 +354,12 @@ export class GenericEventService {
         };
       }
 
-      // In a full implementation, you would use crypto.verify or similar
-      // to actually verify the cryptographic signature
-      // For now, we'll do basic format validation
+      if (!verifyEvent(event)) {
+        return {
+          valid: false,
+          error: 'Signature does not match event',
+        };
+      }
 
       logger.info('Event signature verification completed', {
         service: 'GenericEventService',
@@ -506,6 +515,295 @@ export class GenericEventService {
     };
   }
 
+  /**
+   * Create a NIP-65 Kind 10002 relay list event
+   * Relays used for both directions get an unmarked 'r' tag
+   */
+  public createRelayListEvent(
+    userPubkey: string,
+    relays: RelayPreference[]
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const tags = relays
+      .filter(relay => relay.read || relay.write)
+      .map(relay => {
+        if (relay.read && relay.write) return ['r', relay.url];
+        return ['r', relay.url, relay.read ? 'read' : 'write'];
+      });
+
+    return {
+      kind: 10002,
+      pubkey: userPubkey,
+      created_at: now,
+      tags,
+      content: '',
+    };
+  }
+
+  /**
+   * Create a NIP-57 Kind 9734 zap request for an addressable event
+   * Not published - it is sent to the recipient's LNURL server, which embeds it in the Kind 9735 receipt
+   */
+  public createZapRequestEvent(
+    target: ZapTarget,
+    amountMsats: number,
+    relays: string[],
+    userPubkey: string,
+    options: { comment?: string; lnurl?: string } = {}
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: 9734,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [
+        ['relays', ...relays],
+        ['amount', String(amountMsats)],
+        ...(options.lnurl ? [['lnurl', options.lnurl]] : []),
+        ['p', target.pubkey],
+        ['e', target.eventId],
+        ['a', `${target.kind}:${target.pubkey}:${target.dTag}`],
+        ['k', String(target.kind)],
+      ],
+      content: options.comment || '',
+    };
+  }
+
+  /**
+   * Create a Kind 31555 review of a product or seller
+   * Rating (1-5 stars) is stored as a 0-1 score; a purchase proof is embedded as JSON
+   */
+  public createReviewEvent(review: ReviewData, userPubkey: string): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+    const { target } = review;
+
+    return {
+      kind: REVIEW_KIND,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [
+        ['d', target.type === 'product' ? `a:${target.address}` : `p:${target.sellerPubkey}`],
+        ...(target.type === 'product' ? [['a', target.address]] : []),
+        ['p', target.sellerPubkey],
+        ['rating', String(review.rating / MAX_RATING), 'thumb'],
+        ...(review.purchaseProof ? [['proof', JSON.stringify(review.purchaseProof)]] : []),
+        ['t', REVIEW_SYSTEM_TAG],
+      ],
+      content: review.content,
+    };
+  }
+
+  /**
+   * Create the user's talent profile (Kind 30023 with a fixed d tag - one per user)
+   * The bio is the content; skills, rate, languages, time zone, availability and
+   * portfolio items are tags.
+   */
+  public createTalentProfileEvent(
+    profile: Omit<TalentProfile, 'id' | 'pubkey' | 'createdAt'>,
+    userPubkey: string
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: 30023,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [
+        ['d', TALENT_PROFILE_D_TAG],
+        ['t', TALENT_SYSTEM_TAG],
+        ['title', profile.headline],
+        ['published_at', String(now)],
+        ...profile.skills.map(skill => ['skill', skill]),
+        ...(profile.hourlyRate ? [['rate', String(profile.hourlyRate.amount), profile.hourlyRate.currency, 'hour']] : []),
+        ...profile.languages.map(language => ['language', language]),
+        ['timezone', profile.timeZone],
+        ['availability', profile.availability],
+        ...profile.portfolio.map(item => ['portfolio', item.url, item.title, ...(item.description ? [item.description] : [])]),
+      ],
+      content: profile.bio,
+    };
+  }
+
+  /**
+   * Create the purchase proof a seller signs when completing an order
+   * Sent to the buyer inside the order status message, never published on its own
+   */
+  public createPurchaseProofEvent(
+    orderId: string,
+    buyerPubkey: string,
+    productAddresses: string[],
+    sellerPubkey: string
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: PURCHASE_PROOF_KIND,
+      pubkey: sellerPubkey,
+      created_at: now,
+      tags: [
+        ['p', buyerPubkey],
+        ['order', orderId],
+        ...productAddresses.map(address => ['a', address]),
+      ],
+      content: '',
+    };
+  }
+
+  /**
+   * Create one step of a Work escrow contract, signed by the party taking it
+   * Sent to the counterparty inside NIP-17 contract messages, never published on its own
+   *
+   * @param action - Contract step
+   * @param contractId - Id of the propose event (null for the propose event itself)
+   * @param counterpartyPubkey - The other party of the contract
+   * @param workAddress - Address of the hired Work listing
+   * @param details - Step details, stored as JSON content
+   * @param userPubkey - Signer of the step
+   * @param milestoneId - Milestone the step applies to (fund, deliver, release)
+   */
+  public createContractEvent(
+    action: ContractAction,
+    contractId: string | null,
+    counterpartyPubkey: string,
+    workAddress: string,
+    details: object,
+    userPubkey: string,
+    milestoneId?: string
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    return {
+      kind: CONTRACT_EVENT_KIND,
+      pubkey: userPubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [
+        ['p', counterpartyPubkey],
+        ['a', workAddress],
+        ['action', action],
+        ...(contractId ? [['e', contractId]] : []),
+        ...(milestoneId ? [['milestone', milestoneId]] : []),
+      ],
+      content: JSON.stringify(details),
+    };
+  }
+
+  /**
+   * NIP-40 expiration tag, or no tag for listings that never expire
+   */
+  public createExpirationTags(expiresAt: number | null | undefined): string[][] {
+    return expiresAt ? [['expiration', String(expiresAt)]] : [];
+  }
+
+  /**
+   * NIP-40 expiration timestamp of an event, or null when it never expires
+   */
+  public getEventExpiration(tags: string[][]): number | null {
+    const expiresAt = parseInt(tags.find(t => t[0] === 'expiration')?.[1] || '', 10);
+    return Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : null;
+  }
+
+  /**
+   * Whether an event's NIP-40 expiration has passed
+   */
+  public isEventExpired(tags: string[][], now: number = Math.floor(Date.now() / 1000)): boolean {
+    const expiresAt = this.getEventExpiration(tags);
+    return expiresAt !== null && expiresAt <= now;
+  }
+
+  /**
+   * Copy of a replaceable event with a new NIP-40 expiration and a fresh created_at
+   * Used to renew (bump) a listing without changing its content
+   */
+  public createRenewedEvent(event: NostrEvent, expiresAt: number): Omit<NostrEvent, 'id' | 'sig'> {
+    return {
+      kind: event.kind,
+      pubkey: event.pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [
+        ...event.tags.filter(t => t[0] !== 'expiration'),
+        ...this.createExpirationTags(expiresAt),
+      ],
+      content: event.content,
+    };
+  }
+
+  /**
+   * Create a NIP-99 Kind 30402 classified listing
+   * Currency must already be a NIP-99 code (ISO 4217, SATS or BTC)
+   */
+  public createClassifiedListingEvent(
+    listing: MarketplaceListingData,
+    userPubkey: string,
+    systemTag: string
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: 30402,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [
+        ['d', listing.dTag],
+        ['title', listing.title],
+        ['summary', listing.description.substring(0, 200)],
+        ['published_at', String(listing.publishedAt)],
+        ['location', listing.location],
+        ['price', String(listing.price), listing.currency],
+        ['status', listing.availability === 'sold-out' ? 'sold' : 'active'],
+        ['condition', listing.condition],
+        ['t', listing.category],
+        ...listing.tags.map(tag => ['t', tag]),
+        ['t', systemTag],
+        ...listing.imageUrls.map(url => ['image', url]),
+        ...this.createExpirationTags(listing.expiresAt),
+      ],
+      content: listing.description,
+    };
+  }
+
+  /**
+   * Create a NIP-15 Kind 30017 stall
+   */
+  public createStallEvent(
+    stall: Nip15StallContent,
+    userPubkey: string
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: 30017,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [['d', stall.id]],
+      content: JSON.stringify(stall),
+    };
+  }
+
+  /**
+   * Create a NIP-15 Kind 30018 stall product
+   * Categories become 't' tags so NIP-15 clients can filter on them
+   */
+  public createStallProductEvent(
+    product: Nip15ProductContent,
+    categories: string[],
+    userPubkey: string,
+    expiresAt: number | null = null
+  ): Omit<NostrEvent, 'id' | 'sig'> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      kind: 30018,
+      pubkey: userPubkey,
+      created_at: now,
+      tags: [
+        ['d', product.id],
+        ...categories.map(category => ['t', category]),
+        ...this.createExpirationTags(expiresAt),
+      ],
+      content: JSON.stringify(product),
+    };
+  }
+
   /**
    * Create a NIP-09 Kind 5 deletion event
    * This properly deletes events according to Nostr protocol
@@ -823,6 +1121,65 @@ export const createBlossomAuthEvent = (userPubkey: string) =>
 export const createUserServerListEvent = (userPubkey: string, servers: string[]) =>
   genericEventService.createUserServerListEvent(userPubkey, servers);
 
+export const createRelayListEvent = (userPubkey: string, relays: RelayPreference[]) =>
+  genericEventService.createRelayListEvent(userPubkey, relays);
+
+export const createZapRequestEvent = (
+  target: ZapTarget,
+  amountMsats: number,
+  relays: string[],
+  userPubkey: string,
+  options?: { comment?: string; lnurl?: string }
+) => genericEventService.createZapRequestEvent(target, amountMsats, relays, userPubkey, options);
+
+export const createReviewEvent = (review: ReviewData, userPubkey: string) =>
+  genericEventService.createReviewEvent(review, userPubkey);
+
+export const createPurchaseProofEvent = (
+  orderId: string,
+  buyerPubkey: string,
+  productAddresses: string[],
+  sellerPubkey: string
+) => genericEventService.createPurchaseProofEvent(orderId, buyerPubkey, productAddresses, sellerPubkey);
+
+export const createTalentProfileEvent = (profile: Omit<TalentProfile, 'id' | 'pubkey' | 'createdAt'>, userPubkey: string) =>
+  genericEventService.createTalentProfileEvent(profile, userPubkey);
+
+export const createContractEvent = (
+  action: ContractAction,
+  contractId: string | null,
+  counterpartyPubkey: string,
+  workAddress: string,
+  details: object,
+  userPubkey: string,
+  milestoneId?: string
+) => genericEventService.createContractEvent(action, contractId, counterpartyPubkey, workAddress, details, userPubkey, milestoneId);
+
+export const createClassifiedListingEvent = (listing: MarketplaceListingData, userPubkey: string, systemTag: string) =>
+  genericEventService.createClassifiedListingEvent(listing, userPubkey, systemTag);
+
+export const createStallEvent = (stall: Nip15StallContent, userPubkey: string) =>
+  genericEventService.createStallEvent(stall, userPubkey);
+
+export const createStallProductEvent = (
+  product: Nip15ProductContent,
+  categories: string[],
+  userPubkey: string,
+  expiresAt?: number | null
+) => genericEventService.createStallProductEvent(product, categories, userPubkey, expiresAt);
+
+export const createExpirationTags = (expiresAt: number | null | undefined) =>
+  genericEventService.createExpirationTags(expiresAt);
+
+export const getEventExpiration = (tags: string[][]) =>
+  genericEventService.getEventExpiration(tags);
+
+export const isEventExpired = (tags: string[][], now?: number) =>
+  genericEventService.isEventExpired(tags, now);
+
+export const createRenewedEvent = (event: NostrEvent, expiresAt: number) =>
+  genericEventService.createRenewedEvent(event, expiresAt);
+
 export const createCalendarEvent = (
   meetupData: {
     name: string;
@@ -0,0 +1,166 @@
+import { logger } from '../core/LoggingService';
+import { AppError } from '../../errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
+import { ExchangeRateProvider, ExchangeRates } from '../../types/exchange-rate';
+import {
+  EXCHANGE_RATE_PROVIDER,
+  EXCHANGE_RATE_TIMEOUT,
+  EXCHANGE_RATE_TTL,
+  FIXTURE_BTC_RATES,
+} from '../../config/currency';
+
+/**
+ * CoinGecko simple price API (no key required)
+ */
+const coingeckoProvider: ExchangeRateProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  fetchBtcRates: async (currencies, signal) => {
+    const vsCurrencies = currencies.map(currency => currency.toLowerCase()).join(',');
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=${vsCurrencies}`,
+      { signal }
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as { bitcoin?: Record<string, number> };
+    return Object.fromEntries(
+      Object.entries(data.bitcoin || {}).map(([currency, rate]) => [currency.toUpperCase(), rate])
+    );
+  },
+};
+
+/**
+ * Static rates from config - offline development and tests
+ */
+const fixtureProvider: ExchangeRateProvider = {
+  id: 'fixture',
+  name: 'Fixture rates',
+  fetchBtcRates: async currencies =>
+    Object.fromEntries(
+      currencies
+        .filter(currency => FIXTURE_BTC_RATES[currency] !== undefined)
+        .map(currency => [currency, FIXTURE_BTC_RATES[currency]])
+    ),
+};
+
+/**
+ * GenericExchangeRateService
+ * Fetches and caches BTC prices in fiat currencies from a pluggable provider.
+ * The active provider comes from config (NEXT_PUBLIC_EXCHANGE_RATE_PROVIDER) and
+ * can be swapped at runtime, e.g. for the fixture provider in tests.
+ */
+export class GenericExchangeRateService {
+  private static instance: GenericExchangeRateService;
+  private providers: Map<string, ExchangeRateProvider> = new Map([
+    [coingeckoProvider.id, coingeckoProvider],
+    [fixtureProvider.id, fixtureProvider],
+  ]);
+  private providerId: string = EXCHANGE_RATE_PROVIDER;
+  private cache: ExchangeRates | null = null;
+  private pending: Promise<ExchangeRates> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): GenericExchangeRateService {
+    if (!GenericExchangeRateService.instance) {
+      GenericExchangeRateService.instance = new GenericExchangeRateService();
+    }
+    return GenericExchangeRateService.instance;
+  }
+
+  public registerProvider(provider: ExchangeRateProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Switch the active provider (clears cached rates)
+   */
+  public setProvider(providerId: string): void {
+    if (!this.providers.has(providerId)) {
+      throw new AppError(
+        `Unknown exchange rate provider: ${providerId}`,
+        ErrorCode.VALIDATION_ERROR,
+        HttpStatus.BAD_REQUEST,
+        ErrorCategory.VALIDATION,
+        ErrorSeverity.LOW,
+        { providerId }
+      );
+    }
+    this.providerId = providerId;
+    this.cache = null;
+  }
+
+  /**
+   * BTC prices for the given fiat currencies (cached for EXCHANGE_RATE_TTL)
+   * If a refresh fails, the last known rates are returned instead
+   */
+  public async getRates(currencies: string[]): Promise<ExchangeRates> {
+    const cached = this.getCachedRates();
+    if (cached && currencies.every(currency => cached.rates[currency] !== undefined)) {
+      return cached;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchRates(currencies).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Synchronous cache lookup - returns null if rates haven't been fetched yet or expired
+   */
+  public getCachedRates(): ExchangeRates | null {
+    if (!this.cache || Date.now() - this.cache.fetchedAt > EXCHANGE_RATE_TTL) {
+      return null;
+    }
+    return this.cache;
+  }
+
+  private async fetchRates(currencies: string[]): Promise<ExchangeRates> {
+    const provider = this.providers.get(this.providerId) || coingeckoProvider;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), EXCHANGE_RATE_TIMEOUT);
+
+    try {
+      const rates = await provider.fetchBtcRates(currencies, controller.signal);
+      this.cache = { provider: provider.id, rates, fetchedAt: Date.now() };
+
+      logger.debug('Exchange rates fetched', {
+        service: 'GenericExchangeRateService',
+        method: 'fetchRates',
+        provider: provider.id,
+        currencies: Object.keys(rates).length,
+      });
+
+      return this.cache;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Exchange rate request failed', {
+        service: 'GenericExchangeRateService',
+        method: 'fetchRates',
+        provider: provider.id,
+        error: errorMessage,
+      });
+
+      if (this.cache) return this.cache;
+
+      throw new AppError(
+        'Could not load exchange rates',
+        ErrorCode.NETWORK_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.NETWORK,
+        ErrorSeverity.LOW,
+        { provider: provider.id, originalError: errorMessage }
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export const genericExchangeRateService = GenericExchangeRateService.getInstance();
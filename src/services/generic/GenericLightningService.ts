@@ -0,0 +1,208 @@
+import { nip57 } from 'nostr-tools';
+import { logger } from '../core/LoggingService';
+import { AppError } from '../../errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
+import { NostrEvent } from '../../types/nostr';
+import { LnurlPayEndpoint } from '../../types/zap';
+import { decodeLnurl, lightningAddressToUrl } from '../../utils/lnurl';
+
+interface LnurlPayResponse {
+  tag?: string;
+  callback?: string;
+  minSendable?: number;
+  maxSendable?: number;
+  commentAllowed?: number;
+  allowsNostr?: boolean;
+  nostrPubkey?: string;
+  status?: string;
+  reason?: string;
+}
+
+interface LnurlInvoiceResponse {
+  pr?: string;
+  status?: string;
+  reason?: string;
+}
+
+/**
+ * GenericLightningService
+ * LNURL-pay protocol (LUD-06 / LUD-16) and bolt11 helpers.
+ * Non-custodial: it only fetches invoices, paying them is up to the user's wallet.
+ */
+export class GenericLightningService {
+  private static instance: GenericLightningService;
+  private endpointCache: Map<string, { endpoint: LnurlPayEndpoint; timestamp: number }> = new Map();
+  private readonly endpointTTL = 10 * 60 * 1000; // 10 minutes
+  private readonly requestTimeout = 10000; // 10 seconds
+
+  private constructor() {}
+
+  public static getInstance(): GenericLightningService {
+    if (!GenericLightningService.instance) {
+      GenericLightningService.instance = new GenericLightningService();
+    }
+    return GenericLightningService.instance;
+  }
+
+  /**
+   * Resolve the LNURL-pay endpoint for a lightning address (lud16) or LNURL (lud06)
+   */
+  public async resolvePayEndpoint(lightning: { lud16?: string; lud06?: string }): Promise<LnurlPayEndpoint> {
+    const url = lightning.lud16
+      ? lightningAddressToUrl(lightning.lud16)
+      : lightning.lud06
+        ? decodeLnurl(lightning.lud06)
+        : null;
+
+    if (!url) {
+      throw new AppError(
+        'Recipient has no valid lightning address',
+        ErrorCode.VALIDATION_ERROR,
+        HttpStatus.BAD_REQUEST,
+        ErrorCategory.VALIDATION,
+        ErrorSeverity.LOW,
+        { lud16: lightning.lud16, hasLud06: !!lightning.lud06 }
+      );
+    }
+
+    const cached = this.endpointCache.get(url);
+    if (cached && Date.now() - cached.timestamp < this.endpointTTL) {
+      return cached.endpoint;
+    }
+
+    const response = await this.fetchJson<LnurlPayResponse>(url, 'resolvePayEndpoint');
+    if (response.status === 'ERROR' || response.tag !== 'payRequest' || !response.callback) {
+      throw new AppError(
+        response.reason || 'Lightning address does not support LNURL-pay',
+        ErrorCode.EXTERNAL_SERVICE_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.EXTERNAL_SERVICE,
+        ErrorSeverity.MEDIUM,
+        { url }
+      );
+    }
+
+    const endpoint: LnurlPayEndpoint = {
+      callback: response.callback,
+      minSendable: response.minSendable || 1000,
+      maxSendable: response.maxSendable || 0,
+      commentAllowed: response.commentAllowed || 0,
+      allowsNostr: response.allowsNostr === true && typeof response.nostrPubkey === 'string',
+      nostrPubkey: response.nostrPubkey,
+      lnurl: lightning.lud16 ? undefined : lightning.lud06?.toLowerCase(),
+    };
+
+    this.endpointCache.set(url, { endpoint, timestamp: Date.now() });
+
+    logger.info('LNURL-pay endpoint resolved', {
+      service: 'GenericLightningService',
+      method: 'resolvePayEndpoint',
+      callback: endpoint.callback,
+      allowsNostr: endpoint.allowsNostr,
+      minSendable: endpoint.minSendable,
+      maxSendable: endpoint.maxSendable,
+    });
+
+    return endpoint;
+  }
+
+  /**
+   * Request a bolt11 invoice from the endpoint's callback
+   * Passing a signed zap request (Kind 9734) makes the server publish a zap receipt once paid
+   */
+  public async requestInvoice(
+    endpoint: LnurlPayEndpoint,
+    amountMsats: number,
+    options: { zapRequest?: NostrEvent; comment?: string } = {}
+  ): Promise<string> {
+    if (amountMsats < endpoint.minSendable || (endpoint.maxSendable > 0 && amountMsats > endpoint.maxSendable)) {
+      throw new AppError(
+        `Amount must be between ${Math.ceil(endpoint.minSendable / 1000)} and ${Math.floor(endpoint.maxSendable / 1000)} sats`,
+        ErrorCode.VALIDATION_ERROR,
+        HttpStatus.BAD_REQUEST,
+        ErrorCategory.VALIDATION,
+        ErrorSeverity.LOW,
+        { amountMsats }
+      );
+    }
+
+    const url = new URL(endpoint.callback);
+    url.searchParams.set('amount', String(amountMsats));
+    if (options.zapRequest) {
+      url.searchParams.set('nostr', JSON.stringify(options.zapRequest));
+      if (endpoint.lnurl) url.searchParams.set('lnurl', endpoint.lnurl);
+    } else if (options.comment && endpoint.commentAllowed > 0) {
+      url.searchParams.set('comment', options.comment.slice(0, endpoint.commentAllowed));
+    }
+
+    const response = await this.fetchJson<LnurlInvoiceResponse>(url.toString(), 'requestInvoice');
+    if (response.status === 'ERROR' || !response.pr) {
+      throw new AppError(
+        response.reason || 'Lightning server did not return an invoice',
+        ErrorCode.EXTERNAL_SERVICE_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.EXTERNAL_SERVICE,
+        ErrorSeverity.MEDIUM,
+        { callback: endpoint.callback }
+      );
+    }
+
+    // The invoice must be for the amount we asked for
+    if (this.getInvoiceAmountSats(response.pr) * 1000 !== amountMsats) {
+      throw new AppError(
+        'Invoice amount does not match the requested amount',
+        ErrorCode.EXTERNAL_SERVICE_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.EXTERNAL_SERVICE,
+        ErrorSeverity.HIGH,
+        { callback: endpoint.callback }
+      );
+    }
+
+    return response.pr;
+  }
+
+  /**
+   * Amount encoded in a bolt11 invoice (0 for "any amount" invoices)
+   */
+  public getInvoiceAmountSats(bolt11: string): number {
+    try {
+      return nip57.getSatoshisAmountFromBolt11(bolt11);
+    } catch {
+      return 0;
+    }
+  }
+
+  private async fetchJson<T>(url: string, method: string): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('LNURL request failed', {
+        service: 'GenericLightningService',
+        method,
+        url: url.split('?')[0],
+        error: errorMessage,
+      });
+      throw new AppError(
+        'Could not reach the lightning server',
+        ErrorCode.NETWORK_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        ErrorCategory.NETWORK,
+        ErrorSeverity.MEDIUM,
+        { originalError: errorMessage }
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export const genericLightningService = GenericLightningService.getInstance();
@@ -0,0 +1,247 @@
+import { finalizeEvent, getPublicKey, nip04 } from 'nostr-tools';
+import { hexToBytes } from '@noble/hashes/utils';
+import { logger } from '../core/LoggingService';
+import { relayPoolService, PoolSubscription } from './RelayPoolService';
+import { EncryptionService } from './EncryptionService';
+import { AppError } from '../../errors/AppError';
+import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
+import { NostrEvent } from '../../types/nostr';
+import { NwcConnection, NwcEncryption, NwcMethod, NwcWalletInfo } from '../../types/wallet';
+
+interface NwcResponse<T> {
+  result_type?: string;
+  error?: { code: string; message: string } | null;
+  result?: T | null;
+}
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * GenericNwcService
+ * Nostr Wallet Connect (NIP-47) transport: parses connection URIs, reads the
+ * wallet's info event (Kind 13194) and sends encrypted requests (Kind 23194)
+ * over the wallet's relays, resolving with the matching response (Kind 23195).
+ * Requests are signed with the connection secret, never with the user's key.
+ */
+export class GenericNwcService {
+  private static instance: GenericNwcService;
+  private readonly infoTimeout = 8000; // 8 seconds
+  private readonly publishTimeout = 10000; // 10 seconds
+  private readonly requestTimeout = 30000; // 30 seconds
+  private readonly paymentTimeout = 60000; // Payments can take a while to route
+
+  private constructor() {}
+
+  public static getInstance(): GenericNwcService {
+    if (!GenericNwcService.instance) {
+      GenericNwcService.instance = new GenericNwcService();
+    }
+    return GenericNwcService.instance;
+  }
+
+  /**
+   * Parse a nostr+walletconnect://<wallet-pubkey>?relay=...&secret=... URI
+   */
+  public parseConnectionUri(uri: string): NwcConnection {
+    const invalid = (reason: string) =>
+      new AppError(
+        `Invalid wallet connection string: ${reason}`,
+        ErrorCode.VALIDATION_ERROR,
+        HttpStatus.BAD_REQUEST,
+        ErrorCategory.VALIDATION,
+        ErrorSeverity.LOW
+      );
+
+    const match = uri.trim().match(/^nostr\+walletconnect:(?:\/\/)?([^?]+)\?(.+)$/i);
+    if (!match) throw invalid('expected nostr+walletconnect://...');
+
+    const walletPubkey = match[1].toLowerCase();
+    const params = new URLSearchParams(match[2]);
+    const secret = params.get('secret')?.toLowerCase() || '';
+    const relays = params.getAll('relay').map(relay => relay.trim()).filter(relay => /^wss?:\/\//.test(relay));
+
+    if (!HEX_KEY_PATTERN.test(walletPubkey)) throw invalid('wallet pubkey is not a hex key');
+    if (!HEX_KEY_PATTERN.test(secret)) throw invalid('missing or malformed secret');
+    if (relays.length === 0) throw invalid('no relay');
+
+    return {
+      walletPubkey,
+      relays,
+      secret,
+      lud16: params.get('lud16') || undefined,
+    };
+  }
+
+  /**
+   * Read the wallet service's info event: supported methods and encryption
+   */
+  public async getWalletInfo(connection: NwcConnection): Promise<NwcWalletInfo | null> {
+    const results = await Promise.all(
+      connection.relays.map(relay =>
+        relayPoolService.query(
+          relay,
+          [{ kinds: [13194], authors: [connection.walletPubkey], limit: 1 }],
+          this.infoTimeout
+        )
+      )
+    );
+
+    const infoEvent = results.flat().sort((a, b) => b.created_at - a.created_at)[0];
+    if (!infoEvent) return null;
+
+    const encryptions = infoEvent.tags.find(tag => tag[0] === 'encryption')?.[1]?.split(' ') || [];
+
+    return {
+      methods: infoEvent.content.split(/\s+/).filter(Boolean),
+      // Wallets that don't advertise an encryption scheme only speak NIP-04
+      encryption: encryptions.includes('nip44_v2') ? 'nip44_v2' : 'nip04',
+    };
+  }
+
+  /**
+   * Send a request to the wallet service and wait for its response
+   */
+  public async request<T>(
+    connection: NwcConnection,
+    method: NwcMethod,
+    params: Record<string, unknown>,
+    encryption: NwcEncryption
+  ): Promise<T> {
+    const secretKey = hexToBytes(connection.secret);
+    const clientPubkey = getPublicKey(secretKey);
+    const now = Math.floor(Date.now() / 1000);
+    const timeoutMs = method === 'pay_invoice' ? this.paymentTimeout : this.requestTimeout;
+
+    const payload = JSON.stringify({ method, params });
+    const content = encryption === 'nip44_v2'
+      ? EncryptionService.encrypt(connection.secret, connection.walletPubkey, payload)
+      : nip04.encrypt(secretKey, connection.walletPubkey, payload);
+
+    const requestEvent = finalizeEvent(
+      {
+        kind: 23194,
+        created_at: now,
+        tags: [
+          ['p', connection.walletPubkey],
+          ...(encryption === 'nip44_v2' ? [['encryption', 'nip44_v2']] : []),
+          ['expiration', String(now + Math.ceil(timeoutMs / 1000))],
+        ],
+        content,
+      },
+      secretKey
+    ) as NostrEvent;
+
+    logger.info('Sending wallet request', {
+      service: 'GenericNwcService',
+      method: 'request',
+      nwcMethod: method,
+      encryption,
+      relays: connection.relays.length,
+    });
+
+    return new Promise<T>((resolve, reject) => {
+      const subscriptions: PoolSubscription[] = [];
+      let settled = false;
+
+      const finish = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        subscriptions.forEach(subscription => subscription.close());
+        outcome();
+      };
+
+      const timeout = setTimeout(() => {
+        finish(() =>
+          reject(
+            new AppError(
+              'Wallet did not respond in time',
+              ErrorCode.EXTERNAL_SERVICE_ERROR,
+              HttpStatus.GATEWAY_TIMEOUT,
+              ErrorCategory.EXTERNAL_SERVICE,
+              ErrorSeverity.MEDIUM,
+              { nwcMethod: method }
+            )
+          )
+        );
+      }, timeoutMs);
+
+      const onResponse = (event: NostrEvent) => {
+        if (event.pubkey !== connection.walletPubkey) return;
+
+        let response: NwcResponse<T>;
+        try {
+          const plaintext = event.content.includes('?iv=')
+            ? nip04.decrypt(secretKey, connection.walletPubkey, event.content)
+            : EncryptionService.decrypt(connection.secret, connection.walletPubkey, event.content);
+          response = JSON.parse(plaintext) as NwcResponse<T>;
+        } catch (error) {
+          logger.warn('Could not decrypt wallet response', {
+            service: 'GenericNwcService',
+            method: 'request',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          return;
+        }
+
+        if (response.error) {
+          const walletError = response.error;
+          finish(() =>
+            reject(
+              new AppError(
+                walletError.message || walletError.code,
+                ErrorCode.EXTERNAL_SERVICE_ERROR,
+                HttpStatus.BAD_GATEWAY,
+                ErrorCategory.EXTERNAL_SERVICE,
+                ErrorSeverity.MEDIUM,
+                { nwcMethod: method, walletErrorCode: walletError.code }
+              )
+            )
+          );
+          return;
+        }
+
+        finish(() => resolve(response.result as T));
+      };
+
+      // Subscribe before publishing so a fast response isn't missed
+      connection.relays.forEach(relay => {
+        subscriptions.push(
+          relayPoolService.subscribe(
+            relay,
+            [{ kinds: [23195], authors: [connection.walletPubkey], '#p': [clientPubkey], '#e': [requestEvent.id] }],
+            { onEvent: onResponse }
+          )
+        );
+      });
+
+      Promise.all(
+        connection.relays.map(relay => relayPoolService.publish(relay, requestEvent, this.publishTimeout))
+      ).then(results => {
+        if (results.some(result => result.success)) return;
+
+        logger.warn('Wallet request was not accepted by any relay', {
+          service: 'GenericNwcService',
+          method: 'request',
+          nwcMethod: method,
+          errors: results.map(result => result.error),
+        });
+
+        finish(() =>
+          reject(
+            new AppError(
+              'Could not reach the wallet relay',
+              ErrorCode.NETWORK_ERROR,
+              HttpStatus.BAD_GATEWAY,
+              ErrorCategory.NETWORK,
+              ErrorSeverity.MEDIUM,
+              { nwcMethod: method, relays: connection.relays }
+            )
+          )
+        );
+      });
+    });
+  }
+}
+
+export const genericNwcService = GenericNwcService.getInstance();
@@ -1,10 +1,17 @@
 import { logger } from '../core/LoggingService';
 import { AppError } from '../../errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
-import { NostrEvent, NostrSigner } from '../../types/nostr';
-import { NOSTR_RELAYS } from '../../config/relays';
+import { NostrEvent, NostrSigner, RelayListEntry } from '../../types/nostr';
+import { NOSTR_RELAYS, RELAY_LIST_INDEXERS, OUTBOX_CONFIG, EVENT_STORE_CONFIG, getRelayInfo } from '../../config/relays';
 import { profileService } from '../business/ProfileBusinessService';
 import { eventLoggingService } from '../core/EventLoggingService';
+import { relayListCacheService } from '../core/RelayListCacheService';
+import { eventStoreService } from '../core/EventStoreService';
+import { relayInformationService } from './RelayInformationService';
+import { relayPoolService, PoolPublishResult } from './RelayPoolService';
+import { publishOutboxService } from './PublishOutboxService';
+import { NegentropyItem } from '../../utils/negentropy';
+import { parseRelayListEvent, emptyRelayList } from '../../utils/relayList';
 
 export interface RelayPublishingResult {
   success: boolean;
@@ -12,6 +19,8 @@ export interface RelayPublishingResult {
   publishedRelays: string[];
   failedRelays: string[];
   failedRelayReasons?: Record<string, string>; // relay URL -> rejection reason
+  authFailedRelays?: string[]; // Relays that required NIP-42 auth we could not complete
+  queued?: boolean; // No relay accepted it - saved to the publish outbox for automatic retry
   // Verification tracking
   verifiedRelays?: string[];
   silentFailureRelays?: string[];
@@ -33,9 +42,23 @@ export interface RelayQueryResult {
   events: NostrEvent[];
   relayCount: number;
   eventRelayMap: Map<string, string[]>; // Maps event ID to array of relay URLs that returned it
+  fromCache?: boolean; // Served from the local event store (relay refresh runs in the background)
   error?: string;
 }
 
+export interface RelayQueryOptions {
+  // Skip the local event store and wait for relays - for read-modify-write and revalidation,
+  // where a result up to EVENT_STORE_CONFIG.refreshInterval old is not good enough
+  bypassCache?: boolean;
+}
+
+export interface RelayReconcileResult {
+  success: boolean;
+  events: NostrEvent[];        // Events the relays have that were missing locally
+  reconciledRelays: string[];  // Relays synced with NIP-77 negentropy
+  unsupportedRelays: string[]; // Relays that still need since-based polling
+}
+
 export interface RelayPublishingProgress {
   step: 'connecting' | 'publishing' | 'waiting' | 'complete' | 'error';
   progress: number; // 0-100
@@ -46,25 +69,24 @@ export interface RelayPublishingProgress {
   currentRelay?: string;
 }
 
-export interface RelayConnection {
+// A relay selected for a request, with the filters to send it (queries only)
+interface RelayTarget {
   url: string;
-  ws: WebSocket | null;
-  isConnected: boolean;
-  isHealthy: boolean;
-  lastError?: string;
-  lastPing?: number;
+  name: string;
+  filters: Record<string, unknown>[];
 }
 
 export class GenericRelayService {
   private static instance: GenericRelayService;
-  private connections: Map<string, RelayConnection> = new Map();
+  private pendingRelayLists: Map<string, Promise<RelayListEntry>> = new Map();
+  private userRelayList: RelayListEntry | null = null; // Signed-in user's NIP-65 list (replaces defaults)
+  private refreshingQueries: Set<string> = new Set(); // Background event store refreshes in flight
   private readonly connectionTimeout = 10000; // 10 seconds
   private readonly publishTimeout = 15000; // 15 seconds
+  private readonly syncTimeout = 20000; // 20 seconds per negentropy session
   private readonly maxRetries = 3;
 
-  private constructor() {
-    this.initializeConnections();
-  }
+  private constructor() {}
 
   /**
    * Get singleton instance of GenericRelayService
@@ -76,26 +98,6 @@ export class GenericRelayService {
     return GenericRelayService.instance;
   }
 
-  /**
-   * Initialize relay connections
-   */
-  private initializeConnections(): void {
-    logger.info('Initializing relay connections', {
-      service: 'GenericRelayService',
-      method: 'initializeConnections',
-      relayCount: NOSTR_RELAYS.length,
-    });
-
-    NOSTR_RELAYS.forEach(relay => {
-      this.connections.set(relay.url, {
-        url: relay.url,
-        ws: null,
-        isConnected: false,
-        isHealthy: false,
-      });
-    });
-  }
-
   /**
    * Publish an event to all configured relays with progress tracking
    */
@@ -106,18 +108,28 @@ export class GenericRelayService {
   ): Promise<RelayPublishingResult> {
     try {
       const startTime = Date.now(); // Track overall processing time
+
+      // Relays that demand NIP-42 auth are answered with the publishing user's signer
+      relayPoolService.setAuthSigner(signer);
       
+      // Outbox model: our write relays + recipients' read relays on top of the defaults
+      const targets = await this.resolvePublishTargets(event);
+      // Skip relays whose NIP-11 limits would reject the event anyway
+      const { relays, rejected } = await this.filterByRelayLimits(event, targets);
+
       logger.info('Starting event publishing to relays', {
         service: 'GenericRelayService',
         method: 'publishEvent',
         eventId: event.id,
-        relayCount: NOSTR_RELAYS.length,
+        relayCount: relays.length,
+        skippedRelays: Object.keys(rejected).length,
       });
 
       const publishedRelays: string[] = [];
-      const failedRelays: string[] = [];
-      const failedRelayReasons: Record<string, string> = {}; // Track rejection reasons
-      const totalRelays = NOSTR_RELAYS.length;
+      const failedRelays: string[] = Object.keys(rejected);
+      const failedRelayReasons: Record<string, string> = { ...rejected }; // Track rejection reasons
+      const authFailedRelays: string[] = [];
+      const totalRelays = targets.length;
       const responseTimes: number[] = []; // Track individual relay response times
 
       // Initialize progress
@@ -130,7 +142,7 @@ export class GenericRelayService {
       });
 
       // Publish to all relays in parallel
-      const publishPromises = NOSTR_RELAYS.map(async (relay, index) => {
+      const publishPromises = relays.map(async (relay, index) => {
         const relayStartTime = Date.now();
         
         try {
@@ -141,7 +153,7 @@ export class GenericRelayService {
             relayName: relay.name,
             eventId: event.id,
             relayIndex: index + 1,
-            totalRelays: NOSTR_RELAYS.length,
+            totalRelays,
           });
 
           onProgress?.({
@@ -177,6 +189,9 @@ export class GenericRelayService {
           } else {
             failedRelays.push(relay.url);
             failedRelayReasons[relay.url] = result.error || 'Unknown error';
+            if (result.authFailed) {
+              authFailedRelays.push(relay.url);
+            }
             logger.warn(`❌ [${relay.name}] Publishing failed`, {
               service: 'GenericRelayService',
               method: 'publishEvent',
@@ -219,7 +234,26 @@ export class GenericRelayService {
       const averageResponseTime = responseTimes.length > 0 
         ? Math.round(responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length)
         : 0;
-      const retryAttempts = 0; // No retry logic currently implemented
+      const retryAttempts = 0; // Retries happen later from the publish outbox
+
+      // Nothing accepted it - keep the signed event so it isn't lost (relays skipped for their limits won't take it later either)
+      let queued = false;
+      if (!success) {
+        const retryableReasons = Object.fromEntries(
+          Object.entries(failedRelayReasons).filter(([url]) => !(url in rejected))
+        );
+        queued = await publishOutboxService.enqueue(event, retryableReasons);
+      }
+
+      // Keep our own routing in sync when the user publishes a new relay list
+      if (success && event.kind === 10002) {
+        relayListCacheService.set(event.pubkey, parseRelayListEvent(event));
+      }
+
+      // Write-through so our own edits and deletions show up in cached queries immediately
+      if (success) {
+        await eventStoreService.putEvents([event]);
+      }
       
       // Convert pubkey to npub
       let npub: string | undefined;
@@ -239,7 +273,9 @@ export class GenericRelayService {
         progress: 100,
         message: success 
           ? `Published to ${publishedRelays.length} of ${totalRelays} relays (${successRate.toFixed(1)}%)`
-          : 'Failed to publish to any relay',
+          : queued
+            ? 'Failed to publish to any relay - queued for retry'
+            : 'Failed to publish to any relay',
         details: success 
           ? `Successfully published to: ${publishedRelays.join(', ')}`
           : `Failed relays: ${failedRelays.join(', ')}`,
@@ -253,9 +289,15 @@ export class GenericRelayService {
         publishedRelays,
         failedRelays,
         failedRelayReasons,
+        authFailedRelays: authFailedRelays.length > 0 ? authFailedRelays : undefined,
+        queued,
         totalRelays,
         successRate,
-        error: success ? undefined : 'Failed to publish to any relay',
+        error: success
+          ? undefined
+          : queued
+            ? 'Failed to publish to any relay - saved to your publish queue and will retry automatically'
+            : 'Failed to publish to any relay',
         // Enhanced analytics data
         npub,
         processedTimestamp,
@@ -335,201 +377,206 @@ export class GenericRelayService {
 
 
   /**
-   * Publish an event to a specific relay
+   * Publish an event to a specific relay over its pooled connection
    */
-  private async publishToRelay(event: NostrEvent, relayUrl: string, relayName?: string): Promise<{ success: boolean; error?: string; responseTime?: number }> {
+  private async publishToRelay(event: NostrEvent, relayUrl: string, relayName?: string): Promise<PoolPublishResult> {
     const displayName = relayName || relayUrl;
-    
-    return new Promise((resolve) => {
-      try {
-        const startTime = Date.now(); // Track response time
-        
-        logger.debug(`🔌 [${displayName}] Opening WebSocket connection`, {
-          service: 'GenericRelayService',
-          method: 'publishToRelay',
-          relayUrl,
-          relayName: displayName,
-          eventId: event.id,
-        });
 
-        const ws = new WebSocket(relayUrl);
-        let resolved = false;
+    logger.debug(`🔌 [${displayName}] Sending EVENT`, {
+      service: 'GenericRelayService',
+      method: 'publishToRelay',
+      relayUrl,
+      relayName: displayName,
+      eventId: event.id,
+    });
 
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            ws.close();
-            logger.warn(`⏱️ [${displayName}] Publish timeout after ${this.publishTimeout}ms`, {
-              service: 'GenericRelayService',
-              method: 'publishToRelay',
-              relayUrl,
-              relayName: displayName,
-              eventId: event.id,
-              timeout: `${this.publishTimeout}ms`,
-            });
-            resolve({
-              success: false,
-              error: 'Publish timeout',
-              responseTime: Date.now() - startTime,
-            });
-          }
-        }, this.publishTimeout);
+    const result = await relayPoolService.publish(relayUrl, event, this.publishTimeout);
 
-        ws.onopen = () => {
-          logger.debug(`✓ [${displayName}] WebSocket connected, sending EVENT`, {
-            service: 'GenericRelayService',
-            method: 'publishToRelay',
-            relayUrl,
-            relayName: displayName,
-            eventId: event.id,
-            connectionTime: `${Date.now() - startTime}ms`,
-          });
+    if (result.success) {
+      logger.debug(`👍 [${displayName}] Event accepted`, {
+        service: 'GenericRelayService',
+        method: 'publishToRelay',
+        relayUrl,
+        relayName: displayName,
+        eventId: event.id,
+        responseTime: `${result.responseTime}ms`,
+      });
+    } else {
+      logger.warn(`👎 [${displayName}] Event not accepted: ${result.error}`, {
+        service: 'GenericRelayService',
+        method: 'publishToRelay',
+        relayUrl,
+        relayName: displayName,
+        eventId: event.id,
+        error: result.error,
+        authFailed: result.authFailed,
+        responseTime: `${result.responseTime}ms`,
+      });
+    }
 
-          // Send EVENT message to publish
-          const message = ['EVENT', event];
-          ws.send(JSON.stringify(message));
-        };
+    return result;
+  }
 
-        ws.onmessage = (msg) => {
-          try {
-            const data = JSON.parse(msg.data);
-            
-            logger.debug(`📨 [${displayName}] Received message: ${JSON.stringify(data).substring(0, 100)}`, {
-              service: 'GenericRelayService',
-              method: 'publishToRelay',
-              relayUrl,
-              relayName: displayName,
-              eventId: event.id,
-              messageType: data[0],
-            });
-            
-            if (data[0] === 'OK' && data[1] === event.id) {
-              clearTimeout(timeout);
-              ws.close();
-              
-              if (!resolved) {
-                resolved = true;
-                const responseTime = Date.now() - startTime;
-                
-                if (data[2] === true) {
-                  logger.debug(`👍 [${displayName}] Event accepted`, {
-                    service: 'GenericRelayService',
-                    method: 'publishToRelay',
-                    relayUrl,
-                    relayName: displayName,
-                    eventId: event.id,
-                    responseTime: `${responseTime}ms`,
-                  });
-                  resolve({ success: true, responseTime });
-                } else {
-                  logger.warn(`👎 [${displayName}] Event rejected: ${data[3]}`, {
-                    service: 'GenericRelayService',
-                    method: 'publishToRelay',
-                    relayUrl,
-                    relayName: displayName,
-                    eventId: event.id,
-                    rejectionReason: data[3],
-                    responseTime: `${responseTime}ms`,
-                  });
-                  resolve({
-                    success: false,
-                    error: data[3] || 'Event rejected by relay',
-                    responseTime,
-                  });
-                }
-              }
-            }
-          } catch (parseError) {
-            logger.warn(`⚠️ [${displayName}] Failed to parse relay response`, {
-              service: 'GenericRelayService',
-              method: 'publishToRelay',
-              relayUrl,
-              relayName: displayName,
-              error: parseError instanceof Error ? parseError.message : 'Unknown error',
-              rawMessage: msg.data.substring(0, 100),
-            });
-          }
-        };
+  /**
+   * Query events - read-through the local event store
+   * Filters fetched before are answered from IndexedDB straight away and refreshed
+   * from relays in the background with a `since` filter; new filters go to relays
+   * and their results are stored.
+   * With bypassCache the relays are always asked; what they return is still stored.
+   */
+  public async queryEvents(
+    filters: Record<string, unknown>[],
+    onProgress?: (progress: { step: string; progress: number; message: string }) => void,
+    options: RelayQueryOptions = {}
+  ): Promise<RelayQueryResult> {
+    if (!eventStoreService.isCacheable(filters)) {
+      return this.queryRelays(filters, onProgress);
+    }
 
-        ws.onerror = () => {
-          clearTimeout(timeout);
-          ws.close();
-          
-          if (!resolved) {
-            resolved = true;
-            logger.error(`⚡ [${displayName}] WebSocket error`, new Error('WebSocket connection error'), {
-              service: 'GenericRelayService',
-              method: 'publishToRelay',
-              relayUrl,
-              relayName: displayName,
-              eventId: event.id,
-              errorType: 'WebSocket error event',
-              responseTime: `${Date.now() - startTime}ms`,
-            });
-            resolve({
-              success: false,
-              error: 'WebSocket connection error',
-              responseTime: Date.now() - startTime,
-            });
-          }
-        };
+    if (options.bypassCache) {
+      const result = await this.queryRelays(filters, onProgress);
+      if (result.success && result.relayCount > 0) {
+        await eventStoreService.putEvents(result.events);
+      }
+      return result;
+    }
 
-        ws.onclose = (closeEvent) => {
-          clearTimeout(timeout);
-          if (!resolved) {
-            resolved = true;
-            logger.warn(`🔌 [${displayName}] WebSocket closed unexpectedly`, {
-              service: 'GenericRelayService',
-              method: 'publishToRelay',
-              relayUrl,
-              relayName: displayName,
-              eventId: event.id,
-              closeCode: closeEvent.code,
-              closeReason: closeEvent.reason || 'No reason provided',
-              wasClean: closeEvent.wasClean,
-              responseTime: `${Date.now() - startTime}ms`,
-            });
-            resolve({
-              success: false,
-              error: `WebSocket closed (code: ${closeEvent.code})`,
-              responseTime: Date.now() - startTime,
-            });
-          }
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(`💥 [${displayName}] Exception creating WebSocket`, error instanceof Error ? error : new Error(errorMessage), {
+    const cached = await eventStoreService.getCachedQuery(filters);
+    if (cached) {
+      if (Date.now() - cached.refreshedAt > EVENT_STORE_CONFIG.refreshInterval) {
+        void this.refreshCachedQuery(filters, cached.fetchedAt, cached.events);
+      }
+
+      logger.info('Event query served from local store', {
+        service: 'GenericRelayService',
+        method: 'queryEvents',
+        filterCount: filters.length,
+        eventCount: cached.events.length,
+      });
+
+      onProgress?.({
+        step: 'complete',
+        progress: 100,
+        message: `Loaded ${cached.events.length} events from local store`,
+      });
+
+      return {
+        success: true,
+        events: cached.events,
+        relayCount: 0,
+        eventRelayMap: new Map(),
+        fromCache: true,
+      };
+    }
+
+    const fetchedAt = Math.floor(Date.now() / 1000);
+    const result = await this.queryRelays(filters, onProgress);
+    if (!result.success || result.relayCount === 0) {
+      return result;
+    }
+
+    await eventStoreService.putEvents(result.events);
+    await eventStoreService.markQueried(filters, fetchedAt);
+
+    // Return what the store kept, so local deletions and replaceable versions apply
+    try {
+      const events = await eventStoreService.query(filters);
+      return { ...result, events };
+    } catch {
+      return result;
+    }
+  }
+
+  /**
+   * Events matching filters in the local event store only (no relay round trip)
+   * Keeps what this device has already seen, e.g. listings relays dropped after their NIP-40 expiration
+   */
+  public async getStoredEvents(filters: Record<string, unknown>[]): Promise<NostrEvent[]> {
+    if (!eventStoreService.isCacheable(filters)) return [];
+
+    try {
+      return await eventStoreService.query(filters);
+    } catch (error) {
+      logger.warn('Local event store unavailable', {
+        service: 'GenericRelayService',
+        method: 'getStoredEvents',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Fetch what changed since a cached query was last fetched, plus deletions
+   * by the authors of the cached events, and store it
+   */
+  private async refreshCachedQuery(
+    filters: Record<string, unknown>[],
+    fetchedAt: number,
+    cachedEvents: NostrEvent[]
+  ): Promise<void> {
+    const key = JSON.stringify(filters);
+    if (this.refreshingQueries.has(key)) return;
+    this.refreshingQueries.add(key);
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const since = Math.max(0, fetchedAt - EVENT_STORE_CONFIG.sinceOverlap);
+      const refreshFilters: Record<string, unknown>[] = filters
+        // Older pages (until before the last fetch) can't have gained events
+        .filter(filter => typeof filter.until !== 'number' || filter.until >= since)
+        .map(filter => ({
+          ...filter,
+          since: typeof filter.since === 'number' ? Math.max(filter.since, since) : since,
+        }));
+
+      const authors = Array.from(new Set(cachedEvents.map(event => event.pubkey))).slice(0, 100);
+      if (authors.length > 0) {
+        refreshFilters.push({ kinds: [5], authors, since });
+      }
+
+      if (refreshFilters.length > 0) {
+        const result = await this.queryRelays(refreshFilters);
+        if (!result.success || result.relayCount === 0) return;
+
+        const changedKinds = await eventStoreService.putEvents(result.events);
+        logger.info('Local event store refreshed from relays', {
           service: 'GenericRelayService',
-          method: 'publishToRelay',
-          relayUrl,
-          relayName: displayName,
-          eventId: event.id,
-          error: errorMessage,
-          errorStack: error instanceof Error ? error.stack : undefined,
-        });
-        
-        resolve({
-          success: false,
-          error: errorMessage,
-          responseTime: 0, // No meaningful response time for connection errors
+          method: 'refreshCachedQuery',
+          since,
+          fetchedCount: result.events.length,
+          changedKinds,
         });
       }
-    });
+
+      await eventStoreService.markQueried(filters, now);
+    } catch (error) {
+      logger.warn('Background event store refresh failed', {
+        service: 'GenericRelayService',
+        method: 'refreshCachedQuery',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.refreshingQueries.delete(key);
+    }
   }
 
   /**
    * Query events from relays
    */
-  public async queryEvents(
+  private async queryRelays(
     filters: Record<string, unknown>[],
     onProgress?: (progress: { step: string; progress: number; message: string }) => void
   ): Promise<RelayQueryResult> {
     try {
+      // Outbox model: authors are also queried on their declared write relays
+      const relays = await this.applyQueryCapabilities(await this.resolveQueryTargets(filters));
+
       logger.info('Starting event query from relays', {
         service: 'GenericRelayService',
-        method: 'queryEvents',
+        method: 'queryRelays',
         filterCount: filters.length,
-        relayCount: NOSTR_RELAYS.length,
+        relayCount: relays.length,
       });
 
       onProgress?.({
@@ -543,27 +590,27 @@ export class GenericRelayService {
       let completedRelays = 0;
 
       // Query all relays in parallel
-      const queryPromises = NOSTR_RELAYS.map(async (relay, index) => {
+      const queryPromises = relays.map(async (relay, index) => {
         const relayStartTime = Date.now();
         
         try {
           logger.info(`🔍 [${relay.name}] Starting event query`, {
             service: 'GenericRelayService',
-            method: 'queryEvents',
+            method: 'queryRelays',
             relayUrl: relay.url,
             relayName: relay.name,
             relayIndex: index + 1,
-            totalRelays: NOSTR_RELAYS.length,
-            filters: JSON.stringify(filters).substring(0, 100),
+            totalRelays: relays.length,
+            filters: JSON.stringify(relay.filters).substring(0, 100),
           });
 
           onProgress?.({
             step: 'querying',
-            progress: Math.round((index / NOSTR_RELAYS.length) * 100),
+            progress: Math.round((index / relays.length) * 100),
             message: `Querying ${relay.name}...`,
           });
 
-          const events = await this.queryRelay(relay.url, filters, relay.name);
+          const events = await this.queryRelay(relay.url, relay.filters, relay.name);
           
           const queryTime = Date.now() - relayStartTime;
           
@@ -579,7 +626,7 @@ export class GenericRelayService {
           completedRelays++;
           logger.info(`✅ [${relay.name}] Query completed`, {
             service: 'GenericRelayService',
-            method: 'queryEvents',
+            method: 'queryRelays',
             relayUrl: relay.url,
             relayName: relay.name,
             eventCount: events.length,
@@ -591,7 +638,7 @@ export class GenericRelayService {
           const queryTime = Date.now() - relayStartTime;
           logger.warn(`❌ [${relay.name}] Query failed`, {
             service: 'GenericRelayService',
-            method: 'queryEvents',
+            method: 'queryRelays',
             relayUrl: relay.url,
             relayName: relay.name,
             error: error instanceof Error ? error.message : 'Unknown error',
@@ -611,10 +658,10 @@ export class GenericRelayService {
 
       logger.info('Event query completed', {
         service: 'GenericRelayService',
-        method: 'queryEvents',
+        method: 'queryRelays',
         totalEvents: allEvents.length,
         completedRelays,
-        totalRelays: NOSTR_RELAYS.length,
+        totalRelays: relays.length,
       });
 
       return {
@@ -627,7 +674,7 @@ export class GenericRelayService {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Error during event query', error instanceof Error ? error : new Error(errorMessage), {
         service: 'GenericRelayService',
-        method: 'queryEvents',
+        method: 'queryRelays',
         error: errorMessage,
       });
 
@@ -642,159 +689,387 @@ export class GenericRelayService {
   }
 
   /**
-   * Query events from a specific relay
+   * Query events from a specific relay over its pooled connection
    */
-  private async queryRelay(relayUrl: string, filters: Record<string, unknown>[], relayName?: string): Promise<NostrEvent[]> {
+  private async queryRelay(
+    relayUrl: string,
+    filters: Record<string, unknown>[],
+    relayName?: string,
+    timeoutMs: number = this.connectionTimeout
+  ): Promise<NostrEvent[]> {
     const displayName = relayName || relayUrl;
-    
-    return new Promise((resolve) => {
-      try {
-        const startTime = Date.now();
-        
-        logger.debug(`🔌 [${displayName}] Opening WebSocket for query`, {
-          service: 'GenericRelayService',
-          method: 'queryRelay',
-          relayUrl,
-          relayName: displayName,
-          filters: JSON.stringify(filters).substring(0, 100),
-        });
+    const startTime = Date.now();
 
-        const ws = new WebSocket(relayUrl);
-        const events: NostrEvent[] = [];
-        let resolved = false;
+    logger.debug(`🔌 [${displayName}] Sending REQ`, {
+      service: 'GenericRelayService',
+      method: 'queryRelay',
+      relayUrl,
+      relayName: displayName,
+      filters: JSON.stringify(filters).substring(0, 100),
+    });
 
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            ws.close();
-            logger.warn(`⏱️ [${displayName}] Query timeout after ${this.connectionTimeout}ms`, {
-              service: 'GenericRelayService',
-              method: 'queryRelay',
-              relayUrl,
-              relayName: displayName,
-              timeout: `${this.connectionTimeout}ms`,
-              eventsReceived: events.length,
-            });
-            resolve(events);
-          }
-        }, this.connectionTimeout);
+    const events = await relayPoolService.query(relayUrl, filters, timeoutMs);
 
-        ws.onopen = () => {
-          logger.debug(`✓ [${displayName}] WebSocket connected, sending REQ`, {
-            service: 'GenericRelayService',
-            method: 'queryRelay',
-            relayUrl,
-            relayName: displayName,
-            connectionTime: `${Date.now() - startTime}ms`,
-          });
+    logger.debug(`🏁 [${displayName}] Query finished`, {
+      service: 'GenericRelayService',
+      method: 'queryRelay',
+      relayUrl,
+      relayName: displayName,
+      totalEvents: events.length,
+      queryTime: `${Date.now() - startTime}ms`,
+    });
 
-          // Send REQ message to query events
-          const message = ['REQ', 'query', ...filters];
-          ws.send(JSON.stringify(message));
-        };
+    return events;
+  }
 
-        ws.onmessage = (msg) => {
-          try {
-            const data = JSON.parse(msg.data);
-            
-            if (data[0] === 'EVENT') {
-              events.push(data[2] as NostrEvent);
-              logger.debug(`📨 [${displayName}] Received EVENT (total: ${events.length})`, {
-                service: 'GenericRelayService',
-                method: 'queryRelay',
-                relayUrl,
-                relayName: displayName,
-                eventId: (data[2] as NostrEvent).id,
-                totalEvents: events.length,
-              });
-            } else if (data[0] === 'EOSE') {
-              clearTimeout(timeout);
-              ws.close();
-              
-              if (!resolved) {
-                resolved = true;
-                logger.debug(`🏁 [${displayName}] End of stored events (EOSE)`, {
-                  service: 'GenericRelayService',
-                  method: 'queryRelay',
-                  relayUrl,
-                  relayName: displayName,
-                  totalEvents: events.length,
-                  queryTime: `${Date.now() - startTime}ms`,
-                });
-                resolve(events);
-              }
-            }
-          } catch (parseError) {
-            logger.warn(`⚠️ [${displayName}] Failed to parse query response`, {
-              service: 'GenericRelayService',
-              method: 'queryRelay',
-              relayUrl,
-              relayName: displayName,
-              error: parseError instanceof Error ? parseError.message : 'Unknown error',
-              rawMessage: msg.data.substring(0, 100),
-            });
-          }
-        };
+  /**
+   * Use the signed-in user's NIP-65 relay list instead of the default relays.
+   * Pass null on logout to fall back to NOSTR_RELAYS.
+   */
+  public setUserRelayList(entry: RelayListEntry | null): void {
+    const replaced = this.userRelayList;
+    this.userRelayList = entry && (entry.read.length > 0 || entry.write.length > 0) ? entry : null;
+
+    if (this.userRelayList) {
+      relayListCacheService.set(this.userRelayList.pubkey, this.userRelayList);
+    } else if (replaced) {
+      // Don't keep routing by a list that is no longer active
+      relayListCacheService.invalidate(replaced.pubkey);
+    }
 
-        ws.onerror = (error) => {
-          clearTimeout(timeout);
-          
-          if (!resolved) {
-            resolved = true;
-            logger.error(`⚡ [${displayName}] WebSocket error during query`, new Error('WebSocket connection error'), {
-              service: 'GenericRelayService',
-              method: 'queryRelay',
-              relayUrl,
-              relayName: displayName,
-              errorType: 'WebSocket error event',
-              eventsReceived: events.length,
-              queryTime: `${Date.now() - startTime}ms`,
-            });
-            
-            // Close connection without triggering another error
-            try {
-              if (ws.readyState === 1 || ws.readyState === 0) { // OPEN or CONNECTING
-                ws.close();
-              }
-            } catch (closeError) {
-              // Ignore close errors to prevent recursion
-            }
-            
-            resolve(events);
+    logger.info('User relay list updated', {
+      service: 'GenericRelayService',
+      method: 'setUserRelayList',
+      active: !!this.userRelayList,
+      readCount: this.userRelayList?.read.length || 0,
+      writeCount: this.userRelayList?.write.length || 0,
+    });
+  }
+
+  /**
+   * The active NIP-65 relay list of the signed-in user (null = default relays)
+   */
+  public getUserRelayList(): RelayListEntry | null {
+    return this.userRelayList;
+  }
+
+  /**
+   * Base relays for a request: the user's own read/write relays when they have
+   * configured them, otherwise the default NOSTR_RELAYS
+   */
+  public getBaseRelays(direction: 'read' | 'write'): string[] {
+    const userRelays = this.userRelayList?.[direction];
+    if (userRelays && userRelays.length > 0) {
+      return userRelays;
+    }
+    return NOSTR_RELAYS.map(relay => relay.url);
+  }
+
+  /**
+   * Display name for a relay (configured name, or the URL for user-added relays)
+   */
+  private getRelayName(url: string): string {
+    return getRelayInfo(url)?.name || url;
+  }
+
+  /**
+   * Get NIP-65 relay lists (Kind 10002) for a set of pubkeys
+   * Cached lists are returned immediately; misses are fetched in a single batch
+   * from the default relays and relay list indexers
+   */
+  public async getRelayLists(pubkeys: string[]): Promise<Map<string, RelayListEntry>> {
+    const result = new Map<string, RelayListEntry>();
+    const uniquePubkeys = Array.from(new Set(pubkeys.filter(pk => typeof pk === 'string' && pk.length === 64)));
+    const missing: string[] = [];
+    const pending: Promise<void>[] = [];
+
+    uniquePubkeys.forEach(pubkey => {
+      const cached = relayListCacheService.get(pubkey);
+      if (cached) {
+        result.set(pubkey, cached);
+        return;
+      }
+
+      const inFlight = this.pendingRelayLists.get(pubkey);
+      if (inFlight) {
+        pending.push(inFlight.then(entry => { result.set(pubkey, entry); }));
+      } else {
+        missing.push(pubkey);
+      }
+    });
+
+    if (missing.length > 0) {
+      const batch = this.fetchRelayLists(missing);
+      missing.forEach(pubkey => {
+        const entryPromise = batch.then(lists => lists.get(pubkey) || emptyRelayList(pubkey));
+        this.pendingRelayLists.set(pubkey, entryPromise);
+        pending.push(entryPromise.then(entry => { result.set(pubkey, entry); }));
+      });
+      batch.finally(() => missing.forEach(pubkey => this.pendingRelayLists.delete(pubkey)));
+    }
+
+    await Promise.all(pending);
+    return result;
+  }
+
+  /**
+   * Get the NIP-65 relay list for a single pubkey
+   */
+  public async getRelayList(pubkey: string): Promise<RelayListEntry> {
+    const lists = await this.getRelayLists([pubkey]);
+    return lists.get(pubkey) || emptyRelayList(pubkey);
+  }
+
+  /**
+   * Fetch Kind 10002 events for pubkeys and keep the newest per author
+   */
+  private async fetchRelayLists(pubkeys: string[]): Promise<Map<string, RelayListEntry>> {
+    const lookupRelays = Array.from(new Set([...this.getBaseRelays('read'), ...NOSTR_RELAYS.map(r => r.url), ...RELAY_LIST_INDEXERS]));
+    const filters = [{ kinds: [10002], authors: pubkeys }];
+    const newest = new Map<string, NostrEvent>();
+
+    logger.debug('Fetching NIP-65 relay lists', {
+      service: 'GenericRelayService',
+      method: 'fetchRelayLists',
+      pubkeyCount: pubkeys.length,
+      lookupRelayCount: lookupRelays.length,
+    });
+
+    await Promise.allSettled(
+      lookupRelays.map(async (relayUrl) => {
+        const events = await this.queryRelay(relayUrl, filters, this.getRelayName(relayUrl), OUTBOX_CONFIG.lookupTimeout);
+        events.forEach(event => {
+          if (event.kind !== 10002 || !pubkeys.includes(event.pubkey)) return;
+          const current = newest.get(event.pubkey);
+          if (!current || event.created_at > current.created_at) {
+            newest.set(event.pubkey, event);
           }
-        };
+        });
+      })
+    );
 
-        ws.onclose = (closeEvent) => {
-          clearTimeout(timeout);
-          if (!resolved) {
-            resolved = true;
-            logger.warn(`🔌 [${displayName}] WebSocket closed during query`, {
-              service: 'GenericRelayService',
-              method: 'queryRelay',
-              relayUrl,
-              relayName: displayName,
-              closeCode: closeEvent.code,
-              closeReason: closeEvent.reason || 'No reason provided',
-              wasClean: closeEvent.wasClean,
-              eventsReceived: events.length,
-              queryTime: `${Date.now() - startTime}ms`,
-            });
-            resolve(events);
+    const lists = new Map<string, RelayListEntry>();
+    pubkeys.forEach(pubkey => {
+      const event = newest.get(pubkey);
+      const entry = event ? parseRelayListEvent(event) : emptyRelayList(pubkey);
+      relayListCacheService.set(pubkey, entry);
+      lists.set(pubkey, entry);
+    });
+
+    logger.info('NIP-65 relay lists resolved', {
+      service: 'GenericRelayService',
+      method: 'fetchRelayLists',
+      requested: pubkeys.length,
+      found: newest.size,
+    });
+
+    return lists;
+  }
+
+  /**
+   * Relays to publish an event to: the defaults, the author's write relays
+   * and the read relays of every pubkey the event tags
+   */
+  private async resolvePublishTargets(event: NostrEvent): Promise<Array<{ url: string; name: string }>> {
+    // Gift wraps only go to our relays that accept them (NIP-59 / NIP-17)
+    const baseRelays = event.kind === 1059
+      ? await this.selectRelaysSupporting(this.getBaseRelays('write'), [59, 17])
+      : this.getBaseRelays('write');
+    const targets = baseRelays.map(url => ({ url, name: this.getRelayName(url) }));
+    const baseCount = targets.length;
+    const known = new Set(targets.map(t => t.url));
+    const recipients = event.tags.filter(tag => tag[0] === 'p' && tag[1]).map(tag => tag[1]);
+
+    try {
+      const lists = await this.getRelayLists([event.pubkey, ...recipients]);
+      const candidates: string[] = [
+        ...(lists.get(event.pubkey)?.write.slice(0, OUTBOX_CONFIG.maxRelaysPerPubkey) || []),
+        ...recipients.flatMap(pk => lists.get(pk)?.read.slice(0, OUTBOX_CONFIG.maxRelaysPerPubkey) || []),
+      ];
+
+      candidates.forEach(url => {
+        if (known.has(url) || known.size - baseCount >= OUTBOX_CONFIG.maxExtraRelays) return;
+        known.add(url);
+        targets.push({ url, name: this.getRelayName(url) });
+      });
+    } catch (error) {
+      logger.warn('Outbox relay resolution failed, publishing to default relays only', {
+        service: 'GenericRelayService',
+        method: 'resolvePublishTargets',
+        eventId: event.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Relays to query and the filters each one gets.
+   * Default relays receive all filters; an author's write relays (and a tagged
+   * pubkey's read relays) receive the filter narrowed to that pubkey.
+   */
+  private async resolveQueryTargets(filters: Record<string, unknown>[]): Promise<RelayTarget[]> {
+    const targets: RelayTarget[] = this.getBaseRelays('read').map(url => ({ url, name: this.getRelayName(url), filters }));
+    const defaultUrls = new Set(targets.map(t => t.url));
+
+    const stringList = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+    const pubkeys = filters.flatMap(filter => [...stringList(filter.authors), ...stringList(filter['#p'])]);
+    if (pubkeys.length === 0) {
+      return targets;
+    }
+
+    try {
+      const lists = await this.getRelayLists(pubkeys);
+      // relay URL -> filter index -> narrowed pubkeys
+      const extra = new Map<string, Map<number, { authors: Set<string>; tagged: Set<string> }>>();
+
+      const addRoute = (url: string, filterIndex: number, pubkey: string, field: 'authors' | 'tagged') => {
+        if (defaultUrls.has(url)) return;
+        if (!extra.has(url)) {
+          if (extra.size >= OUTBOX_CONFIG.maxExtraRelays) return;
+          extra.set(url, new Map());
+        }
+        const perFilter = extra.get(url)!;
+        if (!perFilter.has(filterIndex)) {
+          perFilter.set(filterIndex, { authors: new Set(), tagged: new Set() });
+        }
+        perFilter.get(filterIndex)![field].add(pubkey);
+      };
+
+      filters.forEach((filter, index) => {
+        stringList(filter.authors).forEach(author => {
+          lists.get(author)?.write.slice(0, OUTBOX_CONFIG.maxRelaysPerPubkey)
+            .forEach(url => addRoute(url, index, author, 'authors'));
+        });
+        stringList(filter['#p']).forEach(tagged => {
+          lists.get(tagged)?.read.slice(0, OUTBOX_CONFIG.maxRelaysPerPubkey)
+            .forEach(url => addRoute(url, index, tagged, 'tagged'));
+        });
+      });
+
+      extra.forEach((perFilter, url) => {
+        const relayFilters: Record<string, unknown>[] = [];
+        perFilter.forEach((routes, index) => {
+          if (routes.authors.size > 0) {
+            relayFilters.push({ ...filters[index], authors: Array.from(routes.authors) });
           }
-        };
-      } catch (error) {
-        logger.error(`💥 [${displayName}] Exception creating WebSocket for query`, error instanceof Error ? error : new Error('Unknown error'), {
+          if (routes.tagged.size > 0) {
+            relayFilters.push({ ...filters[index], '#p': Array.from(routes.tagged) });
+          }
+        });
+        targets.push({ url, name: this.getRelayName(url), filters: relayFilters });
+      });
+
+      if (extra.size > 0) {
+        logger.debug('Outbox routing added relays to query', {
           service: 'GenericRelayService',
-          method: 'queryRelay',
-          relayUrl,
-          relayName: displayName,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          errorStack: error instanceof Error ? error.stack : undefined,
+          method: 'resolveQueryTargets',
+          extraRelays: Array.from(extra.keys()),
         });
-        
-        resolve([]);
+      }
+    } catch (error) {
+      logger.warn('Outbox relay resolution failed, querying default relays only', {
+        service: 'GenericRelayService',
+        method: 'resolveQueryTargets',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Relays from the list that advertise any of the given NIPs.
+   * Returns the full list when none do, so a feature never ends up with no relays.
+   */
+  private async selectRelaysSupporting(relayUrls: string[], nips: number[]): Promise<string[]> {
+    const capabilities = await relayInformationService.getCapabilitiesForRelays(relayUrls);
+    const supporting = relayUrls.filter(url =>
+      nips.some(nip => capabilities.get(url)?.supportedNips.includes(nip))
+    );
+
+    if (supporting.length === 0) {
+      logger.debug('No relay advertises required NIPs, using all relays', {
+        service: 'GenericRelayService',
+        method: 'selectRelaysSupporting',
+        nips,
+        relayCount: relayUrls.length,
+      });
+      return relayUrls;
+    }
+
+    return supporting;
+  }
+
+  /**
+   * Split publish targets into relays that accept the event and relays whose
+   * NIP-11 limits (payment, message size, created_at window) would reject it.
+   * Paid relays in the user's own NIP-65 list are kept.
+   */
+  private async filterByRelayLimits(
+    event: NostrEvent,
+    targets: Array<{ url: string; name: string }>
+  ): Promise<{ relays: Array<{ url: string; name: string }>; rejected: Record<string, string> }> {
+    const capabilities = await relayInformationService.getCapabilitiesForRelays(targets.map(t => t.url));
+    const serializedLength = new TextEncoder().encode(JSON.stringify(['EVENT', event])).length;
+    const relays: Array<{ url: string; name: string }> = [];
+    const rejected: Record<string, string> = {};
+    const ownRelays = new Set([...(this.userRelayList?.write || []), ...(this.userRelayList?.read || [])]);
+
+    targets.forEach(target => {
+      const relayCapabilities = capabilities.get(target.url);
+      const check = relayCapabilities
+        ? relayInformationService.checkEventAgainstLimits(relayCapabilities, event, serializedLength, ownRelays.has(target.url))
+        : { accepted: true };
+
+      if (check.accepted) {
+        relays.push(target);
+      } else {
+        rejected[target.url] = check.reason || 'Rejected by relay limits';
       }
     });
+
+    if (Object.keys(rejected).length > 0) {
+      logger.info('Skipping relays whose limits reject the event', {
+        service: 'GenericRelayService',
+        method: 'filterByRelayLimits',
+        eventId: event.id,
+        rejected,
+      });
+    }
+
+    return { relays, rejected };
+  }
+
+  /**
+   * Adjust query targets to relay capabilities:
+   * - search filters (NIP-50) only go to relays that support search
+   * - filter limits are clamped to the relay's max_limit
+   */
+  private async applyQueryCapabilities(targets: RelayTarget[]): Promise<RelayTarget[]> {
+    const capabilities = await relayInformationService.getCapabilitiesForRelays(targets.map(t => t.url));
+    const hasSearch = targets.some(target => target.filters.some(filter => typeof filter.search === 'string'));
+    const searchRelays = hasSearch
+      ? new Set(await this.selectRelaysSupporting(targets.map(t => t.url), [50]))
+      : new Set<string>();
+
+    return targets
+      .map(target => {
+        const relayCapabilities = capabilities.get(target.url);
+        const filters = target.filters
+          .filter(filter => typeof filter.search !== 'string' || searchRelays.has(target.url))
+          .map(filter => {
+            const maxLimit = relayCapabilities?.maxLimit;
+            return maxLimit && typeof filter.limit === 'number' && filter.limit > maxLimit
+              ? { ...filter, limit: maxLimit }
+              : filter;
+          });
+        return { ...target, filters };
+      })
+      .filter(target => target.filters.length > 0);
   }
 
   /**
@@ -858,6 +1133,85 @@ export class GenericRelayService {
     return results;
   }
 
+  /**
+   * Reconcile a local set of events with the read relays (NIP-77 negentropy)
+   * and fetch only the events we're missing.
+   * Relays that don't support negentropy are returned in unsupportedRelays.
+   *
+   * @param filter - Single filter describing the synced set (must match localItems)
+   * @param localItems - Ids and created_at of the events we already have
+   * @param maxEvents - Cap on missing events fetched in one call
+   */
+  public async reconcileEvents(
+    filter: Record<string, unknown>,
+    localItems: NegentropyItem[],
+    maxEvents: number = 500
+  ): Promise<RelayReconcileResult> {
+    const readRelays = this.getBaseRelays('read');
+    const capabilities = await relayInformationService.getCapabilitiesForRelays(readRelays);
+    const candidates = readRelays.filter(url => capabilities.get(url)?.supportedNips.includes(77));
+    const unsupportedRelays = readRelays.filter(url => !candidates.includes(url));
+    const reconciledRelays: string[] = [];
+    const missingByRelay = new Map<string, string[]>();
+
+    await Promise.all(candidates.map(async (relayUrl) => {
+      const result = await relayPoolService.negentropySync(relayUrl, filter, localItems, this.syncTimeout);
+      if (result.supported) {
+        reconciledRelays.push(relayUrl);
+        missingByRelay.set(relayUrl, result.needIds);
+      } else {
+        unsupportedRelays.push(relayUrl);
+        logger.debug('Negentropy sync unavailable, relay falls back to polling', {
+          service: 'GenericRelayService',
+          method: 'reconcileEvents',
+          relayUrl,
+          error: result.error,
+        });
+      }
+    }));
+
+    // Fetch each missing id once, from a relay that reported having it
+    const assigned = new Set<string>();
+    const fetchPlan: Array<{ url: string; ids: string[] }> = [];
+    missingByRelay.forEach((ids, url) => {
+      const fresh = ids.filter(id => !assigned.has(id)).slice(0, Math.max(0, maxEvents - assigned.size));
+      fresh.forEach(id => assigned.add(id));
+      for (let i = 0; i < fresh.length; i += 100) {
+        fetchPlan.push({ url, ids: fresh.slice(i, i + 100) });
+      }
+    });
+
+    const fetched = await Promise.all(
+      fetchPlan.map(({ url, ids }) => this.queryRelay(url, [{ ids }], this.getRelayName(url)))
+    );
+    const events = Array.from(new Map(fetched.flat().map(event => [event.id, event])).values());
+
+    logger.info('Negentropy reconciliation completed', {
+      service: 'GenericRelayService',
+      method: 'reconcileEvents',
+      localItems: localItems.length,
+      reconciledRelays: reconciledRelays.length,
+      unsupportedRelays: unsupportedRelays.length,
+      missingIds: assigned.size,
+      fetchedEvents: events.length,
+    });
+
+    return {
+      success: reconciledRelays.length > 0,
+      events,
+      reconciledRelays,
+      unsupportedRelays,
+    };
+  }
+
+  /**
+   * Signer used to answer NIP-42 AUTH challenges on reads as well as publishes.
+   * Pass null on logout.
+   */
+  public setAuthSigner(signer: NostrSigner | null): void {
+    relayPoolService.setAuthSigner(signer);
+  }
+
   /**
    * Close all relay connections
    */
@@ -865,20 +1219,14 @@ export class GenericRelayService {
     logger.info('Closing all relay connections', {
       service: 'GenericRelayService',
       method: 'closeAllConnections',
-      connectionCount: this.connections.size,
     });
 
-    this.connections.forEach((connection) => {
-      if (connection.ws) {
-        connection.ws.close();
-        connection.ws = null;
-        connection.isConnected = false;
-      }
-    });
+    relayPoolService.closeAll();
   }
 
   /**
    * Subscribe to events from relays with real-time updates
+   * Subscriptions share the pooled relay connections and are re-sent after a reconnect.
    * 
    * @param filters - Nostr filters
    * @param onEvent - Callback for each event (deduplicated across relays)
@@ -890,121 +1238,50 @@ export class GenericRelayService {
     onEvent: (event: NostrEvent) => void,
     relayUrls?: string[]
   ): () => void {
-    const relays = relayUrls || NOSTR_RELAYS.map(r => r.url);
-    const subscriptionId = Math.random().toString(36).substring(7);
-    const websockets: WebSocket[] = [];
+    const relays = relayUrls || this.getBaseRelays('read');
     const seenEventIds = new Set<string>(); // Track events we've already delivered
 
+    const subscriptions = relays.map(relayUrl => relayPoolService.subscribe(relayUrl, filters, {
+      onEvent: (event) => {
+        // Only deliver each event once (deduplicate across relays)
+        if (seenEventIds.has(event.id)) return;
+        seenEventIds.add(event.id);
+        onEvent(event);
+
+        logger.debug('New event received from subscription', {
+          service: 'GenericRelayService',
+          relayUrl,
+          eventId: event.id,
+          totalSeenEvents: seenEventIds.size,
+        });
+      },
+      onClosed: (reason) => {
+        logger.warn('Subscription closed by relay', {
+          service: 'GenericRelayService',
+          method: 'subscribeToEvents',
+          relayUrl,
+          reason,
+        });
+      },
+    }));
+
     logger.info('Starting event subscription', {
       service: 'GenericRelayService',
       method: 'subscribeToEvents',
-      subscriptionId,
+      subscriptionIds: subscriptions.map(subscription => subscription.id),
       filters,
       relayCount: relays.length,
     });
 
-    relays.forEach((relayUrl) => {
-      try {
-        const ws = new WebSocket(relayUrl);
-
-        ws.onopen = () => {
-          logger.debug('WebSocket opened for subscription', {
-            service: 'GenericRelayService',
-            subscriptionId,
-            relayUrl,
-          });
-
-          // Send REQ message
-          const reqMessage = ['REQ', subscriptionId, ...filters];
-          ws.send(JSON.stringify(reqMessage));
-        };
-
-        ws.onmessage = (msg) => {
-          try {
-            const data = JSON.parse(msg.data);
-            
-            // Handle EVENT messages
-            if (Array.isArray(data) && data[0] === 'EVENT' && data[1] === subscriptionId) {
-              const event = data[2] as NostrEvent;
-              
-              // Only deliver each event once (deduplicate across relays)
-              if (!seenEventIds.has(event.id)) {
-                seenEventIds.add(event.id);
-                onEvent(event);
-                
-                logger.debug('New event received from subscription', {
-                  service: 'GenericRelayService',
-                  subscriptionId,
-                  relayUrl,
-                  eventId: event.id,
-                  totalSeenEvents: seenEventIds.size,
-                });
-              } else {
-                logger.debug('Duplicate event ignored (already seen from another relay)', {
-                  service: 'GenericRelayService',
-                  subscriptionId,
-                  relayUrl,
-                  eventId: event.id,
-                });
-              }
-            }
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            logger.error('Error parsing WebSocket message', error instanceof Error ? error : new Error(errorMessage), {
-              service: 'GenericRelayService',
-              subscriptionId,
-              relayUrl,
-            });
-          }
-        };        ws.onerror = () => {
-          logger.error('WebSocket error in subscription', new Error('WebSocket error'), {
-            service: 'GenericRelayService',
-            subscriptionId,
-            relayUrl,
-          });
-        };
-
-        ws.onclose = () => {
-          logger.debug('WebSocket closed for subscription', {
-            service: 'GenericRelayService',
-            subscriptionId,
-            relayUrl,
-          });
-        };
-
-        websockets.push(ws);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.error('Failed to create WebSocket subscription', error instanceof Error ? error : new Error(errorMessage), {
-          service: 'GenericRelayService',
-          subscriptionId,
-          relayUrl,
-        });
-      }
-    });
-
     // Return unsubscribe function
     return () => {
       logger.info('Unsubscribing from events', {
         service: 'GenericRelayService',
-        subscriptionId,
+        method: 'subscribeToEvents',
+        relayCount: subscriptions.length,
       });
 
-      websockets.forEach((ws) => {
-        try {
-          if (ws.readyState === WebSocket.OPEN) {
-            // Send CLOSE message
-            ws.send(JSON.stringify(['CLOSE', subscriptionId]));
-          }
-          ws.close();
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          logger.error('Error closing WebSocket subscription', error instanceof Error ? error : new Error(errorMessage), {
-            service: 'GenericRelayService',
-            subscriptionId,
-          });
-        }
-      });
+      subscriptions.forEach(subscription => subscription.close());
     };
   }
 
@@ -1126,12 +1403,28 @@ export const genericRelayService = GenericRelayService.getInstance();
 export const publishEvent = (event: NostrEvent, signer: NostrSigner, onProgress?: (progress: RelayPublishingProgress) => void) =>
   genericRelayService.publishEvent(event, signer, onProgress);
 
-export const queryEvents = (filters: Record<string, unknown>[], onProgress?: (progress: { step: string; progress: number; message: string }) => void) =>
-  genericRelayService.queryEvents(filters, onProgress);
+export const queryEvents = (
+  filters: Record<string, unknown>[],
+  onProgress?: (progress: { step: string; progress: number; message: string }) => void,
+  options?: RelayQueryOptions
+) => genericRelayService.queryEvents(filters, onProgress, options);
+
+export const getStoredEvents = (filters: Record<string, unknown>[]) =>
+  genericRelayService.getStoredEvents(filters);
 
 export const subscribeToEvents = (filters: Record<string, unknown>[], onEvent: (event: NostrEvent) => void, relayUrls?: string[]) =>
   genericRelayService.subscribeToEvents(filters, onEvent, relayUrls);
 
+export const reconcileEvents = (filter: Record<string, unknown>, localItems: NegentropyItem[], maxEvents?: number) =>
+  genericRelayService.reconcileEvents(filter, localItems, maxEvents);
+
+export const getRelayList = (pubkey: string) => genericRelayService.getRelayList(pubkey);
+export const setUserRelayList = (entry: RelayListEntry | null) => genericRelayService.setUserRelayList(entry);
+export const getUserRelayList = () => genericRelayService.getUserRelayList();
+export const getRelayLists = (pubkeys: string[]) => genericRelayService.getRelayLists(pubkeys);
+
+export const setRelayAuthSigner = (signer: NostrSigner | null) => genericRelayService.setAuthSigner(signer);
+
 export const getRelayHealth = (relayUrl: string) => genericRelayService.getRelayHealth(relayUrl);
 export const getAllRelayHealth = () => genericRelayService.getAllRelayHealth();
 export const closeAllConnections = () => genericRelayService.closeAllConnections();
@@ -1,8 +1,16 @@
 import { logger } from '../core/LoggingService';
 import { queryEvents } from './GenericRelayService';
 import { nostrEventService } from '../nostr/NostrEventService';
+import { getEventExpiration, isEventExpired } from './GenericEventService';
 import type { NostrEvent, NIP23Event } from '@/types/nostr';
-import type { ProductEvent } from '@/types/shop';
+import type {
+  ProductAvailability,
+  ProductDeliverable,
+  ProductDeliveryMethod,
+  ProductEvent,
+  ProductVariant,
+  ShippingZone,
+} from '@/types/shop';
 
 // Export media attachment interface for use in other services
 export interface MediaAttachment {
@@ -145,6 +153,83 @@ export function extractMedia(tags: string[][]): {
   return { images, audio, videos };
 }
 
+const AVAILABILITY_VALUES: ProductAvailability[] = ['available', 'reserved', 'sold-out'];
+
+function parseWholeNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Extract availability, stock and variants from product tags
+ * Listings published before inventory support have none of these and read as available, untracked
+ * @param tags - Event tags array
+ * @returns Inventory fields of a ProductEvent
+ */
+export function extractInventory(tags: string[][]): {
+  availability: ProductAvailability;
+  quantity: number | null;
+  variants: ProductVariant[];
+} {
+  const status = tags.find(t => t[0] === 'status')?.[1] as ProductAvailability | undefined;
+  const variants = tags
+    .filter(t => t[0] === 'variant' && t[1] && t[2])
+    .map(t => ({
+      id: t[1],
+      name: t[2],
+      price: parseFloat(t[3] || '0') || 0,
+      quantity: parseWholeNumber(t[4]),
+    }));
+
+  return {
+    availability: status && AVAILABILITY_VALUES.includes(status) ? status : 'available',
+    quantity: parseWholeNumber(tags.find(t => t[0] === 'quantity')?.[1]),
+    variants,
+  };
+}
+
+const DELIVERY_METHOD_VALUES: ProductDeliveryMethod[] = ['shipping', 'local-pickup', 'digital'];
+
+/**
+ * Extract delivery methods, shipping zones and the digital deliverable from product tags
+ * Listings published before delivery options have none of these (delivery not specified)
+ * @param tags - Event tags array
+ * @returns Delivery fields of a ProductEvent
+ */
+export function extractDelivery(tags: string[][]): {
+  deliveryMethods: ProductDeliveryMethod[];
+  shippingZones: ShippingZone[];
+  deliverable: ProductDeliverable | null;
+} {
+  const deliveryMethods = DELIVERY_METHOD_VALUES.filter(method =>
+    tags.some(t => t[0] === 'delivery' && t[1] === method)
+  );
+  const shippingZones = tags
+    .filter(t => t[0] === 'shipping' && t[1] && t[2])
+    .map(t => ({
+      id: t[1],
+      destination: t[2],
+      cost: Math.max(0, parseFloat(t[3] || '0') || 0),
+      minDays: parseWholeNumber(t[4]),
+      maxDays: parseWholeNumber(t[5]),
+    }));
+
+  const deliverableTag = tags.find(t => t[0] === 'deliverable' && t[1] && t[2] && t[6]);
+  const deliverable = deliverableTag
+    ? {
+      url: deliverableTag[1],
+      hash: deliverableTag[2],
+      name: deliverableTag[3] || 'download',
+      mimeType: deliverableTag[4] || 'application/octet-stream',
+      size: parseWholeNumber(deliverableTag[5]) ?? 0,
+      encryptedKey: deliverableTag[6],
+    }
+    : null;
+
+  return { deliveryMethods, shippingZones, deliverable };
+}
+
 /**
  * Parse a Nostr event into a ProductEvent
  * @param event - Raw Nostr event (Kind 30023)
@@ -203,6 +288,7 @@ function parseProductEvent(event: NostrEvent): ProductEvent | null {
     
     return {
       id: event.id,
+      kind: 30023,
       dTag,
       pubkey: event.pubkey,
       title,
@@ -214,10 +300,13 @@ function parseProductEvent(event: NostrEvent): ProductEvent | null {
       condition,
       location,
       contact,
+      ...extractInventory(tags),
+      ...extractDelivery(tags),
       tags: customTags,
       media,
       createdAt: event.created_at,
       publishedAt: event.created_at,
+      expiresAt: getEventExpiration(tags),
     };
   } catch (error) {
     logger.error('Failed to parse product event', error as Error, {
@@ -298,6 +387,9 @@ export async function fetchPublicProducts(
     const products: ProductEvent[] = [];
 
     for (const event of eventsByDTag.values()) {
+      // NIP-40: expired listings are no longer public
+      if (isEventExpired(event.tags)) continue;
+
       const parsed = parseProductEvent(event);
       if (parsed) {
         products.push(parsed);
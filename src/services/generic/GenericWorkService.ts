@@ -1,7 +1,9 @@
 import { logger } from '../core/LoggingService';
 import { queryEvents } from './GenericRelayService';
 import type { NostrEvent } from '@/types/nostr';
+import { parseWorkCompensation, type WorkCompensation } from '@/types/work';
 import { extractMedia, type MediaAttachment } from './GenericContributionService';
+import { getEventExpiration, isEventExpired } from './GenericEventService';
 
 export interface WorkEvent {
   id: string;
@@ -13,8 +15,7 @@ export interface WorkEvent {
   category: string;
   jobType: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null; // Structured pay tags, or legacy pay-rate/currency
   contact?: string;
   language: string; // Language tag from event
   location: string;
@@ -28,9 +29,13 @@ export interface WorkEvent {
   };
   createdAt: number;
   publishedAt: number;
+  expiresAt: number | null; // NIP-40 expiration
 }
 
-function parseWorkEvent(event: NostrEvent): WorkEvent | null {
+/**
+ * Parse a Kind 30023 work event, or null when required tags are missing
+ */
+export function parseWorkEvent(event: NostrEvent): WorkEvent | null {
   try {
     const tags = event.tags as string[][];
     
@@ -55,9 +60,7 @@ function parseWorkEvent(event: NostrEvent): WorkEvent | null {
     const category = tags.find(t => t[0] === 'category')?.[1] || 'other';
     const jobType = tags.find(t => t[0] === 'job-type')?.[1] || 'remote';
     const duration = tags.find(t => t[0] === 'duration')?.[1] || 'ongoing';
-    const payRateStr = tags.find(t => t[0] === 'pay-rate')?.[1];
-    const payRate = payRateStr ? parseFloat(payRateStr) : 0;
-    const currency = tags.find(t => t[0] === 'currency')?.[1] || 'usd';
+    const compensation = parseWorkCompensation(tags);
     
     // Extract optional fields
     const contact = tags.find(t => t[0] === 'contact')?.[1];
@@ -94,8 +97,7 @@ function parseWorkEvent(event: NostrEvent): WorkEvent | null {
       category,
       jobType,
       duration,
-      payRate,
-      currency,
+      compensation,
       contact,
       language,
       location,
@@ -105,6 +107,7 @@ function parseWorkEvent(event: NostrEvent): WorkEvent | null {
       media,
       createdAt: event.created_at,
       publishedAt: event.created_at,
+      expiresAt: getEventExpiration(tags),
     };
   } catch (error) {
     logger.error('Error parsing work event', error instanceof Error ? error : new Error('Unknown error'), {
@@ -187,6 +190,9 @@ export async function fetchPublicWorkOpportunities(
     const workEvents: WorkEvent[] = [];
 
     for (const event of eventsByDTag.values()) {
+      // NIP-40: expired listings are no longer public
+      if (isEventExpired(event.tags)) continue;
+
       const parsed = parseWorkEvent(event);
       if (parsed) {
         workEvents.push(parsed);
@@ -436,6 +442,8 @@ export async function fetchWorkByCategory(
     const workEvents: WorkEvent[] = [];
 
     for (const event of eventsByDTag.values()) {
+      if (isEventExpired(event.tags)) continue;
+
       const parsed = parseWorkEvent(event);
       if (parsed) {
         workEvents.push(parsed);
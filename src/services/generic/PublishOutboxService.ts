@@ -0,0 +1,355 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { logger } from '../core/LoggingService';
+import { NostrEvent } from '../../types/nostr';
+import { PUBLISH_OUTBOX_CONFIG } from '../../config/relays';
+import { relayPoolService } from './RelayPoolService';
+
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+export interface OutboxRelayState {
+  url: string;
+  attempts: number;      // Retries so far (the original publish isn't counted)
+  nextAttemptAt: number; // ms timestamp
+  lastError?: string;
+  gaveUp: boolean;       // Permanent rejection or maxAttempts reached
+}
+
+export interface OutboxEntry {
+  id: string; // Event id
+  event: NostrEvent;
+  pubkey: string;
+  queuedAt: number;
+  lastAttemptAt?: number;
+  status: OutboxEntryStatus; // 'failed' once every relay has been given up on
+  relays: OutboxRelayState[];
+}
+
+interface PublishOutboxDB extends DBSchema {
+  outbox: {
+    key: string;
+    value: OutboxEntry;
+    indexes: {
+      'by-pubkey': string;
+    };
+  };
+}
+
+const DB_NAME = 'nostr-publish-outbox';
+const DB_VERSION = 1;
+
+/**
+ * PublishOutboxService
+ * Durable outbox for signed events that no relay accepted.
+ * Entries live in IndexedDB so they survive reloads, and are retried
+ * when the browser comes back online, when the tab becomes visible again,
+ * and on a timer following each relay's backoff schedule.
+ * An entry is removed as soon as any relay accepts the event.
+ */
+export class PublishOutboxService {
+  private static instance: PublishOutboxService;
+  private dbPromise: Promise<IDBPDatabase<PublishOutboxDB>> | null = null;
+  private listeners: Set<() => void> = new Set();
+  private started = false;
+  private processing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PublishOutboxService {
+    if (!PublishOutboxService.instance) {
+      PublishOutboxService.instance = new PublishOutboxService();
+    }
+    return PublishOutboxService.instance;
+  }
+
+  /**
+   * Register the online/visibility triggers and process anything left from a previous session
+   * Safe to call more than once
+   */
+  public start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      void this.processOutbox();
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        void this.processOutbox();
+      }
+    });
+
+    void this.processOutbox();
+  }
+
+  /**
+   * Store a signed event that failed on every relay
+   * Relays that rejected it permanently (invalid, blocked, ...) are not queued.
+   * Returns false when there is nothing worth retrying.
+   */
+  public async enqueue(event: NostrEvent, failedRelayReasons: Record<string, string>): Promise<boolean> {
+    const retryable = Object.entries(failedRelayReasons).filter(([, reason]) => !isPermanentError(reason));
+    if (retryable.length === 0 || typeof indexedDB === 'undefined') {
+      return false;
+    }
+
+    try {
+      const db = await this.getDB();
+      const now = Date.now();
+      const existing = await db.get('outbox', event.id);
+      const relays = new Map((existing?.relays || []).map(relay => [relay.url, relay]));
+
+      retryable.forEach(([url, reason]) => {
+        relays.set(url, {
+          url,
+          attempts: 0,
+          nextAttemptAt: now + PUBLISH_OUTBOX_CONFIG.retryBaseDelay,
+          lastError: reason,
+          gaveUp: false,
+        });
+      });
+
+      await db.put('outbox', {
+        id: event.id,
+        event,
+        pubkey: event.pubkey,
+        queuedAt: existing?.queuedAt || now,
+        lastAttemptAt: now,
+        status: 'pending',
+        relays: Array.from(relays.values()),
+      });
+
+      logger.info('Event queued in publish outbox', {
+        service: 'PublishOutboxService',
+        method: 'enqueue',
+        eventId: event.id,
+        kind: event.kind,
+        relayCount: relays.size,
+      });
+
+      this.notify();
+      this.scheduleNextRetry();
+      return true;
+    } catch (error) {
+      logger.error('Failed to queue event in publish outbox', error instanceof Error ? error : new Error('Unknown error'), {
+        service: 'PublishOutboxService',
+        method: 'enqueue',
+        eventId: event.id,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Queued events, newest first (optionally only one author's)
+   */
+  public async getEntries(pubkey?: string): Promise<OutboxEntry[]> {
+    if (typeof indexedDB === 'undefined') return [];
+
+    const db = await this.getDB();
+    const entries = pubkey
+      ? await db.getAllFromIndex('outbox', 'by-pubkey', pubkey)
+      : await db.getAll('outbox');
+    return entries.sort((a, b) => b.queuedAt - a.queuedAt);
+  }
+
+  /**
+   * Retry every relay whose backoff has elapsed
+   */
+  public async processOutbox(): Promise<void> {
+    if (this.processing || typeof indexedDB === 'undefined') return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    this.processing = true;
+    try {
+      const now = Date.now();
+      const entries = (await this.getEntries()).filter(entry => entry.status === 'pending');
+
+      for (const entry of entries) {
+        const due = entry.relays.filter(relay => !relay.gaveUp && relay.nextAttemptAt <= now);
+        if (due.length > 0) {
+          await this.retryEntry(entry, due);
+        }
+      }
+    } catch (error) {
+      logger.error('Error processing publish outbox', error instanceof Error ? error : new Error('Unknown error'), {
+        service: 'PublishOutboxService',
+        method: 'processOutbox',
+      });
+    } finally {
+      this.processing = false;
+      this.notify();
+      this.scheduleNextRetry();
+    }
+  }
+
+  /**
+   * Reset an entry's backoff (including given-up relays) and retry it now
+   */
+  public async retry(eventId: string): Promise<void> {
+    const db = await this.getDB();
+    const entry = await db.get('outbox', eventId);
+    if (!entry) return;
+
+    await db.put('outbox', resetEntry(entry));
+    await this.processOutbox();
+  }
+
+  /**
+   * Reset backoff for all entries and retry them now
+   */
+  public async retryAll(pubkey?: string): Promise<void> {
+    const db = await this.getDB();
+    const entries = await this.getEntries(pubkey);
+    await Promise.all(entries.map(entry => db.put('outbox', resetEntry(entry))));
+    await this.processOutbox();
+  }
+
+  /**
+   * Drop an event from the outbox without publishing it
+   */
+  public async discard(eventId: string): Promise<void> {
+    const db = await this.getDB();
+    await db.delete('outbox', eventId);
+
+    logger.info('Event discarded from publish outbox', {
+      service: 'PublishOutboxService',
+      method: 'discard',
+      eventId,
+    });
+
+    this.notify();
+    this.scheduleNextRetry();
+  }
+
+  /**
+   * Listen for outbox changes - returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async retryEntry(entry: OutboxEntry, due: OutboxRelayState[]): Promise<void> {
+    const db = await this.getDB();
+    const results = await Promise.all(
+      due.map(async relay => ({
+        relay,
+        result: await relayPoolService.publish(relay.url, entry.event, PUBLISH_OUTBOX_CONFIG.retryTimeout),
+      }))
+    );
+
+    // "duplicate:" means the relay already has it - as good as accepted
+    const accepted = results.find(({ result }) => result.success || result.error?.startsWith('duplicate:'));
+    if (accepted) {
+      await db.delete('outbox', entry.id);
+      logger.info('Queued event published from outbox', {
+        service: 'PublishOutboxService',
+        method: 'retryEntry',
+        eventId: entry.id,
+        kind: entry.event.kind,
+        relayUrl: accepted.relay.url,
+      });
+      return;
+    }
+
+    const now = Date.now();
+    results.forEach(({ relay, result }) => {
+      relay.attempts += 1;
+      relay.lastError = result.error || 'Unknown error';
+      relay.gaveUp = isPermanentError(relay.lastError) || relay.attempts >= PUBLISH_OUTBOX_CONFIG.maxAttempts;
+      relay.nextAttemptAt = now + backoffDelay(relay.attempts);
+    });
+
+    entry.lastAttemptAt = now;
+    entry.status = entry.relays.every(relay => relay.gaveUp) ? 'failed' : 'pending';
+    await db.put('outbox', entry);
+
+    logger.warn('Outbox retry failed', {
+      service: 'PublishOutboxService',
+      method: 'retryEntry',
+      eventId: entry.id,
+      relayCount: due.length,
+      status: entry.status,
+    });
+  }
+
+  /**
+   * Wake up when the earliest relay backoff elapses
+   */
+  private scheduleNextRetry(): void {
+    if (typeof window === 'undefined') return;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    void this.getEntries().then(entries => {
+      const nextAttemptAt = Math.min(
+        ...entries
+          .filter(entry => entry.status === 'pending')
+          .flatMap(entry => entry.relays.filter(relay => !relay.gaveUp).map(relay => relay.nextAttemptAt))
+      );
+      if (!Number.isFinite(nextAttemptAt)) return;
+
+      const delay = Math.min(Math.max(nextAttemptAt - Date.now(), 1000), PUBLISH_OUTBOX_CONFIG.retryMaxDelay);
+      if (this.retryTimer) clearTimeout(this.retryTimer);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        void this.processOutbox();
+      }, delay);
+    }).catch(() => {
+      // Database unavailable (e.g. being deleted on logout) - the next trigger will reschedule
+    });
+  }
+
+  private getDB(): Promise<IDBPDatabase<PublishOutboxDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<PublishOutboxDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains('outbox')) {
+            const store = db.createObjectStore('outbox', { keyPath: 'id' });
+            store.createIndex('by-pubkey', 'pubkey');
+          }
+        },
+        // Logout deletes every IndexedDB database - don't hold it open
+        blocking: () => {
+          void this.dbPromise?.then(db => db.close());
+          this.dbPromise = null;
+        },
+        terminated: () => {
+          this.dbPromise = null;
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function isPermanentError(reason: string): boolean {
+  return PUBLISH_OUTBOX_CONFIG.permanentErrorPrefixes.some(prefix => reason.startsWith(prefix));
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(
+    PUBLISH_OUTBOX_CONFIG.retryBaseDelay * Math.pow(2, attempts - 1),
+    PUBLISH_OUTBOX_CONFIG.retryMaxDelay
+  );
+}
+
+function resetEntry(entry: OutboxEntry): OutboxEntry {
+  const now = Date.now();
+  return {
+    ...entry,
+    status: 'pending',
+    relays: entry.relays.map(relay => ({ ...relay, attempts: 0, nextAttemptAt: now, gaveUp: false })),
+  };
+}
+
+export const publishOutboxService = PublishOutboxService.getInstance();
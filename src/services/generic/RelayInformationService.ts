@@ -0,0 +1,199 @@
+import { logger } from '../core/LoggingService';
+import { RelayCapabilities, RelayInformationDocument } from '../../types/nostr';
+import { RELAY_INFO_TTL, RELAY_INFO_FAILURE_TTL, RELAY_INFO_TIMEOUT, getRelayInfo, getConfiguredNips } from '../../config/relays';
+
+/**
+ * RelayInformationService
+ * Fetches and caches NIP-11 relay information documents and derives
+ * relay capabilities (supported NIPs, limits, auth/payment requirements) from them.
+ * Falls back to the supportsNipXX flags in config/relays.ts when a relay
+ * doesn't serve NIP-11 or the request fails.
+ */
+export class RelayInformationService {
+  private static instance: RelayInformationService;
+  private cache: Map<string, RelayCapabilities> = new Map();
+  private pending: Map<string, Promise<RelayCapabilities>> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): RelayInformationService {
+    if (!RelayInformationService.instance) {
+      RelayInformationService.instance = new RelayInformationService();
+    }
+    return RelayInformationService.instance;
+  }
+
+  /**
+   * Get capabilities for a relay (cached for RELAY_INFO_TTL, or RELAY_INFO_FAILURE_TTL
+   * when the NIP-11 fetch failed and the configured fallback is used)
+   */
+  public async getCapabilities(relayUrl: string): Promise<RelayCapabilities> {
+    const cached = this.getCachedCapabilities(relayUrl);
+    if (cached) return cached;
+
+    const inFlight = this.pending.get(relayUrl);
+    if (inFlight) return inFlight;
+
+    const request = this.fetchCapabilities(relayUrl).finally(() => this.pending.delete(relayUrl));
+    this.pending.set(relayUrl, request);
+    return request;
+  }
+
+  /**
+   * Get capabilities for several relays in parallel
+   */
+  public async getCapabilitiesForRelays(relayUrls: string[]): Promise<Map<string, RelayCapabilities>> {
+    const results = await Promise.all(relayUrls.map(url => this.getCapabilities(url)));
+    return new Map(results.map(capabilities => [capabilities.url, capabilities]));
+  }
+
+  /**
+   * Synchronous cache lookup - returns undefined if the relay hasn't been fetched yet or expired
+   */
+  public getCachedCapabilities(relayUrl: string): RelayCapabilities | undefined {
+    const cached = this.cache.get(relayUrl);
+    if (!cached) return undefined;
+
+    const ttl = cached.source === 'nip11' ? RELAY_INFO_TTL : RELAY_INFO_FAILURE_TTL;
+    if (Date.now() - cached.fetchedAt > ttl) {
+      this.cache.delete(relayUrl);
+      return undefined;
+    }
+
+    return cached;
+  }
+
+  /**
+   * Whether an event is within the relay's advertised limits
+   * Returns the reason when it isn't, so callers can report it.
+   * allowPaid skips the payment check for relays the user chose themselves
+   * (they may well have paid for them).
+   */
+  public checkEventAgainstLimits(
+    capabilities: RelayCapabilities,
+    event: { created_at: number; content: string; tags: string[][] },
+    serializedLength: number,
+    allowPaid = false
+  ): { accepted: boolean; reason?: string } {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (capabilities.paymentRequired && !allowPaid) {
+      return { accepted: false, reason: 'Relay requires payment' };
+    }
+    if (capabilities.maxMessageLength && serializedLength > capabilities.maxMessageLength) {
+      return { accepted: false, reason: `Event exceeds relay message limit (${capabilities.maxMessageLength} bytes)` };
+    }
+    if (capabilities.createdAtLowerLimit && event.created_at < now - capabilities.createdAtLowerLimit) {
+      return { accepted: false, reason: 'Event created_at is older than relay allows' };
+    }
+    if (capabilities.createdAtUpperLimit && event.created_at > now + capabilities.createdAtUpperLimit) {
+      return { accepted: false, reason: 'Event created_at is further in the future than relay allows' };
+    }
+
+    return { accepted: true };
+  }
+
+  /**
+   * Clear the cache (e.g. after a relay list change)
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Fetch the NIP-11 document over HTTP(S) and derive capabilities
+   */
+  private async fetchCapabilities(relayUrl: string): Promise<RelayCapabilities> {
+    const httpUrl = relayUrl.replace(/^wss:\/\//, 'https://').replace(/^ws:\/\//, 'http://');
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), RELAY_INFO_TIMEOUT);
+
+    try {
+      const response = await fetch(httpUrl, {
+        headers: { Accept: 'application/nostr+json' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const document = (await response.json()) as RelayInformationDocument;
+      const capabilities = this.deriveCapabilities(relayUrl, document);
+      this.cache.set(relayUrl, capabilities);
+
+      logger.debug('NIP-11 relay information fetched', {
+        service: 'RelayInformationService',
+        method: 'fetchCapabilities',
+        relayUrl,
+        software: document.software,
+        supportedNips: capabilities.supportedNips.length,
+        authRequired: capabilities.authRequired,
+      });
+
+      return capabilities;
+    } catch (error) {
+      logger.debug('NIP-11 fetch failed, using configured capabilities', {
+        service: 'RelayInformationService',
+        method: 'fetchCapabilities',
+        relayUrl,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      const fallback = this.getConfiguredCapabilities(relayUrl);
+      this.cache.set(relayUrl, fallback);
+      return fallback;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Map a NIP-11 document to RelayCapabilities
+   */
+  private deriveCapabilities(relayUrl: string, document: RelayInformationDocument): RelayCapabilities {
+    const limitation = document.limitation || {};
+    // Some relays serve NIP-11 without supported_nips - keep the configured list for those
+    const supportedNips = Array.isArray(document.supported_nips)
+      ? document.supported_nips.filter((nip): nip is number => typeof nip === 'number')
+      : this.getConfiguredCapabilities(relayUrl).supportedNips;
+
+    return {
+      url: relayUrl,
+      source: 'nip11',
+      supportedNips,
+      maxMessageLength: positiveOrUndefined(limitation.max_message_length),
+      maxLimit: positiveOrUndefined(limitation.max_limit),
+      maxSubscriptions: positiveOrUndefined(limitation.max_subscriptions),
+      authRequired: limitation.auth_required === true,
+      paymentRequired: limitation.payment_required === true,
+      restrictedWrites: limitation.restricted_writes === true,
+      createdAtLowerLimit: positiveOrUndefined(limitation.created_at_lower_limit),
+      createdAtUpperLimit: positiveOrUndefined(limitation.created_at_upper_limit),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Capabilities from the static relay config (or bare NIP-01 for unknown relays)
+   */
+  private getConfiguredCapabilities(relayUrl: string): RelayCapabilities {
+    const config = getRelayInfo(relayUrl);
+
+    return {
+      url: relayUrl,
+      source: 'config',
+      supportedNips: config ? getConfiguredNips(config) : [1],
+      authRequired: config?.requiresAuth === true,
+      paymentRequired: false,
+      restrictedWrites: false,
+      fetchedAt: Date.now(),
+    };
+  }
+}
+
+function positiveOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+export const relayInformationService = RelayInformationService.getInstance();
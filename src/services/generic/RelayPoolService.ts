@@ -0,0 +1,850 @@
+import { logger } from '../core/LoggingService';
+import { NostrEvent, NostrSigner } from '../../types/nostr';
+import { RELAY_POOL_CONFIG, getRelayInfo } from '../../config/relays';
+import { relayInformationService } from './RelayInformationService';
+import { Negentropy, NegentropyItem } from '../../utils/negentropy';
+
+/**
+ * RelayPoolService
+ * Keeps one WebSocket per relay and multiplexes REQ subscriptions, EVENT
+ * publishes and COUNT requests over it. Handles EOSE/CLOSED, reconnects with
+ * exponential backoff while long-lived subscriptions are open, throttles
+ * outgoing messages to each relay's configured rateLimit and closes sockets
+ * that have been idle for a while.
+ *
+ * NIP-42: answers AUTH challenges with a kind 22242 event signed by the current
+ * signer - eagerly for relays known to require auth, otherwise when a REQ or
+ * EVENT comes back "auth-required:" - and then retries the blocked request.
+ *
+ * NIP-77: runs negentropy reconciliation sessions (NEG-OPEN / NEG-MSG) over the same socket.
+ */
+
+export interface PoolSubscriptionHandlers {
+  onEvent: (event: NostrEvent) => void;
+  onEose?: () => void;
+  onClosed?: (reason: string) => void;
+}
+
+export interface PoolSubscriptionOptions {
+  // One-shot queries end on disconnect; long-lived subscriptions are re-sent after reconnecting
+  oneShot?: boolean;
+}
+
+export interface PoolSubscription {
+  id: string;
+  close: () => void;
+}
+
+export interface NegentropySyncResult {
+  supported: boolean; // false when the relay answered NEG-ERR or never answered
+  needIds: string[];  // Event ids the relay has that we don't
+  haveIds: string[];  // Event ids we have that the relay doesn't
+  error?: string;
+}
+
+export interface PoolPublishResult {
+  success: boolean;
+  error?: string;
+  responseTime: number;
+  authFailed?: boolean; // Relay required NIP-42 auth and it could not be completed
+}
+
+type RelaySocketStatus = 'connecting' | 'open' | 'closed';
+type RelayAuthStatus = 'none' | 'authenticating' | 'authenticated' | 'failed';
+
+interface PendingPublish {
+  event: NostrEvent;
+  awaitingAuth: boolean;
+  retriedAfterAuth: boolean;
+  resolve: (result: { success: boolean; error?: string; authFailed?: boolean }) => void;
+}
+
+interface ActiveSubscription {
+  id: string;
+  filters: Record<string, unknown>[];
+  handlers: PoolSubscriptionHandlers;
+  oneShot: boolean;
+  sent: boolean; // REQ sent on the current socket
+  awaitingAuth: boolean; // Closed with auth-required, re-sent once authenticated
+}
+
+interface PooledRelay {
+  url: string;
+  ws: WebSocket | null;
+  status: RelaySocketStatus;
+  subscriptions: Map<string, ActiveSubscription>;
+  pendingPublishes: Map<string, PendingPublish>;
+  negentropySessions: Map<string, (message: unknown[]) => void>; // NEG-MSG / NEG-ERR handlers
+  outbox: string[]; // Serialized messages waiting for the socket or the rate limit
+  tokens: number;
+  lastRefill: number;
+  reconnectAttempts: number;
+  drainTimer: ReturnType<typeof setTimeout> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  authChallenge: string | null; // Challenge from the relay's latest AUTH message on this socket
+  authStatus: RelayAuthStatus;
+  authEventId: string | null; // Kind 22242 event awaiting the relay's OK
+  authPubkey: string | null; // Pubkey this socket sent AUTH as
+}
+
+export class RelayPoolService {
+  private static instance: RelayPoolService;
+  private relays: Map<string, PooledRelay> = new Map();
+  private nextId = 0;
+  private authSigner: NostrSigner | null = null;
+  private readonly connectionTimeout = 10000; // 10 seconds
+
+  private constructor() {}
+
+  public static getInstance(): RelayPoolService {
+    if (!RelayPoolService.instance) {
+      RelayPoolService.instance = new RelayPoolService();
+    }
+    return RelayPoolService.instance;
+  }
+
+  /**
+   * Open a REQ subscription on a relay
+   */
+  public subscribe(
+    relayUrl: string,
+    filters: Record<string, unknown>[],
+    handlers: PoolSubscriptionHandlers,
+    options: PoolSubscriptionOptions = {}
+  ): PoolSubscription {
+    const relay = this.getRelay(relayUrl);
+    const id = this.createId(options.oneShot ? 'q' : 'sub');
+
+    relay.subscriptions.set(id, {
+      id,
+      filters,
+      handlers,
+      oneShot: options.oneShot === true,
+      sent: false,
+      awaitingAuth: false,
+    });
+
+    this.clearIdleTimer(relay);
+    if (relay.status === 'open') {
+      this.startSubscriptions(relay);
+    } else {
+      this.ensureConnected(relay);
+    }
+
+    return { id, close: () => this.closeSubscription(relayUrl, id) };
+  }
+
+  /**
+   * Fetch stored events: subscribe until EOSE, CLOSED or timeout
+   */
+  public query(relayUrl: string, filters: Record<string, unknown>[], timeoutMs: number): Promise<NostrEvent[]> {
+    return new Promise((resolve) => {
+      const events: NostrEvent[] = [];
+      let subscription: PoolSubscription | null = null;
+      let finished = false;
+
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeout);
+        subscription?.close();
+        resolve(events);
+      };
+
+      const timeout = setTimeout(() => {
+        logger.warn('Relay query timed out', {
+          service: 'RelayPoolService',
+          method: 'query',
+          relayUrl,
+          timeout: `${timeoutMs}ms`,
+          eventsReceived: events.length,
+        });
+        finish();
+      }, timeoutMs);
+
+      subscription = this.subscribe(relayUrl, filters, {
+        onEvent: (event) => events.push(event),
+        onEose: finish,
+        onClosed: finish,
+      }, { oneShot: true });
+    });
+  }
+
+  /**
+   * Publish an event and wait for the relay's OK
+   */
+  public publish(relayUrl: string, event: NostrEvent, timeoutMs: number): Promise<PoolPublishResult> {
+    const relay = this.getRelay(relayUrl);
+    const startTime = Date.now();
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        relay.pendingPublishes.delete(event.id);
+        this.scheduleIdleClose(relay);
+        resolve({ success: false, error: 'Publish timeout', responseTime: Date.now() - startTime });
+      }, timeoutMs);
+
+      relay.pendingPublishes.set(event.id, {
+        event,
+        awaitingAuth: false,
+        retriedAfterAuth: false,
+        resolve: (result) => {
+          clearTimeout(timeout);
+          relay.pendingPublishes.delete(event.id);
+          this.scheduleIdleClose(relay);
+          resolve({ ...result, responseTime: Date.now() - startTime });
+        },
+      });
+
+      this.clearIdleTimer(relay);
+      this.send(relay, ['EVENT', event]);
+    });
+  }
+
+  /**
+   * NIP-77 negentropy reconciliation of our local items against the relay's events matching filter
+   */
+  public negentropySync(
+    relayUrl: string,
+    filter: Record<string, unknown>,
+    items: NegentropyItem[],
+    timeoutMs: number
+  ): Promise<NegentropySyncResult> {
+    const relay = this.getRelay(relayUrl);
+    const id = this.createId('neg');
+    const negentropy = new Negentropy(items);
+    const needIds: string[] = [];
+    const haveIds: string[] = [];
+
+    return new Promise((resolve) => {
+      const finish = (result: NegentropySyncResult) => {
+        clearTimeout(timeout);
+        relay.negentropySessions.delete(id);
+        this.scheduleIdleClose(relay);
+        resolve(result);
+      };
+
+      const timeout = setTimeout(() => {
+        if (relay.status === 'open') this.send(relay, ['NEG-CLOSE', id]);
+        finish({ supported: false, needIds, haveIds, error: 'Negentropy sync timeout' });
+      }, timeoutMs);
+
+      relay.negentropySessions.set(id, (message) => {
+        if (message[0] === 'NEG-ERR') {
+          finish({ supported: false, needIds, haveIds, error: String(message[2] || 'NEG-ERR') });
+          return;
+        }
+
+        try {
+          const round = negentropy.reconcile(String(message[2]));
+          needIds.push(...round.needIds);
+          haveIds.push(...round.haveIds);
+
+          if (round.nextMessage) {
+            this.send(relay, ['NEG-MSG', id, round.nextMessage]);
+          } else {
+            this.send(relay, ['NEG-CLOSE', id]);
+            finish({ supported: true, needIds, haveIds });
+          }
+        } catch (error) {
+          this.send(relay, ['NEG-CLOSE', id]);
+          finish({
+            supported: false,
+            needIds,
+            haveIds,
+            error: error instanceof Error ? error.message : 'Invalid negentropy message',
+          });
+        }
+      });
+
+      this.clearIdleTimer(relay);
+      this.send(relay, ['NEG-OPEN', id, filter, negentropy.initiate()]);
+    });
+  }
+
+  /**
+   * Signer used to answer NIP-42 AUTH challenges (null on logout).
+   * Sockets authenticated as the previous user are closed when the signer is removed
+   * or replaced by one for a different pubkey.
+   */
+  public setAuthSigner(signer: NostrSigner | null): void {
+    if (signer === this.authSigner) return;
+
+    const hadSigner = !!this.authSigner;
+    this.authSigner = signer;
+
+    if (!signer) {
+      if (hadSigner) this.closeAll();
+      return;
+    }
+
+    if (hadSigner) {
+      void this.closeForeignAuth(signer);
+    }
+
+    // Answer challenges we held back while signed out
+    this.relays.forEach(relay => {
+      if (relay.authChallenge && relay.authStatus === 'none' && this.requiresAuth(relay.url)) {
+        this.authenticate(relay);
+      }
+    });
+  }
+
+  /**
+   * Close sockets authenticated as another pubkey than the new signer's
+   */
+  private async closeForeignAuth(signer: NostrSigner): Promise<void> {
+    let pubkey: string | null = null;
+    try {
+      pubkey = await signer.getPublicKey();
+    } catch {
+      // Unknown pubkey: treat every authenticated socket as foreign
+    }
+    if (signer !== this.authSigner) return;
+
+    Array.from(this.relays.values())
+      .filter(relay => relay.authPubkey && relay.authPubkey !== pubkey)
+      .forEach(relay => {
+        logger.info('Closing relay connection authenticated as the previous user', {
+          service: 'RelayPoolService',
+          method: 'closeForeignAuth',
+          relayUrl: relay.url,
+        });
+        this.teardown(relay, 'Signed in as a different user');
+      });
+  }
+
+  /**
+   * Close every pooled socket and end all subscriptions
+   */
+  public closeAll(): void {
+    logger.info('Closing all pooled relay connections', {
+      service: 'RelayPoolService',
+      method: 'closeAll',
+      relayCount: this.relays.size,
+    });
+
+    Array.from(this.relays.values()).forEach(relay => this.teardown(relay, 'Connection pool closed'));
+  }
+
+  private getRelay(relayUrl: string): PooledRelay {
+    let relay = this.relays.get(relayUrl);
+    if (!relay) {
+      const rateLimit = getRelayInfo(relayUrl)?.rateLimit;
+      relay = {
+        url: relayUrl,
+        ws: null,
+        status: 'closed',
+        subscriptions: new Map(),
+        pendingPublishes: new Map(),
+        negentropySessions: new Map(),
+        outbox: [],
+        tokens: rateLimit?.burstSize ?? 0,
+        lastRefill: Date.now(),
+        reconnectAttempts: 0,
+        drainTimer: null,
+        reconnectTimer: null,
+        idleTimer: null,
+        connectTimer: null,
+        authChallenge: null,
+        authStatus: 'none',
+        authEventId: null,
+        authPubkey: null,
+      };
+      this.relays.set(relayUrl, relay);
+    }
+    return relay;
+  }
+
+  private createId(prefix: string): string {
+    this.nextId += 1;
+    return `${prefix}-${this.nextId.toString(36)}`;
+  }
+
+  private ensureConnected(relay: PooledRelay): void {
+    if (relay.status !== 'closed' || relay.reconnectTimer) return;
+
+    relay.status = 'connecting';
+
+    try {
+      const ws = new WebSocket(relay.url);
+      relay.ws = ws;
+
+      relay.connectTimer = setTimeout(() => {
+        logger.warn('Relay connection timed out', {
+          service: 'RelayPoolService',
+          method: 'ensureConnected',
+          relayUrl: relay.url,
+          timeout: `${this.connectionTimeout}ms`,
+        });
+        ws.close();
+        this.handleDisconnect(relay, 'Connection timeout');
+      }, this.connectionTimeout);
+
+      ws.onopen = () => {
+        this.clearConnectTimer(relay);
+        relay.status = 'open';
+        relay.reconnectAttempts = 0;
+
+        logger.debug('Relay connection opened', {
+          service: 'RelayPoolService',
+          method: 'ensureConnected',
+          relayUrl: relay.url,
+          subscriptions: relay.subscriptions.size,
+          queuedMessages: relay.outbox.length,
+        });
+
+        this.startSubscriptions(relay);
+        this.flush(relay);
+      };
+
+      ws.onmessage = (msg) => this.handleMessage(relay, msg.data);
+
+      ws.onerror = () => {
+        logger.debug('Relay socket error', {
+          service: 'RelayPoolService',
+          method: 'ensureConnected',
+          relayUrl: relay.url,
+        });
+      };
+
+      ws.onclose = (closeEvent) => {
+        if (relay.ws !== ws) return; // Socket already replaced or torn down
+        this.handleDisconnect(relay, `WebSocket closed (code: ${closeEvent.code})`);
+      };
+    } catch (error) {
+      this.handleDisconnect(relay, error instanceof Error ? error.message : 'Failed to open WebSocket');
+    }
+  }
+
+  private handleMessage(relay: PooledRelay, raw: string): void {
+    let data: unknown[];
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      logger.warn('Failed to parse relay message', {
+        service: 'RelayPoolService',
+        method: 'handleMessage',
+        relayUrl: relay.url,
+        rawMessage: String(raw).substring(0, 100),
+      });
+      return;
+    }
+    if (!Array.isArray(data)) return;
+
+    const [type, id] = data;
+
+    switch (type) {
+      case 'EVENT':
+        relay.subscriptions.get(id as string)?.handlers.onEvent(data[2] as NostrEvent);
+        break;
+      case 'EOSE':
+        relay.subscriptions.get(id as string)?.handlers.onEose?.();
+        break;
+      case 'CLOSED': {
+        const reason = typeof data[2] === 'string' ? data[2] : 'Closed by relay';
+        const subscription = relay.subscriptions.get(id as string);
+        if (subscription && isAuthRequired(reason) && this.canAuthenticate(relay)) {
+          subscription.sent = false;
+          subscription.awaitingAuth = true;
+          this.authenticate(relay);
+        } else if (subscription) {
+          relay.subscriptions.delete(subscription.id);
+          subscription.handlers.onClosed?.(reason);
+          this.startSubscriptions(relay);
+          this.scheduleIdleClose(relay);
+        }
+        break;
+      }
+      case 'OK': {
+        const accepted = data[2] === true;
+        const message = typeof data[3] === 'string' ? data[3] : '';
+
+        if (id === relay.authEventId) {
+          this.handleAuthResult(relay, accepted, message);
+          break;
+        }
+
+        const pending = relay.pendingPublishes.get(id as string);
+        if (!pending) break;
+
+        if (!accepted && isAuthRequired(message) && !pending.retriedAfterAuth && this.canAuthenticate(relay)) {
+          pending.retriedAfterAuth = true;
+          pending.awaitingAuth = true;
+          this.authenticate(relay);
+          break;
+        }
+
+        pending.resolve({
+          success: accepted,
+          error: accepted ? undefined : message || 'Event rejected by relay',
+          authFailed: !accepted && isAuthRequired(message) ? true : undefined,
+        });
+        break;
+      }
+      case 'AUTH':
+        if (typeof id !== 'string') break;
+        relay.authChallenge = id;
+        relay.authStatus = 'none';
+        // Only sign right away for relays known to require it; others are answered on demand
+        if (this.authSigner && this.requiresAuth(relay.url)) {
+          this.authenticate(relay);
+        }
+        break;
+      case 'NEG-MSG':
+      case 'NEG-ERR':
+        relay.negentropySessions.get(id as string)?.(data);
+        break;
+      case 'NOTICE':
+        logger.debug('Relay notice', {
+          service: 'RelayPoolService',
+          method: 'handleMessage',
+          relayUrl: relay.url,
+          notice: String(id).substring(0, 200),
+        });
+        break;
+    }
+  }
+
+  /**
+   * Send REQs for subscriptions not yet active on this socket,
+   * keeping within the relay's NIP-11 max_subscriptions
+   */
+  private startSubscriptions(relay: PooledRelay): void {
+    if (relay.status !== 'open') return;
+
+    const maxSubscriptions = relayInformationService.getCachedCapabilities(relay.url)?.maxSubscriptions;
+    let active = Array.from(relay.subscriptions.values()).filter(sub => sub.sent).length;
+
+    relay.subscriptions.forEach(subscription => {
+      if (subscription.sent || subscription.awaitingAuth || (maxSubscriptions && active >= maxSubscriptions)) return;
+      subscription.sent = true;
+      active += 1;
+      this.send(relay, ['REQ', subscription.id, ...subscription.filters]);
+    });
+  }
+
+  private closeSubscription(relayUrl: string, id: string): void {
+    const relay = this.relays.get(relayUrl);
+    const subscription = relay?.subscriptions.get(id);
+    if (!relay || !subscription) return;
+
+    relay.subscriptions.delete(id);
+    if (subscription.sent && relay.status === 'open') {
+      this.send(relay, ['CLOSE', id]);
+    }
+
+    this.startSubscriptions(relay);
+    this.scheduleIdleClose(relay);
+  }
+
+  private send(relay: PooledRelay, message: unknown[]): void {
+    relay.outbox.push(JSON.stringify(message));
+
+    if (relay.status === 'open') {
+      this.flush(relay);
+    } else {
+      this.ensureConnected(relay);
+    }
+  }
+
+  /**
+   * Write queued messages to the socket, as fast as the relay's rateLimit allows
+   */
+  private flush(relay: PooledRelay): void {
+    if (relay.status !== 'open' || !relay.ws || relay.drainTimer) return;
+
+    while (relay.outbox.length > 0) {
+      const wait = this.takeToken(relay);
+      if (wait > 0) {
+        relay.drainTimer = setTimeout(() => {
+          relay.drainTimer = null;
+          this.flush(relay);
+        }, wait);
+        return;
+      }
+      relay.ws.send(relay.outbox.shift()!);
+    }
+  }
+
+  /**
+   * Token bucket for the relay's rateLimit config.
+   * Returns 0 when a message may be sent now, otherwise ms until the next token.
+   */
+  private takeToken(relay: PooledRelay): number {
+    const rateLimit = getRelayInfo(relay.url)?.rateLimit;
+    if (!rateLimit) return 0;
+
+    const perMs = rateLimit.requestsPerMinute / 60000;
+    const now = Date.now();
+    relay.tokens = Math.min(rateLimit.burstSize, relay.tokens + (now - relay.lastRefill) * perMs);
+    relay.lastRefill = now;
+
+    if (relay.tokens >= 1) {
+      relay.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - relay.tokens) / perMs);
+  }
+
+  /**
+   * Whether a relay requires NIP-42 auth according to config or its NIP-11 document
+   */
+  private requiresAuth(relayUrl: string): boolean {
+    return getRelayInfo(relayUrl)?.requiresAuth === true ||
+      relayInformationService.getCachedCapabilities(relayUrl)?.authRequired === true;
+  }
+
+  private canAuthenticate(relay: PooledRelay): boolean {
+    return !!this.authSigner && !!relay.authChallenge &&
+      (relay.authStatus === 'none' || relay.authStatus === 'authenticating');
+  }
+
+  /**
+   * Sign and send a kind 22242 AUTH event for the relay's current challenge
+   */
+  private async authenticate(relay: PooledRelay): Promise<void> {
+    const signer = this.authSigner;
+    const challenge = relay.authChallenge;
+    if (!signer || !challenge || relay.authStatus === 'authenticating') return;
+
+    relay.authStatus = 'authenticating';
+
+    try {
+      const pubkey = await signer.getPublicKey();
+      const authEvent = await signer.signEvent({
+        pubkey,
+        kind: 22242,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [
+          ['relay', relay.url],
+          ['challenge', challenge],
+        ],
+        content: '',
+      });
+
+      // Socket was replaced, a new challenge arrived or the signer changed while signing
+      if (relay.authChallenge !== challenge || relay.status !== 'open' || this.authSigner !== signer) {
+        this.abandonAuth(relay, challenge);
+        return;
+      }
+
+      relay.authEventId = authEvent.id;
+      relay.authPubkey = pubkey;
+      relay.outbox.unshift(JSON.stringify(['AUTH', authEvent]));
+      this.flush(relay);
+    } catch (error) {
+      // A newer attempt may have taken over while this one was signing
+      if (relay.authChallenge === challenge && relay.authStatus === 'authenticating') {
+        this.handleAuthResult(relay, false, error instanceof Error ? error.message : 'Failed to sign AUTH event');
+      }
+    }
+  }
+
+  /**
+   * Give up an outdated AUTH attempt without leaving the relay stuck in 'authenticating'
+   * Retries with the current challenge and signer when requests wait for auth, or fails them.
+   */
+  private abandonAuth(relay: PooledRelay, challenge: string): void {
+    // Still ours unless a new challenge (or disconnect) reset the status meanwhile
+    if (relay.authChallenge === challenge && relay.authStatus === 'authenticating') {
+      relay.authStatus = 'none';
+    }
+    if (relay.authStatus !== 'none' || relay.status !== 'open') return;
+
+    const hasWaiters = Array.from(relay.subscriptions.values()).some(s => s.awaitingAuth) ||
+      Array.from(relay.pendingPublishes.values()).some(p => p.awaitingAuth);
+    if (!hasWaiters && !this.requiresAuth(relay.url)) return;
+
+    if (this.canAuthenticate(relay)) {
+      void this.authenticate(relay);
+    } else if (hasWaiters) {
+      this.handleAuthResult(relay, false, 'No signer to answer the challenge');
+    }
+  }
+
+  /**
+   * Resume requests held back for auth, or fail them if auth was rejected
+   */
+  private handleAuthResult(relay: PooledRelay, accepted: boolean, message: string): void {
+    relay.authEventId = null;
+    relay.authStatus = accepted ? 'authenticated' : 'failed';
+
+    if (accepted) {
+      logger.info('Authenticated to relay (NIP-42)', {
+        service: 'RelayPoolService',
+        method: 'handleAuthResult',
+        relayUrl: relay.url,
+      });
+
+      relay.subscriptions.forEach(subscription => {
+        subscription.awaitingAuth = false;
+      });
+      this.startSubscriptions(relay);
+      relay.pendingPublishes.forEach(pending => {
+        if (!pending.awaitingAuth) return;
+        pending.awaitingAuth = false;
+        this.send(relay, ['EVENT', pending.event]);
+      });
+      return;
+    }
+
+    const reason = `Relay authentication failed${message ? `: ${message}` : ''}`;
+    logger.warn('Relay authentication failed (NIP-42)', {
+      service: 'RelayPoolService',
+      method: 'handleAuthResult',
+      relayUrl: relay.url,
+      message,
+    });
+
+    relay.subscriptions.forEach(subscription => {
+      if (!subscription.awaitingAuth) return;
+      relay.subscriptions.delete(subscription.id);
+      subscription.handlers.onClosed?.(reason);
+    });
+    relay.pendingPublishes.forEach(pending => {
+      if (pending.awaitingAuth) {
+        pending.resolve({ success: false, error: reason, authFailed: true });
+      }
+    });
+    this.scheduleIdleClose(relay);
+  }
+
+  private handleDisconnect(relay: PooledRelay, reason: string): void {
+    this.clearConnectTimer(relay);
+    if (relay.drainTimer) {
+      clearTimeout(relay.drainTimer);
+      relay.drainTimer = null;
+    }
+    if (relay.ws) {
+      relay.ws.onclose = null;
+      relay.ws = null;
+    }
+    relay.status = 'closed';
+    relay.outbox = [];
+    // Challenges are per connection
+    relay.authChallenge = null;
+    relay.authStatus = 'none';
+    relay.authEventId = null;
+    relay.authPubkey = null;
+
+    relay.pendingPublishes.forEach(pending => pending.resolve({ success: false, error: reason }));
+    relay.negentropySessions.forEach((handler, id) => handler(['NEG-ERR', id, reason]));
+
+    relay.subscriptions.forEach(subscription => {
+      if (subscription.oneShot) {
+        relay.subscriptions.delete(subscription.id);
+        subscription.handlers.onClosed?.(reason);
+      } else {
+        subscription.sent = false;
+        subscription.awaitingAuth = false;
+      }
+    });
+
+    if (relay.subscriptions.size === 0) {
+      this.scheduleIdleClose(relay);
+      return;
+    }
+
+    if (relay.reconnectAttempts >= RELAY_POOL_CONFIG.maxReconnectAttempts) {
+      logger.warn('Giving up on relay after repeated connection failures', {
+        service: 'RelayPoolService',
+        method: 'handleDisconnect',
+        relayUrl: relay.url,
+        attempts: relay.reconnectAttempts,
+      });
+      this.teardown(relay, 'Relay unreachable');
+      return;
+    }
+
+    const delay = Math.min(
+      RELAY_POOL_CONFIG.reconnectBaseDelay * 2 ** relay.reconnectAttempts,
+      RELAY_POOL_CONFIG.reconnectMaxDelay
+    );
+    relay.reconnectAttempts += 1;
+
+    logger.info('Relay disconnected, reconnecting', {
+      service: 'RelayPoolService',
+      method: 'handleDisconnect',
+      relayUrl: relay.url,
+      reason,
+      attempt: relay.reconnectAttempts,
+      delay: `${delay}ms`,
+      subscriptions: relay.subscriptions.size,
+    });
+
+    relay.reconnectTimer = setTimeout(() => {
+      relay.reconnectTimer = null;
+      this.ensureConnected(relay);
+    }, delay);
+  }
+
+  private scheduleIdleClose(relay: PooledRelay): void {
+    if (this.isBusy(relay) || relay.idleTimer) return;
+
+    relay.idleTimer = setTimeout(() => {
+      relay.idleTimer = null;
+      if (!this.isBusy(relay)) {
+        this.teardown(relay, 'Idle');
+      }
+    }, RELAY_POOL_CONFIG.idleTimeout);
+  }
+
+  private isBusy(relay: PooledRelay): boolean {
+    return relay.subscriptions.size > 0 ||
+      relay.pendingPublishes.size > 0 ||
+      relay.negentropySessions.size > 0;
+  }
+
+  private clearIdleTimer(relay: PooledRelay): void {
+    if (relay.idleTimer) {
+      clearTimeout(relay.idleTimer);
+      relay.idleTimer = null;
+    }
+  }
+
+  private clearConnectTimer(relay: PooledRelay): void {
+    if (relay.connectTimer) {
+      clearTimeout(relay.connectTimer);
+      relay.connectTimer = null;
+    }
+  }
+
+  /**
+   * Close the socket, end everything pending on it and drop the relay from the pool
+   */
+  private teardown(relay: PooledRelay, reason: string): void {
+    [relay.drainTimer, relay.reconnectTimer, relay.idleTimer, relay.connectTimer].forEach(timer => {
+      if (timer) clearTimeout(timer);
+    });
+    relay.drainTimer = relay.reconnectTimer = relay.idleTimer = relay.connectTimer = null;
+
+    if (relay.ws) {
+      const ws = relay.ws;
+      relay.ws = null;
+      ws.onclose = null;
+      try {
+        ws.close();
+      } catch {
+        // Socket may still be connecting
+      }
+    }
+    relay.status = 'closed';
+    relay.outbox = [];
+    this.relays.delete(relay.url);
+
+    relay.pendingPublishes.forEach(pending => pending.resolve({ success: false, error: reason }));
+    relay.negentropySessions.forEach((handler, id) => handler(['NEG-ERR', id, reason]));
+    const subscriptions = Array.from(relay.subscriptions.values());
+    relay.subscriptions.clear();
+    subscriptions.forEach(subscription => subscription.handlers.onClosed?.(reason));
+  }
+}
+
+function isAuthRequired(message: string): boolean {
+  return message.startsWith('auth-required:');
+}
+
+export const relayPoolService = RelayPoolService.getInstance();
@@ -3,11 +3,19 @@ import { logger } from '../core/LoggingService';
 import { NostrSigner, NostrEvent, NIP23Event, NIP23Content } from '../../types/nostr';
 import { AppError } from '../../errors/AppError';
 import { ErrorCode, HttpStatus, ErrorCategory, ErrorSeverity } from '../../errors/ErrorTypes';
-import { createNIP23Event, signEvent as genericSignEvent } from '../generic/GenericEventService';
+import { createExpirationTags, createNIP23Event, signEvent as genericSignEvent } from '../generic/GenericEventService';
 import { publishEvent as genericPublishEvent, RelayPublishingResult } from '../generic/GenericRelayService';
 import { EncryptionService } from '../generic/EncryptionService';
 import { getPublicKey, finalizeEvent, generateSecretKey } from 'nostr-tools';
 import { ProductAttachment } from '../../types/attachments';
+import type {
+  ProductAvailability,
+  ProductDeliverable,
+  ProductDeliveryMethod,
+  ProductVariant,
+  ShippingZone,
+} from '../../types/shop';
+import { createWorkCompensationTags, type WorkCompensation } from '../../types/work';
 
 export interface ProductEventData {
   title: string;
@@ -24,6 +32,13 @@ export interface ProductEventData {
   condition: 'new' | 'used' | 'refurbished';
   location: string;
   contact: string;
+  availability?: ProductAvailability;
+  quantity?: number | null;
+  variants?: ProductVariant[];
+  deliveryMethods?: ProductDeliveryMethod[];
+  shippingZones?: ShippingZone[];
+  deliverable?: ProductDeliverable | null;
+  expiresAt?: number | null; // NIP-40 expiration
 }
 
 export interface PublishingResult {
@@ -117,6 +132,9 @@ export class NostrEventService {
           ['condition', productData.condition],
           ['location', productData.location],
           ['contact', productData.contact],
+          ...this.createInventoryTags(productData),
+          ...this.createDeliveryTags(productData),
+          ...createExpirationTags(productData.expiresAt),
           ...productData.tags.map(tag => ['t', tag]),
           // Only add nostr-for-nomads-shop tag if not already present
           ...(productData.tags.includes('nostr-for-nomads-shop') ? [] : [['t', 'nostr-for-nomads-shop']]),
@@ -342,13 +360,13 @@ export class NostrEventService {
       category: string;
       jobType: string;
       duration: string;
-      payRate: number;
-      currency: string;
+      compensation: WorkCompensation;
       contact?: string;
       language: string;
       location: string;
       region: string;
       country: string;
+      expiresAt?: number | null;
       tags: string[];
       attachments: Array<{
         url: string;
@@ -395,8 +413,7 @@ export class NostrEventService {
         ['category', workData.category],
         ['job-type', workData.jobType],
         ['duration', workData.duration],
-        ['pay-rate', workData.payRate.toString()],
-        ['currency', workData.currency],
+        ...createWorkCompensationTags(workData.compensation),
         ['region', workData.region],
         ['country', workData.country],
         ['language', workData.language],
@@ -412,6 +429,9 @@ export class NostrEventService {
         workTags.push(['location', workData.location]);
       }
 
+      // NIP-40 expiration
+      workTags.push(...createExpirationTags(workData.expiresAt));
+
       // Add user tags
       workData.tags.forEach(tag => {
         if (tag.trim()) {
@@ -945,6 +965,56 @@ export class NostrEventService {
     return attachments;
   }
 
+  /**
+   * Create availability, stock and variant tags
+   */
+  private createInventoryTags(productData: ProductEventData): string[][] {
+    const formatStock = (quantity: number | null | undefined) =>
+      quantity === null || quantity === undefined ? '' : String(quantity);
+
+    return [
+      ['status', productData.availability || 'available'],
+      ...(formatStock(productData.quantity) ? [['quantity', formatStock(productData.quantity)]] : []),
+      ...(productData.variants || []).map(variant => [
+        'variant',
+        variant.id,
+        variant.name,
+        String(variant.price),
+        formatStock(variant.quantity),
+      ]),
+    ];
+  }
+
+  /**
+   * Create delivery method, shipping zone and deliverable tags
+   */
+  private createDeliveryTags(productData: ProductEventData): string[][] {
+    const formatDays = (days: number | null) => (days === null ? '' : String(days));
+    const methods = productData.deliveryMethods || [];
+    const deliverable = methods.includes('digital') ? productData.deliverable : null;
+
+    return [
+      ...methods.map(method => ['delivery', method]),
+      ...(methods.includes('shipping') ? productData.shippingZones || [] : []).map(zone => [
+        'shipping',
+        zone.id,
+        zone.destination,
+        String(zone.cost),
+        formatDays(zone.minDays),
+        formatDays(zone.maxDays),
+      ]),
+      ...(deliverable ? [[
+        'deliverable',
+        deliverable.url,
+        deliverable.hash,
+        deliverable.name,
+        deliverable.mimeType,
+        String(deliverable.size),
+        deliverable.encryptedKey,
+      ]] : []),
+    ];
+  }
+
   /**
    * Create attachment tags for multiple attachments
    */
@@ -131,6 +131,7 @@ export const useAuthStore = create<AuthState>()(
             key.startsWith('my-shop-store') ||
             key.startsWith('shop-store') ||
             key.startsWith('cart-store') ||
+            key.startsWith('saved-search-store') ||
             key === 'lastPublishedEvent' ||
             key.startsWith('nostr') ||
             key.startsWith('nostr-for-nomads')
@@ -144,6 +145,7 @@ export const useAuthStore = create<AuthState>()(
             key.startsWith('my-shop-store') ||
             key.startsWith('shop-store') ||
             key.startsWith('cart-store') ||
+            key.startsWith('saved-search-store') ||
             key.startsWith('nostr') ||
             key.startsWith('nostr-for-nomads')
           );
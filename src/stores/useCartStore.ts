@@ -0,0 +1,98 @@
+/**
+ * Zustand store for the shopping cart
+ * Multi-vendor cart persisted locally (cart-store) and synced to the
+ * encrypted NIP-78 settings event by useCartSync
+ */
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { CartItem, CartItemValidation, CartSettings } from '@/types/cart';
+import { getCartItemKey } from '@/types/cart';
+
+const MAX_QUANTITY = 99;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+export interface CartState {
+  items: CartItem[];
+  updatedAt: number; // Unix seconds of the last local change (0 = never changed)
+  validation: Record<string, CartItemValidation>; // cart item key -> latest revalidation result
+
+  // Actions (bump updatedAt so the change wins the next sync)
+  addItem: (item: CartItem) => void;
+  setQuantity: (key: string, quantity: number) => void;
+  removeItem: (key: string) => void;
+  removeSellerItems: (sellerPubkey: string) => void;
+  clearCart: () => void;
+
+  // Sync actions (keep the synced updatedAt)
+  replaceCart: (cart: CartSettings) => void;
+  applyRevalidation: (items: CartItem[], validation: Record<string, CartItemValidation>) => void;
+
+  // Computed getters
+  getCartSettings: () => CartSettings;
+}
+
+export const useCartStore = create<CartState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        items: [],
+        updatedAt: 0,
+        validation: {},
+
+        addItem: (item) => set((state) => {
+          const key = getCartItemKey(item);
+          const existing = state.items.find(i => getCartItemKey(i) === key);
+          const items = existing
+            ? state.items.map(i =>
+                getCartItemKey(i) === key
+                  ? { ...item, addedAt: i.addedAt, quantity: Math.min(i.quantity + item.quantity, MAX_QUANTITY) }
+                  : i
+              )
+            : [...state.items, item];
+          return { items, updatedAt: now() };
+        }),
+
+        setQuantity: (key, quantity) => set((state) => ({
+          items: state.items.map(i =>
+            getCartItemKey(i) === key ? { ...i, quantity: Math.min(Math.max(1, Math.floor(quantity)), MAX_QUANTITY) } : i
+          ),
+          updatedAt: now(),
+        })),
+
+        removeItem: (key) => set((state) => {
+          const validation = { ...state.validation };
+          delete validation[key];
+          return { items: state.items.filter(i => getCartItemKey(i) !== key), validation, updatedAt: now() };
+        }),
+
+        removeSellerItems: (sellerPubkey) => set((state) => ({
+          items: state.items.filter(i => i.sellerPubkey !== sellerPubkey),
+          updatedAt: now(),
+        })),
+
+        clearCart: () => set({ items: [], validation: {}, updatedAt: now() }),
+
+        replaceCart: (cart) => set({ items: cart.items, updatedAt: cart.updatedAt, validation: {} }),
+
+        applyRevalidation: (items, validation) => set((state) => ({
+          // Items may have been removed while revalidating
+          items: state.items.map(i => items.find(updated => getCartItemKey(updated) === getCartItemKey(i)) || i),
+          validation,
+        })),
+
+        getCartSettings: () => ({ items: get().items, updatedAt: get().updatedAt }),
+      }),
+      {
+        name: 'cart-store',
+        partialize: (state: CartState) => ({
+          items: state.items,
+          updatedAt: state.updatedAt,
+        }),
+      }
+    ),
+    {
+      name: 'cart-store-devtools'
+    }
+  )
+);
@@ -0,0 +1,51 @@
+/**
+ * Zustand store for currency display
+ * The user's display currency is persisted locally (currency-store);
+ * exchange rates are kept in memory and refreshed by useExchangeRates
+ */
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { ExchangeRates } from '@/types/exchange-rate';
+import { DEFAULT_DISPLAY_CURRENCY } from '@/config/currency';
+
+export interface CurrencyState {
+  displayCurrency: string;
+  rates: ExchangeRates | null;
+  isLoadingRates: boolean;
+  ratesError: string | null;
+
+  setDisplayCurrency: (currency: string) => void;
+  setRates: (rates: ExchangeRates) => void;
+  setLoadingRates: (loading: boolean) => void;
+  setRatesError: (error: string | null) => void;
+}
+
+export const useCurrencyStore = create<CurrencyState>()(
+  devtools(
+    persist(
+      (set) => ({
+        displayCurrency: DEFAULT_DISPLAY_CURRENCY,
+        rates: null,
+        isLoadingRates: false,
+        ratesError: null,
+
+        setDisplayCurrency: (currency) => set({ displayCurrency: currency }),
+
+        setRates: (rates) => set({ rates, ratesError: null }),
+
+        setLoadingRates: (loading) => set({ isLoadingRates: loading }),
+
+        setRatesError: (error) => set({ ratesError: error }),
+      }),
+      {
+        name: 'currency-store',
+        partialize: (state: CurrencyState) => ({
+          displayCurrency: state.displayCurrency,
+        }),
+      }
+    ),
+    {
+      name: 'currency-store-devtools'
+    }
+  )
+);
@@ -0,0 +1,82 @@
+/**
+ * Zustand store for saved Work and Shop searches
+ * Searches are persisted locally (saved-search-store) and synced to the
+ * encrypted NIP-78 settings event by useSavedSearchSync; new matches found
+ * by the live relay subscription are kept in memory only
+ */
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { SavedSearch, SavedSearchSettings } from '@/types/saved-search';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+export interface SavedSearchState {
+  searches: SavedSearch[];
+  updatedAt: number; // Unix seconds of the last local change (0 = never changed)
+  newMatches: Record<string, string[]>; // search id -> addresses of new matching listings
+
+  // Actions (bump updatedAt so the change wins the next sync)
+  addSearch: (search: SavedSearch) => void;
+  removeSearch: (id: string) => void;
+  markChecked: (id: string) => void;
+
+  // Sync actions (keep the synced updatedAt)
+  replaceSearches: (settings: SavedSearchSettings) => void;
+  addMatch: (id: string, address: string) => void;
+
+  // Computed getters
+  getSavedSearchSettings: () => SavedSearchSettings;
+}
+
+export const useSavedSearchStore = create<SavedSearchState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        searches: [],
+        updatedAt: 0,
+        newMatches: {},
+
+        addSearch: (search) => set((state) => ({
+          searches: [...state.searches, search],
+          updatedAt: now(),
+        })),
+
+        removeSearch: (id) => set((state) => {
+          const newMatches = { ...state.newMatches };
+          delete newMatches[id];
+          return { searches: state.searches.filter(s => s.id !== id), newMatches, updatedAt: now() };
+        }),
+
+        markChecked: (id) => set((state) => {
+          const newMatches = { ...state.newMatches };
+          delete newMatches[id];
+          return {
+            searches: state.searches.map(s => (s.id === id ? { ...s, lastCheckedAt: now() } : s)),
+            newMatches,
+            updatedAt: now(),
+          };
+        }),
+
+        replaceSearches: (settings) => set({ searches: settings.searches, updatedAt: settings.updatedAt, newMatches: {} }),
+
+        addMatch: (id, address) => set((state) => {
+          const matches = state.newMatches[id] || [];
+          if (matches.includes(address) || !state.searches.some(s => s.id === id)) return state;
+          return { newMatches: { ...state.newMatches, [id]: [...matches, address] } };
+        }),
+
+        getSavedSearchSettings: () => ({ searches: get().searches, updatedAt: get().updatedAt }),
+      }),
+      {
+        name: 'saved-search-store',
+        partialize: (state: SavedSearchState) => ({
+          searches: state.searches,
+          updatedAt: state.updatedAt,
+        }),
+      }
+    ),
+    {
+      name: 'saved-search-store-devtools'
+    }
+  )
+);
@@ -5,10 +5,17 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { ProductCardData } from '@/types/shop';
+import { shipsToCountry } from '@/types/shop';
+import { getCountryById } from '@/config/contributions';
+import { convertAmount } from '@/services/business/ExchangeRateService';
+import { useCurrencyStore } from './useCurrencyStore';
 
 // Type alias for consistency
 export type ShopProduct = ProductCardData;
 
+// Price range that filters nothing (in the display currency)
+export const DEFAULT_PRICE_RANGE = { min: 0, max: 1000000 };
+
 export interface ShopState {
   // Products
   products: ShopProduct[];
@@ -19,7 +26,9 @@ export interface ShopState {
   searchQuery: string;
   selectedCategory: string;
   selectedCondition: string;
-  priceRange: { min: number; max: number };
+  selectedAvailability: string;
+  shipsTo: string; // Buyer's country id ('' = any)
+  priceRange: { min: number; max: number }; // In the user's display currency
   sortBy: 'newest' | 'oldest' | 'price-low' | 'price-high';
   viewMode: 'grid' | 'list';
   
@@ -30,6 +39,8 @@ export interface ShopState {
   setSearchQuery: (query: string) => void;
   setSelectedCategory: (category: string) => void;
   setSelectedCondition: (condition: string) => void;
+  setSelectedAvailability: (availability: string) => void;
+  setShipsTo: (countryId: string) => void;
   setPriceRange: (range: { min: number; max: number }) => void;
   setSortBy: (sortBy: 'newest' | 'oldest' | 'price-low' | 'price-high') => void;
   setViewMode: (mode: 'grid' | 'list') => void;
@@ -54,7 +65,9 @@ export const useShopStore = create<ShopState>()(
       searchQuery: '',
       selectedCategory: '',
       selectedCondition: '',
-      priceRange: { min: 0, max: 1000000 },
+      selectedAvailability: '',
+      shipsTo: '',
+      priceRange: DEFAULT_PRICE_RANGE,
       sortBy: 'newest',
       viewMode: 'grid',
       
@@ -72,6 +85,10 @@ export const useShopStore = create<ShopState>()(
       
       setSelectedCondition: (condition) => set({ selectedCondition: condition }),
       
+      setSelectedAvailability: (availability) => set({ selectedAvailability: availability }),
+      
+      setShipsTo: (countryId) => set({ shipsTo: countryId }),
+      
       setPriceRange: (range) => set({ priceRange: range }),
       
       setSortBy: (sortBy) => set({ sortBy }),
@@ -105,11 +122,43 @@ export const useShopStore = create<ShopState>()(
           filtered = filtered.filter(product => product.condition === state.selectedCondition);
         }
         
-        // Filter by price range
-        filtered = filtered.filter(product => 
-          product.price >= state.priceRange.min && 
-          product.price <= state.priceRange.max
-        );
+        // Filter by availability
+        if (state.selectedAvailability) {
+          filtered = filtered.filter(product => product.availability === state.selectedAvailability);
+        }
+        
+        // Filter by destination (digital items reach every country)
+        const destinationCountry = state.shipsTo ? getCountryById(state.shipsTo) : undefined;
+        if (destinationCountry) {
+          filtered = filtered.filter(product => shipsToCountry(product, destinationCountry));
+        }
+        
+        // Prices compare in the display currency; ones without a rate (yet) can't be compared
+        const { displayCurrency, rates } = useCurrencyStore.getState();
+        const comparablePrices = new Map(filtered.map(product => [
+          product.id,
+          convertAmount(product.price, product.currency, displayCurrency, rates),
+        ]));
+        const getPrice = (product: ShopProduct) => comparablePrices.get(product.id) ?? null;
+        
+        // Filter by price range (a set range leaves out prices that can't be converted)
+        const { min, max } = state.priceRange;
+        if (min > DEFAULT_PRICE_RANGE.min || max < DEFAULT_PRICE_RANGE.max) {
+          filtered = filtered.filter(product => {
+            const price = getPrice(product);
+            return price !== null && price >= min && price <= max;
+          });
+        }
+        
+        // Price sorts put prices that can't be converted last, newest first
+        const comparePrices = (a: ShopProduct, b: ShopProduct, direction: 1 | -1) => {
+          const priceA = getPrice(a);
+          const priceB = getPrice(b);
+          if (priceA === null || priceB === null) {
+            return priceA === priceB ? b.createdAt - a.createdAt : priceA === null ? 1 : -1;
+          }
+          return (priceA - priceB) * direction;
+        };
         
         // Sort products
         filtered.sort((a, b) => {
@@ -119,9 +168,9 @@ export const useShopStore = create<ShopState>()(
             case 'oldest':
               return a.createdAt - b.createdAt;
             case 'price-low':
-              return a.price - b.price;
+              return comparePrices(a, b, 1);
             case 'price-high':
-              return b.price - a.price;
+              return comparePrices(a, b, -1);
             default:
               return 0;
           }
@@ -159,7 +208,9 @@ export const useShopStore = create<ShopState>()(
         searchQuery: '',
         selectedCategory: '',
         selectedCondition: '',
-        priceRange: { min: 0, max: 1000000 },
+        selectedAvailability: '',
+        shipsTo: '',
+        priceRange: DEFAULT_PRICE_RANGE,
         sortBy: 'newest'
       }),
       
@@ -170,7 +221,9 @@ export const useShopStore = create<ShopState>()(
         searchQuery: '',
         selectedCategory: '',
         selectedCondition: '',
-        priceRange: { min: 0, max: 1000000 },
+        selectedAvailability: '',
+        shipsTo: '',
+        priceRange: DEFAULT_PRICE_RANGE,
         sortBy: 'newest',
         viewMode: 'grid'
       })
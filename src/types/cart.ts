@@ -0,0 +1,52 @@
+/**
+ * Shopping Cart Types
+ * The cart is multi-vendor: items reference products by their NIP-33 address
+ * ("<kind>:<seller pubkey>:<d tag>", native or NIP-99 / NIP-15) and are grouped by seller at checkout.
+ * It syncs across devices inside the encrypted NIP-78 settings event (Kind 30078).
+ */
+
+export interface CartItem {
+  address: string; // "<kind>:<seller pubkey>:<d tag>"
+  sellerPubkey: string;
+  dTag: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+  addedAt: number; // Unix seconds
+  // Product details when added / last revalidated (for display and change detection)
+  title: string;
+  price: number;
+  currency: string;
+  imageUrl?: string;
+}
+
+export type CartItemStatus = 'ok' | 'price-changed' | 'unavailable';
+
+/**
+ * Identity of a cart line - each variant of a product is its own line
+ */
+export function getCartItemKey(item: Pick<CartItem, 'address' | 'variantId'>): string {
+  return item.variantId ? `${item.address}#${item.variantId}` : item.address;
+}
+
+/**
+ * Result of checking a cart item against the latest version of its product
+ */
+export interface CartItemValidation {
+  status: CartItemStatus;
+  previousPrice?: number; // Set when the price changed
+}
+
+export interface CartSellerGroup {
+  sellerPubkey: string;
+  items: CartItem[];
+  subtotals: Record<string, number>; // currency -> total
+}
+
+/**
+ * Cart section of the settings event
+ */
+export interface CartSettings {
+  items: CartItem[];
+  updatedAt: number; // Unix seconds - last-writer-wins across devices
+}
@@ -33,6 +33,7 @@ export interface ContentContactInfo {
 export interface BaseContentDetail {
   id: string;
   dTag?: string;
+  eventId?: string; // Nostr event id of the version shown (id is the route id)
   title: string;
   summary?: string;
   description: string;
@@ -0,0 +1,181 @@
+import type { NostrEvent } from './nostr';
+
+/**
+ * Escrow Contract Types
+ * A contract is attached to a hired Work proposal: the client (poster) and the
+ * freelancer agree on milestones, each paid through a hold invoice that stays
+ * locked until the client releases it.
+ *
+ * Every step is a contract event (Kind 21556) signed by the party taking it and
+ * sent to the other side inside NIP-17 messages, never published on its own:
+ * - propose (client): contract terms
+ * - accept (freelancer): signs the proposed terms
+ * - fund (client): milestone paid into a hold invoice
+ * - deliver (freelancer): milestone delivered
+ * - release (client): hold invoice settled, reveals the preimage
+ * - cancel (client): overdue milestone dropped, its hold invoice (if funded) cancelled
+ * A milestone is only released after both parties signed it off (deliver + release).
+ */
+
+export const CONTRACT_EVENT_KIND = 21556;
+
+export const MAX_CONTRACT_MILESTONES = 10;
+
+export type ContractAction = 'propose' | 'accept' | 'fund' | 'deliver' | 'release' | 'cancel';
+
+export type ContractStatus = 'proposed' | 'active' | 'completed';
+
+export type MilestoneStatus = 'pending' | 'funded' | 'delivered' | 'released' | 'cancelled';
+
+export type ContractRole = 'client' | 'freelancer';
+
+/**
+ * Milestone as written in the signed terms
+ */
+export interface MilestoneTerms {
+  id: string;
+  description: string;
+  amount_sats: number;
+  due: number; // Unix seconds
+}
+
+/**
+ * Content of the propose event
+ */
+export interface ContractTerms {
+  title: string;
+  work: string; // Work address "30023:<client pubkey>:<d tag>"
+  proposal: string; // Hired proposal id
+  provider: string; // Escrow provider id
+  milestones: MilestoneTerms[];
+}
+
+/**
+ * Content of a fund event
+ */
+export interface MilestoneFunding {
+  payment_hash: string;
+  invoice: string;
+  encrypted_preimage: string; // NIP-44 encrypted to the client, needed to release
+}
+
+/**
+ * Content of a deliver event
+ */
+export interface MilestoneDelivery {
+  message?: string;
+}
+
+/**
+ * Content of a release event
+ */
+export interface MilestoneRelease {
+  preimage: string; // sha256(preimage) = payment hash, proof the payment was released
+}
+
+/**
+ * NIP-17 message payload carrying one signed contract event
+ */
+export interface ContractMessage {
+  type: 'contract';
+  contract: string; // Contract id (id of the propose event)
+  event: NostrEvent;
+}
+
+export interface ContractMilestone {
+  id: string;
+  description: string;
+  amountSats: number;
+  dueAt: number;
+  status: MilestoneStatus;
+  paymentHash?: string;
+  invoice?: string;
+  encryptedPreimage?: string;
+  deliveryMessage?: string;
+  preimage?: string;
+  fundedAt?: number;
+  deliveredAt?: number;
+  releasedAt?: number;
+  cancelledAt?: number;
+}
+
+/**
+ * One signed step of a contract's history
+ */
+export interface ContractHistoryEntry {
+  eventId: string;
+  action: ContractAction;
+  milestoneId?: string;
+  signerPubkey: string;
+  createdAt: number;
+}
+
+export interface Contract {
+  id: string;
+  title: string;
+  workAddress: string;
+  workDTag: string;
+  proposalId: string;
+  clientPubkey: string;
+  freelancerPubkey: string;
+  providerId: string;
+  status: ContractStatus;
+  milestones: ContractMilestone[];
+  totalSats: number;
+  createdAt: number;
+  updatedAt: number;
+  history: ContractHistoryEntry[]; // Oldest first
+}
+
+/**
+ * Milestone form values
+ */
+export interface MilestoneDraft {
+  description: string;
+  amountSats: string;
+  dueDate: string; // Date input value
+}
+
+export type HoldInvoiceState = 'open' | 'held' | 'settled' | 'cancelled';
+
+/**
+ * Hold invoice for one milestone: the payment is locked until settled with the preimage
+ */
+export interface HoldInvoice {
+  invoice: string;
+  paymentHash: string;
+  amountSats: number;
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * Client-side funding in progress (preimage never leaves the client unencrypted until release)
+ * Kept in the client's encrypted settings until the fund step is sent, so a reload
+ * after paying doesn't lose the preimage
+ */
+export interface PendingFunding {
+  contractId: string;
+  milestoneId: string;
+  encryptedPreimage: string; // NIP-44 encrypted to the client
+  holdInvoice: HoldInvoice;
+}
+
+/**
+ * Service that issues and settles hold invoices
+ * Register additional providers with GenericEscrowService.registerProvider
+ */
+export interface EscrowProvider {
+  id: string;
+  name: string;
+  isTestProvider: boolean; // Payments can be simulated (no real sats move)
+  createHoldInvoice: (request: {
+    amountSats: number;
+    paymentHash: string;
+    description: string;
+    payeePubkey: string; // Freelancer who receives the payment on settlement
+  }) => Promise<HoldInvoice>;
+  getHoldInvoiceState: (paymentHash: string) => Promise<HoldInvoiceState>;
+  settleHoldInvoice: (preimage: string) => Promise<void>;
+  cancelHoldInvoice: (paymentHash: string) => Promise<void>;
+  simulatePayment?: (paymentHash: string) => Promise<void>; // Test providers only
+}
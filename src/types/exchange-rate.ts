@@ -0,0 +1,21 @@
+/**
+ * Exchange Rate Types
+ * Rates are expressed as the price of 1 BTC in each fiat currency;
+ * sats and BTC convert to each other without a rate.
+ */
+
+export interface ExchangeRates {
+  provider: string;
+  rates: Record<string, number>; // Fiat currency code (uppercase) -> price of 1 BTC
+  fetchedAt: number; // Unix ms
+}
+
+/**
+ * Source of BTC prices
+ * Register additional providers with GenericExchangeRateService.registerProvider
+ */
+export interface ExchangeRateProvider {
+  id: string;
+  name: string;
+  fetchBtcRates: (currencies: string[], signal: AbortSignal) => Promise<Record<string, number>>;
+}
@@ -1,6 +1,9 @@
 
 import type { NostrEvent } from './nostr';
 import type { GenericAttachment } from './attachments';
+import type { OrderMessage } from './order';
+import type { ProposalMessage } from './proposal';
+import type { ContractMessage } from './escrow';
 
 export interface Conversation {
   /** Public key of the other user */
@@ -53,6 +56,15 @@ export interface Message {
   /** Context (product/contribution reference) */
   context?: ConversationContext;
   
+  /** Structured order payload (NIP-15 checkout message) */
+  order?: OrderMessage;
+  
+  /** Structured job proposal payload (Work applications) */
+  proposal?: ProposalMessage;
+  
+  /** Signed Work contract step (escrow milestones) */
+  contract?: ContractMessage;
+  
   /** Whether this message was sent by current user */
   isSent?: boolean;
   
@@ -58,3 +58,68 @@ export interface RelayInfo {
   read: boolean;
   write: boolean;
 }
+
+/**
+ * A relay entry as the user edits it (one row of their NIP-65 list)
+ */
+export interface RelayPreference {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+/**
+ * Parsed NIP-65 relay list (Kind 10002) for a single pubkey
+ * createdAt is 0 when the pubkey has not published a relay list
+ */
+export interface RelayListEntry {
+  pubkey: string;
+  read: string[];
+  write: string[];
+  createdAt: number;
+}
+
+/**
+ * NIP-11 relay information document (fields we use)
+ */
+export interface RelayInformationDocument {
+  name?: string;
+  description?: string;
+  pubkey?: string;
+  contact?: string;
+  supported_nips?: number[];
+  software?: string;
+  version?: string;
+  limitation?: {
+    max_message_length?: number;
+    max_subscriptions?: number;
+    max_filters?: number;
+    max_limit?: number;
+    max_event_tags?: number;
+    max_content_length?: number;
+    min_pow_difficulty?: number;
+    auth_required?: boolean;
+    payment_required?: boolean;
+    restricted_writes?: boolean;
+    created_at_lower_limit?: number;
+    created_at_upper_limit?: number;
+  };
+}
+
+/**
+ * Relay capabilities derived from NIP-11 (or the static config when NIP-11 is unavailable)
+ */
+export interface RelayCapabilities {
+  url: string;
+  source: 'nip11' | 'config';
+  supportedNips: number[];
+  maxMessageLength?: number;
+  maxLimit?: number;
+  maxSubscriptions?: number;
+  authRequired: boolean;
+  paymentRequired: boolean;
+  restrictedWrites: boolean;
+  createdAtLowerLimit?: number; // Seconds before now
+  createdAtUpperLimit?: number; // Seconds after now
+  fetchedAt: number;
+}
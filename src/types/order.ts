@@ -0,0 +1,121 @@
+import type { NostrEvent } from './nostr';
+
+/**
+ * Order Types
+ * Orders are exchanged as NIP-17 gift-wrapped messages between buyer and seller.
+ * The structured payloads follow the NIP-15 checkout messages (type 0 order,
+ * type 1 payment request, type 2 status update) with a few extra display fields.
+ */
+
+export type OrderMessageType = 0 | 1 | 2;
+
+export type OrderStatus = 'pending' | 'payment-requested' | 'paid' | 'shipped' | 'completed' | 'cancelled';
+
+export type PaymentOptionType = 'ln' | 'btc' | 'lnurl' | 'url';
+
+export interface OrderItemPayload {
+  product_id: string; // Product d tag
+  quantity: number;
+  // Snapshot for display (not part of NIP-15)
+  address?: string; // "<kind>:<seller pubkey>:<d tag>"
+  variant_id?: string;
+  variant?: string; // Variant name
+  title?: string;
+  price?: number;
+  currency?: string;
+}
+
+/**
+ * Digital product file with its decryption key (not part of NIP-15)
+ */
+export interface OrderDelivery {
+  product_id: string; // Product d tag
+  url: string; // Encrypted file on Blossom
+  sha256: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  key: string; // AES-256-GCM key (hex)
+}
+
+/**
+ * Type 0 - buyer -> seller
+ */
+export interface OrderRequestPayload {
+  id: string;
+  type: 0;
+  name?: string;
+  address?: string; // Shipping address (free text)
+  message?: string;
+  contact: { nostr: string; email?: string; phone?: string };
+  items: OrderItemPayload[];
+  shipping_id?: string;
+}
+
+/**
+ * Type 1 - seller -> buyer
+ */
+export interface PaymentRequestPayload {
+  id: string;
+  type: 1;
+  message?: string;
+  payment_options: Array<{ type: PaymentOptionType; link: string }>;
+}
+
+/**
+ * Type 2 - seller -> buyer
+ */
+export interface OrderStatusPayload {
+  id: string;
+  type: 2;
+  message?: string;
+  paid: boolean;
+  shipped: boolean;
+  status?: Extract<OrderStatus, 'paid' | 'shipped' | 'completed' | 'cancelled'>; // Not part of NIP-15
+  proof?: NostrEvent; // Purchase proof for reviews, sent on completion (not part of NIP-15)
+  deliveries?: OrderDelivery[]; // Digital product keys, sent once paid
+}
+
+export type OrderMessage = OrderRequestPayload | PaymentRequestPayload | OrderStatusPayload;
+
+/**
+ * One step of an order's history, built from its messages
+ */
+export interface OrderTimelineEntry {
+  messageId: string;
+  type: OrderMessageType;
+  status: OrderStatus;
+  senderPubkey: string;
+  createdAt: number;
+  message?: string;
+  paymentOptions?: PaymentRequestPayload['payment_options'];
+}
+
+export interface Order {
+  id: string;
+  buyerPubkey: string;
+  sellerPubkey: string;
+  items: OrderItemPayload[];
+  totals: Record<string, number>; // currency -> total
+  shippingName?: string;
+  shippingAddress?: string;
+  message?: string;
+  status: OrderStatus;
+  paymentOptions?: PaymentRequestPayload['payment_options']; // Latest payment request
+  purchaseProof?: NostrEvent; // Seller-signed proof once completed (marks the buyer's reviews as verified)
+  deliveries?: OrderDelivery[]; // Digital product files the buyer can download and decrypt
+  createdAt: number;
+  updatedAt: number;
+  timeline: OrderTimelineEntry[]; // Oldest first
+}
+
+export type OrderRole = 'buyer' | 'seller';
+
+/**
+ * Buyer details entered at checkout
+ */
+export interface CheckoutDetails {
+  name: string;
+  address: string;
+  message: string;
+}
@@ -0,0 +1,100 @@
+/**
+ * Proposal Types
+ * Job applications for Work listings are exchanged as NIP-17 gift-wrapped messages
+ * between the applicant and the poster, like orders. Each payload references the
+ * work listing by its address ("30023:<poster pubkey>:<d tag>").
+ * The applicant sends a proposal; the poster answers with status updates.
+ */
+
+export const MAX_COVER_LETTER_LENGTH = 5000;
+export const MAX_PROPOSAL_ATTACHMENTS = 5;
+
+export type ProposalStatus = 'submitted' | 'shortlisted' | 'rejected' | 'hired';
+
+// Statuses the poster can send back
+export type ProposalDecision = Exclude<ProposalStatus, 'submitted'>;
+
+/**
+ * Portfolio file uploaded to Blossom by the applicant
+ */
+export interface ProposalAttachment {
+  url: string;
+  sha256: string;
+  name: string;
+  mime_type: string;
+  size: number;
+}
+
+/**
+ * Applicant -> poster
+ */
+export interface ProposalRequestPayload {
+  id: string;
+  type: 'proposal';
+  work: string; // Work address "30023:<poster pubkey>:<d tag>"
+  work_title?: string;
+  cover_letter: string;
+  rate?: { amount: number; currency: string }; // currency: WORK_CURRENCIES id
+  availability?: string;
+  attachments?: ProposalAttachment[];
+}
+
+/**
+ * Poster -> applicant
+ */
+export interface ProposalStatusPayload {
+  id: string;
+  type: 'proposal-status';
+  work: string;
+  status: ProposalDecision;
+  message?: string;
+}
+
+export type ProposalMessage = ProposalRequestPayload | ProposalStatusPayload;
+
+/**
+ * One step of a proposal's history, built from its messages
+ */
+export interface ProposalTimelineEntry {
+  messageId: string;
+  status: ProposalStatus;
+  createdAt: number;
+  message?: string;
+}
+
+export interface Proposal {
+  id: string;
+  workAddress: string;
+  workDTag: string;
+  workTitle?: string;
+  applicantPubkey: string;
+  posterPubkey: string;
+  coverLetter: string;
+  rate?: ProposalRequestPayload['rate'];
+  availability?: string;
+  attachments: ProposalAttachment[];
+  status: ProposalStatus;
+  createdAt: number;
+  updatedAt: number;
+  timeline: ProposalTimelineEntry[]; // Oldest first
+}
+
+/**
+ * Work listing an applicant applies to
+ */
+export interface ProposalTarget {
+  posterPubkey: string;
+  dTag: string;
+  title: string;
+}
+
+/**
+ * Proposal form values
+ */
+export interface ProposalData {
+  coverLetter: string;
+  rateAmount: string; // Empty = no rate proposed
+  rateCurrency: string;
+  availability: string;
+  files: File[];
+}
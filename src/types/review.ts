@@ -0,0 +1,49 @@
+import type { NostrEvent } from './nostr';
+
+/**
+ * Review Types
+ * Reviews are Kind 31555 addressable events, as used by other Nostr marketplaces:
+ * one per reviewer and target, d='a:<product address>' or d='p:<seller pubkey>'.
+ * The rating is stored as a 0-1 score in a ['rating', score, 'thumb'] tag and
+ * shown as 1-5 stars.
+ *
+ * A review is a verified purchase when it embeds a purchase proof: an event the
+ * seller signed when completing the buyer's order (never published on its own).
+ */
+
+export const REVIEW_KIND = 31555;
+export const PURCHASE_PROOF_KIND = 21555;
+export const REVIEW_SYSTEM_TAG = 'nostr-for-nomads-review';
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_LENGTH = 2000;
+
+export type ReviewTarget =
+  | { type: 'product'; address: string; sellerPubkey: string } // address: "<kind>:<seller pubkey>:<d tag>"
+  | { type: 'seller'; sellerPubkey: string };
+
+export interface Review {
+  id: string;
+  reviewerPubkey: string;
+  sellerPubkey: string;
+  productAddress?: string; // Absent for seller reviews
+  rating: number; // 1-5
+  content: string;
+  verified: boolean; // Embeds a valid purchase proof from the seller
+  purchaseProof?: NostrEvent; // Only set when valid
+  createdAt: number;
+}
+
+export interface RatingSummary {
+  average: number; // 0 when there are no reviews
+  count: number;
+  verifiedCount: number;
+}
+
+export interface ReviewData {
+  target: ReviewTarget;
+  rating: number;
+  content: string;
+  purchaseProof?: NostrEvent;
+}
@@ -0,0 +1,39 @@
+/**
+ * Saved Search Types
+ * A saved search is a named filter set from the Work or Shop browse page. The list
+ * syncs across devices inside the encrypted NIP-78 settings event (Kind 30078,
+ * "savedSearches" section), and a live relay subscription counts new Kind 30023
+ * listings matching each search since it was last checked.
+ */
+
+export type SavedSearchScope = 'work' | 'shop';
+
+export const MAX_SAVED_SEARCHES = 20;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+export interface SavedSearchCriteria {
+  keywords: string; // '' = any
+  category: string; // '' = any
+  region: string; // Work only, '' = any
+  country: string; // Work: listing country, Shop: ships to ('' = any)
+  minAmount: number | null; // Work: hourly-equivalent pay, Shop: price
+  maxAmount: number | null;
+  currency: string; // Display currency the amounts were entered in
+}
+
+export interface SavedSearch {
+  id: string;
+  scope: SavedSearchScope;
+  name: string;
+  criteria: SavedSearchCriteria;
+  createdAt: number; // Unix seconds
+  lastCheckedAt: number; // Unix seconds - listings published after this count as new
+}
+
+/**
+ * Saved searches section of the settings event
+ */
+export interface SavedSearchSettings {
+  searches: SavedSearch[];
+  updatedAt: number; // Unix seconds - last-writer-wins across devices
+}
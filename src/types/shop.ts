@@ -1,6 +1,53 @@
 import type { ProductAttachment } from './attachments';
 import type { NostrEvent } from './nostr';
 
+/**
+ * Listing status set by the seller
+ * 'available' listings still show as sold out once every tracked stock count reaches 0
+ */
+export type ProductAvailability = 'available' | 'reserved' | 'sold-out';
+
+/**
+ * How a buyer can receive the product
+ */
+export type ProductDeliveryMethod = 'shipping' | 'local-pickup' | 'digital';
+
+/**
+ * Shipping cost and delivery estimate for one destination
+ * destination is 'worldwide', a region id or a country id (src/config/contributions.ts)
+ */
+export interface ShippingZone {
+  id: string;
+  destination: string;
+  cost: number; // In the product currency
+  minDays: number | null;
+  maxDays: number | null;
+}
+
+/**
+ * Deliverable file of a digital product
+ * The file on Blossom is encrypted, so its URL can be public; the file key is
+ * NIP-44 encrypted to the seller and only sent to buyers of paid orders
+ */
+export interface ProductDeliverable {
+  url: string;
+  hash: string; // SHA-256 of the encrypted file
+  name: string;
+  mimeType: string;
+  size: number; // Original size in bytes
+  encryptedKey: string;
+}
+
+/**
+ * Product variant (size, colour, ...) with its own price and stock
+ */
+export interface ProductVariant {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number | null; // null = stock not tracked
+}
+
 /**
  * Product form data interface
  * Maps to ProductForm fields
@@ -18,11 +65,24 @@ export interface ProductData {
   location: string;
   contact: string; // Nostr npub or contact method
   
+  // Inventory
+  availability: ProductAvailability;
+  quantity: number | null; // Stock without variants (null = not tracked)
+  variants: ProductVariant[];
+  
+  // Delivery
+  deliveryMethods: ProductDeliveryMethod[];
+  shippingZones: ShippingZone[]; // Only used with 'shipping'
+  deliverable: ProductDeliverable | null; // Only used with 'digital'
+  
   // Media & Attachments
   attachments: ProductAttachment[];
   
   // Tags & Keywords
   tags: string[];
+
+  // Listing lifetime (NIP-40)
+  expiresAt: number | null; // Unix seconds (null = never expires)
 }
 
 /**
@@ -40,7 +100,14 @@ export interface ProductNostrEvent extends NostrEvent {
     ['condition', string],
     ['location', string],
     ['contact', string],
+    ['status', ProductAvailability],
     ...Array<
+      | ['quantity', string] // Stock (only when tracked)
+      | ['variant', string, string, string, string] // id, name, price, quantity ('' = not tracked)
+      | ['delivery', ProductDeliveryMethod]
+      | ['shipping', string, string, string, string, string] // id, destination, cost, min days, max days ('' = unknown)
+      | ['deliverable', string, string, string, string, string, string] // url, hash, name, mime type, size, encrypted key
+      | ['expiration', string] // NIP-40 unix timestamp
       | ['t', string] // User tags
       | ['image', string] // Media URLs
       | ['video', string]
@@ -51,11 +118,18 @@ export interface ProductNostrEvent extends NostrEvent {
   content: string; // JSON stringified description
 }
 
+/**
+ * Event kinds a product can be read from
+ * 30023 = native listing, 30402 = NIP-99 classified, 30018 = NIP-15 stall product
+ */
+export type ProductKind = 30023 | 30402 | 30018;
+
 /**
  * Product event from relay (parsed)
  */
 export interface ProductEvent {
   id: string;
+  kind: ProductKind;
   dTag: string;
   pubkey: string;
   title: string;
@@ -67,6 +141,12 @@ export interface ProductEvent {
   condition: string;
   location: string;
   contact: string;
+  availability: ProductAvailability;
+  quantity: number | null;
+  variants: ProductVariant[];
+  deliveryMethods: ProductDeliveryMethod[]; // Empty = not specified (older or foreign listings)
+  shippingZones: ShippingZone[];
+  deliverable: ProductDeliverable | null;
   tags: string[];
   media: {
     images: MediaAttachment[];
@@ -75,6 +155,7 @@ export interface ProductEvent {
   };
   createdAt: number;
   publishedAt: number;
+  expiresAt: number | null; // NIP-40 expiration (null = never expires)
 }
 
 /**
@@ -82,6 +163,7 @@ export interface ProductEvent {
  */
 export interface ProductCardData {
   id: string;
+  kind: ProductKind;
   dTag: string;
   title: string;
   description: string;
@@ -90,10 +172,14 @@ export interface ProductCardData {
   category: string;
   condition: string;
   location: string;
+  availability: ProductAvailability; // Effective status (see getProductAvailability)
+  deliveryMethods: ProductDeliveryMethod[];
+  shippingZones: ShippingZone[];
   imageUrl?: string; // First media URL
   tags: string[];
   pubkey: string; // Author for ownership check
   createdAt: number;
+  expiresAt: number | null;
 }
 
 /**
@@ -175,8 +261,14 @@ export interface ProductValidationResult {
     condition?: string;
     location?: string;
     contact?: string;
+    availability?: string;
+    quantity?: string;
+    variants?: string;
+    deliveryMethods?: string;
+    shippingZones?: string;
     attachments?: string;
     tags?: string;
+    expiresAt?: string;
   };
 }
 
@@ -195,6 +287,66 @@ export interface MediaAttachment {
   };
 }
 
+/**
+ * Marketplace listing mirrored to other Nostr marketplace clients
+ * Source for the NIP-99 (Kind 30402) and NIP-15 (Kind 30018) versions of a product
+ */
+export interface MarketplaceListingData {
+  dTag: string;
+  title: string;
+  description: string;
+  price: number;
+  currency: string;
+  category: string;
+  condition: string;
+  location: string;
+  availability: ProductAvailability;
+  quantity: number | null; // Total stock (null = not tracked)
+  deliveryMethods: ProductDeliveryMethod[];
+  shippingZones: ShippingZone[];
+  tags: string[];
+  imageUrls: string[];
+  publishedAt: number;
+  expiresAt: number | null;
+}
+
+/**
+ * NIP-15 shipping zone (stall content)
+ */
+export interface Nip15ShippingZone {
+  id: string;
+  name?: string;
+  cost: number;
+  regions?: string[];
+}
+
+/**
+ * NIP-15 stall content (Kind 30017)
+ */
+export interface Nip15StallContent {
+  id: string;
+  name: string;
+  description?: string;
+  currency: string;
+  shipping: Nip15ShippingZone[];
+}
+
+/**
+ * NIP-15 product content (Kind 30018)
+ */
+export interface Nip15ProductContent {
+  id: string;
+  stall_id: string;
+  name: string;
+  description?: string;
+  images?: string[];
+  currency?: string;
+  price: number;
+  quantity: number | null;
+  specs?: Array<[string, string]>;
+  shipping?: Array<{ id: string; cost: number }>;
+}
+
 // ============================================================================
 // CONSTANTS & HELPERS
 // ============================================================================
@@ -213,6 +365,13 @@ export const PRODUCT_TAG_KEYS = {
   CONDITION: 'condition', // Product condition
   LOCATION: 'location', // Location/region
   CONTACT: 'contact',   // Contact method
+  STATUS: 'status',     // Availability
+  QUANTITY: 'quantity', // Stock count
+  VARIANT: 'variant',   // Variant: id, name, price, quantity
+  DELIVERY: 'delivery', // Delivery method
+  SHIPPING: 'shipping', // Shipping zone: id, destination, cost, min days, max days
+  DELIVERABLE: 'deliverable', // Encrypted file: url, hash, name, mime type, size, encrypted key
+  EXPIRATION: 'expiration', // NIP-40 expiration timestamp
   USER_TAG: 't',        // User-defined tag
   IMAGE: 'image',       // Image URL
   VIDEO: 'video',       // Video URL
@@ -280,6 +439,23 @@ export function getProductDTag(event: ProductEvent): string {
   return event.dTag;
 }
 
+/**
+ * Product page path: native listings by d tag, NIP-99 / NIP-15 listings by their
+ * kind:pubkey:d address since other clients' d tags are only unique per author
+ */
+export function getProductPath(product: Pick<ProductEvent, 'kind' | 'pubkey' | 'dTag'>): string {
+  const id = product.kind === 30023 ? product.dTag : `${product.kind}:${product.pubkey}:${product.dTag}`;
+  return `/shop/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Product page path from a "<kind>:<pubkey>:<d tag>" address (cart and order items)
+ */
+export function getProductPathFromAddress(address: string): string {
+  const [kind, pubkey, ...dTagParts] = address.split(':');
+  return getProductPath({ kind: Number(kind) as ProductKind, pubkey, dTag: dTagParts.join(':') });
+}
+
 /**
  * Helper to format product price with currency
  */
@@ -287,18 +463,45 @@ export function formatProductPrice(price: number, currency: string): string {
   if (currency === 'BTC') {
     return `₿${price.toFixed(8)}`;
   } else if (currency === 'sats') {
-    return `${price.toLocaleString()} sats`;
-  } else {
-    // USD and other fiat
+    return `${Math.round(price).toLocaleString()} sats`;
+  }
+
+  // Fiat - fraction digits follow the currency (2 for USD, 0 for JPY, ...)
+  try {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: currency === 'USD' ? 'USD' : 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      currency: currency.toUpperCase(),
     }).format(price);
+  } catch {
+    // Not an ISO 4217 code
+    return `${price.toLocaleString()} ${currency}`;
   }
 }
 
+/**
+ * Effective availability of a product
+ * Tracked stock at 0 (on the product, or on every variant) means sold out
+ */
+export function getProductAvailability(
+  product: Pick<ProductEvent, 'availability' | 'quantity' | 'variants'>
+): ProductAvailability {
+  if (product.availability !== 'available') return product.availability;
+
+  const soldOut = product.variants.length > 0
+    ? product.variants.every(variant => variant.quantity === 0)
+    : product.quantity === 0;
+  return soldOut ? 'sold-out' : 'available';
+}
+
+/**
+ * Total tracked stock of a product (null when any part is not tracked)
+ */
+export function getProductStock(product: Pick<ProductEvent, 'quantity' | 'variants'>): number | null {
+  if (product.variants.length === 0) return product.quantity;
+  if (product.variants.some(variant => variant.quantity === null)) return null;
+  return product.variants.reduce((total, variant) => total + (variant.quantity ?? 0), 0);
+}
+
 /**
  * Helper to get product media count
  */
@@ -317,3 +520,39 @@ export function hasProductMedia(product: ProductEvent): boolean {
   return getProductMediaCount(product) > 0;
 }
 
+
+/**
+ * Shipping zone covering a country - the most specific one wins (country, then region, then worldwide)
+ */
+export function getShippingZoneFor(
+  zones: ShippingZone[],
+  country: { id: string; region: string }
+): ShippingZone | undefined {
+  return zones.find(zone => zone.destination === country.id)
+    || zones.find(zone => zone.destination === country.region)
+    || zones.find(zone => zone.destination === 'worldwide');
+}
+
+/**
+ * Whether a buyer in the country can receive the product (digital items reach everyone)
+ */
+export function shipsToCountry(
+  product: Pick<ProductEvent, 'deliveryMethods' | 'shippingZones'>,
+  country: { id: string; region: string }
+): boolean {
+  if (product.deliveryMethods.includes('digital')) return true;
+  return product.deliveryMethods.includes('shipping') && !!getShippingZoneFor(product.shippingZones, country);
+}
+
+/**
+ * "3-7 days" style delivery estimate, or null when the seller gave none
+ */
+export function formatDeliveryEstimate(zone: Pick<ShippingZone, 'minDays' | 'maxDays'>): string | null {
+  const { minDays, maxDays } = zone;
+  if (minDays !== null && maxDays !== null) {
+    return minDays === maxDays ? `${maxDays} day${maxDays === 1 ? '' : 's'}` : `${minDays}-${maxDays} days`;
+  }
+  if (maxDays !== null) return `Up to ${maxDays} day${maxDays === 1 ? '' : 's'}`;
+  if (minDays !== null) return `${minDays}+ days`;
+  return null;
+}
@@ -0,0 +1,70 @@
+/**
+ * Talent Types
+ * A talent profile is the freelancer side of Work: one Kind 30023 event per user
+ * (fixed d tag, so republishing replaces it) with the bio as content and
+ * structured tags:
+ * - ['skill', <WORK_CATEGORIES id>] (one per skill)
+ * - ['rate', <amount>, <currency>, 'hour'] (optional hourly rate)
+ * - ['language', <ISO 639-1 code>] (one per language)
+ * - ['timezone', <IANA time zone>]
+ * - ['availability', 'available' | 'limited' | 'unavailable']
+ * - ['portfolio', <url>, <title>, <description?>] (one per item)
+ */
+
+export const TALENT_SYSTEM_TAG = 'nostr-for-nomads-talent';
+export const TALENT_PROFILE_D_TAG = 'nostr-for-nomads-talent-profile';
+
+export const MAX_TALENT_HEADLINE_LENGTH = 100;
+export const MAX_TALENT_BIO_LENGTH = 5000;
+export const MAX_TALENT_PORTFOLIO_ITEMS = 10;
+
+export type TalentAvailability = 'available' | 'limited' | 'unavailable';
+
+export interface TalentPortfolioItem {
+  url: string;
+  title: string;
+  description?: string;
+}
+
+export interface TalentRate {
+  amount: number;
+  currency: string; // WORK_CURRENCIES id (btc, sats, usd)
+}
+
+export interface TalentProfile {
+  id: string;
+  pubkey: string;
+  headline: string;
+  bio: string;
+  skills: string[]; // WORK_CATEGORIES ids
+  hourlyRate?: TalentRate;
+  languages: string[]; // ISO 639-1 codes
+  timeZone: string;
+  availability: TalentAvailability;
+  portfolio: TalentPortfolioItem[];
+  createdAt: number;
+}
+
+/**
+ * Talent profile form values
+ */
+export interface TalentProfileData {
+  headline: string;
+  bio: string;
+  skills: string[];
+  rateAmount: string;
+  rateCurrency: string;
+  languages: string[];
+  timeZone: string;
+  availability: TalentAvailability;
+  portfolio: TalentPortfolioItem[];
+}
+
+export interface TalentFilters {
+  searchTerm: string;
+  skill: string;
+  language: string;
+  availability: string;
+  timeZoneRegion: string;
+  sortBy: 'newest' | 'rate-asc' | 'rate-desc';
+}
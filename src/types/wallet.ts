@@ -0,0 +1,60 @@
+/**
+ * Nostr Wallet Connect Types (NIP-47)
+ * Requests (Kind 23194) are signed with the connection secret and sent to the wallet
+ * service over its relay; the wallet answers with encrypted responses (Kind 23195).
+ */
+
+/**
+ * Parsed nostr+walletconnect:// URI
+ */
+export interface NwcConnection {
+  walletPubkey: string;
+  relays: string[];
+  secret: string; // Hex secret key the app signs requests with
+  lud16?: string; // Wallet's lightning address, if provided
+}
+
+export type NwcMethod = 'pay_invoice' | 'get_balance' | 'make_invoice' | 'list_transactions' | 'get_info';
+
+export type NwcEncryption = 'nip44_v2' | 'nip04';
+
+/**
+ * Wallet service info event (Kind 13194)
+ */
+export interface NwcWalletInfo {
+  methods: string[];
+  encryption: NwcEncryption;
+}
+
+export interface WalletTransaction {
+  type: 'incoming' | 'outgoing';
+  invoice?: string;
+  description?: string;
+  paymentHash: string;
+  amountSats: number;
+  feesPaidSats: number;
+  createdAt: number; // Unix seconds
+  settledAt?: number; // Unix seconds
+}
+
+export interface WalletInvoice {
+  invoice: string;
+  paymentHash: string;
+  amountSats: number;
+  expiresAt?: number; // Unix seconds
+}
+
+export interface WalletPayment {
+  preimage: string;
+  feesPaidSats: number;
+}
+
+/**
+ * Connected wallet as shown in the UI (never includes the secret)
+ */
+export interface WalletSummary {
+  walletPubkey: string;
+  relays: string[];
+  lud16?: string;
+  methods: string[];
+}
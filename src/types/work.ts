@@ -6,6 +6,22 @@ import type { NostrEvent } from './nostr';
  * Focused on freelance/gig job postings
  */
 
+/**
+ * How often a Work compensation amount is paid
+ */
+export type WorkPayPeriod = 'hourly' | 'daily' | 'monthly' | 'fixed';
+
+/**
+ * Work compensation
+ * Either a single amount or a range (amount to maxAmount) per period
+ */
+export interface WorkCompensation {
+  amount: number; // Single amount, or the low end of a range
+  maxAmount?: number; // High end of a range
+  currency?: string; // WORK_CURRENCIES id (btc, sats, usd) - missing on legacy events that only gave a period
+  period: WorkPayPeriod;
+}
+
 /**
  * Work form data interface
  * Maps to the WorkForm fields
@@ -25,8 +41,7 @@ export interface WorkData {
   country: string;
 
   // Section 3: Compensation
-  payRate: number;
-  currency: string; // 'BTC', 'sats', 'USD', 'per hour', 'per day', 'per project'
+  compensation: WorkCompensation;
 
   // Section 4: Media & Attachments
   attachments: GenericAttachment[];
@@ -36,6 +51,9 @@ export interface WorkData {
 
   // Section 6: Contact (optional - defaults to Nostr DMs)
   contact?: string;
+
+  // Listing lifetime (NIP-40, unix seconds - null = never expires)
+  expiresAt: number | null;
 }
 
 /**
@@ -53,12 +71,16 @@ export interface WorkNostrEvent extends NostrEvent {
     ['duration', string],
     ['region', string],
     ['country', string],
-    ['pay-rate', string], // Maps to payRate (as string)
-    ['currency', string],
+    ['pay-currency', string],
+    ['pay-period', WorkPayPeriod],
     ...Array<
+      | ['pay-amount', string] // Single amount
+      | ['pay-min', string] // Range (instead of pay-amount)
+      | ['pay-max', string]
       | ['language', string]
       | ['location', string] // City/place
       | ['contact', string] // Optional contact info
+      | ['expiration', string] // NIP-40 unix timestamp
       | ['t', string] // User tags
       | ['image', string] // Media URLs
       | ['video', string]
@@ -80,11 +102,11 @@ export interface WorkEventData {
   region: string;
   country: string;
   description: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation;
   language?: string;
   location?: string;
   contact?: string;
+  expiresAt: number | null;
   tags: string[];
   attachments: GenericAttachment[];
 }
@@ -163,12 +185,15 @@ export interface WorkValidationResult {
     jobType?: string;
     description?: string;
     duration?: string;
-    payRate?: string;
-    currency?: string;
+    payAmount?: string;
+    payMaxAmount?: string;
+    payCurrency?: string;
+    payPeriod?: string;
     region?: string;
     country?: string;
     attachments?: string;
     tags?: string;
+    expiresAt?: string;
   };
 }
 
@@ -185,8 +210,7 @@ export interface Work {
   region: string;
   country: string;
   description: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   language?: string;
   location?: string;
   contact?: string;
@@ -199,6 +223,7 @@ export interface Work {
   };
   createdAt: number;
   updatedAt?: number;
+  expiresAt: number | null;
   relays?: string[];
 }
 
@@ -214,8 +239,7 @@ export interface WorkCardData {
   category: string;
   jobType: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   location?: string;
   region: string;
   country?: string;
@@ -223,6 +247,7 @@ export interface WorkCardData {
   tags: string[];
   pubkey: string;
   createdAt: number;
+  expiresAt: number | null;
 }
 
 /**
@@ -239,8 +264,7 @@ export interface WorkEvent {
   category: string;
   jobType: string;
   duration: string;
-  payRate: number;
-  currency: string;
+  compensation: WorkCompensation | null;
   language?: string;
   location?: string;
   region: string;
@@ -254,6 +278,7 @@ export interface WorkEvent {
   };
   createdAt: number;
   publishedAt: number;
+  expiresAt: number | null;
 }
 
 /**
@@ -268,11 +293,15 @@ export const WORK_TAG_KEYS = {
   DURATION: 'duration',
   REGION: 'region',
   COUNTRY: 'country',
-  PAY_RATE: 'pay-rate',
-  CURRENCY: 'currency',
+  PAY_AMOUNT: 'pay-amount',
+  PAY_MIN: 'pay-min',
+  PAY_MAX: 'pay-max',
+  PAY_CURRENCY: 'pay-currency',
+  PAY_PERIOD: 'pay-period',
   LANGUAGE: 'language',
   LOCATION: 'location',
   CONTACT: 'contact',
+  EXPIRATION: 'expiration',
   USER_TAG: 't',
   IMAGE: 'image',
   VIDEO: 'video',
@@ -284,6 +313,67 @@ export const WORK_TAG_KEYS = {
  */
 export const WORK_SYSTEM_TAG = 'nostr-for-nomads-work';
 
+const WORK_PAY_PERIODS: WorkPayPeriod[] = ['hourly', 'daily', 'monthly', 'fixed'];
+
+// Legacy events put either a currency or a rate unit in their 'currency' tag
+const LEGACY_PAY_PERIODS: Record<string, WorkPayPeriod> = {
+  'per-hour': 'hourly',
+  'per-day': 'daily',
+  'per-project': 'fixed',
+};
+
+/**
+ * Compensation tags of a work event:
+ * ['pay-amount'] or ['pay-min'] + ['pay-max'], then ['pay-currency'] and ['pay-period']
+ */
+export const createWorkCompensationTags = (compensation: WorkCompensation): string[][] => {
+  const amountTags = compensation.maxAmount !== undefined
+    ? [
+        [WORK_TAG_KEYS.PAY_MIN, compensation.amount.toString()],
+        [WORK_TAG_KEYS.PAY_MAX, compensation.maxAmount.toString()],
+      ]
+    : [[WORK_TAG_KEYS.PAY_AMOUNT, compensation.amount.toString()]];
+
+  return [
+    ...amountTags,
+    ...(compensation.currency ? [[WORK_TAG_KEYS.PAY_CURRENCY, compensation.currency]] : []),
+    [WORK_TAG_KEYS.PAY_PERIOD, compensation.period],
+  ];
+};
+
+/**
+ * Read the compensation of a work event, or null when it has none
+ * Events published before the structured tags only have ['pay-rate', amount] and a
+ * ['currency', ...] tag holding either a currency ('BTC', 'sats', 'USD' - read as a
+ * fixed amount) or a rate unit ('per-hour', 'per-day', 'per-project' - with no currency).
+ */
+export const parseWorkCompensation = (tags: string[][]): WorkCompensation | null => {
+  const getTag = (key: string): string | undefined => tags.find(t => t[0] === key)?.[1];
+
+  const period = getTag(WORK_TAG_KEYS.PAY_PERIOD) as WorkPayPeriod | undefined;
+  if (period && WORK_PAY_PERIODS.includes(period)) {
+    const amount = parseFloat(getTag(WORK_TAG_KEYS.PAY_AMOUNT) ?? getTag(WORK_TAG_KEYS.PAY_MIN) ?? '');
+    const maxAmount = parseFloat(getTag(WORK_TAG_KEYS.PAY_MAX) ?? '');
+    if (isNaN(amount)) return null;
+
+    return {
+      amount,
+      maxAmount: maxAmount > amount ? maxAmount : undefined,
+      currency: getTag(WORK_TAG_KEYS.PAY_CURRENCY)?.toLowerCase(),
+      period,
+    };
+  }
+
+  const legacyAmount = parseFloat(getTag('pay-rate') ?? '');
+  const legacyCurrency = getTag('currency')?.toLowerCase();
+  if (isNaN(legacyAmount) || !legacyCurrency) return null;
+
+  const legacyPeriod = LEGACY_PAY_PERIODS[legacyCurrency];
+  return legacyPeriod
+    ? { amount: legacyAmount, period: legacyPeriod }
+    : { amount: legacyAmount, currency: legacyCurrency, period: 'fixed' };
+};
+
 /**
  * Helper to extract work data from Nostr event
  */
@@ -306,15 +396,9 @@ export const parseWorkEvent = (event: NostrEvent): Work | null => {
     const duration = getTag('duration');
     const region = getTag('region');
     const country = getTag('country');
-    const payRateStr = getTag('pay-rate');
-    const currency = getTag('currency');
-
-    if (!dTag || !title || !category || !jobType || !duration || !region || !country || !payRateStr || !currency) {
-      return null;
-    }
+    const compensation = parseWorkCompensation(tags);
 
-    const payRate = parseFloat(payRateStr);
-    if (isNaN(payRate)) {
+    if (!dTag || !title || !category || !jobType || !duration || !region || !country || !compensation) {
       return null;
     }
 
@@ -345,8 +429,7 @@ export const parseWorkEvent = (event: NostrEvent): Work | null => {
       duration,
       region,
       country,
-      payRate,
-      currency,
+      compensation,
       description,
       language: getTag('language'),
       location: getTag('location'),
@@ -357,6 +440,7 @@ export const parseWorkEvent = (event: NostrEvent): Work | null => {
         pubkey: event.pubkey,
       },
       createdAt: event.created_at,
+      expiresAt: parseInt(getTag('expiration') || '', 10) || null, // NIP-40
       relays: [], // Will be populated by business service
     };
   } catch (error) {
@@ -382,11 +466,11 @@ export interface WorkCustomFields extends Record<string, unknown> {
   category?: string;
   jobType?: string;
   duration?: string;
-  payRate?: number;
-  currency?: string;
+  compensation?: WorkCompensation;
   region?: string;
   country?: string;
   language?: string;
   location?: string;
   contact?: string;
+  expiresAt?: number | null;
 }
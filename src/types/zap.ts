@@ -0,0 +1,53 @@
+/**
+ * Lightning Zap Types (NIP-57)
+ * Zap requests (Kind 9734) are signed by the sender and handed to the recipient's
+ * LNURL-pay server; zap receipts (Kind 9735) are published by that server once paid.
+ */
+
+/**
+ * LNURL-pay endpoint (LUD-06) resolved from a profile's lud16 / lud06
+ */
+export interface LnurlPayEndpoint {
+  callback: string;
+  minSendable: number; // millisats
+  maxSendable: number; // millisats
+  commentAllowed: number; // Max comment length (0 = no comments)
+  allowsNostr: boolean; // Server publishes NIP-57 zap receipts
+  nostrPubkey?: string; // Pubkey that signs the server's zap receipts
+  lnurl?: string; // Bech32 LNURL, when the profile used lud06
+}
+
+/**
+ * Addressable event being zapped (products, work, contributions: 30023; meetups: 31923)
+ */
+export interface ZapTarget {
+  eventId: string;
+  pubkey: string; // Recipient (event author)
+  kind: number;
+  dTag: string;
+}
+
+export interface ZapReceipt {
+  id: string; // Kind 9735 event id
+  requestId: string; // Embedded Kind 9734 zap request id
+  senderPubkey: string; // Zap request author (or receipt pubkey if the request was anonymous)
+  amountSats: number;
+  comment: string;
+  paidAt: number; // Unix seconds
+}
+
+export interface ZapSummary {
+  totalSats: number;
+  count: number;
+  receipts: ZapReceipt[]; // Newest first
+}
+
+/**
+ * Invoice ready to be paid for a zap
+ */
+export interface ZapInvoice {
+  bolt11: string;
+  amountSats: number;
+  receiptsSupported: boolean; // false when the recipient's server doesn't publish NIP-57 receipts
+  zapRequestId?: string;
+}
@@ -62,3 +62,38 @@ export function formatDateTime(timestamp: number, locale: string = 'en-US'): str
     minute: '2-digit',
   });
 }
+
+/**
+ * Check whether a NIP-40 expiration has passed
+ * 
+ * @param expiresAt - Unix timestamp in seconds (null = never expires)
+ * @returns True when the timestamp is in the past
+ */
+export function isExpired(expiresAt: number | null | undefined): boolean {
+  return !!expiresAt && expiresAt <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Format timestamp for a date input (YYYY-MM-DD, local time)
+ * 
+ * @param timestamp - Unix timestamp in seconds, or null
+ * @returns Date input value ('' when no timestamp)
+ */
+export function toDateInputValue(timestamp: number | null | undefined): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a date input value as the end of that day (local time)
+ * 
+ * @param value - Date input value (YYYY-MM-DD)
+ * @returns Unix timestamp in seconds, or null when empty or invalid
+ */
+export function fromDateInputValue(value: string): number | null {
+  if (!value) return null;
+  const date = new Date(`${value}T23:59:59`);
+  return isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+}
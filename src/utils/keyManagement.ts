@@ -64,6 +64,10 @@ export function decodeNsec(nsec: string): string {
   }
 }
 
+export function encodeNpub(pubkey: string): string {
+  return nip19.npubEncode(pubkey);
+}
+
 export function decodeNpub(npub: string): string {
   try {
     const decoded = nip19.decode(npub);
@@ -0,0 +1,34 @@
+import { bech32 } from '@scure/base';
+
+/**
+ * LNURL helpers (LUD-01 bech32 LNURLs and LUD-16 lightning addresses)
+ */
+
+/**
+ * Decode a bech32 LNURL (lnurl1...) to its https URL
+ * Returns null for anything that isn't a valid LNURL
+ */
+export function decodeLnurl(lnurl: string): string | null {
+  const value = lnurl.trim().toLowerCase().replace(/^lightning:/, '');
+  if (!value.startsWith('lnurl1')) return null;
+
+  try {
+    // LNURLs are longer than bech32's 90 character limit
+    const { words } = bech32.decode(value, 1500);
+    const url = new TextDecoder().decode(bech32.fromWords(words));
+    return /^https?:\/\//.test(url) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * LNURL-pay URL for a lightning address (name@domain)
+ */
+export function lightningAddressToUrl(address: string): string | null {
+  const [name, domain] = address.trim().toLowerCase().split('@');
+  if (!name || !domain || !/^[a-z0-9._-]+$/.test(name) || !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain)) {
+    return null;
+  }
+  return `https://${domain}/.well-known/lnurlp/${name}`;
+}
@@ -0,0 +1,310 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+/**
+ * Negentropy set reconciliation (protocol version 1), client side only.
+ * Used by NIP-77 (NEG-OPEN / NEG-MSG) to find which event ids a relay has
+ * that we don't (and vice versa) without transferring the full id lists.
+ *
+ * Spec: https://github.com/hoytech/negentropy/blob/master/docs/negentropy-protocol-v1.md
+ */
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+const BUCKETS = 16;
+const INFINITY = Number.MAX_VALUE;
+
+const MODE_SKIP = 0;
+const MODE_FINGERPRINT = 1;
+const MODE_ID_LIST = 2;
+
+export interface NegentropyItem {
+  id: string; // Event id (hex)
+  createdAt: number;
+}
+
+interface Bound {
+  timestamp: number;
+  id: Uint8Array; // Full id or a prefix
+}
+
+interface StoredItem {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+export interface NegentropyRoundResult {
+  nextMessage: string | null; // null when reconciliation is complete
+  haveIds: string[];          // We have, relay doesn't
+  needIds: string[];          // Relay has, we don't
+}
+
+export class Negentropy {
+  private items: StoredItem[];
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(items: NegentropyItem[]) {
+    this.items = items
+      .map(item => ({ timestamp: item.createdAt, id: hexToBytes(item.id) }))
+      .sort(compareItems);
+  }
+
+  /**
+   * First message to send with NEG-OPEN
+   */
+  public initiate(): string {
+    this.lastTimestampOut = 0;
+    const output: number[] = [PROTOCOL_VERSION];
+    this.splitRange(0, this.items.length, { timestamp: INFINITY, id: new Uint8Array(0) }, output);
+    return bytesToHex(Uint8Array.from(output));
+  }
+
+  /**
+   * Process a NEG-MSG from the relay and build our reply
+   */
+  public reconcile(message: string): NegentropyRoundResult {
+    const query = new Reader(hexToBytes(message));
+    const haveIds: string[] = [];
+    const needIds: string[] = [];
+    const output: number[] = [PROTOCOL_VERSION];
+
+    this.lastTimestampIn = 0;
+    this.lastTimestampOut = 0;
+
+    const version = query.byte();
+    if (version !== PROTOCOL_VERSION) {
+      throw new Error(`Unsupported negentropy protocol version: ${version.toString(16)}`);
+    }
+
+    let prevBound: Bound = { timestamp: 0, id: new Uint8Array(0) };
+    let prevIndex = 0;
+    let skip = false;
+
+    while (!query.done()) {
+      const out: number[] = [];
+      const flushSkip = () => {
+        if (!skip) return;
+        skip = false;
+        this.encodeBound(prevBound, out);
+        out.push(...encodeVarInt(MODE_SKIP));
+      };
+
+      const currBound = this.decodeBound(query);
+      const mode = query.varInt();
+      const lower = prevIndex;
+      const upper = this.findLowerBound(prevIndex, this.items.length, currBound);
+
+      if (mode === MODE_SKIP) {
+        skip = true;
+      } else if (mode === MODE_FINGERPRINT) {
+        const theirs = query.bytes(FINGERPRINT_SIZE);
+        if (compareBytes(theirs, this.fingerprint(lower, upper)) !== 0) {
+          flushSkip();
+          this.splitRange(lower, upper, currBound, out);
+        } else {
+          skip = true;
+        }
+      } else if (mode === MODE_ID_LIST) {
+        const count = query.varInt();
+        const theirIds = new Set<string>();
+        for (let i = 0; i < count; i++) {
+          theirIds.add(bytesToHex(query.bytes(ID_SIZE)));
+        }
+
+        skip = true;
+        for (let i = lower; i < upper; i++) {
+          const id = bytesToHex(this.items[i].id);
+          if (theirIds.has(id)) {
+            theirIds.delete(id);
+          } else {
+            haveIds.push(id);
+          }
+        }
+        needIds.push(...theirIds);
+      } else {
+        throw new Error(`Unexpected negentropy mode: ${mode}`);
+      }
+
+      output.push(...out);
+      prevIndex = upper;
+      prevBound = currBound;
+    }
+
+    return {
+      nextMessage: output.length === 1 ? null : bytesToHex(Uint8Array.from(output)),
+      haveIds,
+      needIds,
+    };
+  }
+
+  private splitRange(lower: number, upper: number, upperBound: Bound, out: number[]): void {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      this.encodeBound(upperBound, out);
+      out.push(...encodeVarInt(MODE_ID_LIST), ...encodeVarInt(count));
+      for (let i = lower; i < upper; i++) {
+        out.push(...this.items[i].id);
+      }
+      return;
+    }
+
+    const perBucket = Math.floor(count / BUCKETS);
+    const withExtra = count % BUCKETS;
+    let curr = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const size = perBucket + (i < withExtra ? 1 : 0);
+      const fingerprint = this.fingerprint(curr, curr + size);
+      curr += size;
+
+      const nextBound = curr === upper
+        ? upperBound
+        : minimalBound(this.items[curr - 1], this.items[curr]);
+
+      this.encodeBound(nextBound, out);
+      out.push(...encodeVarInt(MODE_FINGERPRINT), ...fingerprint);
+    }
+  }
+
+  /**
+   * SHA-256 over the 256-bit little-endian sum of ids plus the element count, truncated
+   */
+  private fingerprint(lower: number, upper: number): Uint8Array {
+    const sum = new Uint8Array(ID_SIZE);
+    for (let i = lower; i < upper; i++) {
+      let carry = 0;
+      const id = this.items[i].id;
+      for (let j = 0; j < ID_SIZE; j++) {
+        const next = sum[j] + id[j] + carry;
+        sum[j] = next & 0xff;
+        carry = next >> 8;
+      }
+    }
+
+    const input = new Uint8Array([...sum, ...encodeVarInt(upper - lower)]);
+    return sha256(input).subarray(0, FINGERPRINT_SIZE);
+  }
+
+  private findLowerBound(begin: number, end: number, bound: Bound): number {
+    let low = begin;
+    let high = end;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareItems(this.items[mid], bound) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private encodeBound(bound: Bound, out: number[]): void {
+    if (bound.timestamp === INFINITY) {
+      this.lastTimestampOut = INFINITY;
+      out.push(...encodeVarInt(0));
+    } else {
+      const delta = bound.timestamp - this.lastTimestampOut;
+      this.lastTimestampOut = bound.timestamp;
+      out.push(...encodeVarInt(delta + 1));
+    }
+    out.push(...encodeVarInt(bound.id.length), ...bound.id);
+  }
+
+  private decodeBound(reader: Reader): Bound {
+    const encoded = reader.varInt();
+    let timestamp = encoded === 0 ? INFINITY : encoded - 1;
+
+    if (this.lastTimestampIn === INFINITY || timestamp === INFINITY) {
+      this.lastTimestampIn = INFINITY;
+      timestamp = INFINITY;
+    } else {
+      timestamp += this.lastTimestampIn;
+      this.lastTimestampIn = timestamp;
+    }
+
+    const length = reader.varInt();
+    if (length > ID_SIZE) {
+      throw new Error('Negentropy bound key too long');
+    }
+    return { timestamp, id: reader.bytes(length) };
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Uint8Array) {}
+
+  done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  byte(): number {
+    if (this.done()) throw new Error('Negentropy message ends prematurely');
+    return this.buffer[this.offset++];
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buffer.length) throw new Error('Negentropy message ends prematurely');
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  varInt(): number {
+    let result = 0;
+    for (;;) {
+      const byte = this.byte();
+      result = result * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) return result;
+    }
+  }
+}
+
+function encodeVarInt(value: number): number[] {
+  if (value === 0) return [0];
+
+  const digits: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    digits.push(remaining % 128);
+    remaining = Math.floor(remaining / 128);
+  }
+  digits.reverse();
+  for (let i = 0; i < digits.length - 1; i++) {
+    digits[i] |= 0x80;
+  }
+  return digits;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function compareItems(a: StoredItem | Bound, b: StoredItem | Bound): number {
+  if (a.timestamp === b.timestamp) return compareBytes(a.id, b.id);
+  return a.timestamp < b.timestamp ? -1 : 1;
+}
+
+/**
+ * Shortest bound that sorts after prev and at or before curr
+ */
+function minimalBound(prev: StoredItem, curr: StoredItem): Bound {
+  if (curr.timestamp !== prev.timestamp) {
+    return { timestamp: curr.timestamp, id: new Uint8Array(0) };
+  }
+
+  let shared = 0;
+  while (shared < ID_SIZE && curr.id[shared] === prev.id[shared]) {
+    shared++;
+  }
+  return { timestamp: curr.timestamp, id: curr.id.subarray(0, shared + 1) };
+}
@@ -0,0 +1,61 @@
+import { NostrEvent, RelayListEntry } from '@/types/nostr';
+
+/**
+ * Normalize a relay URL for comparison and routing.
+ * Returns null for URLs we can't (or shouldn't) connect to from the browser:
+ * non-websocket schemes, plain ws://, localhost and onion addresses.
+ */
+export const normalizeRelayUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:') return null;
+
+    const host = parsed.hostname.toLowerCase();
+    if (host === 'localhost' || host.endsWith('.local') || host.endsWith('.onion') || host === '127.0.0.1') {
+      return null;
+    }
+
+    // Drop trailing slash so "wss://relay.damus.io/" and "wss://relay.damus.io" match
+    const path = parsed.pathname === '/' ? '' : parsed.pathname.replace(/\/+$/, '');
+    return `wss://${host}${parsed.port ? `:${parsed.port}` : ''}${path}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse a NIP-65 Kind 10002 relay list event.
+ * An 'r' tag without a marker means the relay is used for both reading and writing.
+ */
+export const parseRelayListEvent = (event: NostrEvent): RelayListEntry => {
+  const read: string[] = [];
+  const write: string[] = [];
+
+  event.tags
+    .filter(tag => tag[0] === 'r' && tag[1])
+    .forEach(tag => {
+      const url = normalizeRelayUrl(tag[1]);
+      if (!url) return;
+
+      const marker = tag[2];
+      if (marker !== 'write' && !read.includes(url)) read.push(url);
+      if (marker !== 'read' && !write.includes(url)) write.push(url);
+    });
+
+  return {
+    pubkey: event.pubkey,
+    read,
+    write,
+    createdAt: event.created_at,
+  };
+};
+
+/**
+ * Empty relay list used to cache "this pubkey has no Kind 10002"
+ */
+export const emptyRelayList = (pubkey: string): RelayListEntry => ({
+  pubkey,
+  read: [],
+  write: [],
+  createdAt: 0,
+});